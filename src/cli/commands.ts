@@ -0,0 +1,469 @@
+// CLI Commands - map shell commands and flags onto MCP tool arguments
+import { readFileSync, existsSync, statSync } from 'fs';
+import type { ToolName } from '../schemas/index.js';
+import { formatValidationIssue, type DomainValidationResult, type ScaffoldDomainResult } from '../domains/index.js';
+
+export type FlagType = 'string' | 'number' | 'list' | 'json' | 'file' | 'boolean';
+
+export interface FlagSpec {
+    arg: string;            // tool argument the flag maps to
+    type: FlagType;
+    description: string;
+    default?: () => string; // evaluated at run time, e.g. the working directory
+}
+
+export interface CommandSpec {
+    name: string;           // "threat-model", or "domains list" for subcommands
+    description: string;
+    tool: ToolName | ((flags: Record<string, unknown>) => ToolName);
+    positional?: { name: string; flag: FlagSpec };
+    flags: Record<string, FlagSpec>;
+    output: string;         // base file name used with --out
+    findings?: (result: unknown) => string[];   // printed to stderr; any finding exits with code 3
+    confirm?: ConfirmSpec;
+}
+
+/**
+ * In an interactive terminal, dry-run the tool first, show the preview and ask before the real run
+ */
+export interface ConfirmSpec {
+    dryRunArg: string;      // boolean tool argument that makes the tool change nothing
+    preview: (result: unknown) => string[];
+    question: string;
+}
+
+/**
+ * Invalid command line: reported with usage help and exit code 2
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+const cwd = () => process.cwd();
+
+const projectFlag: FlagSpec = {
+    arg: 'project_id',
+    type: 'string',
+    description: 'Stored project ID: read upstream phases from .ssdlc/ and save the result'
+};
+
+const workspaceFlag: FlagSpec = {
+    arg: 'workspace_root',
+    type: 'string',
+    description: 'Workspace root (default: current directory)',
+    default: cwd
+};
+
+const pipelineFlags: Record<string, FlagSpec> = {
+    description: { arg: 'project_description', type: 'string', description: 'Project description' },
+    goals: { arg: 'business_goals', type: 'list', description: 'Business goals: comma-separated, or a file with one per line' },
+    'tech-stack': { arg: 'tech_stack', type: 'list', description: 'Technologies: comma-separated, or a file with one per line' },
+    language: { arg: 'target_language', type: 'string', description: 'Pseudocode language' },
+    deploy: { arg: 'deployment_target', type: 'string', description: 'kubernetes, aws, azure, gcp or docker' },
+    compliance: { arg: 'compliance_requirements', type: 'list', description: 'Compliance frameworks, e.g. GDPR,PCI-DSS' },
+    'max-domains': { arg: 'max_domains', type: 'number', description: 'Compose up to this many detected domains (default: 1)' },
+    'min-confidence': { arg: 'min_domain_confidence', type: 'number', description: 'Ignore detected domains below this confidence (0-1)' },
+    'risk-scoring': { arg: 'risk_scoring', type: 'string', description: 'likelihood-impact, cvss-3.1, cvss-4.0, owasp or dread (default: likelihood-impact)' }
+};
+
+export const commands: CommandSpec[] = [
+    // Domains
+    {
+        name: 'domains list',
+        description: 'List available domain plugins',
+        tool: 'list_domains',
+        flags: {},
+        output: 'domains'
+    },
+    {
+        name: 'domains show',
+        description: 'Show a domain plugin',
+        tool: 'load_domain',
+        positional: { name: 'domain', flag: { arg: 'domain_name', type: 'string', description: 'Domain name' } },
+        flags: {},
+        output: 'domain'
+    },
+    {
+        name: 'domains detect',
+        description: 'Detect the domain of a project description',
+        tool: 'detect_domain',
+        positional: { name: 'description', flag: { arg: 'project_description', type: 'string', description: 'Project description' } },
+        flags: {
+            'max-domains': pipelineFlags['max-domains'],
+            'min-confidence': { arg: 'min_confidence', type: 'number', description: 'Ignore detected domains below this confidence (0-1)' }
+        },
+        output: 'domain'
+    },
+    {
+        name: 'domains validate',
+        description: 'Validate a domain plugin against the domain schemas (exit 3 on issues)',
+        tool: 'validate_domain',
+        positional: { name: 'domain', flag: { arg: 'domain', type: 'string', description: 'Domain name or path to a domain directory' } },
+        flags: {},
+        output: 'domain-validation',
+        findings: result => (result as DomainValidationResult).issues.map(formatValidationIssue)
+    },
+    {
+        name: 'domains scaffold',
+        description: 'Write domain.yaml, compliance.yaml and threats.yaml for a new domain into $SSDLC_DOMAINS_PATH or .ssdlc/domains (exit 3 on duplicate IDs)',
+        tool: 'scaffold_domain',
+        positional: { name: 'name', flag: { arg: 'name', type: 'string', description: 'Domain directory name' } },
+        flags: {
+            keywords: { arg: 'keywords', type: 'list', description: 'Detection keywords: comma-separated, or a file with one per line' },
+            regulations: { arg: 'regulations', type: 'list', description: 'Regulation names, e.g. GDPR,PCI-DSS' },
+            threats: { arg: 'threats', type: 'json', description: 'Sample threats: JSON file or inline JSON' },
+            extends: { arg: 'extends', type: 'list', description: 'Domains to build on' },
+            'display-name': { arg: 'display_name', type: 'string', description: 'Display name' },
+            description: { arg: 'description', type: 'string', description: 'Domain description' },
+            'dry-run': { arg: 'dry_run', type: 'boolean', description: 'Show the files and conflicts without writing' },
+            overwrite: { arg: 'overwrite', type: 'boolean', description: 'Replace an existing custom domain' },
+            yes: { arg: '', type: 'boolean', description: 'Do not ask before writing' }
+        },
+        output: 'domain-scaffold',
+        findings: result => (result as ScaffoldDomainResult).conflicts
+            .filter(conflict => conflict.blocking)
+            .map(conflict => `Blocked: ${conflict.message}`),
+        confirm: {
+            dryRunArg: 'dry_run',
+            preview: result => scaffoldPreview(result as ScaffoldDomainResult),
+            question: 'Write these files?'
+        }
+    },
+    {
+        name: 'domains stats',
+        description: 'Show domain registry load times and cache counters',
+        tool: 'get_domain_stats',
+        flags: {
+            warm: { arg: 'warm', type: 'boolean', description: 'Load every domain first' }
+        },
+        output: 'domain-stats'
+    },
+    {
+        name: 'domains coverage',
+        description: 'Show threats per STRIDE category, compliance counts and gaps for each domain, or diff two domains',
+        tool: 'domain_coverage_report',
+        flags: {
+            domains: { arg: 'domains', type: 'list', description: 'Domains to report on (default: all)' },
+            compare: { arg: 'compare', type: 'list', description: 'Two domains to diff; name@revision reads one from git, e.g. healthcare@HEAD~5,healthcare' },
+            'min-stride': { arg: 'min_stride_categories', type: 'number', description: 'Warn below this many STRIDE categories (default: 3)' }
+        },
+        output: 'domain-coverage'
+    },
+    {
+        name: 'compliance crosswalk',
+        description: 'Map controls of a compliance framework to equivalent controls in other frameworks',
+        tool: 'compliance_crosswalk',
+        positional: { name: 'framework', flag: { arg: 'framework', type: 'string', description: 'Framework name, e.g. HIPAA or PCI-DSS@4.0' } },
+        flags: {
+            control: { arg: 'control', type: 'string', description: 'Only this control and its sub-controls' },
+            target: { arg: 'target_framework', type: 'string', description: 'Map to this framework only and report its coverage' },
+            domain: { arg: 'domain', type: 'string', description: 'Only use maps_to from this domain' }
+        },
+        output: 'crosswalk'
+    },
+
+    // Roles
+    {
+        name: 'requirements',
+        description: 'Generate user stories, security requirements and abuse cases',
+        tool: 'ba_analyze_requirements',
+        flags: {
+            description: pipelineFlags.description,
+            goals: pipelineFlags.goals,
+            domain: { arg: 'domain_name', type: 'string', description: 'Domain (default: auto-detect)' },
+            project: projectFlag
+        },
+        output: 'requirements'
+    },
+    {
+        name: 'design',
+        description: 'Generate features, modules, pseudocode and diagrams',
+        tool: 'techlead_design',
+        flags: {
+            stories: { arg: 'user_stories', type: 'json', description: 'User stories: JSON file or inline JSON' },
+            'security-requirements': { arg: 'security_requirements', type: 'list', description: 'Security requirements' },
+            language: pipelineFlags.language,
+            name: { arg: 'project_name', type: 'string', description: 'Project name' },
+            project: projectFlag
+        },
+        output: 'design'
+    },
+    {
+        name: 'threat-model',
+        description: 'Generate a STRIDE threat model',
+        tool: 'security_threat_model',
+        flags: {
+            modules: { arg: 'modules', type: 'json', description: 'Modules: JSON file or inline JSON' },
+            'system-model': { arg: 'system_model', type: 'json', description: 'System model (elements, data flows, trust boundaries): JSON file or inline JSON' },
+            domain: { arg: 'domain_name', type: 'string', description: 'Domain' },
+            name: { arg: 'project_name', type: 'string', description: 'Project name' },
+            'risk-scoring': pipelineFlags['risk-scoring'],
+            'risk-vectors': { arg: 'risk_vectors', type: 'json', description: 'Assessed vectors by threat ID or domain threat ID: JSON file or inline JSON' },
+            project: projectFlag
+        },
+        output: 'threat-model'
+    },
+    {
+        name: 'threat-model import',
+        description: 'Import an OWASP Threat Dragon (.json) or Microsoft Threat Modeling Tool (.tm7) model',
+        tool: 'import_threat_model',
+        positional: { name: 'file', flag: { arg: 'content', type: 'file', description: 'Model file' } },
+        flags: {
+            type: { arg: 'format', type: 'string', description: 'threat-dragon or tm7 (default: detected from the file)' }
+        },
+        output: 'threat-model-import'
+    },
+    {
+        name: 'threat-model export',
+        description: 'Export a threat model as an OWASP Threat Dragon v2 model (written as <title>.json with --out)',
+        tool: 'export_threat_model',
+        flags: {
+            threats: { arg: 'threats', type: 'json', description: 'Threats: JSON file or inline JSON' },
+            'system-model': { arg: 'system_model', type: 'json', description: 'System model: JSON file or inline JSON' },
+            title: { arg: 'title', type: 'string', description: 'Model title (default: project name)' },
+            owner: { arg: 'owner', type: 'string', description: 'Model owner' },
+            project: { ...projectFlag, description: 'Stored project whose threat model is exported' }
+        },
+        output: 'threat-model-export'
+    },
+    {
+        name: 'threat-model attack-trees',
+        description: 'Expand high and critical threats into attack trees (written as diagrams/attack-tree-<threat>.mmd with --out)',
+        tool: 'security_attack_trees',
+        flags: {
+            threats: { arg: 'threats', type: 'json', description: 'Threats: JSON file or inline JSON' },
+            'system-model': { arg: 'system_model', type: 'json', description: 'System model: JSON file or inline JSON' },
+            'min-risk': { arg: 'min_risk', type: 'string', description: 'high or critical (default: high)' },
+            project: { ...projectFlag, description: 'Stored project whose threats are expanded' }
+        },
+        output: 'attack-trees'
+    },
+    {
+        name: 'threat-model control',
+        description: 'Update a mitigation control of a stored threat model and recompute residual risk',
+        tool: 'update_mitigation_status',
+        positional: { name: 'control', flag: { arg: 'control_id', type: 'string', description: 'Control ID, e.g. C-004' } },
+        flags: {
+            project: { ...projectFlag, description: 'Stored project whose threat model holds the control' },
+            status: { arg: 'status', type: 'string', description: 'planned, implemented or verified' },
+            owner: { arg: 'owner', type: 'string', description: 'Control owner' },
+            'test-case': { arg: 'test_case_id', type: 'string', description: 'QA test case that verifies the control' },
+            requirement: { arg: 'compliance_requirement', type: 'string', description: 'Compliance requirement, e.g. "HIPAA 164.312(b)"' }
+        },
+        output: 'control'
+    },
+    {
+        name: 'test-strategy',
+        description: 'Generate test cases from features and threats',
+        tool: 'qa_design_test_strategy',
+        flags: {
+            features: { arg: 'features', type: 'json', description: 'Features: JSON file or inline JSON' },
+            threats: { arg: 'threats', type: 'json', description: 'Threats: JSON file or inline JSON' },
+            compliance: pipelineFlags.compliance,
+            project: projectFlag
+        },
+        output: 'test-strategy'
+    },
+    {
+        name: 'cicd',
+        description: 'Generate a CI/CD pipeline with security gates',
+        tool: 'devops_design_cicd',
+        flags: {
+            name: { arg: 'project_name', type: 'string', description: 'Project name' },
+            'tech-stack': pipelineFlags['tech-stack'],
+            deploy: pipelineFlags.deploy,
+            platform: { arg: 'repository_platform', type: 'string', description: 'github, gitlab or bitbucket' },
+            project: projectFlag
+        },
+        output: 'cicd'
+    },
+    {
+        name: 'pipeline',
+        description: 'Run the complete SSDLC pipeline (--enhanced adds sprint plan, risk register and ADRs)',
+        tool: flags => flags.enhanced ? 'orchestrate_enhanced_pipeline' : 'orchestrate_ssdlc_pipeline',
+        flags: {
+            ...pipelineFlags,
+            enhanced: { arg: '', type: 'boolean', description: 'Run the enhanced pipeline' },
+            platform: { arg: 'repository_platform', type: 'string', description: 'Enhanced: github, gitlab or bitbucket' },
+            'team-size': { arg: 'team_size', type: 'number', description: 'Enhanced: number of team members' },
+            'sprint-weeks': { arg: 'sprint_duration', type: 'number', description: 'Enhanced: sprint length in weeks' },
+            'start-date': { arg: 'project_start_date', type: 'string', description: 'Enhanced: start date (YYYY-MM-DD)' },
+            constraints: { arg: 'constraints', type: 'json', description: 'Enhanced: constraints JSON file or inline JSON' }
+        },
+        output: 'pipeline'
+    },
+
+    // Project store
+    {
+        name: 'projects list',
+        description: 'List stored projects',
+        tool: 'list_projects',
+        flags: {},
+        output: 'projects'
+    },
+    {
+        name: 'projects show',
+        description: 'Show the phases of a stored project',
+        tool: 'get_project',
+        positional: { name: 'project', flag: { arg: 'project_id', type: 'string', description: 'Project ID' } },
+        flags: {},
+        output: 'project'
+    },
+
+    // Diagnostics
+    {
+        name: 'snapshot',
+        description: 'Snapshot the workspace file tree',
+        tool: 'workspace_snapshot',
+        positional: { name: 'path', flag: { arg: 'root_path', type: 'string', description: 'Root directory', default: cwd } },
+        flags: {
+            'max-depth': { arg: 'max_depth', type: 'number', description: 'Maximum depth (default: 5)' }
+        },
+        output: 'snapshot'
+    },
+    {
+        name: 'playbook',
+        description: 'Run a diagnostic playbook',
+        tool: 'run_diagnostic_playbook',
+        positional: { name: 'playbook', flag: { arg: 'playbook', type: 'string', description: 'Playbook name, e.g. check_node' } },
+        flags: { workspace: workspaceFlag },
+        output: 'playbook'
+    },
+    {
+        name: 'diagnose',
+        description: 'Check the development environment',
+        tool: 'run_environment_diagnostics',
+        flags: { workspace: workspaceFlag },
+        output: 'diagnostics'
+    },
+    {
+        name: 'parse-log',
+        description: 'Extract errors and suggestions from a log file',
+        tool: 'parse_error_log',
+        positional: { name: 'file', flag: { arg: 'log_content', type: 'file', description: 'Log file' } },
+        flags: {
+            type: { arg: 'log_type', type: 'string', description: 'build, test or generic' }
+        },
+        output: 'log-analysis'
+    },
+    {
+        name: 'last-good',
+        description: 'Show the last known good configuration',
+        tool: 'get_last_known_good',
+        flags: { workspace: workspaceFlag },
+        output: 'last-known-good'
+    },
+
+    // Coding
+    {
+        name: 'analyze',
+        description: 'Analyze one source file for security issues',
+        tool: 'analyze_code_security',
+        positional: { name: 'file', flag: { arg: 'code', type: 'file', description: 'Source file' } },
+        flags: {
+            language: { arg: 'language', type: 'string', description: 'typescript, javascript, python or java' },
+            domain: { arg: 'domain', type: 'string', description: 'Domain context' }
+        },
+        output: 'code-analysis'
+    },
+    {
+        name: 'guidelines',
+        description: 'Show coding guidelines for a domain',
+        tool: 'get_coding_guidelines',
+        flags: {
+            domain: { arg: 'domain', type: 'string', description: 'Domain' },
+            language: { arg: 'language', type: 'string', description: 'typescript, javascript, python or java' }
+        },
+        output: 'guidelines'
+    },
+    {
+        name: 'template',
+        description: 'Print a secure code template',
+        tool: 'get_secure_template',
+        positional: { name: 'feature', flag: { arg: 'feature_type', type: 'string', description: 'authentication, api_endpoint, database or generic' } },
+        flags: {
+            language: { arg: 'language', type: 'string', description: 'typescript, javascript, python or java' },
+            domain: { arg: 'domain', type: 'string', description: 'Domain context' }
+        },
+        output: 'template'
+    }
+];
+
+/**
+ * Find the command for argv, matching two-word subcommands first
+ */
+export function findCommand(argv: string[]): { command: CommandSpec; rest: string[] } | undefined {
+    const twoWords = commands.find(c => c.name === `${argv[0]} ${argv[1]}`);
+    if (twoWords) return { command: twoWords, rest: argv.slice(2) };
+
+    const oneWord = commands.find(c => c.name === argv[0]);
+    return oneWord ? { command: oneWord, rest: argv.slice(1) } : undefined;
+}
+
+/**
+ * Convert a flag value to the tool argument type
+ */
+export function convertFlagValue(flagName: string, spec: FlagSpec, value: string): unknown {
+    switch (spec.type) {
+        case 'number': {
+            const number = Number(value);
+            if (Number.isNaN(number)) {
+                throw new CliUsageError(`--${flagName} must be a number, got "${value}"`);
+            }
+            return number;
+        }
+        case 'list':
+            return parseList(value);
+        case 'json':
+            return parseJson(flagName, value);
+        case 'file':
+            if (!isFile(value)) {
+                throw new CliUsageError(`File not found: ${value}`);
+            }
+            return readFileSync(value, 'utf-8');
+        default:
+            return value;
+    }
+}
+
+/**
+ * Lists come from a file (one item per line, # comments, or a JSON array) or a comma-separated value
+ */
+export function parseList(value: string): string[] {
+    if (isFile(value)) {
+        const content = readFileSync(value, 'utf-8');
+        if (value.endsWith('.json')) {
+            return JSON.parse(content) as string[];
+        }
+        return content.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    }
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseJson(flagName: string, value: string): unknown {
+    const source = isFile(value) ? readFileSync(value, 'utf-8') : value;
+    try {
+        return JSON.parse(source);
+    } catch (error) {
+        throw new CliUsageError(`--${flagName}: ${isFile(value) ? value : 'value'} is not valid JSON (${(error as Error).message})`);
+    }
+}
+
+function isFile(path: string): boolean {
+    return existsSync(path) && statSync(path).isFile();
+}
+
+/**
+ * File statuses against the target directory, then what the scaffold shares with installed domains
+ */
+function scaffoldPreview(result: ScaffoldDomainResult): string[] {
+    return [
+        `Scaffold ${result.path}`,
+        ...result.files.map(file => `  ${file.status.padEnd(9)} ${file.file}`),
+        ...(result.threatIds.length > 0 ? [`  threat IDs: ${result.threatIds.join(', ')}`] : []),
+        ...result.conflicts.map(conflict => `  ${conflict.blocking ? 'conflict' : 'note'}: ${conflict.message}`)
+    ];
+}
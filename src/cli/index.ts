@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// SSDLC CLI - entry point for the ssdlc bin
+import { runCli, defaultIO } from './run.js';
+
+// First Ctrl+C stops a pipeline after the current phase; a second one exits immediately
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+runCli(process.argv.slice(2), { ...defaultIO, signal: controller.signal }).then(code => {
+    process.exitCode = code;
+});
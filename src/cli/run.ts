@@ -0,0 +1,368 @@
+// CLI Runner - parse argv, run the mapped MCP tool and write results; returns the process exit code
+import { parseArgs, type ParseArgsConfig } from 'util';
+import { createInterface } from 'readline/promises';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { toJSON, toYAML, toMarkdown, exportAll } from '../exporters/index.js';
+import { packageToolResult, ARTIFACT_URI_PREFIX } from '../exporters/artifacts.js';
+import { listToolDefinitions, isToolName, validateToolInput, type ToolName } from '../schemas/index.js';
+import { loadDomain } from '../domains/index.js';
+import { runTool } from '../tool-handlers.js';
+import { PipelineCancelledError } from '../orchestrator/index.js';
+import { VERSION } from '../server.js';
+import { commands, findCommand, convertFlagValue, CliUsageError, type CommandSpec, type FlagSpec } from './commands.js';
+import { scanPath, hasFindingsAtOrAbove, SEVERITY_ORDER, type Severity } from './scan.js';
+
+// Exit codes CI jobs can act on
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;      // tool failed at run time
+export const EXIT_USAGE = 2;      // unknown command, bad flags or invalid tool arguments
+export const EXIT_FINDINGS = 3;   // scan found issues at or above --fail-on, or domains validate found schema issues
+export const EXIT_CANCELLED = 130; // interrupted (SIGINT); finished pipeline phases are stored
+
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    signal?: AbortSignal;   // aborts pipeline runs between phases
+    confirm?: (question: string) => Promise<boolean>;   // absent when nobody can answer, e.g. in CI
+}
+
+export const defaultIO: CliIO = {
+    stdout: text => process.stdout.write(text.endsWith('\n') ? text : `${text}\n`),
+    stderr: text => process.stderr.write(text.endsWith('\n') ? text : `${text}\n`),
+    confirm: process.stdin.isTTY ? askYesNo : undefined
+};
+
+type OutputFormat = 'json' | 'yaml' | 'markdown';
+
+const COMMON_OPTIONS: ParseArgsConfig['options'] = {
+    out: { type: 'string' },
+    format: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+};
+
+const COMMON_HELP = [
+    '  --out <dir>          Write <name>.json/.yaml/.md and generated documents to a directory',
+    '  --format <format>    stdout format: json (default), yaml or markdown',
+    '  -h, --help           Show help'
+];
+
+/**
+ * Run the CLI with argv (without node and script path)
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+    try {
+        const [first] = argv;
+
+        if (!first) {
+            io.stderr(usage());
+            return EXIT_USAGE;
+        }
+        if (first === '--help' || first === '-h' || first === 'help') {
+            io.stdout(usage());
+            return EXIT_OK;
+        }
+        if (first === '--version' || first === '-v') {
+            io.stdout(VERSION);
+            return EXIT_OK;
+        }
+        if (first === 'tools') {
+            listToolDefinitions().forEach(tool => io.stdout(`${tool.name.padEnd(32)} ${tool.description}`));
+            return EXIT_OK;
+        }
+        if (first === 'tool') {
+            return await runGenericTool(argv.slice(1), io);
+        }
+        if (first === 'scan') {
+            return await runScan(argv.slice(1), io);
+        }
+
+        const found = findCommand(argv);
+        if (!found) {
+            throw new CliUsageError(`Unknown command: ${argv.slice(0, 2).join(' ')}`);
+        }
+        return await runCommand(found.command, found.rest, io);
+    } catch (error) {
+        if (error instanceof CliUsageError) {
+            io.stderr(`Error: ${error.message}\nRun "ssdlc --help" for usage.`);
+            return EXIT_USAGE;
+        }
+        if (error instanceof PipelineCancelledError) {
+            io.stderr(error.projectId ? `${error.message} (continue with --project).` : error.message);
+            return EXIT_CANCELLED;
+        }
+        io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return EXIT_ERROR;
+    }
+}
+
+// ==================== COMMANDS ====================
+
+async function runCommand(command: CommandSpec, argv: string[], io: CliIO): Promise<number> {
+    const options: ParseArgsConfig['options'] = { ...COMMON_OPTIONS };
+    for (const [flagName, spec] of Object.entries(command.flags)) {
+        options[flagName] = { type: spec.type === 'boolean' ? 'boolean' : 'string' };
+    }
+
+    const { values, positionals } = parseFlags(argv, options);
+    if (values.help) {
+        io.stdout(commandHelp(command));
+        return EXIT_OK;
+    }
+
+    const args: Record<string, unknown> = {};
+    const flagByArg: Record<string, string> = {};
+
+    if (positionals.length > (command.positional ? 1 : 0)) {
+        throw new CliUsageError(`Unexpected argument: ${positionals[command.positional ? 1 : 0]}`);
+    }
+    if (command.positional) {
+        const { name, flag } = command.positional;
+        setArg(args, name, flag, positionals[0]);
+        flagByArg[flag.arg] = `<${name}>`;
+    }
+    for (const [flagName, spec] of Object.entries(command.flags)) {
+        if (spec.type === 'boolean') {
+            // Switches with an empty arg only pick the tool, like pipeline --enhanced
+            if (spec.arg && values[flagName]) args[spec.arg] = true;
+            continue;
+        }
+        setArg(args, flagName, spec, values[flagName] as string | undefined);
+        flagByArg[spec.arg] = `--${flagName}`;
+    }
+
+    const toolName = typeof command.tool === 'function' ? command.tool(values) : command.tool;
+    return executeTool(toolName, args, values, io, command.output, flagByArg, command);
+}
+
+async function runGenericTool(argv: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseFlags(argv, { ...COMMON_OPTIONS, args: { type: 'string' } });
+    const [toolName] = positionals;
+
+    if (values.help || !toolName) {
+        (values.help ? io.stdout : io.stderr)([
+            'Usage: ssdlc tool <tool_name> [--args <json or file>]',
+            '',
+            'Run any MCP tool with its JSON arguments. "ssdlc tools" lists the tool names.',
+            '',
+            '  --args <json|file>   Tool arguments as inline JSON or a JSON file',
+            ...COMMON_HELP
+        ].join('\n'));
+        return values.help ? EXIT_OK : EXIT_USAGE;
+    }
+    if (!isToolName(toolName)) {
+        throw new CliUsageError(`Unknown tool: ${toolName}`);
+    }
+
+    const args = values.args
+        ? convertFlagValue('args', { arg: '', type: 'json', description: '' }, values.args as string)
+        : {};
+    return executeTool(toolName, args, values, io, toolName.replace(/_/g, '-'), {});
+}
+
+async function runScan(argv: string[], io: CliIO): Promise<number> {
+    const { values, positionals } = parseFlags(argv, {
+        ...COMMON_OPTIONS,
+        domain: { type: 'string' },
+        'fail-on': { type: 'string' },
+        'max-depth': { type: 'string' }
+    });
+
+    if (values.help) {
+        io.stdout([
+            'Usage: ssdlc scan [path] [--fail-on <severity>]',
+            '',
+            'Run analyze_code_security over .ts, .js, .py and .java files (respects .gitignore).',
+            '',
+            '  --domain <name>        Domain context for the rules',
+            '  --fail-on <severity>   Exit with code 3 on findings at or above: low, medium, high (default), critical, none',
+            '  --max-depth <n>        Maximum directory depth (default: 20)',
+            ...COMMON_HELP
+        ].join('\n'));
+        return EXIT_OK;
+    }
+
+    const path = positionals[0] ?? process.cwd();
+    if (!existsSync(path)) {
+        throw new CliUsageError(`Path not found: ${path}`);
+    }
+    const failOn = (values['fail-on'] as string | undefined) ?? 'high';
+    if (failOn !== 'none' && !SEVERITY_ORDER.includes(failOn as Severity)) {
+        throw new CliUsageError(`--fail-on must be one of: ${SEVERITY_ORDER.join(', ')}, none`);
+    }
+    const maxDepth = values['max-depth'] === undefined
+        ? undefined
+        : convertFlagValue('max-depth', { arg: '', type: 'number', description: '' }, values['max-depth'] as string) as number;
+
+    const domain = values.domain ? await loadDomain(values.domain as string) : undefined;
+    const result = scanPath(path, domain, maxDepth);
+    writeResult('scan', result, values, io, 'scan');
+
+    const counts = SEVERITY_ORDER.slice().reverse().map(s => `${result.bySeverity[s]} ${s}`).join(', ');
+    io.stderr(`Scanned ${result.filesScanned} files: ${counts}`);
+
+    if (failOn !== 'none' && hasFindingsAtOrAbove(result, failOn as Severity)) {
+        io.stderr(`Failing: findings at or above ${failOn}`);
+        return EXIT_FINDINGS;
+    }
+    return EXIT_OK;
+}
+
+// ==================== HELPERS ====================
+
+async function executeTool(
+    toolName: ToolName,
+    args: unknown,
+    values: Record<string, unknown>,
+    io: CliIO,
+    outputName: string,
+    flagByArg: Record<string, string>,
+    { findings, confirm }: Pick<CommandSpec, 'findings' | 'confirm'> = {}
+): Promise<number> {
+    const validation = validateToolInput(toolName, args);
+    if (!validation.success) {
+        const issues = validation.issues.map(issue => {
+            const [arg, ...rest] = issue.path.split('.');
+            const label = flagByArg[arg] ? [flagByArg[arg], ...rest].join('.') : issue.path;
+            return `  ${label}: ${issue.message}`;
+        });
+        throw new CliUsageError(`Invalid arguments for ${toolName}:\n${issues.join('\n')}`);
+    }
+
+    const data = validation.data as Record<string, unknown>;
+    if (confirm && io.confirm && !data[confirm.dryRunArg] && !values.yes) {
+        const preview = await runTool(toolName, { ...data, [confirm.dryRunArg]: true }, { localPaths: true });
+        confirm.preview(preview).forEach(line => io.stderr(line));
+        // A blocked run changes nothing, so only ask when the real run can go ahead
+        if ((findings?.(preview) ?? []).length === 0 && !await io.confirm(confirm.question)) {
+            io.stderr('Cancelled, nothing written');
+            return EXIT_OK;
+        }
+    }
+
+    const result = await runTool(toolName, validation.data, {
+        localPaths: true,
+        signal: io.signal,
+        onProgress: ({ phase, message }) => {
+            if (phase !== 'done') io.stderr(message);
+        }
+    });
+    writeResult(toolName, result, values, io, outputName);
+
+    const messages = findings?.(result) ?? [];
+    if (messages.length > 0) {
+        messages.forEach(message => io.stderr(message));
+        return EXIT_FINDINGS;
+    }
+    return EXIT_OK;
+}
+
+/**
+ * Print the result, or with --out write it through exportAll plus one file per generated document
+ */
+function writeResult(toolName: string, result: unknown, values: Record<string, unknown>, io: CliIO, outputName: string): void {
+    const format = (values.format as string | undefined) ?? 'json';
+    if (!['json', 'yaml', 'markdown'].includes(format)) {
+        throw new CliUsageError('--format must be json, yaml or markdown');
+    }
+
+    const outDir = values.out as string | undefined;
+    if (!outDir) {
+        io.stdout(formatOutput(result, format as OutputFormat));
+        return;
+    }
+
+    const { structured, artifacts } = packageToolResult(toolName, result);
+    exportAll(structured, outDir, outputName, outputName);
+    for (const artifact of artifacts) {
+        // ssdlc://artifacts/<run>/<path> -> <out>/<path>
+        const relativePath = artifact.uri.slice(ARTIFACT_URI_PREFIX.length + 1).split('/').slice(1).join('/');
+        const file = join(outDir, relativePath);
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(file, artifact.text);
+    }
+    io.stderr(`Wrote ${outputName}.json, ${outputName}.yaml, ${outputName}.md` +
+        (artifacts.length > 0 ? ` and ${artifacts.length} documents` : '') + ` to ${outDir}`);
+}
+
+function formatOutput(result: unknown, format: OutputFormat): string {
+    switch (format) {
+        case 'yaml':
+            return toYAML(result);
+        case 'markdown':
+            return toMarkdown(result);
+        default:
+            return toJSON(result);
+    }
+}
+
+async function askYesNo(question: string): Promise<boolean> {
+    const prompt = createInterface({ input: process.stdin, output: process.stderr });
+    try {
+        return /^y(es)?$/i.test((await prompt.question(`${question} [y/N] `)).trim());
+    } finally {
+        prompt.close();
+    }
+}
+
+function setArg(args: Record<string, unknown>, flagName: string, spec: FlagSpec, value: string | undefined): void {
+    const resolved = value ?? spec.default?.();
+    if (resolved !== undefined) {
+        args[spec.arg] = convertFlagValue(flagName, spec, resolved);
+    }
+}
+
+function parseFlags(
+    argv: string[],
+    options: ParseArgsConfig['options']
+): { values: Record<string, string | boolean | undefined>; positionals: string[] } {
+    try {
+        const { values, positionals } = parseArgs({ args: argv, options, allowPositionals: true, strict: true });
+        return { values: values as Record<string, string | boolean | undefined>, positionals };
+    } catch (error) {
+        throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+function usage(): string {
+    const lines: string[] = [];
+
+    lines.push(`ssdlc v${VERSION} - SSDLC toolkit command line`);
+    lines.push('');
+    lines.push('Usage: ssdlc <command> [options]');
+    lines.push('');
+    lines.push('Commands:');
+    for (const command of commands) {
+        const name = command.positional ? `${command.name} <${command.positional.name}>` : command.name;
+        lines.push(`  ${name.padEnd(28)} ${command.description}`);
+    }
+    lines.push(`  ${'scan [path]'.padEnd(28)} Scan source files for security issues (exit 3 on findings)`);
+    lines.push(`  ${'tools'.padEnd(28)} List MCP tools`);
+    lines.push(`  ${'tool <tool_name>'.padEnd(28)} Run any MCP tool with JSON arguments`);
+    lines.push('');
+    lines.push('Run "ssdlc <command> --help" for options.');
+    lines.push('');
+    lines.push(`Exit codes: ${EXIT_OK} ok, ${EXIT_ERROR} error, ${EXIT_USAGE} invalid usage, ${EXIT_FINDINGS} findings (scan, domains validate)`);
+
+    return lines.join('\n');
+}
+
+function commandHelp(command: CommandSpec): string {
+    const lines: string[] = [];
+    const name = command.positional ? `${command.name} <${command.positional.name}>` : command.name;
+
+    lines.push(`Usage: ssdlc ${name} [options]`);
+    lines.push('');
+    lines.push(command.description);
+    lines.push('');
+    if (command.positional) {
+        lines.push(`  <${command.positional.name}>`.padEnd(23) + command.positional.flag.description);
+    }
+    for (const [flagName, spec] of Object.entries(command.flags)) {
+        const flag = spec.type === 'boolean' ? `--${flagName}` : `--${flagName} <${spec.type === 'json' ? 'json|file' : 'value'}>`;
+        lines.push(`  ${flag}`.padEnd(23) + spec.description);
+    }
+    lines.push(...COMMON_HELP);
+
+    return lines.join('\n');
+}
@@ -0,0 +1,82 @@
+// CLI Scan - run analyze_code_security over every source file under a path
+import { readFileSync, statSync } from 'fs';
+import { join, extname, basename, dirname } from 'path';
+import type { LoadedDomain } from '../domains/index.js';
+import { analyzeCodeSecurity, type SecurityIssue } from '../tools/coding/index.js';
+import { generateWorkspaceSnapshot } from '../tools/diagnostics/index.js';
+
+export type Severity = SecurityIssue['severity'];
+
+export interface ScanFinding extends SecurityIssue {
+    file: string;
+}
+
+export interface ScanResult {
+    root: string;
+    filesScanned: number;
+    issues: ScanFinding[];
+    bySeverity: Record<Severity, number>;
+    score: number;          // lowest file score
+}
+
+export const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.py': 'python',
+    '.java': 'java'
+};
+
+/**
+ * Language analyze_code_security uses for a file, undefined when unsupported
+ */
+export function languageForFile(path: string): string | undefined {
+    return EXTENSION_LANGUAGES[extname(path).toLowerCase()];
+}
+
+/**
+ * Scan a file or directory (.gitignore, node_modules and dist are skipped)
+ */
+export function scanPath(path: string, domain?: LoadedDomain, maxDepth: number = 20): ScanResult {
+    const isDirectory = statSync(path).isDirectory();
+    const root = isDirectory ? path : dirname(path);
+    const files = isDirectory
+        ? generateWorkspaceSnapshot(path, maxDepth).files.filter(f => f.type === 'file').map(f => f.path)
+        : [basename(path)];
+
+    const result: ScanResult = {
+        root,
+        filesScanned: 0,
+        issues: [],
+        bySeverity: { low: 0, medium: 0, high: 0, critical: 0 },
+        score: 100
+    };
+
+    for (const file of files) {
+        const language = languageForFile(file);
+        if (!language) continue;
+
+        const check = analyzeCodeSecurity(readFileSync(join(root, file), 'utf-8'), language, domain);
+        result.filesScanned++;
+        result.score = Math.min(result.score, check.score);
+        for (const issue of check.issues) {
+            result.issues.push({ file, ...issue });
+            result.bySeverity[issue.severity]++;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Whether any finding is at or above the threshold
+ */
+export function hasFindingsAtOrAbove(result: ScanResult, threshold: Severity): boolean {
+    const minimum = SEVERITY_ORDER.indexOf(threshold);
+    return result.issues.some(issue => SEVERITY_ORDER.indexOf(issue.severity) >= minimum);
+}
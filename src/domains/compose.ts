@@ -0,0 +1,236 @@
+// Domain Composition - merge domains for `extends` and multi-domain names such as healthcare+fintech
+import type { LoadedDomain } from './loader.js';
+import type {
+    Domain,
+    DataClassification,
+    SensitiveData,
+    Regulation,
+    DomainThreat,
+    IntegrationPoints,
+    RecommendedTechStack
+} from '../types/domain.js';
+
+// Joins domain names into one composite name: "healthcare+fintech"
+export const DOMAIN_SEPARATOR = '+';
+
+/**
+ * extend:  later layers override earlier ones entry by entry (a child over its parents)
+ * compose: peers; the stricter entry wins and conflicting threat IDs are renamed
+ */
+type MergeMode = 'extend' | 'compose';
+
+const LEVELS: (keyof DataClassification)[] = ['critical', 'high', 'medium', 'low'];
+const ENCRYPTION_ORDER: SensitiveData['encryption'][] = ['required', 'recommended', 'optional'];
+
+/**
+ * Split "healthcare+fintech" into its domain names, without duplicates
+ */
+export function splitDomainNames(domainName: string): string[] {
+    return [...new Set(domainName.split(DOMAIN_SEPARATOR).map(name => name.trim()).filter(Boolean))];
+}
+
+/**
+ * True when a loaded domain is, extends or composes the named domain
+ */
+export function includesDomain(loaded: LoadedDomain | undefined, domainName: string): boolean {
+    if (!loaded) return false;
+    return loaded.name === domainName || (loaded.composedFrom ?? []).includes(domainName);
+}
+
+/**
+ * Apply a domain on top of the domain it extends
+ */
+export function extendDomain(base: LoadedDomain, child: LoadedDomain): LoadedDomain {
+    return { ...mergeDomains(child.name, [base, child], 'extend'), source: child.source };
+}
+
+/**
+ * Combine peer domains into one, e.g. healthcare+fintech for a telemedicine payments app
+ */
+export function composeDomains(parts: LoadedDomain[]): LoadedDomain {
+    if (parts.length === 1) return parts[0];
+    return mergeDomains(parts.map(part => part.name).join(DOMAIN_SEPARATOR), parts, 'compose');
+}
+
+// ==================== MERGE ====================
+
+function mergeDomains(name: string, layers: LoadedDomain[], mode: MergeMode): LoadedDomain {
+    const tagged = layers.map(tagOrigin);
+    const domains = tagged.map(layer => layer.domain);
+    const later = <T>(existing: T, incoming: T): T => mode === 'extend' ? incoming : existing;
+
+    const domain: Domain = {
+        name,
+        keywords: union(domains.map(d => d.keywords)),
+        negativeKeywords: optionalUnion(domains.map(d => d.negativeKeywords)),
+        knowledgeBase: optionalUnion(domains.map(d => d.knowledgeBase)),
+        architecturePatterns: optionalUnion(domains.map(d => d.architecturePatterns)),
+        securityStandards: optionalUnion(domains.map(d => d.securityStandards)),
+        stakeholders: mergeByKey(domains.map(d => d.stakeholders), s => s.name.toLowerCase(), later),
+        sensitiveData: mergeByKey(domains.map(d => d.sensitiveData), s => s.type.toLowerCase(),
+            mode === 'extend' ? later : stricterSensitiveData),
+        dataClassification: mergeClassification(domains.map(d => d.dataClassification)),
+        domainSpecificRequirements: optionalUnion(domains.map(d => d.domainSpecificRequirements)),
+        technicalConstraints: optionalMerge(domains.map(d => d.technicalConstraints), c => `${c.type}|${c.description}`, later),
+        recommendedTechStack: mergeTechStack(domains.map(d => d.recommendedTechStack)),
+        dataFlows: optionalMerge(domains.map(d => d.dataFlows), f => f.name, later),
+        integrationPoints: mergeIntegrationPoints(domains.map(d => d.integrationPoints), later)
+    };
+
+    const result: LoadedDomain = {
+        name,
+        composedFrom: union(tagged.map(layer => layer.composedFrom ?? [layer.name])),
+        domain
+    };
+
+    const compliance = tagged.map(layer => layer.compliance).filter(c => c !== undefined);
+    if (compliance.length > 0) {
+        const audits = compliance.map(c => c.auditRequirements).filter(a => a !== undefined);
+        result.compliance = {
+            regulations: mergeByKey(compliance.map(c => c.regulations), r => `${r.name.toLowerCase()}@${r.version ?? ''}`,
+                (existing, incoming) => mergeRegulation(existing, incoming, mode)),
+            auditRequirements: audits.length === 0 ? undefined : {
+                retentionYears: mode === 'extend'
+                    ? audits[audits.length - 1].retentionYears
+                    : Math.max(...audits.map(a => a.retentionYears ?? 0)),
+                mustLog: union(audits.map(a => a.mustLog))
+            }
+        };
+    }
+
+    const threats = tagged.map(layer => layer.threats).filter(t => t !== undefined);
+    if (threats.length > 0) {
+        result.threats = mode === 'extend'
+            ? mergeByKey(threats, t => t.id, (_, incoming) => incoming)
+            : composeThreats(threats);
+    }
+
+    return result;
+}
+
+/**
+ * Record the contributing domain on entries that do not carry one yet
+ */
+function tagOrigin(layer: LoadedDomain): LoadedDomain {
+    const tag = <T extends { origin?: string }>(items: T[]): T[] =>
+        items.map(item => item.origin ? item : { ...item, origin: layer.name });
+
+    return {
+        ...layer,
+        domain: {
+            ...layer.domain,
+            stakeholders: tag(layer.domain.stakeholders),
+            sensitiveData: tag(layer.domain.sensitiveData)
+        },
+        compliance: layer.compliance && { ...layer.compliance, regulations: tag(layer.compliance.regulations) },
+        threats: layer.threats && tag(layer.threats)
+    };
+}
+
+function mergeByKey<T>(lists: T[][], key: (item: T) => string, combine: (existing: T, incoming: T) => T): T[] {
+    const merged = new Map<string, T>();
+    for (const item of lists.flat()) {
+        const k = key(item);
+        const existing = merged.get(k);
+        merged.set(k, existing === undefined ? item : combine(existing, item));
+    }
+    return [...merged.values()];
+}
+
+function optionalMerge<T>(lists: (T[] | undefined)[], key: (item: T) => string, combine: (existing: T, incoming: T) => T): T[] | undefined {
+    const present = lists.filter(list => list !== undefined);
+    return present.length === 0 ? undefined : mergeByKey(present, key, combine);
+}
+
+function union(lists: string[][]): string[] {
+    return [...new Set(lists.flat())];
+}
+
+function optionalUnion(lists: (string[] | undefined)[]): string[] | undefined {
+    const present = lists.filter(list => list !== undefined);
+    return present.length === 0 ? undefined : union(present);
+}
+
+function stricterSensitiveData(existing: SensitiveData, incoming: SensitiveData): SensitiveData {
+    const level = LEVELS.indexOf(incoming.level) < LEVELS.indexOf(existing.level) ? incoming.level : existing.level;
+    const encryption = ENCRYPTION_ORDER.indexOf(incoming.encryption) < ENCRYPTION_ORDER.indexOf(existing.encryption)
+        ? incoming.encryption
+        : existing.encryption;
+    return { ...existing, level, encryption };
+}
+
+/**
+ * Union per level; an item listed at several levels keeps only the highest
+ */
+function mergeClassification(classifications: DataClassification[]): DataClassification {
+    const seen = new Set<string>();
+    const merged = { critical: [], high: [], medium: [], low: [] } as DataClassification;
+
+    for (const level of LEVELS) {
+        for (const item of union(classifications.map(c => c[level] ?? []))) {
+            if (seen.has(item)) continue;
+            seen.add(item);
+            merged[level].push(item);
+        }
+    }
+    return merged;
+}
+
+function mergeRegulation(existing: Regulation, incoming: Regulation, mode: MergeMode): Regulation {
+    const preferred = mode === 'extend' ? incoming : existing;
+    return {
+        ...preferred,
+        fullName: preferred.fullName || existing.fullName || incoming.fullName,
+        controlFamilies: existing.controlFamilies || incoming.controlFamilies
+            ? mergeByKey([existing.controlFamilies ?? [], incoming.controlFamilies ?? []], f => f.id,
+                (first, second) => mode === 'extend' ? second : first)
+            : undefined,
+        requirements: mergeByKey([existing.requirements, incoming.requirements], r => r.id,
+            (first, second) => mode === 'extend' ? second : first)
+    };
+}
+
+/**
+ * Peer threats with the same ID: the same threat is kept once; a different threat
+ * is renamed to "<domain>:<id>" so both survive
+ */
+function composeThreats(lists: DomainThreat[][]): DomainThreat[] {
+    const byId = new Map<string, DomainThreat>();
+
+    for (const threat of lists.flat()) {
+        const existing = byId.get(threat.id);
+        if (!existing) {
+            byId.set(threat.id, threat);
+        } else if (existing.name.toLowerCase() !== threat.name.toLowerCase()) {
+            const id = `${threat.origin}:${threat.id}`;
+            byId.set(id, { ...threat, id });
+        }
+    }
+    return [...byId.values()];
+}
+
+function mergeTechStack(stacks: (RecommendedTechStack | undefined)[]): RecommendedTechStack | undefined {
+    const present = stacks.filter(stack => stack !== undefined);
+    if (present.length === 0) return undefined;
+
+    return {
+        languages: union(present.map(s => s.languages)),
+        frameworks: union(present.map(s => s.frameworks)),
+        libraries: union(present.map(s => s.libraries)),
+        deployment: union(present.map(s => s.deployment))
+    };
+}
+
+function mergeIntegrationPoints(
+    points: (IntegrationPoints | undefined)[],
+    combine: <T>(existing: T, incoming: T) => T
+): IntegrationPoints | undefined {
+    const present = points.filter(p => p !== undefined);
+    if (present.length === 0) return undefined;
+
+    return {
+        externalApis: mergeByKey(present.map(p => p.externalApis), api => api.name, combine),
+        messageQueues: mergeByKey(present.map(p => p.messageQueues), q => q.name, combine),
+        databases: mergeByKey(present.map(p => p.databases), db => db.name, combine)
+    };
+}
@@ -0,0 +1,278 @@
+// Domain Coverage - STRIDE x domain matrix, content counts and gaps, and diffs between domains or git revisions
+import { execFileSync } from 'child_process';
+import { relative, sep } from 'path';
+import type { DomainThreat } from '../types/domain.js';
+import { loadDomain, loadDomainFromFiles, listDomains, type LoadedDomain } from './loader.js';
+import { resolveDomain, type DomainSource } from './roots.js';
+import { readValidatedDomainSources, DOMAIN_FILES, type DomainFile } from './validator.js';
+
+export type StrideCategory = DomainThreat['category'];
+
+export const STRIDE_CATEGORIES: StrideCategory[] = [
+    'Spoofing',
+    'Tampering',
+    'Repudiation',
+    'Information Disclosure',
+    'Denial of Service',
+    'Elevation of Privilege'
+];
+
+const CLASSIFICATION_TIERS = ['critical', 'high', 'medium', 'low'] as const;
+
+export interface DomainCoverage {
+    domain: string;             // "healthcare", or "healthcare@HEAD~3" for a revision
+    source?: DomainSource;
+    stride: Record<StrideCategory, number>;     // domain threats per STRIDE category
+    strideCovered: number;      // categories with at least one threat
+    regulations: number;
+    requirements: number;
+    threats: number;
+    stakeholders: number;
+    sensitiveData: number;
+    keywords: number;
+    warnings: string[];
+}
+
+export interface DomainDiffEntry {
+    key: string;
+    change: 'added' | 'removed' | 'changed';
+    fields?: string[];          // changed fields
+}
+
+export type DomainDiffSection =
+    'keywords' | 'stakeholders' | 'sensitiveData' | 'dataClassification' | 'regulations' | 'requirements' | 'threats';
+
+export interface DomainDiff {
+    from: string;
+    to: string;
+    changed: boolean;
+    sections: Record<DomainDiffSection, DomainDiffEntry[]>;
+}
+
+export interface DomainCoverageReport {
+    categories: StrideCategory[];
+    domains: DomainCoverage[];
+    errors: { domain: string; message: string }[];     // domains that failed to load
+    diff?: DomainDiff;
+}
+
+export interface DomainCoverageOptions {
+    domains?: string[];             // default: every installed domain
+    compare?: [string, string];     // two domain refs: name, or name@revision
+    minStrideCategories?: number;   // warn below this many categories (default 3)
+}
+
+const DEFAULT_MIN_STRIDE_CATEGORIES = 3;
+
+/**
+ * Coverage of each domain, or of two domain refs together with their diff
+ */
+export async function buildDomainCoverageReport(options: DomainCoverageOptions = {}): Promise<DomainCoverageReport> {
+    const minStride = options.minStrideCategories ?? DEFAULT_MIN_STRIDE_CATEGORIES;
+
+    if (options.compare) {
+        const [fromRef, toRef] = options.compare;
+        const from = await loadDomainRef(fromRef);
+        const to = await loadDomainRef(toRef);
+        return {
+            categories: STRIDE_CATEGORIES,
+            domains: [domainCoverage(from, fromRef, minStride), domainCoverage(to, toRef, minStride)],
+            errors: [],
+            diff: diffDomains(from, to, fromRef, toRef)
+        };
+    }
+
+    const report: DomainCoverageReport = { categories: STRIDE_CATEGORIES, domains: [], errors: [] };
+    for (const name of options.domains ?? listDomains()) {
+        try {
+            report.domains.push(domainCoverage(await loadDomain(name), name, minStride));
+        } catch (error) {
+            // One broken domain should not hide the state of the others
+            report.errors.push({ domain: name, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return report;
+}
+
+/**
+ * Load "healthcare" from the domain roots, or "healthcare@<revision>" from git
+ */
+export async function loadDomainRef(ref: string): Promise<LoadedDomain> {
+    const at = ref.indexOf('@');
+    return at === -1 ? loadDomain(ref) : loadDomainAtRevision(ref.slice(0, at), ref.slice(at + 1));
+}
+
+/**
+ * Read a domain's YAML files as they were at a git revision of the repository holding the domain.
+ * Revisions come from callers, so they are resolved to a commit before git sees them as anything else.
+ */
+export async function loadDomainAtRevision(domainName: string, revision: string): Promise<LoadedDomain> {
+    if (!revision || revision.startsWith('-')) {
+        throw new Error(`Invalid git revision: ${revision}`);
+    }
+    const location = resolveDomain(domainName);
+    if (!location) {
+        throw new Error(`Domain not found: ${domainName}`);
+    }
+
+    const repoRoot = git(['rev-parse', '--show-toplevel'], location.path).trim();
+    const domainDir = relative(repoRoot, location.path).split(sep).join('/');
+
+    let commit: string;
+    try {
+        commit = git(['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`], repoRoot).trim();
+    } catch {
+        throw new Error(`Unknown git revision: ${revision}`);
+    }
+
+    const sources: Partial<Record<DomainFile, string>> = {};
+    for (const file of DOMAIN_FILES) {
+        try {
+            sources[file] = git(['show', '--end-of-options', `${commit}:${domainDir}/${file}`], repoRoot);
+        } catch {
+            // Optional files may not exist at that revision; a missing domain.yaml is reported below
+        }
+    }
+    if (!sources['domain.yaml']) {
+        throw new Error(`Domain ${domainName} has no domain.yaml at revision ${revision}`);
+    }
+
+    const files = readValidatedDomainSources(sources, `${domainName}@${revision}`);
+    return loadDomainFromFiles(domainName, files, location.source);
+}
+
+/**
+ * Threat counts per STRIDE category, content counts and warnings about thin content
+ */
+export function domainCoverage(loaded: LoadedDomain, label = loaded.name, minStrideCategories = DEFAULT_MIN_STRIDE_CATEGORIES): DomainCoverage {
+    const { domain } = loaded;
+    const threats = loaded.threats ?? [];
+    const regulations = loaded.compliance?.regulations ?? [];
+    const warnings: string[] = [];
+
+    const stride = Object.fromEntries(STRIDE_CATEGORIES.map(category =>
+        [category, threats.filter(threat => threat.category === category).length])) as Record<StrideCategory, number>;
+    const strideCovered = STRIDE_CATEGORIES.filter(category => stride[category] > 0).length;
+
+    if (regulations.length === 0) warnings.push('No regulations in compliance.yaml');
+    for (const regulation of regulations) {
+        if (regulation.requirements.length === 0) warnings.push(`Regulation ${regulation.name} has no requirements`);
+    }
+
+    if (threats.length === 0) {
+        warnings.push('No threats in threats.yaml');
+    } else if (strideCovered < minStrideCategories) {
+        const missing = STRIDE_CATEGORIES.filter(category => stride[category] === 0);
+        warnings.push(`Threats cover ${strideCovered} of ${STRIDE_CATEGORIES.length} STRIDE categories; missing ${missing.join(', ')}`);
+    }
+    for (const threat of threats) {
+        if (!threat.cwe && !threat.capec?.length && !threat.attackTechniques?.length) {
+            warnings.push(`Threat ${threat.id} has no CWE, CAPEC or ATT&CK reference`);
+        }
+    }
+
+    if (domain.stakeholders.length === 0) warnings.push('No stakeholders');
+    if (domain.sensitiveData.length === 0) warnings.push('No sensitive data types');
+    for (const tier of CLASSIFICATION_TIERS) {
+        if ((domain.dataClassification[tier] ?? []).length === 0) warnings.push(`data_classification.${tier} is empty`);
+    }
+
+    return {
+        domain: label,
+        source: loaded.source,
+        stride,
+        strideCovered,
+        regulations: regulations.length,
+        requirements: regulations.reduce((sum, regulation) => sum + regulation.requirements.length, 0),
+        threats: threats.length,
+        stakeholders: domain.stakeholders.length,
+        sensitiveData: domain.sensitiveData.length,
+        keywords: domain.keywords.length,
+        warnings
+    };
+}
+
+/**
+ * Entries added, removed or changed from one domain to another, matched by the keys composition uses
+ */
+export function diffDomains(from: LoadedDomain, to: LoadedDomain, fromLabel = from.name, toLabel = to.name): DomainDiff {
+    const sections: Record<DomainDiffSection, DomainDiffEntry[]> = {
+        keywords: diffKeyed(from.domain.keywords, to.domain.keywords, keyword => keyword.toLowerCase()),
+        stakeholders: diffKeyed(from.domain.stakeholders, to.domain.stakeholders, stakeholder => stakeholder.name),
+        sensitiveData: diffKeyed(from.domain.sensitiveData, to.domain.sensitiveData, data => data.type),
+        dataClassification: diffKeyed(classificationEntries(from), classificationEntries(to), entry => entry),
+        regulations: diffKeyed(
+            regulationsOf(from).map(({ requirements: _, ...regulation }) => regulation),
+            regulationsOf(to).map(({ requirements: _, ...regulation }) => regulation),
+            regulation => regulation.name
+        ),
+        requirements: diffKeyed(requirementsOf(from), requirementsOf(to), requirement => requirement.key),
+        threats: diffKeyed(from.threats ?? [], to.threats ?? [], threat => threat.id)
+    };
+
+    return {
+        from: fromLabel,
+        to: toLabel,
+        changed: Object.values(sections).some(entries => entries.length > 0),
+        sections
+    };
+}
+
+// ==================== HELPERS ====================
+
+function regulationsOf(loaded: LoadedDomain) {
+    return loaded.compliance?.regulations ?? [];
+}
+
+function requirementsOf(loaded: LoadedDomain) {
+    return regulationsOf(loaded).flatMap(regulation =>
+        regulation.requirements.map(requirement => ({ key: `${regulation.name}:${requirement.id}`, ...requirement })));
+}
+
+function classificationEntries(loaded: LoadedDomain): string[] {
+    return CLASSIFICATION_TIERS.flatMap(tier =>
+        (loaded.domain.dataClassification[tier] ?? []).map(item => `${tier}:${item}`));
+}
+
+function diffKeyed<T>(before: T[], after: T[], keyOf: (item: T) => string): DomainDiffEntry[] {
+    const beforeByKey = new Map(before.map(item => [keyOf(item), item]));
+    const afterByKey = new Map(after.map(item => [keyOf(item), item]));
+    const entries: DomainDiffEntry[] = [];
+
+    for (const [key, item] of afterByKey) {
+        const previous = beforeByKey.get(key);
+        if (previous === undefined) {
+            entries.push({ key, change: 'added' });
+            continue;
+        }
+        const fields = changedFields(previous, item);
+        if (fields.length > 0) entries.push({ key, change: 'changed', fields });
+    }
+    for (const key of beforeByKey.keys()) {
+        if (!afterByKey.has(key)) entries.push({ key, change: 'removed' });
+    }
+    return entries;
+}
+
+/**
+ * Fields whose values differ; origin only says which domain contributed the entry
+ */
+function changedFields(before: unknown, after: unknown): string[] {
+    if (typeof before !== 'object' || before === null || typeof after !== 'object' || after === null) {
+        return JSON.stringify(before) === JSON.stringify(after) ? [] : ['value'];
+    }
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+        .filter(field => field !== 'origin')
+        .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+}
+
+function git(args: string[], cwd: string): string {
+    return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        timeout: 30000,
+        stdio: ['pipe', 'pipe', 'pipe']
+    });
+}
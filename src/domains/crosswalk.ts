@@ -0,0 +1,316 @@
+// Compliance Crosswalk - map controls between frameworks (HIPAA 164.312(b) <-> NIST-800-53 AU-2 <-> ISO-27001 A.8.15)
+import { existsSync, statSync } from 'fs';
+import { join } from 'path';
+import type { LoadedDomain } from './loader.js';
+import { getDomainRoots } from './roots.js';
+import { readValidatedCatalog } from './validator.js';
+
+// Relative to each domain root; higher-precedence roots override frameworks and crosswalks by name and id
+export const CROSSWALK_CATALOG = join('_compliance', 'crosswalks.yaml');
+
+export interface ControlRef {
+    framework: string;      // canonical framework name, e.g. NIST-800-53
+    version?: string;       // set when the ID belongs to one version only
+    control: string;        // e.g. AU-2, 164.312(b), 10.2
+}
+
+export interface ComplianceFramework {
+    name: string;
+    version?: string;
+    fullName?: string;
+    aliases: string[];
+}
+
+export interface Crosswalk {
+    id: string;
+    name: string;
+    topic?: string;         // security requirement category, e.g. Logging
+    controls: ControlRef[];
+    source: string;         // catalog file, or the domain whose maps_to declared it
+}
+
+export interface CrosswalkCatalog {
+    frameworks: ComplianceFramework[];
+    crosswalks: Crosswalk[];
+    controlNames: Map<string, string>;  // keyed by controlKey
+}
+
+export interface ControlEquivalent extends ControlRef {
+    name?: string;
+    via: string[];          // crosswalk ids
+}
+
+export interface ControlMapping extends ControlRef {
+    name?: string;
+    equivalents: ControlEquivalent[];
+}
+
+export interface CoveredControl extends ControlRef {
+    name?: string;
+    coveredBy: string[];    // source controls as FRAMEWORK:ID
+}
+
+export interface FrameworkCoverage {
+    source: string;
+    target: string;
+    covered: number;
+    total: number;
+    percent: number;
+    controls: CoveredControl[];
+    gaps: string[];         // uncovered target controls as FRAMEWORK:ID
+}
+
+export interface CrosswalkQuery {
+    framework: string;          // "HIPAA", or "PCI-DSS@4.0" for one version
+    control?: string;           // includes sub-controls: 10 covers 10.2, IA-2 covers IA-2(1)
+    targetFramework?: string;   // only map to this framework, and report coverage of it
+}
+
+export interface CrosswalkResult {
+    framework: ComplianceFramework;
+    mappings: ControlMapping[];
+    coverage?: FrameworkCoverage;
+}
+
+const catalogCache = new Map<string, { mtimeMs: number; data: any }>();
+
+/**
+ * "PCI-DSS@4.0:10.2" -> { framework: 'PCI-DSS', version: '4.0', control: '10.2' }
+ */
+export function parseControlRef(ref: string): ControlRef {
+    const separator = ref.indexOf(':');
+    const { name, version } = parseFrameworkName(ref.slice(0, separator));
+    return { framework: name, version, control: ref.slice(separator + 1).trim() };
+}
+
+export function formatControlRef(ref: ControlRef): string {
+    return `${ref.framework}:${ref.control}`;
+}
+
+/**
+ * Merge the crosswalk catalogs of every domain root with the maps_to pairs of the given domains
+ */
+export function loadCrosswalkCatalog(domains: LoadedDomain[] = []): CrosswalkCatalog {
+    const frameworks = new Map<string, ComplianceFramework>();
+    const crosswalks = new Map<string, Crosswalk>();
+    const controlNames = new Map<string, string>();
+
+    // Lowest precedence first, so that project catalogs override built-in entries
+    for (const root of [...getDomainRoots()].reverse()) {
+        const path = join(root.path, CROSSWALK_CATALOG);
+        const data = readCatalog(path);
+        if (!data) continue;
+
+        for (const framework of data.frameworks ?? []) {
+            frameworks.set(normalizeName(framework.name), {
+                name: framework.name,
+                version: framework.version,
+                fullName: framework.full_name,
+                aliases: framework.aliases ?? []
+            });
+        }
+        for (const entry of data.crosswalks) {
+            crosswalks.set(entry.id, {
+                id: entry.id,
+                name: entry.name,
+                topic: entry.topic,
+                controls: entry.controls.map((control: string | { control: string; name?: string }) =>
+                    typeof control === 'string' ? parseControlRef(control) : parseControlRef(control.control)),
+                source: path
+            });
+            for (const control of entry.controls) {
+                if (typeof control === 'object' && control.name) {
+                    controlNames.set(controlKey(parseControlRef(control.control)), control.name);
+                }
+            }
+        }
+    }
+
+    const catalog: CrosswalkCatalog = { frameworks: [...frameworks.values()], crosswalks: [], controlNames };
+    const canonical = (ref: ControlRef): ControlRef => ({ ...ref, framework: resolveFramework(catalog, ref.framework).name });
+
+    for (const crosswalk of crosswalks.values()) {
+        catalog.crosswalks.push({ ...crosswalk, controls: crosswalk.controls.map(canonical) });
+    }
+
+    for (const loaded of domains) {
+        for (const regulation of loaded.compliance?.regulations ?? []) {
+            const framework = resolveFramework(catalog, regulation.name, regulation.fullName).name;
+            for (const requirement of regulation.requirements) {
+                const ref: ControlRef = { framework, version: regulation.version, control: String(requirement.id) };
+                controlNames.set(controlKey(ref), requirement.name);
+                if (!requirement.mapsTo || requirement.mapsTo.length === 0) continue;
+
+                catalog.crosswalks.push({
+                    id: `${regulation.origin ?? loaded.name}:${formatControlRef(ref)}`,
+                    name: requirement.name,
+                    controls: [ref, ...requirement.mapsTo.map(target => canonical(parseControlRef(target)))],
+                    source: regulation.origin ?? loaded.name
+                });
+            }
+        }
+    }
+
+    return catalog;
+}
+
+/**
+ * Framework by name, alias or full name; unknown names come back as a framework of their own
+ */
+export function resolveFramework(catalog: CrosswalkCatalog, ...names: (string | undefined)[]): ComplianceFramework {
+    for (const name of names) {
+        if (!name) continue;
+        const key = normalizeName(parseFrameworkName(name).name);
+        const found = catalog.frameworks.find(framework =>
+            [framework.name, framework.fullName, ...framework.aliases].some(candidate => candidate && normalizeName(candidate) === key));
+        if (found) return found;
+    }
+    return { name: parseFrameworkName(names.find(Boolean) ?? '').name, aliases: [] };
+}
+
+/**
+ * Controls of a framework, each with its equivalents in other frameworks; with a target
+ * framework, also how much of the target the framework's controls cover
+ */
+export function queryCrosswalk(catalog: CrosswalkCatalog, query: CrosswalkQuery): CrosswalkResult {
+    const { version } = parseFrameworkName(query.framework);
+    const framework = resolveFramework(catalog, query.framework);
+    const target = query.targetFramework ? resolveFramework(catalog, query.targetFramework) : undefined;
+
+    const controls = frameworkControls(catalog, framework.name, version)
+        .filter(ref => !query.control || isWithin(ref.control, query.control));
+
+    const mappings = controls.map(ref => ({
+        ...ref,
+        name: catalog.controlNames.get(controlKey(ref)),
+        equivalents: equivalentsOf(catalog, ref)
+            .filter(equivalent => equivalent.framework !== framework.name)
+            .filter(equivalent => !target || equivalent.framework === target.name)
+    }));
+
+    const result: CrosswalkResult = { framework, mappings };
+    if (target) {
+        result.coverage = frameworkCoverage(catalog, framework.name, version, target.name);
+    }
+    return result;
+}
+
+/**
+ * Controls of a framework that crosswalks file under a topic, e.g. Logging -> HIPAA 164.312(b)
+ */
+export function topicControls(catalog: CrosswalkCatalog, topic: string, frameworkName: string): ControlRef[] {
+    const topicKey = topic.toLowerCase();
+    const refs = catalog.crosswalks
+        .filter(crosswalk => crosswalk.topic?.toLowerCase() === topicKey)
+        .flatMap(crosswalk => crosswalk.controls)
+        .filter(ref => ref.framework === frameworkName);
+    return uniqueRefs(refs);
+}
+
+// ==================== GRAPH ====================
+
+function frameworkControls(catalog: CrosswalkCatalog, frameworkName: string, version?: string): ControlRef[] {
+    const fromCrosswalks = catalog.crosswalks.flatMap(crosswalk => crosswalk.controls);
+    const fromCatalogs = [...catalog.controlNames.keys()].map(key => parseControlRef(key));
+    const refs = [...fromCrosswalks, ...fromCatalogs]
+        .filter(ref => ref.framework === frameworkName && versionsMatch(ref.version, version));
+
+    return uniqueRefs(refs).sort((a, b) => a.control.localeCompare(b.control, undefined, { numeric: true }));
+}
+
+function equivalentsOf(catalog: CrosswalkCatalog, ref: ControlRef): ControlEquivalent[] {
+    const key = controlKey(ref);
+    const equivalents = new Map<string, ControlEquivalent>();
+
+    for (const crosswalk of catalog.crosswalks) {
+        const member = crosswalk.controls.find(control => controlKey(control) === key);
+        if (!member || !versionsMatch(member.version, ref.version)) continue;
+
+        for (const control of crosswalk.controls) {
+            const otherKey = controlKey(control);
+            if (otherKey === key) continue;
+            const existing = equivalents.get(otherKey);
+            if (existing) {
+                if (!existing.via.includes(crosswalk.id)) existing.via.push(crosswalk.id);
+            } else {
+                equivalents.set(otherKey, { ...control, name: catalog.controlNames.get(otherKey), via: [crosswalk.id] });
+            }
+        }
+    }
+    return [...equivalents.values()];
+}
+
+/**
+ * Share of the target's controls with an equivalent in the source framework. Controls
+ * with known sub-controls only group them (PCI-DSS 10 groups 10.2) and are not counted.
+ */
+function frameworkCoverage(catalog: CrosswalkCatalog, sourceName: string, sourceVersion: string | undefined, targetName: string): FrameworkCoverage {
+    const targetControls = frameworkControls(catalog, targetName);
+    const leaves = targetControls.filter(ref =>
+        !targetControls.some(other => other.control !== ref.control && isWithin(other.control, ref.control)));
+
+    const controls = leaves.map(ref => ({
+        ...ref,
+        name: catalog.controlNames.get(controlKey(ref)),
+        coveredBy: equivalentsOf(catalog, ref)
+            .filter(equivalent => equivalent.framework === sourceName && versionsMatch(equivalent.version, sourceVersion))
+            .map(formatControlRef)
+    }));
+    const covered = controls.filter(control => control.coveredBy.length > 0).length;
+
+    return {
+        source: sourceName,
+        target: targetName,
+        covered,
+        total: controls.length,
+        percent: controls.length === 0 ? 0 : Math.round(covered / controls.length * 100),
+        controls,
+        gaps: controls.filter(control => control.coveredBy.length === 0).map(formatControlRef)
+    };
+}
+
+function readCatalog(path: string): any {
+    if (!existsSync(path)) return undefined;
+
+    const { mtimeMs } = statSync(path);
+    const cached = catalogCache.get(path);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.data;
+
+    const data = readValidatedCatalog(path, 'crosswalks.yaml');
+    catalogCache.set(path, { mtimeMs, data });
+    return data;
+}
+
+function uniqueRefs(refs: ControlRef[]): ControlRef[] {
+    const unique = new Map<string, ControlRef>();
+    for (const ref of refs) {
+        if (!unique.has(controlKey(ref))) unique.set(controlKey(ref), { framework: ref.framework, control: ref.control, version: ref.version });
+    }
+    return [...unique.values()];
+}
+
+/**
+ * Whether a control is the given one or one of its sub-controls (10.2 in 10, IA-2(1) in IA-2, AU-2 in AU)
+ */
+function isWithin(control: string, parent: string): boolean {
+    const a = control.toUpperCase();
+    const b = parent.toUpperCase();
+    return a === b || ['.', '(', '-'].some(separator => a.startsWith(b + separator));
+}
+
+function versionsMatch(a?: string, b?: string): boolean {
+    return !a || !b || a === b;
+}
+
+function controlKey(ref: ControlRef): string {
+    return `${ref.framework}:${ref.control.toUpperCase()}`;
+}
+
+function parseFrameworkName(value: string): { name: string; version?: string } {
+    const [name, version] = value.split('@');
+    return { name: name.trim(), version: version?.trim() || undefined };
+}
+
+function normalizeName(name: string): string {
+    return name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
@@ -0,0 +1,187 @@
+// Domain Detection - rank domains for a project description by weighted keyword matches
+import { findDomains } from './roots.js';
+import { getDomainFiles } from './registry.js';
+import type { DomainFiles } from './validator.js';
+
+// A score of 3 (three plain keywords, or one keyword of weight 3) is 0.5 confidence
+const CONFIDENCE_HALF_SCORE = 3;
+// The runner-up within this share of the top score makes the detection ambiguous
+const AMBIGUITY_RATIO = 0.8;
+
+export interface WeightedKeyword {
+    term: string;
+    weight: number;
+}
+
+export interface DomainMatch {
+    domain: string;
+    score: number;              // matched keyword weights minus matched negative keyword weights
+    confidence: number;         // 0..1, grows with the score
+    matchedKeywords: string[];
+    negativeKeywords: string[]; // negative keywords found in the description
+}
+
+export interface DomainDetection {
+    detected: string;           // best match, or generic when nothing matched
+    ambiguous: boolean;         // the runner-up scored close to the best match
+    matches: DomainMatch[];     // domains with a positive score, best first
+}
+
+interface IndexedKeyword extends WeightedKeyword {
+    tokens: string[];       // stemmed, compared against the description's tokens
+}
+
+interface KeywordIndex {
+    keywords: IndexedKeyword[];
+    negatives: IndexedKeyword[];
+}
+
+// Built once per registry entry; a reloaded domain gets new files and a new index
+const keywordIndexes = new WeakMap<DomainFiles, KeywordIndex>();
+
+export interface DomainSelectionOptions {
+    maxDomains?: number;        // default 1
+    minConfidence?: number;     // default 0
+}
+
+/**
+ * Rank every domain against a description. Keywords match whole words after light
+ * stemming, so "payments" matches "payment" but "sso" does not match "lesson".
+ */
+export function rankDomains(projectDescription: string): DomainDetection {
+    const tokens = tokenize(projectDescription);
+    const matches: DomainMatch[] = [];
+
+    for (const location of findDomains()) {
+        if (location.name === 'generic') continue;
+
+        let index: KeywordIndex;
+        try {
+            index = keywordIndex(getDomainFiles(location));
+        } catch {
+            continue;   // Skip invalid domains; validate_domain reports them
+        }
+
+        const matched = index.keywords.filter(keyword => containsPhrase(tokens, keyword.tokens));
+        const negated = index.negatives.filter(keyword => containsPhrase(tokens, keyword.tokens));
+        const score = sumWeights(matched) - sumWeights(negated);
+        if (score <= 0) continue;
+
+        matches.push({
+            domain: location.name,
+            score,
+            confidence: Math.round(score / (score + CONFIDENCE_HALF_SCORE) * 100) / 100,
+            matchedKeywords: matched.map(keyword => keyword.term),
+            negativeKeywords: negated.map(keyword => keyword.term)
+        });
+    }
+
+    // Ties go to the domain with more distinct keyword hits, then by name, never by listing order
+    matches.sort((a, b) =>
+        b.score - a.score ||
+        b.matchedKeywords.length - a.matchedKeywords.length ||
+        a.domain.localeCompare(b.domain));
+
+    const [best, runnerUp] = matches;
+    return {
+        detected: best?.domain ?? 'generic',
+        ambiguous: Boolean(best && runnerUp && runnerUp.score >= best.score * AMBIGUITY_RATIO),
+        matches
+    };
+}
+
+/**
+ * Auto-detect the best domain from a project description
+ */
+export function detectDomain(projectDescription: string): string {
+    return rankDomains(projectDescription).detected;
+}
+
+/**
+ * Top domains at or above minConfidence, at most maxDomains; generic when none qualify
+ */
+export function selectDomains(detection: DomainDetection, options: DomainSelectionOptions = {}): string[] {
+    const { maxDomains = 1, minConfidence = 0 } = options;
+    const selected = detection.matches
+        .filter(match => match.confidence >= minConfidence)
+        .slice(0, maxDomains)
+        .map(match => match.domain);
+
+    return selected.length > 0 ? selected : ['generic'];
+}
+
+/**
+ * keywords / negative_keywords entries: "term" or { term, weight }
+ */
+export function parseWeightedKeywords(value: unknown): WeightedKeyword[] {
+    if (!Array.isArray(value)) return [];
+
+    return value.flatMap(item => {
+        if (typeof item === 'string' || typeof item === 'number') {
+            return [{ term: String(item), weight: 1 }];
+        }
+        if (item && typeof item === 'object' && 'term' in item) {
+            const weight = Number((item as { weight?: unknown }).weight ?? 1);
+            return [{ term: String(item.term), weight: Number.isFinite(weight) ? weight : 1 }];
+        }
+        return [];
+    });
+}
+
+// ==================== MATCHING ====================
+
+function keywordIndex(files: DomainFiles): KeywordIndex {
+    let index = keywordIndexes.get(files);
+    if (!index) {
+        const domainYaml = files['domain.yaml'] ?? {};
+        const withTokens = (keyword: WeightedKeyword) => ({ ...keyword, tokens: tokenize(keyword.term) });
+        index = {
+            keywords: parseWeightedKeywords(domainYaml.keywords).map(withTokens),
+            negatives: parseWeightedKeywords(domainYaml.negative_keywords).map(withTokens)
+        };
+        keywordIndexes.set(files, index);
+    }
+    return index;
+}
+
+function sumWeights(keywords: WeightedKeyword[]): number {
+    return keywords.reduce((sum, keyword) => sum + keyword.weight, 0);
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+}
+
+/**
+ * Whether the keyword's tokens appear consecutively in the description
+ */
+function containsPhrase(tokens: string[], terms: string[]): boolean {
+    if (terms.length === 0) return false;
+
+    for (let i = 0; i + terms.length <= tokens.length; i++) {
+        if (terms.every((term, j) => tokens[i + j] === term)) return true;
+    }
+    return false;
+}
+
+/**
+ * Light English stemmer: plurals, -ing, -ed and a trailing e ("messaging" and "message" -> "messag")
+ */
+function stem(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+
+    let stemmed = word;
+    if (stemmed.endsWith('ies') && stemmed.length > 4) {
+        stemmed = `${stemmed.slice(0, -3)}y`;
+    } else if (/(ss|x|z|ch|sh)es$/.test(stemmed)) {
+        stemmed = stemmed.slice(0, -2);
+    } else if (stemmed.endsWith('s') && !/(ss|us|is)$/.test(stemmed)) {
+        stemmed = stemmed.slice(0, -1);
+    } else if (stemmed.endsWith('ing') && stemmed.length > 5) {
+        stemmed = stemmed.slice(0, -3);
+    } else if (stemmed.endsWith('ed') && stemmed.length > 4) {
+        stemmed = stemmed.slice(0, -2);
+    }
+
+    return stemmed.length > 4 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
@@ -1,2 +1,10 @@
 // Domains module barrel export
 export * from './loader.js';
+export * from './roots.js';
+export * from './compose.js';
+export * from './detection.js';
+export * from './registry.js';
+export * from './scaffold.js';
+export * from './validator.js';
+export * from './crosswalk.js';
+export * from './coverage.js';
@@ -1,17 +1,26 @@
-import { readFileSync, readdirSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-import { parse as parseYAML } from 'yaml';
-import type { Domain, Stakeholder, SensitiveData, DataClassification, DomainThreat, Regulation } from '../types/domain.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Path to domains folder
-const DOMAINS_PATH = join(__dirname, '../../domains');
+import { existsSync, realpathSync } from 'fs';
+import { resolve, relative, isAbsolute } from 'path';
+import type {
+    Domain,
+    DomainThreat,
+    DomainMitigation,
+    Regulation,
+    TechnicalConstraint,
+    RecommendedTechStack,
+    DomainDataFlow,
+    IntegrationPoints,
+    IntegrationComponent
+} from '../types/domain.js';
+import { validateDomainDirectory, type DomainValidationResult, type DomainFiles } from './validator.js';
+import { findDomains, resolveDomain, getDomainRoots, type DomainSource } from './roots.js';
+import { splitDomainNames, composeDomains, extendDomain, DOMAIN_SEPARATOR } from './compose.js';
+import { getDomainFiles } from './registry.js';
+import { rankDomains, selectDomains, parseWeightedKeywords, type DomainSelectionOptions } from './detection.js';
 
 export interface LoadedDomain {
-    name: string;
+    name: string;           // "healthcare+fintech" for composed domains
+    source?: DomainSource;  // root the domain was loaded from
+    composedFrom?: string[];    // merged domains, bases first, when the domain extends or composes others
     domain: Domain;
     compliance?: {
         regulations: Regulation[];
@@ -24,26 +33,63 @@ export interface LoadedDomain {
 }
 
 /**
- * Load a specific domain by name
+ * Load a domain by name, or several joined with "+" (healthcare+fintech) merged into one.
+ * Domains listed under `extends` in domain.yaml are loaded first and overridden by the domain.
  */
 export async function loadDomain(domainName: string): Promise<LoadedDomain> {
-    const domainPath = join(DOMAINS_PATH, domainName);
+    return loadDomainChain(domainName, []);
+}
 
-    if (!existsSync(domainPath)) {
-        throw new Error(`Domain not found: ${domainName}`);
+async function loadDomainChain(domainName: string, chain: string[]): Promise<LoadedDomain> {
+    const names = splitDomainNames(domainName);
+    if (names.length > 1) {
+        const parts: LoadedDomain[] = [];
+        for (const name of names) {
+            parts.push(await loadDomainChain(name, chain));
+        }
+        return composeDomains(parts);
+    }
+    domainName = names[0] ?? domainName;
+
+    if (chain.includes(domainName)) {
+        throw new Error(`Domain inheritance cycle: ${[...chain, domainName].join(' -> ')}`);
     }
 
-    // Load domain.yaml (required)
-    const domainFile = join(domainPath, 'domain.yaml');
-    if (!existsSync(domainFile)) {
-        throw new Error(`domain.yaml not found in ${domainName}`);
+    const location = resolveDomain(domainName);
+    if (!location) {
+        const parent = chain[chain.length - 1];
+        throw new Error(parent
+            ? `Domain not found: ${domainName} (extended by ${parent})`
+            : `Domain not found: ${domainName}`);
     }
 
-    const domainYaml = parseYAML(readFileSync(domainFile, 'utf-8'));
+    // The registry shares its parsed YAML; the domain built from it must not alias it
+    const files = structuredClone(getDomainFiles(location));
+    return buildLoadedDomain(domainName, files, location.source, chain);
+}
+
+/**
+ * Build a domain from YAML that is already parsed and validated, such as the files of a
+ * git revision. Bases listed under `extends` are loaded from the current domain roots.
+ */
+export async function loadDomainFromFiles(domainName: string, files: DomainFiles, source?: DomainSource): Promise<LoadedDomain> {
+    return buildLoadedDomain(domainName, files, source, []);
+}
+
+async function buildLoadedDomain(
+    domainName: string,
+    files: DomainFiles,
+    source: DomainSource | undefined,
+    chain: string[]
+): Promise<LoadedDomain> {
+    const domainYaml = files['domain.yaml'];
 
     const domain: Domain = {
         name: domainName,
-        keywords: domainYaml.keywords || [],
+        keywords: parseWeightedKeywords(domainYaml.keywords).map(keyword => keyword.term),
+        negativeKeywords: domainYaml.negative_keywords
+            ? parseWeightedKeywords(domainYaml.negative_keywords).map(keyword => keyword.term)
+            : undefined,
         stakeholders: (domainYaml.stakeholders || []).map((s: any) => ({
             name: s.name,
             type: s.type,
@@ -59,23 +105,42 @@ export async function loadDomain(domainName: string): Promise<LoadedDomain> {
             high: [],
             medium: [],
             low: []
-        }
+        },
+        knowledgeBase: optionalStringList(domainYaml.knowledge_base),
+        architecturePatterns: optionalStringList(domainYaml.architecture_patterns),
+        securityStandards: optionalStringList(domainYaml.security_standards),
+        domainSpecificRequirements: domainYaml.domain_specific_requirements
+            ? [...new Set(stringList(domainYaml.domain_specific_requirements))]
+            : undefined,
+        technicalConstraints: domainYaml.technical_constraints
+            ? parseTechnicalConstraints(domainYaml.technical_constraints)
+            : undefined,
+        recommendedTechStack: domainYaml.recommended_tech_stack
+            ? parseTechStack(domainYaml.recommended_tech_stack)
+            : undefined,
+        dataFlows: domainYaml.data_flows ? parseDataFlows(domainYaml.data_flows) : undefined,
+        integrationPoints: domainYaml.integration_points
+            ? parseIntegrationPoints(domainYaml.integration_points)
+            : undefined
     };
 
-    const result: LoadedDomain = { name: domainName, domain };
+    const result: LoadedDomain = { name: domainName, source, domain };
 
-    // Load compliance.yaml (optional)
-    const complianceFile = join(domainPath, 'compliance.yaml');
-    if (existsSync(complianceFile)) {
-        const complianceYaml = parseYAML(readFileSync(complianceFile, 'utf-8'));
+    // compliance.yaml (optional)
+    const complianceYaml = files['compliance.yaml'];
+    if (complianceYaml) {
         result.compliance = {
             regulations: (complianceYaml.regulations || []).map((r: any) => ({
                 name: r.name,
                 fullName: r.full_name,
+                version: r.version,
+                controlFamilies: r.control_families,
                 requirements: (r.requirements || []).map((req: any) => ({
                     id: req.id,
                     name: req.name,
-                    description: req.description
+                    description: req.description,
+                    family: req.family,
+                    mapsTo: req.maps_to
                 }))
             })),
             auditRequirements: complianceYaml.audit_requirements ? {
@@ -85,10 +150,9 @@ export async function loadDomain(domainName: string): Promise<LoadedDomain> {
         };
     }
 
-    // Load threats.yaml (optional)
-    const threatsFile = join(domainPath, 'threats.yaml');
-    if (existsSync(threatsFile)) {
-        const threatsYaml = parseYAML(readFileSync(threatsFile, 'utf-8'));
+    // threats.yaml (optional)
+    const threatsYaml = files['threats.yaml'];
+    if (threatsYaml) {
         result.threats = (threatsYaml.threats || []).map((t: any) => ({
             id: t.id,
             category: t.category,
@@ -96,76 +160,145 @@ export async function loadDomain(domainName: string): Promise<LoadedDomain> {
             description: t.description,
             likelihood: t.likelihood,
             impact: t.impact,
-            mitigation: t.mitigation,
-            complianceImpact: t.compliance_impact
+            mitigations: parseMitigations(t.mitigation),
+            complianceImpact: t.compliance_impact,
+            cwe: t.cwe,
+            capec: t.capec,
+            attackTechniques: t.attack_techniques,
+            preconditions: t.preconditions,
+            affectedComponents: t.affected_components
         }));
     }
 
-    return result;
+    const parents = typeof domainYaml.extends === 'string' ? [domainYaml.extends] : stringList(domainYaml.extends);
+    if (parents.length === 0) {
+        return result;
+    }
+    const base = await loadDomainChain(parents.join(DOMAIN_SEPARATOR), [...chain, domainName]);
+    return extendDomain(base, result);
 }
 
 /**
- * List all available domains
+ * A threat's mitigation is one string ("MFA, identity verification") or a list of strings and { name, description }
  */
-export function listDomains(): string[] {
-    const domains: string[] = [];
-    const entries = readdirSync(DOMAINS_PATH, { withFileTypes: true });
-
-    for (const entry of entries) {
-        if (entry.isDirectory() && !entry.name.startsWith('_')) {
-            // Check if it has domain.yaml
-            const domainFile = join(DOMAINS_PATH, entry.name, 'domain.yaml');
-            if (existsSync(domainFile)) {
-                domains.push(entry.name);
-            }
-        }
+function parseMitigations(mitigation: unknown): DomainMitigation[] {
+    const items = Array.isArray(mitigation) ? mitigation : [mitigation];
+    return items
+        .filter(item => item !== null && item !== undefined)
+        .map((item: any) => typeof item === 'object'
+            ? { name: item.name, description: item.description }
+            : { name: String(item) });
+}
+
+// ==================== EXTENDED SCHEMA ====================
+
+function stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter(item => item !== null && item !== undefined).map(String) : [];
+}
+
+function optionalStringList(value: unknown): string[] | undefined {
+    return value === undefined || value === null ? undefined : stringList(value);
+}
+
+function parseTechnicalConstraints(constraints: any[]): TechnicalConstraint[] {
+    return (constraints || []).map((c: any) => ({
+        type: c.type,
+        description: c.description,
+        threshold: c.threshold
+    }));
+}
+
+function parseTechStack(stack: any): RecommendedTechStack {
+    return {
+        languages: stringList(stack.languages),
+        frameworks: stringList(stack.frameworks),
+        libraries: stringList(stack.libraries),
+        deployment: stringList(stack.deployment)
+    };
+}
+
+function parseDataFlows(flows: any[]): DomainDataFlow[] {
+    return (flows || []).map((f: any) => ({
+        name: f.name,
+        description: f.description,
+        steps: stringList(f.steps),
+        securityControls: stringList(f.security_controls)
+    }));
+}
+
+function parseIntegrationPoints(points: any): IntegrationPoints {
+    return {
+        externalApis: (points.external_apis || []).map((api: any) => ({
+            name: api.name,
+            protocol: api.protocol,
+            auth: api.auth ?? api.authentication,
+            purpose: api.purpose,
+            standard: api.standard,
+            rateLimit: api.rate_limit
+        })),
+        messageQueues: (points.message_queues || []).map((q: any) => parseIntegrationComponent(q, 'technology')),
+        databases: (points.databases || []).map((db: any) => parseIntegrationComponent(db, 'type'))
+    };
+}
+
+/**
+ * Integration components are plain strings ("Redis for session management") or objects
+ */
+function parseIntegrationComponent(component: any, technologyKey: string): IntegrationComponent {
+    if (typeof component !== 'object' || component === null) {
+        return { name: String(component), details: [] };
     }
 
-    return domains;
+    const { name, [technologyKey]: technology, ...rest } = component;
+    return {
+        name,
+        technology,
+        details: Object.entries(rest).map(([key, value]) =>
+            `${key.replace(/_/g, ' ')}: ${Array.isArray(value) ? value.join(', ') : value}`)
+    };
 }
 
 /**
- * Auto-detect domain from project description
+ * Validate a domain by name, or a domain directory by path (for domains being authored). Paths must lie
+ * in a domain root unless anyPath is set, which only the CLI does: remote callers may not probe the host.
  */
-export function detectDomain(projectDescription: string): string {
-    const description = projectDescription.toLowerCase();
-    const availableDomains = listDomains();
-
-    let bestMatch = 'generic';
-    let bestScore = 0;
-
-    for (const domainName of availableDomains) {
-        if (domainName === 'generic' || domainName === 'custom') continue;
-
-        try {
-            const domainFile = join(DOMAINS_PATH, domainName, 'domain.yaml');
-            const domainYaml = parseYAML(readFileSync(domainFile, 'utf-8'));
-            const keywords: string[] = domainYaml.keywords || [];
-
-            // Count keyword matches
-            let score = 0;
-            for (const keyword of keywords) {
-                if (description.includes(keyword.toLowerCase())) {
-                    score++;
-                }
-            }
-
-            if (score > bestScore) {
-                bestScore = score;
-                bestMatch = domainName;
-            }
-        } catch {
-            // Skip invalid domains
-        }
+export function validateDomain(nameOrPath: string, anyPath = false): DomainValidationResult {
+    const location = /^[\w-]+$/.test(nameOrPath) ? resolveDomain(nameOrPath) : undefined;
+    if (location) {
+        return validateDomainDirectory(location.path, nameOrPath);
+    }
+
+    const domainPath = resolve(nameOrPath);
+    if (!existsSync(domainPath)) {
+        throw new Error(`Domain not found: ${nameOrPath}`);
+    }
+    if (!anyPath && !inDomainRoot(domainPath)) {
+        throw new Error(`Domain path ${nameOrPath} is outside the domain roots: pass a domain name, or validate it with the CLI`);
     }
+    return validateDomainDirectory(domainPath);
+}
+
+function inDomainRoot(domainPath: string): boolean {
+    const real = realpathSync(domainPath);
+    return getDomainRoots().some(root => {
+        if (!existsSync(root.path)) return false;
+        const path = relative(realpathSync(root.path), real);
+        return path !== '' && !path.startsWith('..') && !isAbsolute(path);
+    });
+}
 
-    return bestMatch;
+/**
+ * List all available domains across the domain roots
+ */
+export function listDomains(): string[] {
+    return findDomains().map(location => location.name);
 }
 
 /**
- * Load domain with auto-detection
+ * Load domain with auto-detection. With maxDomains above 1, the top matches at or
+ * above minConfidence are composed into one domain (healthcare+fintech).
  */
-export async function loadDomainAuto(projectDescription: string): Promise<LoadedDomain> {
-    const detectedDomain = detectDomain(projectDescription);
-    return loadDomain(detectedDomain);
+export async function loadDomainAuto(projectDescription: string, options: DomainSelectionOptions = {}): Promise<LoadedDomain> {
+    const names = selectDomains(rankDomains(projectDescription), options);
+    return loadDomain(names.join(DOMAIN_SEPARATOR));
 }
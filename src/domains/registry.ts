@@ -0,0 +1,150 @@
+// Domain Registry - parse each domain directory once and drop it when fs.watch reports a YAML change
+import { watch, type FSWatcher } from 'fs';
+import { performance } from 'perf_hooks';
+import { readValidatedDomainFiles, type DomainFiles } from './validator.js';
+import { findDomains, type DomainLocation, type DomainSource } from './roots.js';
+
+interface RegistryEntry {
+    name: string;
+    source: DomainSource;
+    files: DomainFiles;
+    loadedAt: string;
+    loadMs: number;
+    hits: number;
+    watcher: FSWatcher;
+}
+
+export interface DomainRegistryEntryStats {
+    name: string;
+    path: string;
+    source: DomainSource;
+    loadedAt: string;
+    loadMs: number;         // read, parse and schema validation
+    hits: number;
+}
+
+export interface DomainRegistryStats {
+    cached: number;
+    hits: number;
+    misses: number;
+    invalidations: number;  // entries dropped after a change on disk
+    uncached: number;       // loads that could not be cached because the directory cannot be watched
+    totalLoadMs: number;    // of the cached entries
+    domains: DomainRegistryEntryStats[];
+}
+
+const entries = new Map<string, RegistryEntry>();   // keyed by domain directory
+const counters = { hits: 0, misses: 0, invalidations: 0, uncached: 0 };
+
+/**
+ * Parsed and validated YAML of a domain directory. The result is shared between
+ * callers; copy before changing it.
+ */
+export function getDomainFiles(location: DomainLocation): DomainFiles {
+    const cached = entries.get(location.path);
+    if (cached) {
+        cached.hits++;
+        counters.hits++;
+        return cached.files;
+    }
+    counters.misses++;
+
+    // Watch before reading so that a save during the read still invalidates the entry
+    const watcher = watchDomainDirectory(location.path);
+    const started = performance.now();
+    let files: DomainFiles;
+    try {
+        files = readValidatedDomainFiles(location.path, location.name);
+    } catch (error) {
+        watcher?.close();
+        throw error;
+    }
+
+    if (!watcher) {
+        counters.uncached++;
+        return files;
+    }
+
+    entries.set(location.path, {
+        name: location.name,
+        source: location.source,
+        files,
+        loadedAt: new Date().toISOString(),
+        loadMs: Math.round((performance.now() - started) * 100) / 100,
+        hits: 0,
+        watcher
+    });
+    return files;
+}
+
+/**
+ * Load every domain into the registry; invalid domains are left out
+ */
+export function warmDomainRegistry(): void {
+    for (const location of findDomains()) {
+        try {
+            getDomainFiles(location);
+        } catch {
+            // validate_domain reports the issues
+        }
+    }
+}
+
+/**
+ * Drop one domain directory, or every entry
+ */
+export function invalidateDomain(domainPath?: string): void {
+    const paths = domainPath === undefined ? [...entries.keys()] : [domainPath];
+    for (const path of paths) {
+        const entry = entries.get(path);
+        if (!entry) continue;
+        entry.watcher.close();
+        entries.delete(path);
+        counters.invalidations++;
+    }
+}
+
+/**
+ * Empty the registry and reset its counters
+ */
+export function clearDomainRegistry(): void {
+    for (const entry of entries.values()) entry.watcher.close();
+    entries.clear();
+    Object.assign(counters, { hits: 0, misses: 0, invalidations: 0, uncached: 0 });
+}
+
+export function getDomainRegistryStats(): DomainRegistryStats {
+    const domains = [...entries].map(([path, entry]) => ({
+        name: entry.name,
+        path,
+        source: entry.source,
+        loadedAt: entry.loadedAt,
+        loadMs: entry.loadMs,
+        hits: entry.hits
+    }));
+
+    return {
+        cached: entries.size,
+        ...counters,
+        totalLoadMs: Math.round(domains.reduce((sum, domain) => sum + domain.loadMs, 0) * 100) / 100,
+        domains
+    };
+}
+
+function watchDomainDirectory(domainPath: string): FSWatcher | undefined {
+    try {
+        const watcher = watch(domainPath, (_eventType, filename) => {
+            // Editors write swap and backup files next to the YAML; only YAML changes matter
+            if (!filename || filename.endsWith('.yaml')) invalidateDomain(domainPath);
+        });
+        // Deleting the directory ends the watch with an error
+        watcher.on('error', () => {
+            invalidateDomain(domainPath);
+            watcher.close();
+        });
+        watcher.unref();
+        return watcher;
+    } catch {
+        return undefined;
+    }
+}
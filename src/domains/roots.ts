@@ -0,0 +1,99 @@
+// Domain Roots - where domain plugins are found, in precedence order
+import { readdirSync, existsSync } from 'fs';
+import { join, dirname, resolve, delimiter } from 'path';
+import { fileURLToPath } from 'url';
+import { getStoreDir } from '../store/project-store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Path to the built-in domains folder
+export const DOMAINS_PATH = join(__dirname, '../../domains');
+export const CUSTOM_DOMAINS_PATH = join(DOMAINS_PATH, 'custom');
+
+export type DomainSource = 'project' | 'env' | 'custom' | 'builtin';
+
+export interface DomainRoot {
+    source: DomainSource;
+    path: string;
+}
+
+export interface DomainLocation {
+    name: string;
+    path: string;           // domain directory
+    source: DomainSource;
+    shadows: string[];      // directories of the same name in lower-precedence roots
+}
+
+/**
+ * Domain roots, highest precedence first:
+ * 1. project  - <store dir>/domains (.ssdlc/domains, or $SSDLC_DIR/domains)
+ * 2. env      - $SSDLC_DOMAINS_PATH, a path-delimiter separated list, earlier entries win
+ * 3. custom   - domains/custom
+ * 4. builtin  - domains
+ */
+export function getDomainRoots(): DomainRoot[] {
+    const envRoots = (process.env.SSDLC_DOMAINS_PATH ?? '')
+        .split(delimiter)
+        .filter(Boolean)
+        .map(path => ({ source: 'env' as const, path: resolve(path) }));
+
+    return [
+        { source: 'project', path: join(getStoreDir(), 'domains') },
+        ...envRoots,
+        { source: 'custom', path: CUSTOM_DOMAINS_PATH },
+        { source: 'builtin', path: DOMAINS_PATH }
+    ];
+}
+
+/**
+ * Root that new domains are scaffolded into: the first $SSDLC_DOMAINS_PATH entry when set, otherwise
+ * the project root. The package's own folders are never written to, they may be read-only or shared.
+ */
+export function getScaffoldRoot(): string {
+    const roots = getDomainRoots();
+    return (roots.find(root => root.source === 'env') ?? roots[0] as DomainRoot).path;
+}
+
+/**
+ * Domain directories directly under a root: folders with a domain.yaml, skipping _-prefixed ones
+ */
+export function listRootDomains(root: DomainRoot): string[] {
+    if (!existsSync(root.path)) return [];
+
+    return readdirSync(root.path, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('_'))
+        // domains/custom is a root of its own, not a domain
+        .filter(entry => !(root.source === 'builtin' && entry.name === 'custom'))
+        .filter(entry => existsSync(join(root.path, entry.name, 'domain.yaml')))
+        .map(entry => entry.name);
+}
+
+/**
+ * Every reachable domain. A name found in several roots resolves to the
+ * highest-precedence one; the others are listed in shadows.
+ */
+export function findDomains(): DomainLocation[] {
+    const found = new Map<string, DomainLocation>();
+
+    for (const root of getDomainRoots()) {
+        for (const name of listRootDomains(root)) {
+            const path = join(root.path, name);
+            const existing = found.get(name);
+            if (existing) {
+                if (existing.path !== path) existing.shadows.push(path);
+            } else {
+                found.set(name, { name, path, source: root.source, shadows: [] });
+            }
+        }
+    }
+
+    return [...found.values()];
+}
+
+/**
+ * Resolve a domain name through the roots, undefined when no root has it
+ */
+export function resolveDomain(domainName: string): DomainLocation | undefined {
+    return findDomains().find(location => location.name === domainName);
+}
@@ -0,0 +1,300 @@
+// Domain Scaffold - write a schema-valid domain.yaml, compliance.yaml and threats.yaml trio for a new domain
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { stringify } from 'yaml';
+import type { DomainThreat } from '../types/domain.js';
+import { findDomains, getScaffoldRoot } from './roots.js';
+import { getDomainFiles, invalidateDomain } from './registry.js';
+import { parseWeightedKeywords } from './detection.js';
+import { validateDomainSources, formatValidationIssue, type DomainFile } from './validator.js';
+
+export interface ScaffoldRegulation {
+    name: string;
+    fullName?: string;
+    requirements?: { id?: string; name: string; description?: string }[];
+}
+
+export interface ScaffoldThreat {
+    id?: string;            // generated as <PREFIX>-T<n> when omitted
+    category: DomainThreat['category'];
+    name: string;
+    description?: string;
+    likelihood?: DomainThreat['likelihood'];   // default medium
+    impact?: DomainThreat['impact'];           // default high
+    mitigation: string;
+}
+
+export interface ScaffoldDomainInput {
+    name: string;           // directory name, e.g. ecommerce
+    displayName?: string;
+    description?: string;
+    keywords: string[];
+    extends?: string[];
+    regulations?: (string | ScaffoldRegulation)[];
+    threats?: ScaffoldThreat[];
+    dryRun?: boolean;
+    overwrite?: boolean;
+}
+
+/**
+ * Something the scaffold shares with installed domains. Blocking conflicts stop the write.
+ */
+export interface ScaffoldConflict {
+    kind: 'domain' | 'threat_id' | 'regulation' | 'keyword';
+    value: string;
+    domains: string[];
+    blocking: boolean;
+    message: string;
+}
+
+export interface ScaffoldFile {
+    file: DomainFile;
+    status: 'new' | 'changed' | 'unchanged';    // against the file already in the target directory
+    content: string;
+}
+
+export interface ScaffoldDomainResult {
+    domain: string;
+    path: string;
+    written: boolean;
+    dryRun: boolean;
+    files: ScaffoldFile[];
+    threatIds: string[];
+    conflicts: ScaffoldConflict[];
+}
+
+// Seeds that satisfy the schema; edit them to fit the domain
+const DEFAULT_STAKEHOLDERS = [
+    { name: 'End User', type: 'end_user', data_access: 'Own account and data' },
+    { name: 'Administrator', type: 'internal', data_access: 'Configuration and user management' },
+    { name: 'Auditor', type: 'governance', data_access: 'Audit logs, read-only' }
+];
+
+const DEFAULT_SENSITIVE_DATA = [
+    { type: 'Credentials', level: 'critical', encryption: 'required' },
+    { type: 'Personal Data', level: 'high', encryption: 'required' }
+];
+
+const DEFAULT_DATA_CLASSIFICATION = {
+    critical: ['Credentials', 'Encryption keys'],
+    high: ['Personal Data'],
+    medium: ['Internal reports'],
+    low: ['Public content']
+};
+
+interface InstalledDomain {
+    name: string;
+    path: string;
+    keywords: string[];
+    regulations: string[];
+    threatIds: string[];
+}
+
+/**
+ * Build the three files for a new domain, compare them with the installed domains
+ * and write them unless this is a dry run or a blocking conflict was found
+ */
+export function scaffoldDomain(input: ScaffoldDomainInput, targetRoot: string = getScaffoldRoot()): ScaffoldDomainResult {
+    const installed = readInstalledDomains();
+    const domainPath = join(targetRoot, input.name);
+
+    const usedIds = new Set(installed.flatMap(domain => domain.threatIds));
+    const threats = assignThreatIds(input.name, input.threats ?? [], usedIds);
+
+    const sources = renderDomainSources(input, threats);
+    const issues = validateDomainSources(sources);
+    if (issues.length > 0) {
+        // Input schemas should rule this out; report rather than write an invalid domain
+        throw new Error(`Scaffold for ${input.name} failed schema validation:\n${issues.map(issue => `  ${formatValidationIssue(issue)}`).join('\n')}`);
+    }
+
+    const conflicts = findConflicts(input, threats, installed, domainPath);
+    const files = (Object.entries(sources) as [DomainFile, string][]).map(([file, content]) => ({
+        file,
+        status: fileStatus(join(domainPath, file), content),
+        content
+    }));
+
+    const dryRun = input.dryRun ?? false;
+    const written = !dryRun && !conflicts.some(conflict => conflict.blocking);
+    if (written) {
+        mkdirSync(domainPath, { recursive: true });
+        for (const { file, content } of files) {
+            writeFileSync(join(domainPath, file), content);
+        }
+        invalidateDomain(domainPath);
+    }
+
+    return {
+        domain: input.name,
+        path: domainPath,
+        written,
+        dryRun,
+        files,
+        threatIds: threats.map(threat => threat.id),
+        conflicts
+    };
+}
+
+// ==================== RENDERING ====================
+
+function renderDomainSources(input: ScaffoldDomainInput, threats: (ScaffoldThreat & { id: string })[]): Record<DomainFile, string> {
+    const domainYaml = {
+        name: input.displayName ?? input.name,
+        ...(input.description ? { description: input.description } : {}),
+        ...(input.extends && input.extends.length > 0 ? { extends: input.extends } : {}),
+        keywords: input.keywords,
+        stakeholders: DEFAULT_STAKEHOLDERS,
+        sensitive_data: DEFAULT_SENSITIVE_DATA,
+        data_classification: DEFAULT_DATA_CLASSIFICATION
+    };
+
+    const complianceYaml = {
+        regulations: (input.regulations ?? []).map(regulation => {
+            const { name, fullName, requirements = [] } = typeof regulation === 'string' ? { name: regulation } : regulation;
+            return {
+                name,
+                ...(fullName ? { full_name: fullName } : {}),
+                requirements: requirements.map((requirement, index) => ({
+                    id: requirement.id ?? `${name}-${index + 1}`,
+                    name: requirement.name,
+                    ...(requirement.description ? { description: requirement.description } : {})
+                }))
+            };
+        })
+    };
+
+    const threatsYaml = {
+        threats: threats.map(threat => ({
+            id: threat.id,
+            category: threat.category,
+            name: threat.name,
+            ...(threat.description ? { description: threat.description } : {}),
+            likelihood: threat.likelihood ?? 'medium',
+            impact: threat.impact ?? 'high',
+            mitigation: threat.mitigation
+        }))
+    };
+
+    return {
+        'domain.yaml': stringify(domainYaml),
+        'compliance.yaml': stringify(complianceYaml),
+        'threats.yaml': stringify(threatsYaml)
+    };
+}
+
+/**
+ * Prefix from the domain name: ecommerce -> EC, supply_chain -> SC
+ */
+function threatIdPrefix(domainName: string): string {
+    const parts = domainName.split(/[_-]/).filter(Boolean);
+    const prefix = parts.length > 1 ? parts.map(part => part[0]).join('') : domainName.slice(0, 2);
+    return prefix.toUpperCase();
+}
+
+function assignThreatIds(domainName: string, threats: ScaffoldThreat[], usedIds: Set<string>): (ScaffoldThreat & { id: string })[] {
+    const prefix = threatIdPrefix(domainName);
+    const taken = new Set([...usedIds, ...threats.map(threat => threat.id).filter(id => id !== undefined)]);
+    let next = 1;
+
+    return threats.map(threat => {
+        if (threat.id) return { ...threat, id: threat.id };
+        while (taken.has(`${prefix}-T${next}`)) next++;
+        const id = `${prefix}-T${next}`;
+        taken.add(id);
+        return { ...threat, id };
+    });
+}
+
+function fileStatus(filePath: string, content: string): ScaffoldFile['status'] {
+    if (!existsSync(filePath)) return 'new';
+    return readFileSync(filePath, 'utf-8') === content ? 'unchanged' : 'changed';
+}
+
+// ==================== CONFLICTS ====================
+
+function readInstalledDomains(): InstalledDomain[] {
+    const installed: InstalledDomain[] = [];
+    for (const location of findDomains()) {
+        try {
+            const files = getDomainFiles(location);
+            installed.push({
+                name: location.name,
+                path: location.path,
+                keywords: parseWeightedKeywords(files['domain.yaml']?.keywords).map(keyword => keyword.term.toLowerCase()),
+                regulations: (files['compliance.yaml']?.regulations ?? []).map((r: { name: string }) => r.name),
+                threatIds: (files['threats.yaml']?.threats ?? []).map((t: { id: string }) => t.id)
+            });
+        } catch {
+            // Invalid domains cannot be loaded, so they cannot clash either
+        }
+    }
+    return installed;
+}
+
+function findConflicts(
+    input: ScaffoldDomainInput,
+    threats: { id: string }[],
+    installed: InstalledDomain[],
+    domainPath: string
+): ScaffoldConflict[] {
+    const conflicts: ScaffoldConflict[] = [];
+    // The files being replaced do not conflict with their replacement
+    const others = installed.filter(domain => domain.path !== domainPath);
+
+    const sameName = installed.filter(domain => domain.name === input.name);
+    if (sameName.length > 0) {
+        const inPlace = sameName.some(domain => domain.path === domainPath);
+        conflicts.push({
+            kind: 'domain',
+            value: input.name,
+            domains: sameName.map(domain => domain.path),
+            blocking: inPlace && !input.overwrite,
+            message: inPlace
+                ? (input.overwrite ? `Overwrites ${domainPath}` : `${domainPath} exists; pass overwrite to replace it`)
+                : `Shadows or is shadowed by the domain at ${sameName[0].path}`
+        });
+    }
+
+    for (const { id } of threats) {
+        const owners = others.filter(domain => domain.threatIds.includes(id));
+        if (owners.length > 0) {
+            conflicts.push({
+                kind: 'threat_id',
+                value: id,
+                domains: owners.map(domain => domain.name),
+                blocking: true,
+                message: `Threat ID ${id} is already used by ${owners.map(domain => domain.name).join(', ')}`
+            });
+        }
+    }
+
+    for (const regulation of input.regulations ?? []) {
+        const name = typeof regulation === 'string' ? regulation : regulation.name;
+        const owners = others.filter(domain => domain.regulations.some(r => r.toLowerCase() === name.toLowerCase()));
+        if (owners.length > 0) {
+            conflicts.push({
+                kind: 'regulation',
+                value: name,
+                domains: owners.map(domain => domain.name),
+                blocking: false,
+                message: `${name} is already defined by ${owners.map(domain => domain.name).join(', ')}; consider extends`
+            });
+        }
+    }
+
+    for (const keyword of input.keywords) {
+        const owners = others.filter(domain => domain.keywords.includes(keyword.toLowerCase()));
+        if (owners.length > 0) {
+            conflicts.push({
+                kind: 'keyword',
+                value: keyword,
+                domains: owners.map(domain => domain.name),
+                blocking: false,
+                message: `Keyword "${keyword}" also detects ${owners.map(domain => domain.name).join(', ')}`
+            });
+        }
+    }
+
+    return conflicts;
+}
@@ -0,0 +1,270 @@
+// Domain Validator - check domain.yaml, compliance.yaml and threats.yaml against domains/_schema
+import { readFileSync, existsSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { fileURLToPath } from 'url';
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+import { parseDocument, LineCounter, isNode, type Document } from 'yaml';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const DOMAIN_SCHEMA_PATH = join(__dirname, '../../domains/_schema');
+
+export type DomainFile = 'domain.yaml' | 'compliance.yaml' | 'threats.yaml';
+
+// Shared catalogs that live next to the domains in _-prefixed folders
+export type CatalogFile = 'crosswalks.yaml';
+
+export const DOMAIN_FILES: DomainFile[] = ['domain.yaml', 'compliance.yaml', 'threats.yaml'];
+
+const SCHEMA_FILES: Record<DomainFile | CatalogFile, string> = {
+    'domain.yaml': 'domain.schema.json',
+    'compliance.yaml': 'compliance.schema.json',
+    'threats.yaml': 'threats.schema.json',
+    'crosswalks.yaml': 'crosswalks.schema.json'
+};
+
+export interface DomainValidationIssue {
+    file: DomainFile | CatalogFile;
+    line?: number;          // 1-based; absent when the file is missing
+    column?: number;
+    path: string;           // e.g. "stakeholders[1].type"; empty for the document root
+    message: string;
+}
+
+export interface DomainValidationResult {
+    domain: string;
+    path: string;           // domain directory
+    valid: boolean;
+    filesChecked: DomainFile[];
+    issues: DomainValidationIssue[];
+}
+
+/**
+ * Parsed YAML of a domain directory; compliance.yaml and threats.yaml are optional
+ */
+export type DomainFiles = Partial<Record<DomainFile, any>>;
+
+/**
+ * Thrown by loadDomain when a domain plugin does not match its schema
+ */
+export class DomainValidationError extends Error {
+    readonly domain: string;
+    readonly issues: DomainValidationIssue[];
+
+    constructor(domain: string, issues: DomainValidationIssue[]) {
+        const lines = issues.map(issue => `  ${formatValidationIssue(issue)}`);
+        super(`Domain "${domain}" failed schema validation:\n${lines.join('\n')}`);
+        this.name = 'DomainValidationError';
+        this.domain = domain;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Validate the YAML files of a domain directory
+ */
+export function validateDomainDirectory(domainPath: string, domainName = basename(domainPath)): DomainValidationResult {
+    const { issues, files } = checkDomainDirectory(domainPath);
+
+    return {
+        domain: domainName,
+        path: domainPath,
+        valid: issues.length === 0,
+        filesChecked: Object.keys(files) as DomainFile[],
+        issues
+    };
+}
+
+/**
+ * Parse and validate a domain directory, throwing DomainValidationError on any issue
+ */
+export function readValidatedDomainFiles(domainPath: string, domainName = basename(domainPath)): DomainFiles {
+    const { issues, files } = checkDomainDirectory(domainPath);
+    if (issues.length > 0) {
+        throw new DomainValidationError(domainName, issues);
+    }
+    return files;
+}
+
+/**
+ * Parse and validate a shared catalog such as _compliance/crosswalks.yaml
+ */
+export function readValidatedCatalog(filePath: string, file: CatalogFile): any {
+    const issues: DomainValidationIssue[] = [];
+    const parsed: Partial<Record<CatalogFile, any>> = {};
+    checkSource(file, readFileSync(filePath, 'utf-8'), issues, parsed);
+    if (issues.length > 0) {
+        throw new DomainValidationError(basename(dirname(filePath)), issues);
+    }
+    return parsed[file];
+}
+
+/**
+ * Parse and validate domain YAML that is not in a domain directory, such as a git revision
+ */
+export function readValidatedDomainSources(sources: Partial<Record<DomainFile, string>>, domainName: string): DomainFiles {
+    const issues: DomainValidationIssue[] = [];
+    const files: DomainFiles = {};
+    for (const [file, text] of Object.entries(sources) as [DomainFile, string][]) {
+        checkSource(file, text, issues, files);
+    }
+    if (!files['domain.yaml'] && issues.length === 0) {
+        issues.push({ file: 'domain.yaml', path: '', message: 'File not found (domain.yaml is required)' });
+    }
+    if (issues.length > 0) {
+        throw new DomainValidationError(domainName, issues);
+    }
+    return files;
+}
+
+/**
+ * Validate YAML that is not on disk yet, such as a domain scaffold
+ */
+export function validateDomainSources(sources: Partial<Record<DomainFile, string>>): DomainValidationIssue[] {
+    const issues: DomainValidationIssue[] = [];
+    for (const [file, text] of Object.entries(sources) as [DomainFile, string][]) {
+        checkSource(file, text, issues, {});
+    }
+    return issues;
+}
+
+/**
+ * "domain.yaml:12:7 stakeholders[1].type: must be one of ..."
+ */
+export function formatValidationIssue(issue: DomainValidationIssue): string {
+    const location = issue.line ? `${issue.file}:${issue.line}:${issue.column}` : issue.file;
+    return issue.path ? `${location} ${issue.path}: ${issue.message}` : `${location} ${issue.message}`;
+}
+
+// ==================== CHECKS ====================
+
+const validators = new Map<DomainFile | CatalogFile, ValidateFunction>();
+
+function getValidator(file: DomainFile | CatalogFile): ValidateFunction {
+    let validate = validators.get(file);
+    if (!validate) {
+        const schema = JSON.parse(readFileSync(join(DOMAIN_SCHEMA_PATH, SCHEMA_FILES[file]), 'utf-8'));
+        // The schemas carry draft-07 $schema URIs; Ajv 8 validates them without the meta-schema
+        validate = new Ajv({ allErrors: true, verbose: true, strict: false, validateSchema: false }).compile(schema);
+        validators.set(file, validate);
+    }
+    return validate;
+}
+
+function checkDomainDirectory(domainPath: string): { issues: DomainValidationIssue[]; files: DomainFiles } {
+    const issues: DomainValidationIssue[] = [];
+    const files: DomainFiles = {};
+
+    for (const file of DOMAIN_FILES) {
+        const filePath = join(domainPath, file);
+        if (!existsSync(filePath)) {
+            if (file === 'domain.yaml') {
+                issues.push({ file, path: '', message: 'File not found (domain.yaml is required)' });
+            }
+            continue;
+        }
+
+        checkSource(file, readFileSync(filePath, 'utf-8'), issues, files);
+    }
+
+    return { issues, files };
+}
+
+function checkSource<F extends DomainFile | CatalogFile>(
+    file: F,
+    text: string,
+    issues: DomainValidationIssue[],
+    parsed: Partial<Record<F, any>>
+): void {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(text, { lineCounter });
+
+    if (doc.errors.length > 0) {
+        for (const error of doc.errors) {
+            issues.push({
+                file,
+                line: error.linePos?.[0].line,
+                column: error.linePos?.[0].col,
+                path: '',
+                message: error.message.split('\n')[0]
+            });
+        }
+        return;
+    }
+
+    const data = doc.toJS() ?? {};
+    parsed[file] = data;
+
+    const validate = getValidator(file);
+    if (!validate(data)) {
+        issues.push(...schemaIssues(file, doc, lineCounter, validate.errors ?? []));
+    }
+}
+
+function schemaIssues(
+    file: DomainFile | CatalogFile,
+    doc: Document,
+    lineCounter: LineCounter,
+    errors: ErrorObject[]
+): DomainValidationIssue[] {
+    // A failed oneOf also reports every branch; keep only the oneOf error itself
+    const oneOfPaths = errors.filter(e => e.keyword === 'oneOf').map(e => e.instancePath);
+    const relevant = errors.filter(e =>
+        !(e.schemaPath.includes('/oneOf/') && oneOfPaths.some(path => e.instancePath.startsWith(path))));
+
+    const issues: DomainValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    for (const error of relevant) {
+        const segments = pointerSegments(error.instancePath);
+        let message = error.message ?? 'is invalid';
+        const path = [...segments];
+
+        if (error.keyword === 'required') {
+            path.push(error.params.missingProperty);
+            message = 'is required';
+        } else if (error.keyword === 'enum') {
+            message = `must be one of: ${(error.params.allowedValues as unknown[]).join(', ')}`;
+        } else if (error.keyword === 'oneOf') {
+            const description = (error.parentSchema as { description?: string } | undefined)?.description;
+            message = description ? `must be ${description}` : 'must match exactly one allowed form';
+        }
+
+        const formattedPath = formatPath(path);
+        const key = `${formattedPath}|${message}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const position = nodePosition(doc, lineCounter, segments);
+        issues.push({ file, line: position?.line, column: position?.col, path: formattedPath, message });
+    }
+
+    return issues;
+}
+
+function pointerSegments(pointer: string): (string | number)[] {
+    if (!pointer) return [];
+    return pointer.slice(1).split('/').map(segment => {
+        const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+        return /^\d+$/.test(key) ? Number(key) : key;
+    });
+}
+
+function formatPath(segments: (string | number)[]): string {
+    return segments.reduce<string>((path, segment) =>
+        typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '');
+}
+
+/**
+ * Line and column of the node at a path, or of its nearest existing ancestor
+ */
+function nodePosition(doc: Document, lineCounter: LineCounter, segments: (string | number)[]): { line: number; col: number } | undefined {
+    for (let length = segments.length; length >= 0; length--) {
+        const node = length === 0 ? doc.contents : doc.getIn(segments.slice(0, length), true);
+        if (isNode(node) && node.range) {
+            return lineCounter.linePos(node.range[0]);
+        }
+    }
+    return undefined;
+}
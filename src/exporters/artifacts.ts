@@ -0,0 +1,264 @@
+// Artifact Packaging - split large generated documents out of MCP tool results
+import type { TechLeadOutput, PseudocodeFile } from '../types/tech-lead.js';
+import type { PipelineOutput } from '../orchestrator/index.js';
+import type { EnhancedPipelineOutput } from '../orchestrator/enhanced-pipeline.js';
+import type { ThreatDragonModel } from './threat-model/index.js';
+import type { AttackTree } from '../types/tools.js';
+
+/**
+ * A generated document returned alongside the structured result
+ */
+export interface ToolArtifact {
+    uri: string;        // ssdlc://artifacts/<runId>/<path>
+    name: string;
+    mimeType: string;
+    text: string;
+}
+
+/**
+ * Reference to an artifact, kept inside the structured result
+ */
+export type ArtifactRef = Omit<ToolArtifact, 'text'>;
+
+export interface PackagedToolResult {
+    structured: Record<string, unknown>;
+    artifacts: ToolArtifact[];
+}
+
+export const ARTIFACT_URI_PREFIX = 'ssdlc://artifacts';
+
+const LANGUAGE_MIME_TYPES: Record<string, string> = {
+    python: 'text/x-python',
+    typescript: 'text/x-typescript',
+    javascript: 'text/javascript',
+    java: 'text/x-java',
+    go: 'text/x-go',
+    csharp: 'text/x-csharp',
+    cpp: 'text/x-c++src',
+    rust: 'text/x-rust'
+};
+
+/**
+ * MIME type for source code in a given language
+ */
+export function mimeTypeForLanguage(language: string): string {
+    return LANGUAGE_MIME_TYPES[language] || 'text/plain';
+}
+
+/**
+ * Package a tool result: large documents become artifacts, the rest stays structured
+ */
+export function packageToolResult(toolName: string, result: unknown): PackagedToolResult {
+    switch (toolName) {
+        case 'techlead_design':
+            return packageTechLead(result as TechLeadOutput, `${ARTIFACT_URI_PREFIX}/techlead-${Date.now()}`);
+        case 'orchestrate_ssdlc_pipeline':
+            return packagePipeline(result as PipelineOutput);
+        case 'orchestrate_enhanced_pipeline':
+            return packageEnhancedPipeline(result as EnhancedPipelineOutput);
+        case 'get_secure_template':
+            return packageSecureTemplate(result as SecureTemplateResult);
+        case 'export_threat_model':
+            return packageThreatModelExport(result as ThreatModelExportResult);
+        case 'security_attack_trees':
+            return packageAttackTrees(result as { trees: AttackTree[] }, `${ARTIFACT_URI_PREFIX}/attack-trees-${Date.now()}`);
+        default:
+            return { structured: result as Record<string, unknown>, artifacts: [] };
+    }
+}
+
+// ==================== PACKAGERS ====================
+
+interface SecureTemplateResult {
+    feature_type: string;
+    language: string;
+    template: string;
+}
+
+function packageSecureTemplate(result: SecureTemplateResult): PackagedToolResult {
+    const extension = result.language === 'python' ? 'py' : result.language === 'java' ? 'java'
+        : result.language === 'javascript' ? 'js' : 'ts';
+    const artifact: ToolArtifact = {
+        uri: `${ARTIFACT_URI_PREFIX}/templates/${result.language}/${result.feature_type}.${extension}`,
+        name: `${result.feature_type}.${extension}`,
+        mimeType: mimeTypeForLanguage(result.language),
+        text: result.template.trim()
+    };
+
+    return {
+        structured: {
+            feature_type: result.feature_type,
+            language: result.language,
+            artifacts: [toRef(artifact)]
+        },
+        artifacts: [artifact]
+    };
+}
+
+interface ThreatModelExportResult {
+    format: string;
+    title: string;
+    model: ThreatDragonModel;
+    warnings: string[];
+}
+
+function packageThreatModelExport(result: ThreatModelExportResult): PackagedToolResult {
+    const name = `${slugify(result.title) || 'threat-model'}.json`;
+    const artifact: ToolArtifact = {
+        uri: `${ARTIFACT_URI_PREFIX}/threat-models/${name}`,
+        name,
+        mimeType: 'application/json',
+        text: JSON.stringify(result.model, null, 2)
+    };
+
+    return {
+        structured: {
+            format: result.format,
+            title: result.title,
+            warnings: result.warnings,
+            artifacts: [toRef(artifact)]
+        },
+        artifacts: [artifact]
+    };
+}
+
+function packageTechLead(output: TechLeadOutput, baseUri: string): PackagedToolResult {
+    const artifacts: ToolArtifact[] = [];
+
+    const pseudocode = output.pseudocode.map((file: PseudocodeFile) => {
+        const artifact: ToolArtifact = {
+            uri: `${baseUri}/pseudocode/${file.filename}`,
+            name: file.filename,
+            mimeType: mimeTypeForLanguage(file.language),
+            text: file.content
+        };
+        artifacts.push(artifact);
+        const { content: _content, ...metadata } = file;
+        return { ...metadata, resourceUri: artifact.uri };
+    });
+
+    artifacts.push(mermaidArtifact(`${baseUri}/diagrams/architecture.mmd`, output.architectureDiagram));
+    if (output.dataFlowDiagrams) {
+        artifacts.push(mermaidArtifact(`${baseUri}/diagrams/dfd-level0.mmd`, output.dataFlowDiagrams.level0));
+        artifacts.push(mermaidArtifact(`${baseUri}/diagrams/dfd-level1.mmd`, output.dataFlowDiagrams.level1));
+        artifacts.push(mermaidArtifact(`${baseUri}/diagrams/dfd-level2.mmd`, output.dataFlowDiagrams.level2));
+        for (const flow of output.dataFlowDiagrams.domainFlows || []) {
+            artifacts.push(mermaidArtifact(`${baseUri}/diagrams/dfd-flow-${slugify(flow.name)}.mmd`, flow.diagram));
+        }
+    }
+    if (output.entityRelationshipDiagram) {
+        artifacts.push(mermaidArtifact(`${baseUri}/diagrams/erd.mmd`, output.entityRelationshipDiagram));
+    }
+
+    const {
+        architectureDiagram: _architectureDiagram,
+        dataFlowDiagrams: _dataFlowDiagrams,
+        entityRelationshipDiagram: _entityRelationshipDiagram,
+        ...rest
+    } = output;
+
+    return {
+        structured: { ...rest, pseudocode, artifacts: artifacts.map(toRef) },
+        artifacts
+    };
+}
+
+function packagePipeline(output: PipelineOutput): PackagedToolResult {
+    const baseUri = `${ARTIFACT_URI_PREFIX}/${output.orchestrationId}`;
+    const techLead = packageTechLead(output.phases.techLead, baseUri);
+    const { artifacts: _techLeadRefs, ...techLeadStructured } = techLead.structured;
+
+    return {
+        structured: {
+            ...output,
+            phases: { ...output.phases, techLead: techLeadStructured },
+            artifacts: techLead.artifacts.map(toRef)
+        },
+        artifacts: techLead.artifacts
+    };
+}
+
+function packageEnhancedPipeline(output: EnhancedPipelineOutput): PackagedToolResult {
+    const baseUri = `${ARTIFACT_URI_PREFIX}/${output.orchestrationId}`;
+    const techLead = packageTechLead(output.phases.techLead, baseUri);
+    const { artifacts: _techLeadRefs, ...techLeadStructured } = techLead.structured;
+    const artifacts = [...techLead.artifacts];
+
+    artifacts.push(mermaidArtifact(`${baseUri}/diagrams/gantt.mmd`, output.phases.pm.ganttChart));
+    artifacts.push(markdownArtifact(`${baseUri}/deliverables/srs.md`, output.deliverables.srs));
+    artifacts.push(markdownArtifact(`${baseUri}/deliverables/project-plan.md`, output.deliverables.projectPlan));
+    artifacts.push(markdownArtifact(`${baseUri}/deliverables/risk-register.md`, output.deliverables.riskRegister));
+    output.phases.architecture.decisions.forEach((adr, idx) => {
+        artifacts.push(markdownArtifact(
+            `${baseUri}/deliverables/adr/${adr.id.toLowerCase()}.md`,
+            output.deliverables.adrDocuments[idx] ?? ''
+        ));
+    });
+
+    const { ganttChart: _ganttChart, ...pm } = output.phases.pm;
+    const { deliverables: _deliverables, ...rest } = output;
+
+    return {
+        structured: {
+            ...rest,
+            phases: { ...output.phases, techLead: techLeadStructured, pm },
+            artifacts: artifacts.map(toRef)
+        },
+        artifacts
+    };
+}
+
+// ==================== HELPERS ====================
+
+function packageAttackTrees(result: { trees: AttackTree[] }, baseUri: string): PackagedToolResult {
+    const artifacts: ToolArtifact[] = [];
+    const trees = result.trees.map(({ mermaid, ...tree }) => {
+        const artifact = mermaidArtifact(`${baseUri}/diagrams/attack-tree-${tree.threatId.toLowerCase()}.mmd`, mermaid);
+        artifacts.push(artifact);
+        return { ...tree, resourceUri: artifact.uri };
+    });
+
+    return {
+        structured: { trees, artifacts: artifacts.map(toRef) },
+        artifacts
+    };
+}
+
+function mermaidArtifact(uri: string, diagram: string): ToolArtifact {
+    return {
+        uri,
+        name: uri.slice(uri.lastIndexOf('/') + 1),
+        mimeType: 'text/x-mermaid',
+        text: stripMermaidFence(diagram)
+    };
+}
+
+function markdownArtifact(uri: string, markdown: string): ToolArtifact {
+    return {
+        uri,
+        name: uri.slice(uri.lastIndexOf('/') + 1),
+        mimeType: 'text/markdown',
+        text: markdown
+    };
+}
+
+/**
+ * Diagrams are generated as ```mermaid fenced blocks; the raw resource drops the fence
+ */
+function stripMermaidFence(diagram: string): string {
+    return diagram
+        .trim()
+        .replace(/^```mermaid\s*\n/, '')
+        .replace(/\n```\s*$/, '');
+}
+
+/**
+ * File-name-safe form of a title, e.g. "Card Payment Flow" -> "card-payment-flow"
+ */
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function toRef(artifact: ToolArtifact): ArtifactRef {
+    return { uri: artifact.uri, name: artifact.name, mimeType: artifact.mimeType };
+}
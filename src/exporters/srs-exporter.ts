@@ -1,11 +1,20 @@
 import type { PipelineOutput } from '../orchestrator/index.js';
+import type { EnhancedPipelineOutput } from '../orchestrator/enhanced-pipeline.js';
+import type { PMOutput } from '../tools/bm/index.js';
+import type { ADROutput } from '../tools/architecture/adr-generator.js';
+import { includesDomain } from '../domains/compose.js';
 
 /**
  * Generate Professional Software Requirements Specification (SRS)
  * Format: Full Project Plan with Tech Stack Comparison, Sprint Planning, Team Organization
+ *
+ * When given an enhanced pipeline output, sections 3.3, 6 and 12 render the
+ * ADR and PM phases so the SRS matches the project plan and risk register.
  */
-export function generateSRS(output: PipelineOutput): string {
+export function generateSRS(output: PipelineOutput | EnhancedPipelineOutput): string {
     const { phases, domain, projectName, summary } = output;
+    const pm: PMOutput | undefined = 'pm' in phases ? phases.pm : undefined;
+    const architecture: ADROutput | undefined = 'architecture' in phases ? phases.architecture : undefined;
     const lines: string[] = [];
 
     // ==================== HEADER ====================
@@ -148,6 +157,19 @@ export function generateSRS(output: PipelineOutput): string {
     // 3.3 Architecture Decisions
     lines.push('### 3.3 Architecture Decisions');
     lines.push('');
+    if (architecture && architecture.decisions.length > 0) {
+        lines.push('| ADR | Title | Status | Decision |');
+        lines.push('|-----|-------|--------|----------|');
+        architecture.decisions.forEach(adr => {
+            const decision = adr.decision.split('\n')[0].replace(/\|/g, '\\|');
+            lines.push(`| ${adr.id} | ${adr.title} | ${adr.status} | ${decision} |`);
+        });
+        lines.push('');
+        if (architecture.summary.highRiskDecisions.length > 0) {
+            lines.push(`**High-Risk Decisions**: ${architecture.summary.highRiskDecisions.join(', ')}`);
+            lines.push('');
+        }
+    }
     if (phases.techLead.designPatterns && phases.techLead.designPatterns.length > 0) {
         lines.push('| Pattern | Description | Justification | Tradeoffs |');
         lines.push('|---------|-------------|---------------|-----------|');
@@ -196,6 +218,13 @@ export function generateSRS(output: PipelineOutput): string {
         lines.push('');
         lines.push(phases.techLead.dataFlowDiagrams.level2);
         lines.push('');
+
+        for (const flow of phases.techLead.dataFlowDiagrams.domainFlows || []) {
+            lines.push(`**Domain Data Flow - ${flow.name}**`);
+            lines.push('');
+            lines.push(flow.diagram);
+            lines.push('');
+        }
     }
 
     // 4.2 Data Design
@@ -267,15 +296,21 @@ export function generateSRS(output: PipelineOutput): string {
     lines.push('');
 
     // 6.1 Sprint Planning
-    lines.push('### 6.1 Sprint Planning (2 Weeks/Sprint)');
-    lines.push('');
-    lines.push(generateSprintPlan(phases.techLead.features, phases.ba.userStories));
+    if (pm) {
+        lines.push(`### 6.1 Sprint Planning (${getSprintWeeks(pm)} Weeks/Sprint)`);
+        lines.push('');
+        lines.push(generatePMSprintPlan(pm));
+    } else {
+        lines.push('### 6.1 Sprint Planning (2 Weeks/Sprint)');
+        lines.push('');
+        lines.push(generateSprintPlan(phases.techLead.features, phases.ba.userStories));
+    }
     lines.push('');
 
     // 6.2 Timeline
     lines.push('### 6.2 Timeline & Milestones');
     lines.push('');
-    lines.push(generateTimeline(phases.techLead.features));
+    lines.push(pm ? generatePMTimeline(pm) : generateTimeline(phases.techLead.features));
     lines.push('');
     lines.push('---');
     lines.push('');
@@ -369,11 +404,12 @@ export function generateSRS(output: PipelineOutput): string {
     // 9.1 Threat Model
     lines.push('### 9.1 Threat Model (STRIDE)');
     lines.push('');
-    lines.push('| ID | Threat | Category | Impact | Risk Score | Mitigation |');
-    lines.push('|----|--------|----------|--------|------------|------------|');
+    lines.push('| ID | Threat | Category | Impact | Risk Score | References | Mitigation |');
+    lines.push('|----|--------|----------|--------|------------|------------|------------|');
     phases.security.threats.slice(0, 10).forEach(t => {
         const mitigation = t.mitigation[0] || 'See full report';
-        lines.push(`| ${t.id} | ${t.name} | ${t.category} | ${t.impact.toUpperCase()} | ${t.riskScore.toFixed(1)} | ${mitigation} |`);
+        const references = [t.cwe, ...(t.capec ?? []), ...(t.attackTechniques ?? [])].filter(Boolean).join(', ') || '-';
+        lines.push(`| ${t.id} | ${t.name} | ${t.category} | ${t.impact.toUpperCase()} | ${t.riskScore.toFixed(1)} | ${references} | ${mitigation} |`);
     });
     lines.push('');
     lines.push(`*Full threat model: ${phases.security.threats.length} threats identified*`);
@@ -493,7 +529,9 @@ export function generateSRS(output: PipelineOutput): string {
     // ==================== 12. RISK MANAGEMENT ====================
     lines.push('## 12. RISK MANAGEMENT');
     lines.push('');
-    lines.push(generateRiskManagement(phases.security.threats, phases.ba.abuseCases));
+    lines.push(pm
+        ? generatePMRiskManagement(pm)
+        : generateRiskManagement(phases.security.threats, phases.ba.abuseCases));
     lines.push('');
     lines.push('---');
     lines.push('');
@@ -553,7 +591,7 @@ export function generateSRS(output: PipelineOutput): string {
 
 // ==================== HELPER FUNCTIONS ====================
 
-function generateDomainSpecificSection(domain: any, phases: any): string {
+function generateDomainSpecificSection(domain: PipelineOutput['domain'], phases: any): string {
     const lines: string[] = [];
     const domainName = domain.name;
 
@@ -561,7 +599,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     lines.push('');
 
     // Secure Communication Domain
-    if (domainName === 'secure_comm') {
+    if (includesDomain(domain, 'secure_comm')) {
         lines.push('### 13.1 Cryptographic Protocol Requirements');
         lines.push('');
         lines.push('**End-to-End Encryption Protocol**:');
@@ -588,7 +626,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Malware Analysis Domain
-    if (domainName === 'malware_analysis') {
+    if (includesDomain(domain, 'malware_analysis')) {
         lines.push('### 13.1 Sandbox Environment Requirements');
         lines.push('');
         lines.push('**Isolation Technology**:');
@@ -615,7 +653,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Blockchain Domain
-    if (domainName === 'blockchain') {
+    if (includesDomain(domain, 'blockchain')) {
         lines.push('### 13.1 Smart Contract Security Requirements');
         lines.push('');
         lines.push('**Vulnerability Prevention**:');
@@ -636,7 +674,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // ML/AI Domain
-    if (domainName === 'ml_ai') {
+    if (includesDomain(domain, 'ml_ai')) {
         lines.push('### 13.1 Model Security Requirements');
         lines.push('');
         lines.push('**Adversarial Robustness**:');
@@ -662,7 +700,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Network Security Domain
-    if (domainName === 'networksec') {
+    if (includesDomain(domain, 'networksec')) {
         lines.push('### 13.1 Network Monitoring Requirements');
         lines.push('');
         lines.push('**IDS/IPS Capabilities**:');
@@ -682,7 +720,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Web Security Domain
-    if (domainName === 'websec') {
+    if (includesDomain(domain, 'websec')) {
         lines.push('### 13.1 Web Application Firewall (WAF) Requirements');
         lines.push('');
         lines.push('**OWASP Top 10 Coverage**:');
@@ -709,7 +747,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // AppSec Domain
-    if (domainName === 'appsec') {
+    if (includesDomain(domain, 'appsec')) {
         lines.push('### 13.1 Security Testing Requirements');
         lines.push('');
         lines.push('**SAST (Static Application Security Testing)**:');
@@ -740,7 +778,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // DevSecOps Domain
-    if (domainName === 'devsecops') {
+    if (includesDomain(domain, 'devsecops')) {
         lines.push('### 13.1 CI/CD Security Requirements');
         lines.push('');
         lines.push('**Pipeline Security Controls**:');
@@ -762,7 +800,7 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // SOC Domain
-    if (domainName === 'soc') {
+    if (includesDomain(domain, 'soc')) {
         lines.push('### 13.1 SIEM Requirements');
         lines.push('');
         lines.push('**Log Aggregation**:');
@@ -796,10 +834,10 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Add domain-specific tech stack if available
-    if (domain.domain && domain.domain.recommended_tech_stack) {
+    if (domain.domain && domain.domain.recommendedTechStack) {
         lines.push('### Domain-Recommended Tech Stack');
         lines.push('');
-        const stack = domain.domain.recommended_tech_stack;
+        const stack = domain.domain.recommendedTechStack;
         if (stack.languages && stack.languages.length > 0) {
             lines.push(`**Languages**: ${stack.languages.join(', ')}`);
         }
@@ -816,16 +854,20 @@ function generateDomainSpecificSection(domain: any, phases: any): string {
     }
 
     // Add domain-specific data flows if available
-    if (domain.domain && domain.domain.data_flows && domain.domain.data_flows.length > 0) {
+    if (domain.domain && domain.domain.dataFlows && domain.domain.dataFlows.length > 0) {
         lines.push('### Critical Data Flows');
         lines.push('');
-        domain.domain.data_flows.forEach((flow: any) => {
+        domain.domain.dataFlows.forEach(flow => {
             lines.push(`**${flow.name}**:`);
-            if (flow.steps && flow.steps.length > 0) {
-                flow.steps.forEach((step: string, idx: number) => {
+            if (flow.steps.length > 0) {
+                flow.steps.forEach((step, idx) => {
                     lines.push(`${idx + 1}. ${step}`);
                 });
             }
+            if (flow.securityControls.length > 0) {
+                lines.push('');
+                lines.push(`*Security controls*: ${flow.securityControls.join(', ')}`);
+            }
             lines.push('');
         });
     }
@@ -1300,6 +1342,97 @@ function generateTimeline(features: any[]): string {
     return lines.join('\n');
 }
 
+function getSprintWeeks(pm: PMOutput): number {
+    const first = pm.sprints[0];
+    if (!first) return 2;
+    const days = (Date.parse(first.endDate) - Date.parse(first.startDate)) / 86400000 + 1;
+    return Math.max(1, Math.round(days / 7));
+}
+
+function generatePMSprintPlan(pm: PMOutput): string {
+    const lines: string[] = [];
+
+    lines.push('| Sprint | Start Date | End Date | Story Points | Tasks | Goal |');
+    lines.push('|--------|------------|----------|--------------|-------|------|');
+    pm.sprints.forEach(sprint => {
+        lines.push(`| Sprint ${sprint.sprintNumber} | ${sprint.startDate} | ${sprint.endDate} | ${sprint.storyPoints} | ${sprint.tasks.length} | ${sprint.goal} |`);
+    });
+
+    pm.sprints.forEach(sprint => {
+        lines.push('');
+        lines.push(`#### Sprint ${sprint.sprintNumber}: ${sprint.goal}`);
+        lines.push('');
+        lines.push('| Task ID | Description | Type | Assignee | Est. Time | Dependencies |');
+        lines.push('|---------|-------------|------|----------|-----------|--------------|');
+        pm.taskBreakdown
+            .filter(t => sprint.tasks.includes(t.id))
+            .forEach(t => {
+                const deps = t.dependencies.length > 0 ? t.dependencies.join(', ') : '-';
+                lines.push(`| ${t.id} | ${t.title} | ${t.type} | ${t.assignedRole} | ${t.estimatedHours}h | ${deps} |`);
+            });
+    });
+
+    return lines.join('\n');
+}
+
+function generatePMTimeline(pm: PMOutput): string {
+    const lines: string[] = [];
+    const lastSprint = pm.sprints[pm.sprints.length - 1];
+    const totalWeeks = pm.sprints.length * getSprintWeeks(pm);
+
+    lines.push(pm.ganttChart);
+    lines.push('');
+
+    const milestones = pm.sprints.flatMap(s => s.milestones);
+    if (milestones.length > 0) {
+        lines.push('| Milestone | Due Date | Deliverables |');
+        lines.push('|-----------|----------|--------------|');
+        milestones.forEach(m => {
+            lines.push(`| ${m.name} | ${m.dueDate} | ${m.deliverables.join(', ')} |`);
+        });
+        lines.push('');
+    }
+
+    lines.push(`**Total Duration**: ${totalWeeks} weeks (${pm.sprints.length} sprints)`);
+    lines.push(`**Critical Path**: ${pm.criticalPath.totalDuration} days (${pm.criticalPath.bufferDays} buffer days)`);
+    if (lastSprint) {
+        lines.push(`**Estimated Completion**: ${lastSprint.endDate}`);
+    }
+
+    return lines.join('\n');
+}
+
+function generatePMRiskManagement(pm: PMOutput): string {
+    const lines: string[] = [];
+
+    lines.push('### 12.1 Risk Assessment Matrix');
+    lines.push('');
+    lines.push('| Risk ID | Category | Description | Probability | Impact | Risk Score | Mitigation Strategy | Owner | Status |');
+    lines.push('|---------|----------|-------------|-------------|--------|------------|---------------------|-------|--------|');
+
+    [...pm.riskRegister]
+        .sort((a, b) => b.riskScore - a.riskScore)
+        .forEach(r => {
+            lines.push(`| ${r.id} | ${r.category} | ${r.description} | ${r.probability} | ${r.impact} | ${r.riskScore.toFixed(1)} | ${r.mitigation} | ${r.owner} | ${r.status} |`);
+        });
+
+    lines.push('');
+    lines.push('### 12.2 Contingency Plans');
+    lines.push('');
+    pm.riskRegister
+        .filter(r => r.impact === 'critical' || r.impact === 'high')
+        .forEach(r => {
+            lines.push(`- **${r.id}**: ${r.contingencyPlan}`);
+        });
+    lines.push('');
+    lines.push('**Monitoring & Review**:');
+    lines.push('- Weekly risk review in sprint retrospectives');
+    lines.push('- Monthly security posture assessment');
+    lines.push('- Quarterly penetration testing exercises');
+
+    return lines.join('\n');
+}
+
 function groupTestsByCategory(testCases: any[]): Record<string, any[]> {
     const groups: Record<string, any[]> = {};
     
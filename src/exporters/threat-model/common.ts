@@ -0,0 +1,264 @@
+// Threat Model Interchange - shared structures for importing models drawn in other threat modeling tools
+import type { Threat } from '../../types/tools.js';
+import type { Module, SystemModel, SystemElement, SystemElementType } from '../../types/tech-lead.js';
+import { calculateRisk, scoreVector } from '../../tools/security/index.js';
+
+export type ThreatModelFormat = 'threat-dragon' | 'tm7';
+
+export interface ImportedThreatModel {
+    format: ThreatModelFormat;
+    title: string;
+    systemModel: SystemModel;
+    modules: Module[];          // one per process, depending on the processes it sends data to
+    threats: Threat[];
+    warnings: string[];         // parts of the file that could not be carried over
+}
+
+/**
+ * A threat as read from a file, before it is tied to the imported model
+ */
+export interface RawThreat {
+    title: string;
+    category: string;           // STRIDE category as the tool spells it
+    severity?: string;
+    description?: string;
+    mitigation?: string;
+    score?: string;
+    elementKey: string;         // the tool's ID of the element or flow
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const CATEGORIES: Record<string, Threat['category']> = {
+    spoofing: 'Spoofing',
+    tampering: 'Tampering',
+    repudiation: 'Repudiation',
+    informationdisclosure: 'Information Disclosure',
+    denialofservice: 'Denial of Service',
+    elevationofprivilege: 'Elevation of Privilege',
+    // CIA model types in Threat Dragon
+    confidentiality: 'Information Disclosure',
+    integrity: 'Tampering',
+    availability: 'Denial of Service'
+};
+
+const IMPACTS: Threat['impact'][] = ['low', 'medium', 'high', 'critical'];
+const LIKELIHOODS: Threat['likelihood'][] = ['low', 'medium', 'high'];
+const ELEMENT_PREFIXES: Record<SystemElementType, string> = { process: 'P', data_store: 'DS', external_entity: 'EE' };
+
+/**
+ * Element IDs in the order the elements were drawn: P1, DS1, EE1...
+ */
+export function elementIdAllocator(): (type: SystemElementType) => string {
+    const counts: Record<string, number> = {};
+    return type => {
+        const prefix = ELEMENT_PREFIXES[type];
+        counts[prefix] = (counts[prefix] ?? 0) + 1;
+        return `${prefix}${counts[prefix]}`;
+    };
+}
+
+/**
+ * Tie threats read from a file to the imported elements and flows, and derive modules from the processes
+ */
+export function finishImport(
+    format: ThreatModelFormat,
+    title: string,
+    systemModel: SystemModel,
+    rawThreats: RawThreat[],
+    elementIds: Map<string, string>,
+    warnings: string[]
+): ImportedThreatModel {
+    const elements = new Map(systemModel.elements.map(element => [element.id, element]));
+    const flows = new Map(systemModel.dataFlows.map(flow => [flow.id, flow]));
+    const threats: Threat[] = [];
+
+    for (const raw of rawThreats) {
+        const category = CATEGORIES[raw.category.toLowerCase().replace(/[^a-z]/g, '')];
+        if (!category) {
+            warnings.push(`Threat "${raw.title}" skipped: "${raw.category}" is not a STRIDE category`);
+            continue;
+        }
+
+        const elementId = elementIds.get(raw.elementKey);
+        const element = elementId ? elements.get(elementId) : undefined;
+        const flow = elementId ? flows.get(elementId) : undefined;
+        const impact = parseImpact(raw.severity);
+        const { text: described, value: domainThreatId } = splitLine(raw.description ?? '', 'Domain threat');
+        const { text: body, value: referenceLine } = splitLine(described, 'References');
+        const { text, value: vector } = splitLine(body, 'Risk');
+        const references = referenceLine ? splitList(referenceLine) : [];
+        const rating = vector ? readVector(vector, raw.title, warnings) : undefined;
+        const likelihood = rating ? vectorLikelihood(rating.riskVector) : parseLikelihood(raw.score, impact);
+
+        threats.push({
+            id: `T-${String(threats.length + 1).padStart(3, '0')}`,
+            category,
+            name: raw.title,
+            description: text,
+            targetComponent: element?.name
+                ?? (flow ? `${flow.name} (${elements.get(flow.from)?.name} → ${elements.get(flow.to)?.name})` : 'System'),
+            likelihood,
+            impact,
+            riskScore: rating?.riskScore ?? calculateRisk(likelihood, impact),
+            riskVector: rating?.riskVector,
+            cwe: references.find(reference => reference.startsWith('CWE-')),
+            owasp: references.find(reference => /^A\d{2}:\d{4}$/.test(reference)),
+            capec: optionalList(references.filter(reference => reference.startsWith('CAPEC-'))),
+            attackTechniques: optionalList(references.filter(reference => /^T\d{4}(\.\d{3})?$/.test(reference))),
+            domainThreatId,
+            elementId,
+            elementType: element?.type ?? (flow ? 'data_flow' : undefined),
+            mitigation: (raw.mitigation ?? '').split(/\r?\n|;\s*/).map(line => line.trim()).filter(Boolean)
+        });
+    }
+
+    return { format, title, systemModel, modules: modulesOf(systemModel), threats, warnings };
+}
+
+/**
+ * The risk vector travels in a "Risk:" line at the end of the description, followed by CWE, OWASP,
+ * CAPEC and ATT&CK references in a "References:" line and the threats.yaml ID in a "Domain threat:" line
+ */
+export function describeThreat(threat: Threat): string {
+    const references = [
+        threat.cwe,
+        threat.owasp,
+        ...(threat.capec ?? []),
+        ...(threat.attackTechniques ?? [])
+    ].filter(Boolean);
+    return [
+        threat.description,
+        threat.riskVector ? `Risk: ${threat.riskVector}` : '',
+        references.length > 0 ? `References: ${references.join(', ')}` : '',
+        threat.domainThreatId ? `Domain threat: ${threat.domainThreatId}` : ''
+    ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Data types travel in a "Data:" line at the end of an element or flow description
+ */
+export function describeData(description: string, data?: string[]): string {
+    return data?.length ? [description, `Data: ${data.join(', ')}`].filter(Boolean).join('\n\n') : description;
+}
+
+export function splitData(description: string): { text: string; data?: string[] } {
+    const { text, value } = splitLine(description, 'Data');
+    return value ? { text, data: splitList(value) } : { text };
+}
+
+export function center(box: Box): Point {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/**
+ * Innermost box containing a point, for boundaries drawn as boxes around elements
+ */
+export function innermostBox<T extends Box>(point: Point, boxes: T[]): T | undefined {
+    return boxes
+        .filter(box => point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height)
+        .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+}
+
+/**
+ * Whether the straight line between two elements crosses a boundary drawn as a polyline
+ */
+export function crossesLine(from: Point, to: Point, line: Point[]): boolean {
+    for (let i = 0; i < line.length - 1; i++) {
+        if (segmentsIntersect(from, to, line[i] as Point, line[i + 1] as Point)) return true;
+    }
+    return false;
+}
+
+// ==================== HELPERS ====================
+
+function modulesOf(systemModel: SystemModel): Module[] {
+    const processes = systemModel.elements.filter(element => element.type === 'process');
+    const byId = new Map(processes.map(process => [process.id, process]));
+
+    return processes.map(process => ({
+        name: process.name,
+        type: moduleType(process),
+        classes: [],
+        interfaces: [],
+        dependencies: [...new Set(systemModel.dataFlows
+            .filter(flow => flow.from === process.id && byId.has(flow.to) && flow.to !== process.id)
+            .map(flow => (byId.get(flow.to) as SystemElement).name))]
+    }));
+}
+
+function moduleType(process: SystemElement): Module['type'] {
+    if (/controller|gateway|api|web|portal|frontend|ui\b/i.test(process.name)) return 'controller';
+    if (/repository|dao\b|persistence/i.test(process.name)) return 'repository';
+    return 'service';
+}
+
+function parseImpact(severity?: string): Threat['impact'] {
+    const impact = severity?.toLowerCase() as Threat['impact'];
+    return IMPACTS.includes(impact) ? impact : 'medium';
+}
+
+/**
+ * Neither tool records likelihood; a likelihood x impact score exported without a risk vector gives it back
+ */
+function parseLikelihood(score: string | undefined, impact: Threat['impact']): Threat['likelihood'] {
+    const value = Number(score);
+    if (!score || Number.isNaN(value)) return 'medium';
+    const level = Math.round(value / 1.1 / (IMPACTS.indexOf(impact) + 1));
+    return LIKELIHOODS[Math.min(Math.max(level, 1), 3) - 1] as Threat['likelihood'];
+}
+
+/**
+ * Of the scoring methods, only likelihood x impact vectors record the likelihood
+ */
+function vectorLikelihood(vector: string): Threat['likelihood'] {
+    const code = /^L:([LMH])\//.exec(vector)?.[1];
+    return LIKELIHOODS.find(level => level.charAt(0).toUpperCase() === code) ?? 'medium';
+}
+
+/**
+ * A vector that does not score is left out rather than failing the whole import
+ */
+function readVector(vector: string, title: string, warnings: string[]): ReturnType<typeof scoreVector> | undefined {
+    try {
+        return scoreVector(vector);
+    } catch (error) {
+        warnings.push(`Threat "${title}": risk vector ignored: ${(error as Error).message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Split a "Label: value" line off the end of a description
+ */
+function splitLine(description: string, label: string): { text: string; value?: string } {
+    const match = new RegExp(`\\n*${label}: (.+)$`).exec(description);
+    return match ? { text: description.slice(0, match.index), value: match[1] } : { text: description };
+}
+
+function splitList(line: string): string[] {
+    return line.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function optionalList(items: string[]): string[] | undefined {
+    return items.length > 0 ? items : undefined;
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+    const cross = (p: Point, q: Point, r: Point) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
@@ -0,0 +1,28 @@
+// Threat Model Interchange - import Threat Dragon and Threat Modeling Tool models, export Threat Dragon models
+import { fromThreatDragon } from './threat-dragon.js';
+import { fromTm7 } from './tm7.js';
+import type { ImportedThreatModel, ThreatModelFormat } from './common.js';
+
+export { toThreatDragon, fromThreatDragon, THREAT_DRAGON_VERSION } from './threat-dragon.js';
+export type { ThreatDragonModel, ThreatDragonCell, ThreatDragonThreat, ThreatDragonExport, ThreatDragonExportOptions } from './threat-dragon.js';
+export { fromTm7 } from './tm7.js';
+export type { ImportedThreatModel, ThreatModelFormat } from './common.js';
+
+/**
+ * Import a model file's content; without a format, XML is read as .tm7 and JSON as Threat Dragon
+ */
+export function importThreatModel(content: string, format?: ThreatModelFormat): ImportedThreatModel {
+    switch (format ?? detectThreatModelFormat(content)) {
+        case 'tm7':
+            return fromTm7(content);
+        default:
+            return fromThreatDragon(content);
+    }
+}
+
+export function detectThreatModelFormat(content: string): ThreatModelFormat {
+    const start = content.replace(/^\uFEFF/, '').trimStart();
+    if (start.startsWith('<')) return 'tm7';
+    if (start.startsWith('{')) return 'threat-dragon';
+    throw new Error('Unrecognized threat model: expected Threat Dragon JSON or Threat Modeling Tool XML (.tm7)');
+}
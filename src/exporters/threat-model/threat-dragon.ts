@@ -0,0 +1,414 @@
+// OWASP Threat Dragon - read v1 and v2 JSON models, write v2 models with diagram cells and threats
+import type { Threat, SecurityOutput } from '../../types/tools.js';
+import type { SystemModel, SystemElement, SystemElementType, DataFlow, TrustBoundary } from '../../types/tech-lead.js';
+import { affectedElements } from '../../tools/security/index.js';
+import {
+    finishImport,
+    elementIdAllocator,
+    describeThreat,
+    describeData,
+    splitData,
+    center,
+    innermostBox,
+    crossesLine,
+    type ImportedThreatModel,
+    type RawThreat,
+    type Box,
+    type Point
+} from './common.js';
+
+export const THREAT_DRAGON_VERSION = '2.2.0';
+
+export interface ThreatDragonThreat {
+    id: string;
+    title: string;
+    status: 'NA' | 'Open' | 'Mitigated';
+    severity: string;
+    type: string;
+    description: string;
+    mitigation: string;
+    modelType: string;
+    new: boolean;
+    number: number;
+    score: string;
+}
+
+export interface ThreatDragonCell {
+    id: string;
+    shape: string;
+    zIndex: number;
+    position?: Point;
+    size?: { width: number; height: number };
+    source?: { cell?: string; x?: number; y?: number };
+    target?: { cell?: string; x?: number; y?: number };
+    vertices?: Point[];
+    labels?: string[];
+    attrs?: Record<string, unknown>;
+    data: {
+        type: string;
+        name: string;
+        description: string;
+        outOfScope?: boolean;
+        reasonOutOfScope?: string;
+        hasOpenThreats?: boolean;
+        threats?: ThreatDragonThreat[];
+        [property: string]: unknown;
+    };
+}
+
+export interface ThreatDragonModel {
+    version: string;
+    summary: { title: string; owner: string; description: string; id: number };
+    detail: {
+        contributors: { name: string }[];
+        diagrams: {
+            id: number;
+            title: string;
+            diagramType: string;
+            placeholder: string;
+            thumbnail: string;
+            version: string;
+            cells: ThreatDragonCell[];
+        }[];
+        diagramTop: number;
+        reviewer: string;
+        threatTop: number;
+    };
+}
+
+export interface ThreatDragonExportOptions {
+    title: string;
+    owner?: string;
+    description?: string;
+}
+
+export interface ThreatDragonExport {
+    model: ThreatDragonModel;
+    warnings: string[];
+}
+
+const SHAPES: Record<SystemElementType, { shape: string; type: string; width: number; height: number }> = {
+    external_entity: { shape: 'actor', type: 'tm.Actor', width: 160, height: 80 },
+    process: { shape: 'process', type: 'tm.Process', width: 100, height: 100 },
+    data_store: { shape: 'store', type: 'tm.Store', width: 160, height: 80 }
+};
+
+const ELEMENT_TYPES: Record<string, SystemElementType> = {
+    'tm.Actor': 'external_entity',
+    'tm.Process': 'process',
+    'tm.Store': 'data_store'
+};
+
+const STRIDE_TYPES: Record<Threat['category'], string> = {
+    'Spoofing': 'Spoofing',
+    'Tampering': 'Tampering',
+    'Repudiation': 'Repudiation',
+    'Information Disclosure': 'Information disclosure',
+    'Denial of Service': 'Denial of service',
+    'Elevation of Privilege': 'Elevation of privilege'
+};
+
+const COLUMN_WIDTH = 300;
+const ROW_HEIGHT = 160;
+const MARGIN = 60;
+
+/**
+ * Write a threat model as a Threat Dragon v2 model: elements in one column per trust boundary,
+ * boundaries as boxes, flows as edges, and each threat on the cell of its element or flow.
+ * Domain threats go on the first element named in their affected components, or the first process.
+ */
+export function toThreatDragon(output: SecurityOutput, options: ThreatDragonExportOptions): ThreatDragonExport {
+    if (!output.systemModel) {
+        throw new Error('Threat model has no system model to draw: pass one, or regenerate the model with security_threat_model');
+    }
+    const { elements, dataFlows, trustBoundaries } = output.systemModel;
+    const warnings: string[] = [];
+
+    // Column 0 holds elements outside every boundary, then one column per boundary
+    const columns: (TrustBoundary | undefined)[] = [undefined, ...trustBoundaries];
+    const rows = columns.map(boundary => elements.filter(element => element.boundary === boundary?.id));
+    const tallest = Math.max(1, ...rows.map(row => row.length));
+    const position = new Map<string, Point>();
+    rows.forEach((row, column) => row.forEach((element, index) => {
+        const shape = SHAPES[element.type];
+        position.set(element.id, {
+            x: MARGIN + column * COLUMN_WIDTH + (COLUMN_WIDTH - MARGIN - shape.width) / 2,
+            y: MARGIN * 2 + index * ROW_HEIGHT + (ROW_HEIGHT - MARGIN - shape.height) / 2
+        });
+    }));
+
+    const threatsFor = new Map<string, Threat[]>();
+    const fallback = elements.find(element => element.type === 'process') ?? elements[0];
+    for (const threat of output.threats) {
+        const key = threat.elementId && (position.has(threat.elementId) || dataFlows.some(flow => flow.id === threat.elementId))
+            ? threat.elementId
+            : (affectedElements(threat, elements)[0] ?? fallback)?.id;
+        if (!key) {
+            warnings.push(`Threat ${threat.id} not exported: the model has no elements`);
+            continue;
+        }
+        threatsFor.set(key, [...(threatsFor.get(key) ?? []), threat]);
+    }
+    let number = 0;
+    const cellThreats = (id: string) => (threatsFor.get(id) ?? []).map(threat => toThreatDragonThreat(threat, ++number));
+
+    const cells: ThreatDragonCell[] = [];
+    columns.forEach((boundary, column) => {
+        if (!boundary) return;
+        cells.push({
+            id: boundary.id,
+            shape: 'trust-boundary-box',
+            zIndex: -1,
+            position: { x: MARGIN / 2 + column * COLUMN_WIDTH, y: MARGIN },
+            size: { width: COLUMN_WIDTH - MARGIN / 2, height: tallest * ROW_HEIGHT + MARGIN },
+            attrs: { headerText: { text: boundary.name } },
+            data: { type: 'tm.BoundaryBox', name: boundary.name, description: '', isTrustBoundary: true, hasOpenThreats: false }
+        });
+    });
+    for (const element of elements) {
+        const shape = SHAPES[element.type];
+        const threats = cellThreats(element.id);
+        cells.push({
+            id: element.id,
+            shape: shape.shape,
+            zIndex: 1,
+            position: position.get(element.id),
+            size: { width: shape.width, height: shape.height },
+            attrs: { text: { text: element.name } },
+            data: {
+                type: shape.type,
+                name: element.name,
+                description: describeData('', element.sensitiveData),
+                outOfScope: false,
+                reasonOutOfScope: '',
+                ...elementProperties(element),
+                hasOpenThreats: threats.length > 0,
+                threats
+            }
+        });
+    }
+    for (const flow of dataFlows) {
+        const threats = cellThreats(flow.id);
+        cells.push({
+            id: flow.id,
+            shape: 'flow',
+            zIndex: 2,
+            source: { cell: flow.from },
+            target: { cell: flow.to },
+            labels: [flow.name],
+            attrs: { line: { stroke: '#333333', targetMarker: { name: 'classic' } } },
+            data: {
+                type: 'tm.Flow',
+                name: flow.name,
+                description: describeData('', flow.data),
+                outOfScope: false,
+                reasonOutOfScope: '',
+                protocol: flow.protocol ?? '',
+                isEncrypted: flow.encrypted ?? false,
+                isPublicNetwork: isPublic(flow, elements),
+                isBidirectional: false,
+                hasOpenThreats: threats.length > 0,
+                threats
+            }
+        });
+    }
+
+    return {
+        model: {
+            version: THREAT_DRAGON_VERSION,
+            summary: { title: options.title, owner: options.owner ?? '', description: options.description ?? '', id: 0 },
+            detail: {
+                contributors: [],
+                diagrams: [{
+                    id: 0,
+                    title: 'Data Flow Diagram',
+                    diagramType: 'STRIDE',
+                    placeholder: 'New STRIDE diagram description',
+                    thumbnail: './public/content/images/thumbnail.stride.jpg',
+                    version: THREAT_DRAGON_VERSION,
+                    cells
+                }],
+                diagramTop: 1,
+                reviewer: '',
+                threatTop: number
+            }
+        },
+        warnings
+    };
+}
+
+/**
+ * Read a Threat Dragon model (v2, or v1 with diagramJson). Boundary boxes place the elements they
+ * contain; flows that cut a boundary curve, or run over a public network, cross a boundary.
+ */
+export function fromThreatDragon(source: string | unknown): ImportedThreatModel {
+    const json = typeof source === 'string' ? JSON.parse(source) : source;
+    if (!json || typeof json !== 'object' || !json.detail || !Array.isArray(json.detail.diagrams)) {
+        throw new Error('Not a Threat Dragon model: expected detail.diagrams');
+    }
+
+    const warnings: string[] = [];
+    const nextId = elementIdAllocator();
+    const ids = new Map<string, string>();
+    const elements: SystemElement[] = [];
+    const dataFlows: DataFlow[] = [];
+    const trustBoundaries: TrustBoundary[] = [];
+    const rawThreats: RawThreat[] = [];
+    const centers = new Map<string, Point>();
+
+    for (const diagram of json.detail.diagrams as any[]) {
+        const cells: any[] = diagram.cells ?? diagram.diagramJson?.cells ?? [];
+        const prefix = json.detail.diagrams.length > 1 ? `${diagram.id ?? diagram.title}:` : '';
+        const boxes: (Box & { id: string })[] = [];
+        const curves: Point[][] = [];
+
+        for (const cell of cells) {
+            const type = cellType(cell);
+            if (type === 'tm.BoundaryBox') {
+                const boundary = { id: `TB${trustBoundaries.length + 1}`, name: cellName(cell) || `Trust Boundary ${trustBoundaries.length + 1}` };
+                trustBoundaries.push(boundary);
+                boxes.push({ id: boundary.id, ...cellBox(cell) });
+            } else if (type === 'tm.Boundary') {
+                const line = [cell.source, ...(cell.vertices ?? []), cell.target].filter(point => typeof point?.x === 'number');
+                if (line.length >= 2) curves.push(line);
+            }
+        }
+
+        for (const cell of cells) {
+            const type = ELEMENT_TYPES[cellType(cell)];
+            if (!type) continue;
+            const box = cellBox(cell);
+            const id = nextId(type);
+            const { data } = splitData(cell.data?.description ?? '');
+            ids.set(prefix + cell.id, id);
+            centers.set(id, center(box));
+            elements.push({
+                id,
+                name: cellName(cell) || id,
+                type,
+                boundary: innermostBox(center(box), boxes)?.id,
+                sensitiveData: data
+            });
+            collectThreats(cell, prefix + cell.id, rawThreats, warnings);
+        }
+
+        for (const cell of cells) {
+            if (cellType(cell) !== 'tm.Flow') continue;
+            const from = ids.get(prefix + endpoint(cell.source));
+            const to = ids.get(prefix + endpoint(cell.target));
+            if (!from || !to) {
+                warnings.push(`Data flow "${cellName(cell) || cell.id}" skipped: it is not connected to two elements`);
+                continue;
+            }
+            const id = `F${dataFlows.length + 1}`;
+            const { data } = splitData(cell.data?.description ?? '');
+            // Only needed where the boundary boxes do not already separate the two ends
+            const crosses = curves.some(line => crossesLine(centers.get(from) as Point, centers.get(to) as Point, line))
+                || cell.data?.isPublicNetwork === true;
+            const sameZone = boundaryOf(elements, from) === boundaryOf(elements, to);
+            ids.set(prefix + cell.id, id);
+            dataFlows.push({
+                id,
+                name: cellName(cell) || `${from} to ${to}`,
+                from,
+                to,
+                data,
+                protocol: cell.data?.protocol || undefined,
+                encrypted: cell.data?.isEncrypted === true ? true : undefined,
+                crossesBoundary: crosses && sameZone ? true : undefined
+            });
+            collectThreats(cell, prefix + cell.id, rawThreats, warnings);
+        }
+    }
+
+    const systemModel: SystemModel = { elements, dataFlows, trustBoundaries };
+    return finishImport('threat-dragon', json.summary?.title || 'Threat Dragon model', systemModel, rawThreats, ids, warnings);
+}
+
+// ==================== HELPERS ====================
+
+function toThreatDragonThreat(threat: Threat, number: number): ThreatDragonThreat {
+    return {
+        id: threat.id,
+        title: threat.name,
+        status: 'Open',
+        severity: threat.impact.charAt(0).toUpperCase() + threat.impact.slice(1),
+        type: STRIDE_TYPES[threat.category],
+        description: describeThreat(threat),
+        mitigation: threat.mitigation.join('\n'),
+        modelType: 'STRIDE',
+        new: false,
+        number,
+        score: threat.riskScore.toFixed(1)
+    };
+}
+
+function elementProperties(element: SystemElement): Record<string, unknown> {
+    switch (element.type) {
+        case 'external_entity':
+            return { providesAuthentication: false };
+        case 'data_store':
+            return { isALog: /\b(log|logs|audit)\b/i.test(element.name), storesCredentials: false, isEncrypted: false, isSigned: false };
+        default:
+            return { handlesCardPayment: false, handlesGoodsOrServices: false, isWebApplication: false, privilegeLevel: '' };
+    }
+}
+
+/**
+ * Flows to or from an entity outside every boundary run over a public network, as do flows
+ * imported as crossing a boundary line
+ */
+function isPublic(flow: DataFlow, elements: SystemElement[]): boolean {
+    return flow.crossesBoundary === true || [flow.from, flow.to].some(id => {
+        const element = elements.find(candidate => candidate.id === id);
+        return element?.type === 'external_entity' && !element.boundary;
+    });
+}
+
+function boundaryOf(elements: SystemElement[], id: string): string | undefined {
+    return elements.find(element => element.id === id)?.boundary;
+}
+
+function collectThreats(cell: any, elementKey: string, rawThreats: RawThreat[], warnings: string[]): void {
+    for (const threat of cell.data?.threats ?? cell.threats ?? []) {
+        if (threat.status === 'NA') {
+            warnings.push(`Threat "${threat.title}" skipped: marked not applicable`);
+            continue;
+        }
+        rawThreats.push({
+            title: threat.title ?? 'Untitled threat',
+            category: threat.type ?? '',
+            severity: threat.severity,
+            description: threat.description,
+            mitigation: threat.mitigation,
+            score: threat.score,
+            elementKey
+        });
+    }
+}
+
+/**
+ * v2 keeps the element type in data.type, v1 on the cell itself
+ */
+function cellType(cell: any): string {
+    return cell?.data?.type ?? cell?.type ?? '';
+}
+
+function cellName(cell: any): string {
+    const label = cell.labels?.[0];
+    const labelText = typeof label === 'string' ? label : label?.attrs?.label?.text;
+    return String(cell.data?.name ?? cell.attrs?.text?.text ?? labelText ?? '').trim();
+}
+
+function cellBox(cell: any): Box {
+    return {
+        x: cell.position?.x ?? 0,
+        y: cell.position?.y ?? 0,
+        width: cell.size?.width ?? 0,
+        height: cell.size?.height ?? 0
+    };
+}
+
+function endpoint(end: any): string | undefined {
+    return end?.cell ?? end?.id;
+}
@@ -0,0 +1,244 @@
+// Microsoft Threat Modeling Tool - read .tm7 models (DataContract XML) into the system model and threats
+import type { SystemModel, SystemElement, SystemElementType, DataFlow, TrustBoundary } from '../../types/tech-lead.js';
+import {
+    finishImport,
+    elementIdAllocator,
+    center,
+    innermostBox,
+    crossesLine,
+    type ImportedThreatModel,
+    type RawThreat,
+    type Box,
+    type Point
+} from './common.js';
+
+interface XmlNode {
+    name: string;               // local name, without namespace prefix
+    attributes: Record<string, string>;
+    children: XmlNode[];
+    text: string;
+}
+
+const ELEMENT_TYPES: Record<string, SystemElementType> = {
+    'GE.P': 'process',
+    'GE.DS': 'data_store',
+    'GE.EI': 'external_entity'
+};
+
+const NOT_APPLICABLE = 'NotApplicable';
+
+/**
+ * Read a TMT model. Border boundaries (GE.TB.B) place the elements they contain; flows that cut a
+ * line boundary (GE.TB.L) cross a boundary. Threats are tied to the flow they were generated for.
+ */
+export function fromTm7(xml: string): ImportedThreatModel {
+    const root = parseXml(xml);
+    if (root.name !== 'ThreatModel') {
+        throw new Error(`Not a Threat Modeling Tool model: root element is <${root.name}>`);
+    }
+
+    const warnings: string[] = [];
+    const nextId = elementIdAllocator();
+    const ids = new Map<string, string>();
+    const elements: SystemElement[] = [];
+    const dataFlows: DataFlow[] = [];
+    const trustBoundaries: TrustBoundary[] = [];
+    const centers = new Map<string, Point>();
+
+    for (const surface of descendants(root, 'DrawingSurfaceModel')) {
+        const borders = values(child(surface, 'Borders'));
+        const lines = values(child(surface, 'Lines'));
+        const boxes: (Box & { id: string })[] = [];
+        const boundaryLines: Point[][] = [];
+
+        for (const border of borders) {
+            if (textOf(border, 'GenericTypeId') !== 'GE.TB.B') continue;
+            const boundary = { id: `TB${trustBoundaries.length + 1}`, name: propertyName(border) || `Trust Boundary ${trustBoundaries.length + 1}` };
+            trustBoundaries.push(boundary);
+            boxes.push({ id: boundary.id, ...borderBox(border) });
+        }
+        for (const line of lines) {
+            if (textOf(line, 'GenericTypeId') === 'GE.TB.L') boundaryLines.push(linePoints(line));
+        }
+
+        for (const border of borders) {
+            const type = ELEMENT_TYPES[textOf(border, 'GenericTypeId')];
+            if (!type) continue;
+            const id = nextId(type);
+            const middle = center(borderBox(border));
+            ids.set(textOf(border, 'Guid'), id);
+            centers.set(id, middle);
+            elements.push({ id, name: propertyName(border) || id, type, boundary: innermostBox(middle, boxes)?.id });
+        }
+
+        for (const line of lines) {
+            if (textOf(line, 'GenericTypeId') !== 'GE.DF') continue;
+            const from = ids.get(textOf(line, 'SourceGuid'));
+            const to = ids.get(textOf(line, 'TargetGuid'));
+            if (!from || !to) {
+                warnings.push(`Data flow "${propertyName(line) || textOf(line, 'Guid')}" skipped: it is not connected to two elements`);
+                continue;
+            }
+            const id = `F${dataFlows.length + 1}`;
+            const crossesBoundary = boundaryLines.some(points => crossesLine(centers.get(from) as Point, centers.get(to) as Point, points));
+            ids.set(textOf(line, 'Guid'), id);
+            dataFlows.push({
+                id,
+                name: propertyName(line) || `${from} to ${to}`,
+                from,
+                to,
+                crossesBoundary: crossesBoundary || undefined
+            });
+        }
+    }
+
+    const rawThreats: RawThreat[] = [];
+    for (const instance of values(descendants(root, 'ThreatInstances')[0])) {
+        const properties = new Map(entries(child(instance, 'Properties'))
+            .map(property => [textOf(property, 'Key'), textOf(property, 'Value')]));
+        const title = properties.get('Title') || textOf(instance, 'TypeId');
+        if (textOf(instance, 'State') === NOT_APPLICABLE) {
+            warnings.push(`Threat "${title}" skipped: marked not applicable`);
+            continue;
+        }
+        rawThreats.push({
+            title,
+            category: properties.get('UserThreatCategory') ?? '',
+            severity: properties.get('PriorityOverride') || textOf(instance, 'Priority'),
+            description: properties.get('UserThreatDescription') || properties.get('UserThreatShortDescription'),
+            mitigation: properties.get('PossibleMitigators') || properties.get('StateInformation'),
+            elementKey: textOf(instance, 'FlowGuid') || textOf(instance, 'TargetGuid')
+        });
+    }
+
+    const title = textOf(descendants(root, 'MetaInformation')[0], 'ThreatModelName') || 'Threat Modeling Tool model';
+    const systemModel: SystemModel = { elements, dataFlows, trustBoundaries };
+    return finishImport('tm7', title, systemModel, rawThreats, ids, warnings);
+}
+
+// ==================== TM7 STRUCTURE ====================
+
+/**
+ * Entries of a serialized dictionary: <a:KeyValueOf...><a:Key/><a:Value/></a:KeyValueOf...>
+ */
+function entries(dictionary: XmlNode | undefined): XmlNode[] {
+    return (dictionary?.children ?? []).filter(entry => entry.name.startsWith('KeyValueOf'));
+}
+
+function values(dictionary: XmlNode | undefined): XmlNode[] {
+    return entries(dictionary).map(entry => child(entry, 'Value')).filter((value): value is XmlNode => value !== undefined);
+}
+
+/**
+ * Display attributes carry the element name: <b:DisplayName>Name</b:DisplayName><b:Value>Web App</b:Value>
+ */
+function propertyName(node: XmlNode): string {
+    const attribute = (child(node, 'Properties')?.children ?? [])
+        .find(property => textOf(property, 'DisplayName') === 'Name');
+    return attribute ? textOf(attribute, 'Value') : '';
+}
+
+function borderBox(node: XmlNode): Box {
+    return {
+        x: Number(textOf(node, 'Left')) || 0,
+        y: Number(textOf(node, 'Top')) || 0,
+        width: Number(textOf(node, 'Width')) || 0,
+        height: Number(textOf(node, 'Height')) || 0
+    };
+}
+
+/**
+ * Line boundaries are curves through a handle; source, handle and target approximate them
+ */
+function linePoints(node: XmlNode): Point[] {
+    const point = (x: string, y: string) => ({ x: Number(textOf(node, x)) || 0, y: Number(textOf(node, y)) || 0 });
+    return [point('SourceX', 'SourceY'), point('HandleX', 'HandleY'), point('TargetX', 'TargetY')];
+}
+
+// ==================== XML ====================
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+    return node?.children.find(candidate => candidate.name === name);
+}
+
+function textOf(node: XmlNode | undefined, name: string): string {
+    return child(node, name)?.text.trim() ?? '';
+}
+
+function descendants(node: XmlNode, name: string): XmlNode[] {
+    const found: XmlNode[] = [];
+    const visit = (current: XmlNode) => {
+        for (const next of current.children) {
+            if (next.name === name) found.push(next);
+            else visit(next);
+        }
+    };
+    visit(node);
+    return found;
+}
+
+/**
+ * Minimal XML reader for tm7 files: elements, attributes, text, CDATA and entities.
+ * Namespace prefixes are dropped; tm7 names are unique without them.
+ */
+function parseXml(xml: string): XmlNode {
+    const document: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlNode[] = [document];
+    const tag = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+    const source = xml.replace(/^\uFEFF/, '');
+    let match: RegExpExecArray | null;
+
+    while ((match = tag.exec(source)) !== null) {
+        const current = stack[stack.length - 1] as XmlNode;
+        const [, cdata, closing, qualifiedName, attributeText, selfClosing, text] = match;
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (text !== undefined) {
+            current.text += decodeEntities(text);
+        } else if (qualifiedName) {
+            const name = localName(qualifiedName);
+            if (closing) {
+                if (current.name !== name) throw new Error(`Malformed XML: </${qualifiedName}> closes <${current.name}>`);
+                stack.pop();
+                continue;
+            }
+            const node: XmlNode = { name, attributes: parseAttributes(attributeText ?? ''), children: [], text: '' };
+            current.children.push(node);
+            if (!selfClosing) stack.push(node);
+        }
+    }
+
+    if (stack.length !== 1) {
+        throw new Error(`Malformed XML: <${stack[stack.length - 1]?.name}> is not closed`);
+    }
+    const root = document.children[0];
+    if (!root) throw new Error('Malformed XML: no root element');
+    return root;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, double, single] of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[name as string] = decodeEntities(double ?? single ?? '');
+    }
+    return attributes;
+}
+
+function localName(qualifiedName: string): string {
+    return qualifiedName.slice(qualifiedName.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+        switch (entity.toLowerCase()) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+            default: return String.fromCodePoint(entity[1]?.toLowerCase() === 'x'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10));
+        }
+    });
+}
@@ -2,7 +2,7 @@
 
 import type { PipelineInput, PipelineOutput } from './index.js';
 import type { PMOutput } from '../tools/bm/index.js';
-import type { ADROutput } from '../tools/architecture/adr-generator.js';
+import type { ADROutput, ProjectConstraint } from '../tools/architecture/adr-generator.js';
 
 import { loadDomainAuto } from '../domains/loader.js';
 import { analyzeRequirements } from '../tools/ba/index.js';
@@ -12,17 +12,24 @@ import { designTestStrategy } from '../tools/qa/index.js';
 import { designCICD } from '../tools/devops/index.js';
 import { generateProjectPlan } from '../tools/bm/index.js';
 import { generateADRs, exportADRAsMarkdown } from '../tools/architecture/adr-generator.js';
+import { generateSRS } from '../exporters/srs-exporter.js';
+import { startPipelineRun, newOrchestrationId, ENHANCED_PIPELINE_PHASES, type PipelineRunOptions } from './progress.js';
+
+/**
+ * Enhanced Pipeline Input
+ */
+export interface EnhancedPipelineInput extends PipelineInput {
+    teamSize?: number;                  // default: 3
+    sprintDuration?: number;            // weeks, default: 2
+    projectStartDate?: string;          // ISO date, default: today
+    constraints?: ProjectConstraint[];  // extra ADR constraints (budget, team skills, ...)
+}
 
 /**
  * Enhanced Pipeline Output
  */
 export interface EnhancedPipelineOutput extends PipelineOutput {
-    phases: {
-        ba: any;
-        techLead: any;
-        security: any;
-        qa: any;
-        devops: any;
+    phases: PipelineOutput['phases'] & {
         pm: PMOutput;              // NEW: Project Management
         architecture: ADROutput;    // NEW: Architecture Decisions
     };
@@ -35,10 +42,12 @@ export interface EnhancedPipelineOutput extends PipelineOutput {
 }
 
 /**
- * Run enhanced SSDLC pipeline with PM and ADR
+ * Run enhanced SSDLC pipeline with PM and ADR. Throws PipelineCancelledError, with
+ * the finished phases, when options.signal aborts between phases.
  */
 export async function orchestrateEnhancedPipeline(
-    input: PipelineInput
+    input: EnhancedPipelineInput,
+    options: PipelineRunOptions = {}
 ): Promise<EnhancedPipelineOutput> {
     const {
         projectDescription,
@@ -47,29 +56,31 @@ export async function orchestrateEnhancedPipeline(
         targetLanguage = 'python',
         deploymentTarget = 'kubernetes',
         repositoryPlatform = 'github',
-        complianceRequirements = []
+        complianceRequirements = [],
+        teamSize = 3,
+        sprintDuration = 2,
+        projectStartDate = new Date().toISOString().split('T')[0],
+        constraints = [],
+        maxDomains,
+        minDomainConfidence,
+        riskScoring
     } = input;
 
-    console.log('🚀 Starting Enhanced SSDLC Pipeline...');
+    const orchestrationId = newOrchestrationId();
+    const run = startPipelineRun(orchestrationId, ENHANCED_PIPELINE_PHASES, options);
 
     // PHASE 0: Domain Detection
-    console.log('📋 Phase 0: Detecting domain...');
-    const domain = await loadDomainAuto(projectDescription);
-    console.log(`   ✅ Domain detected: ${domain.name}`);
+    const domain = await run.phase('domain', () => loadDomainAuto(projectDescription, { maxDomains, minConfidence: minDomainConfidence }));
 
     // PHASE 1: Business Analysis
-    console.log('📋 Phase 1: Business Analysis...');
-    const baOutput = analyzeRequirements({
+    const baOutput = await run.phase('ba', () => analyzeRequirements({
         projectDescription,
         businessGoals,
         domain
-    });
-    console.log(`   ✅ Generated ${baOutput.userStories.length} user stories`);
-    console.log(`   ✅ Generated ${baOutput.securityRequirements.length} security requirements`);
+    }));
 
     // PHASE 2: Tech Lead Design
-    console.log('🏗️  Phase 2: Technical Design...');
-    const techLeadOutput = await techLeadDesign({
+    const techLeadOutput = await run.phase('techLead', () => techLeadDesign({
         userStories: baOutput.userStories.map(s => ({
             id: s.id,
             title: s.title,
@@ -81,63 +92,48 @@ export async function orchestrateEnhancedPipeline(
         securityRequirements: baOutput.securityRequirements.map(r => r.requirement),
         targetLanguage: targetLanguage as any,
         projectName: baOutput.projectName,
-        domainName: domain.name
-    });
-    console.log(`   ✅ Generated ${techLeadOutput.modules.length} modules`);
-    console.log(`   ✅ Generated ${techLeadOutput.features.length} features`);
-    console.log(`   ✅ Generated ${techLeadOutput.pseudocode.length} pseudocode files`);
+        domainName: domain.name,
+        domain
+    }));
 
     // PHASE 3: Security Threat Modeling
-    console.log('🔒 Phase 3: Security Threat Modeling...');
-    const securityOutput = generateThreatModel({
+    const securityOutput = await run.phase('security', () => generateThreatModel({
         modules: techLeadOutput.modules,
         domain,
-        projectName: baOutput.projectName
-    });
-    console.log(`   ✅ Identified ${securityOutput.threats.length} threats`);
-    console.log(`   ✅ Critical threats: ${securityOutput.threats.filter(t => t.impact === 'critical').length}`);
+        projectName: baOutput.projectName,
+        systemModel: techLeadOutput.dataFlowDiagrams?.model,
+        riskScoring
+    }));
 
     // PHASE 4: QA Test Strategy
-    console.log('✅ Phase 4: QA Test Strategy...');
-    const qaOutput = designTestStrategy({
+    const qaOutput = await run.phase('qa', () => designTestStrategy({
         features: techLeadOutput.features,
         threats: securityOutput.threats,
         complianceRequirements: [
             ...complianceRequirements,
             ...(domain.compliance?.regulations.map(r => r.name) || [])
         ]
-    });
-    console.log(`   ✅ Generated ${qaOutput.testCases.length} test cases`);
-    console.log(`   ✅ Automation coverage: ${qaOutput.automationCoverage.percentage}%`);
+    }));
 
     // PHASE 5: DevOps CI/CD
-    console.log('🔧 Phase 5: DevOps CI/CD...');
-    const devopsOutput = designCICD({
+    const devopsOutput = await run.phase('devops', () => designCICD({
         projectName: baOutput.projectName,
         techStack,
         deploymentTarget,
         repositoryPlatform
-    });
-    console.log(`   ✅ Generated ${devopsOutput.pipelineStages.length} pipeline stages`);
-    console.log(`   ✅ Security gates: ${devopsOutput.securityGates.length}`);
+    }));
 
     // PHASE 6: Project Management (NEW)
-    console.log('📊 Phase 6: Project Management & Sprint Planning...');
-    const pmOutput = generateProjectPlan({
+    const pmOutput = await run.phase('pm', () => generateProjectPlan({
         features: techLeadOutput.features,
         threats: securityOutput.threats,
-        teamSize: 3, // Default: 3-5 person team
-        sprintDuration: 2, // 2-week sprints
-        projectStartDate: new Date().toISOString().split('T')[0]
-    });
-    console.log(`   ✅ Generated ${pmOutput.sprints.length} sprints`);
-    console.log(`   ✅ Task breakdown: ${pmOutput.taskBreakdown.length} tasks`);
-    console.log(`   ✅ Critical path: ${pmOutput.criticalPath.totalDuration} days`);
-    console.log(`   ✅ Identified ${pmOutput.riskRegister.length} risks`);
+        teamSize,
+        sprintDuration,
+        projectStartDate
+    }));
 
     // PHASE 7: Architecture Decision Records (NEW)
-    console.log('🏛️  Phase 7: Architecture Decision Records...');
-    const adrOutput = generateADRs({
+    const adrOutput = await run.phase('architecture', () => generateADRs({
         modules: techLeadOutput.modules,
         techStack,
         domain,
@@ -145,40 +141,30 @@ export async function orchestrateEnhancedPipeline(
         constraints: [
             {
                 type: 'timeline',
-                description: `Must deliver in ${pmOutput.sprints.length * 2} weeks`,
+                description: `Must deliver in ${pmOutput.sprints.length * sprintDuration} weeks`,
                 hardConstraint: true,
                 impact: 'Limits technology choices to mature, well-documented options'
             },
-            {
-                type: 'team_skill',
-                description: 'Team has strong background in SQL and REST APIs',
-                hardConstraint: false,
-                impact: 'Prefer PostgreSQL over NoSQL, REST over GraphQL'
-            }
+            ...constraints
         ]
-    });
-    console.log(`   ✅ Generated ${adrOutput.decisions.length} architecture decisions`);
-    console.log(`   ✅ High-risk decisions: ${adrOutput.summary.highRiskDecisions.length}`);
+    }));
 
     // PHASE 8: Generate Deliverables
-    console.log('📄 Phase 8: Generating deliverables...');
-    
-    // 8.1 Export ADR documents
-    const adrDocuments = adrOutput.decisions.map(adr => exportADRAsMarkdown(adr));
-    
-    // 8.2 Generate Project Plan document
-    const projectPlan = generateProjectPlanMarkdown(pmOutput, baOutput.projectName);
-    
-    // 8.3 Generate Risk Register document
-    const riskRegister = generateRiskRegisterMarkdown(pmOutput.riskRegister, baOutput.projectName);
-    
-    // 8.4 Generate SRS (existing function - would need to import)
-    const srs = ''; // Would be generated by existing SRS exporter
-
-    console.log('✅ Pipeline completed successfully!');
-
-    return {
-        orchestrationId: `ssdlc-${Date.now()}`,
+    const deliverables = await run.phase('deliverables', () => ({
+        srs: '',    // 8.4, generated below from the complete output
+
+        // 8.1 Export ADR documents
+        adrDocuments: adrOutput.decisions.map(adr => exportADRAsMarkdown(adr)),
+
+        // 8.2 Generate Project Plan document
+        projectPlan: generateProjectPlanMarkdown(pmOutput, baOutput.projectName, sprintDuration),
+
+        // 8.3 Generate Risk Register document
+        riskRegister: generateRiskRegisterMarkdown(pmOutput.riskRegister, baOutput.projectName)
+    }));
+
+    const output: EnhancedPipelineOutput = {
+        orchestrationId,
         projectName: baOutput.projectName,
         domain,
         phases: {
@@ -199,19 +185,20 @@ export async function orchestrateEnhancedPipeline(
             automationCoverage: qaOutput.automationCoverage.percentage,
             complianceFrameworks: domain.compliance?.regulations.map(r => r.name) || []
         },
-        deliverables: {
-            srs,
-            adrDocuments,
-            projectPlan,
-            riskRegister
-        }
+        deliverables
     };
+
+    // 8.4 Generate SRS from all phases, including PM and ADR
+    output.deliverables.srs = generateSRS(output);
+
+    await run.finish();
+    return output;
 }
 
 /**
  * Generate Project Plan Markdown document
  */
-function generateProjectPlanMarkdown(pm: PMOutput, projectName: string): string {
+function generateProjectPlanMarkdown(pm: PMOutput, projectName: string, sprintDuration: number): string {
     const lines: string[] = [];
 
     lines.push(`# PROJECT PLAN: ${projectName.toUpperCase()}`);
@@ -237,7 +224,7 @@ function generateProjectPlanMarkdown(pm: PMOutput, projectName: string): string
     // EXECUTIVE SUMMARY
     lines.push('## Executive Summary');
     lines.push('');
-    lines.push(`**Total Sprints**: ${pm.sprints.length} (${pm.sprints.length * 2} weeks)`);
+    lines.push(`**Total Sprints**: ${pm.sprints.length} (${pm.sprints.length * sprintDuration} weeks)`);
     lines.push(`**Total Tasks**: ${pm.taskBreakdown.length}`);
     lines.push(`**Total Story Points**: ${pm.taskBreakdown.reduce((sum, t) => sum + t.storyPoints, 0)}`);
     lines.push(`**Project Duration**: ${pm.criticalPath.totalDuration} days (${Math.ceil(pm.criticalPath.totalDuration / 7)} weeks)`);
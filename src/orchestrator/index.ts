@@ -6,9 +6,12 @@ import type { BAOutput, SecurityOutput, QAOutput } from '../types/tools.js';
 import { loadDomainAuto } from '../domains/loader.js';
 import { analyzeRequirements, type BAInput } from '../tools/ba/index.js';
 import { techLeadDesign, type TechLeadInput } from '../tools/tech-lead/index.js';
-import { generateThreatModel, type SecurityInput } from '../tools/security/index.js';
+import { generateThreatModel, type SecurityInput, type RiskScoringMethod } from '../tools/security/index.js';
 import { designTestStrategy, type QAInput } from '../tools/qa/index.js';
 import { designCICD, type DevOpsInput, type DevOpsOutput } from '../tools/devops/index.js';
+import { startPipelineRun, newOrchestrationId, PIPELINE_PHASES, type PipelineRunOptions } from './progress.js';
+
+export * from './progress.js';
 
 export interface PipelineInput {
     projectDescription: string;
@@ -18,6 +21,9 @@ export interface PipelineInput {
     deploymentTarget?: 'kubernetes' | 'aws' | 'azure' | 'gcp' | 'docker';
     repositoryPlatform?: 'github' | 'gitlab' | 'bitbucket';
     complianceRequirements?: string[];
+    maxDomains?: number;            // compose up to this many detected domains (default 1)
+    minDomainConfidence?: number;   // skip detected domains below this confidence
+    riskScoring?: RiskScoringMethod;
 }
 
 export interface PipelineOutput {
@@ -45,9 +51,10 @@ export interface PipelineSummary {
 }
 
 /**
- * Run complete SSDLC pipeline
+ * Run complete SSDLC pipeline. Throws PipelineCancelledError, with the finished
+ * phases, when options.signal aborts between phases.
  */
-export async function orchestratePipeline(input: PipelineInput): Promise<PipelineOutput> {
+export async function orchestratePipeline(input: PipelineInput, options: PipelineRunOptions = {}): Promise<PipelineOutput> {
     const {
         projectDescription,
         businessGoals,
@@ -55,14 +62,18 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
         targetLanguage = 'python',
         deploymentTarget = 'kubernetes',
         repositoryPlatform = 'github',
-        complianceRequirements = []
+        complianceRequirements = [],
+        maxDomains,
+        minDomainConfidence,
+        riskScoring
     } = input;
 
     // Generate orchestration ID
-    const orchestrationId = `ssdlc-${Date.now()}`;
+    const orchestrationId = newOrchestrationId();
+    const run = startPipelineRun(orchestrationId, PIPELINE_PHASES, options);
 
     // Phase 0: Detect domain
-    const domain = await loadDomainAuto(projectDescription);
+    const domain = await run.phase('domain', () => loadDomainAuto(projectDescription, { maxDomains, minConfidence: minDomainConfidence }));
 
     // Phase 1: Business Analysis
     const baInput: BAInput = {
@@ -70,7 +81,7 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
         businessGoals,
         domain
     };
-    const baOutput = analyzeRequirements(baInput);
+    const baOutput = await run.phase('ba', () => analyzeRequirements(baInput));
 
     // Phase 2: Tech Lead Design
     const techLeadInput: TechLeadInput = {
@@ -85,17 +96,20 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
         securityRequirements: baOutput.securityRequirements.map(r => r.requirement),
         targetLanguage: targetLanguage as any,
         projectName: baOutput.projectName,
-        domainName: domain.name
+        domainName: domain.name,
+        domain
     };
-    const techLeadOutput = await techLeadDesign(techLeadInput);
+    const techLeadOutput = await run.phase('techLead', () => techLeadDesign(techLeadInput));
 
     // Phase 3: Security Threat Model
     const securityInput: SecurityInput = {
         modules: techLeadOutput.modules,
         domain,
-        projectName: baOutput.projectName
+        projectName: baOutput.projectName,
+        systemModel: techLeadOutput.dataFlowDiagrams?.model,
+        riskScoring
     };
-    const securityOutput = generateThreatModel(securityInput);
+    const securityOutput = await run.phase('security', () => generateThreatModel(securityInput));
 
     // Phase 4: QA Test Strategy
     const qaInput: QAInput = {
@@ -106,7 +120,7 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
             ...(domain.compliance?.regulations.map(r => r.name) || [])
         ]
     };
-    const qaOutput = designTestStrategy(qaInput);
+    const qaOutput = await run.phase('qa', () => designTestStrategy(qaInput));
 
     // Phase 5: DevOps CI/CD
     const devopsInput: DevOpsInput = {
@@ -115,7 +129,7 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
         deploymentTarget,
         repositoryPlatform
     };
-    const devopsOutput = designCICD(devopsInput);
+    const devopsOutput = await run.phase('devops', () => designCICD(devopsInput));
 
     // Generate summary
     const summary: PipelineSummary = {
@@ -128,6 +142,7 @@ export async function orchestratePipeline(input: PipelineInput): Promise<Pipelin
         complianceFrameworks: domain.compliance?.regulations.map(r => r.name) || []
     };
 
+    await run.finish();
     return {
         orchestrationId,
         projectName: baOutput.projectName,
@@ -0,0 +1,127 @@
+// Pipeline Progress - per-phase progress reporting and cancellation between phases
+import { randomUUID } from 'crypto';
+import type { LoadedDomain } from '../domains/loader.js';
+import type { EnhancedPipelineOutput } from './enhanced-pipeline.js';
+
+type PhaseOutputs = EnhancedPipelineOutput['phases'] & {
+    domain: LoadedDomain;
+    deliverables: EnhancedPipelineOutput['deliverables'];
+};
+
+export type PipelinePhase = keyof PhaseOutputs;
+
+export const PIPELINE_PHASES: PipelinePhase[] = ['domain', 'ba', 'techLead', 'security', 'qa', 'devops'];
+export const ENHANCED_PIPELINE_PHASES: PipelinePhase[] = [...PIPELINE_PHASES, 'pm', 'architecture', 'deliverables'];
+
+const PHASE_LABELS: Record<PipelinePhase, string> = {
+    domain: 'Domain detection',
+    ba: 'Business analysis',
+    techLead: 'Tech lead design',
+    security: 'Security threat model',
+    qa: 'QA test strategy',
+    devops: 'DevOps CI/CD',
+    pm: 'Project plan',
+    architecture: 'Architecture decisions',
+    deliverables: 'Deliverables'
+};
+
+export interface PipelineProgress {
+    phase: PipelinePhase | 'done';
+    progress: number;       // phases finished so far
+    total: number;
+    message: string;        // e.g. "Phase 3/6: Security threat model"
+}
+
+export interface PipelineRunOptions {
+    signal?: AbortSignal;   // checked before each phase
+    onProgress?: (progress: PipelineProgress) => void | Promise<void>;
+}
+
+/**
+ * Phases a pipeline run finished before it stopped
+ */
+export interface PartialPipelineOutput {
+    orchestrationId: string;
+    projectName?: string;
+    domain?: LoadedDomain;
+    completedPhases: PipelinePhase[];
+    phases: Partial<EnhancedPipelineOutput['phases']>;
+}
+
+/**
+ * Thrown when the signal aborts a run; carries the finished phases
+ */
+export class PipelineCancelledError extends Error {
+    readonly partial: PartialPipelineOutput;
+    readonly projectId?: string;    // project the finished phases were saved to
+
+    constructor(partial: PartialPipelineOutput, projectId?: string) {
+        const completed = partial.completedPhases.length ? partial.completedPhases.join(', ') : 'no phases';
+        super(`Pipeline cancelled after ${completed}${projectId ? `; finished phases are stored as project ${projectId}` : ''}`);
+        this.name = 'PipelineCancelledError';
+        this.partial = partial;
+        this.projectId = projectId;
+    }
+}
+
+export interface PipelineRun {
+    partial: PartialPipelineOutput;
+    phase<P extends PipelinePhase>(name: P, run: () => PhaseOutputs[P] | Promise<PhaseOutputs[P]>): Promise<PhaseOutputs[P]>;
+    finish(): Promise<void>;
+}
+
+/**
+ * ID of a new pipeline run, which also keys its project: runs started in the same millisecond,
+ * e.g. by two HTTP sessions, must not overwrite each other's project
+ */
+export function newOrchestrationId(): string {
+    return `ssdlc-${Date.now()}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Track a pipeline run: each phase reports progress and may be cancelled before it starts
+ */
+export function startPipelineRun(
+    orchestrationId: string,
+    phases: PipelinePhase[],
+    options: PipelineRunOptions = {}
+): PipelineRun {
+    const partial: PartialPipelineOutput = { orchestrationId, completedPhases: [], phases: {} };
+    const total = phases.length;
+
+    return {
+        partial,
+
+        async phase(name, run) {
+            // Phases are synchronous: yield so a cancellation notification can arrive in between
+            await new Promise(resolve => setImmediate(resolve));
+            if (options.signal?.aborted) {
+                throw new PipelineCancelledError(partial);
+            }
+
+            const index = partial.completedPhases.length;
+            await options.onProgress?.({
+                phase: name,
+                progress: index,
+                total,
+                message: `Phase ${index + 1}/${total}: ${PHASE_LABELS[name]}`
+            });
+
+            const output = await run();
+            if (name === 'domain') {
+                partial.domain = output as LoadedDomain;
+            } else if (name !== 'deliverables') {
+                (partial.phases as Record<string, unknown>)[name] = output;
+            }
+            if (name === 'ba') {
+                partial.projectName = (output as PhaseOutputs['ba']).projectName;
+            }
+            partial.completedPhases.push(name);
+            return output;
+        },
+
+        async finish() {
+            await options.onProgress?.({ phase: 'done', progress: total, total, message: 'Pipeline complete' });
+        }
+    };
+}
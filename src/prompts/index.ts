@@ -0,0 +1,319 @@
+// MCP Prompts - role-based SSDLC workflows grounded in domain data and the latest pipeline run
+import { loadDomain, detectDomain, type LoadedDomain } from '../domains/index.js';
+import { readDomainResource, domainResourceUri, type DomainResourceSection } from '../resources/index.js';
+import { generateCodingGuidelines } from '../tools/coding/index.js';
+import { exportADRAsMarkdown } from '../tools/architecture/adr-generator.js';
+import type { PipelineOutput } from '../orchestrator/index.js';
+import type { EnhancedPipelineOutput } from '../orchestrator/enhanced-pipeline.js';
+
+export interface PromptArgument {
+    name: string;
+    description: string;
+    required?: boolean;
+}
+
+export interface PromptDefinition {
+    name: string;
+    description: string;
+    role: string;
+    arguments: PromptArgument[];
+}
+
+export type PromptContent =
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+
+export interface PromptMessage {
+    role: 'user' | 'assistant';
+    content: PromptContent;
+}
+
+export interface PromptResult {
+    description: string;
+    messages: PromptMessage[];
+}
+
+/**
+ * State the prompts draw on besides the domain plugins
+ */
+export interface PromptContext {
+    latestPipeline?: PipelineOutput | EnhancedPipelineOutput;
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+const DOMAIN_ARGUMENT: PromptArgument = {
+    name: 'domain',
+    description: 'Domain name (default: domain of the latest pipeline run, or auto-detected)'
+};
+
+export const promptDefinitions: PromptDefinition[] = [
+    {
+        name: 'write-user-stories',
+        description: 'Write user stories with security acceptance criteria for the domain stakeholders',
+        role: 'Business Analyst',
+        arguments: [
+            { name: 'project_description', description: 'What the project should do', required: true },
+            DOMAIN_ARGUMENT
+        ]
+    },
+    {
+        name: 'threat-model-review',
+        description: 'Review a STRIDE threat model against the domain threat catalog and compliance requirements',
+        role: 'Security Engineer',
+        arguments: [
+            DOMAIN_ARGUMENT,
+            { name: 'component', description: 'Limit the review to threats targeting this component' }
+        ]
+    },
+    {
+        name: 'review-adr',
+        description: 'Review an Architecture Decision Record from the latest enhanced pipeline run',
+        role: 'Tech Lead',
+        arguments: [
+            { name: 'adr_id', description: 'ADR to review, e.g. ADR-001 (default: all ADRs)' },
+            DOMAIN_ARGUMENT
+        ]
+    },
+    {
+        name: 'secure-code-review',
+        description: 'Review code against domain security rules, sensitive data handling and known threats',
+        role: 'Security Engineer',
+        arguments: [
+            { name: 'language', description: 'Programming language (typescript, javascript, python, java)', required: true },
+            { name: 'code', description: 'Code to review (default: ask the user to paste it)' },
+            DOMAIN_ARGUMENT
+        ]
+    }
+];
+
+/**
+ * List prompts in the shape expected by prompts/list
+ */
+export function listPromptDefinitions(): Array<Omit<PromptDefinition, 'role'>> {
+    return promptDefinitions.map(({ role: _role, ...prompt }) => prompt);
+}
+
+/**
+ * Build a prompt by name. Throws for unknown prompts and missing required arguments.
+ */
+export async function getPrompt(name: string, args: PromptArgs = {}, context: PromptContext = {}): Promise<PromptResult> {
+    const definition = promptDefinitions.find(p => p.name === name);
+    if (!definition) {
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = definition.arguments.filter(a => a.required && !args[a.name]?.trim());
+    if (missing.length > 0) {
+        throw new Error(`Missing required argument(s) for ${name}: ${missing.map(a => a.name).join(', ')}`);
+    }
+
+    switch (name) {
+        case 'write-user-stories':
+            return buildWriteUserStories(args, context);
+        case 'threat-model-review':
+            return buildThreatModelReview(args, context);
+        case 'review-adr':
+            return buildReviewADR(args, context);
+        default:
+            return buildSecureCodeReview(args, context);
+    }
+}
+
+// ==================== PROMPT BUILDERS ====================
+
+async function buildWriteUserStories(args: PromptArgs, context: PromptContext): Promise<PromptResult> {
+    const projectDescription = args.project_description as string;
+    const domain = await resolveDomain(args.domain || undefined, context, projectDescription);
+    const lines: string[] = [];
+
+    lines.push(`You are the Business Analyst on a ${domain.name} project.`);
+    lines.push('');
+    lines.push(`Project: ${projectDescription}`);
+    lines.push('');
+    lines.push('Write user stories in the form "As a <stakeholder>, I want <goal>, so that <benefit>". For each story:');
+    lines.push('- Use the domain stakeholders attached below');
+    lines.push('- Assign a priority (P0-P3) and an effort estimate (Small, Medium, Large, XLarge)');
+    lines.push('- Add functional acceptance criteria and security acceptance criteria');
+    lines.push('- Flag sensitive data the story touches and the required protection level');
+    lines.push('- Reference the compliance requirements the story must satisfy');
+    lines.push('');
+    lines.push('Then list abuse cases: how a malicious actor could misuse each high-priority story.');
+
+    const messages: PromptMessage[] = [userText(lines.join('\n'))];
+    messages.push(...await domainResources(domain, ['profile', 'compliance']));
+
+    const pipeline = pipelineFor(context, domain);
+    if (pipeline) {
+        messages.push(userText(pipelineHeader(pipeline, 'Existing user stories - extend them rather than duplicating') +
+            json(pipeline.phases.ba.userStories.map(s => ({
+                id: s.id, title: s.title, asA: s.asA, iWant: s.iWant, soThat: s.soThat, priority: s.priority
+            })))));
+    }
+
+    return { description: `User stories for a ${domain.name} project`, messages };
+}
+
+async function buildThreatModelReview(args: PromptArgs, context: PromptContext): Promise<PromptResult> {
+    const domain = await resolveDomain(args.domain || undefined, context);
+    const component = args.component?.trim();
+    const lines: string[] = [];
+
+    lines.push(`You are the Security Engineer reviewing the threat model of a ${domain.name} system.`);
+    lines.push('');
+    lines.push('Review the threat model using STRIDE:');
+    lines.push('1. Compare it with the domain threat catalog and list catalog threats that are missing');
+    lines.push('2. Check that every threat has concrete, testable mitigations');
+    lines.push('3. Challenge likelihood and impact ratings that look too low for the data involved');
+    lines.push('4. Map critical and high risks to the compliance requirements they put at risk');
+    lines.push('5. Finish with a prioritised list of changes to the threat model');
+    if (component) {
+        lines.push('');
+        lines.push(`Focus on threats targeting: ${component}`);
+    }
+
+    const messages: PromptMessage[] = [userText(lines.join('\n'))];
+    messages.push(...await domainResources(domain, ['threats', 'compliance']));
+
+    const pipeline = pipelineFor(context, domain);
+    if (pipeline) {
+        const threats = pipeline.phases.security.threats
+            .filter(t => !component || t.targetComponent.toLowerCase().includes(component.toLowerCase()))
+            .sort((a, b) => b.riskScore - a.riskScore);
+        messages.push(userText(pipelineHeader(pipeline, 'Threat model under review') + json({
+            modules: pipeline.phases.techLead.modules.map(m => m.name),
+            threats,
+            recommendations: pipeline.phases.security.recommendations
+        })));
+    } else {
+        messages.push(userText('No pipeline run is available. Ask the user for the threat model, or run `security_threat_model` first.'));
+    }
+
+    return { description: `Threat model review for a ${domain.name} system`, messages };
+}
+
+async function buildReviewADR(args: PromptArgs, context: PromptContext): Promise<PromptResult> {
+    const pipeline = context.latestPipeline;
+    if (!pipeline || !('architecture' in pipeline.phases)) {
+        throw new Error('No Architecture Decision Records available. Run orchestrate_enhanced_pipeline first.');
+    }
+
+    const decisions = pipeline.phases.architecture.decisions;
+    const adrId = args.adr_id?.trim().toUpperCase();
+    const selected = adrId ? decisions.filter(d => d.id === adrId) : decisions;
+    if (selected.length === 0) {
+        throw new Error(`ADR not found: ${args.adr_id}. Available: ${decisions.map(d => d.id).join(', ')}`);
+    }
+
+    const domain = await resolveDomain(args.domain || undefined, context);
+    const lines: string[] = [];
+
+    lines.push(`You are the Tech Lead reviewing Architecture Decision Records for ${pipeline.projectName} (${domain.name} domain).`);
+    lines.push('');
+    lines.push('For each ADR:');
+    lines.push('- Does the context state the problem and the forces at play?');
+    lines.push('- Were credible alternatives considered, and are the option scores justified?');
+    lines.push('- Does the decision follow from the decision drivers, including hard constraints?');
+    lines.push('- Are negative consequences acknowledged with a mitigation or follow-up?');
+    lines.push('- Is the security and compliance impact complete for the attached regulations?');
+    lines.push('');
+    lines.push('Recommend: accept, revise (with concrete changes) or reject.');
+
+    const messages: PromptMessage[] = [userText(lines.join('\n'))];
+    for (const adr of selected) {
+        messages.push(userText(exportADRAsMarkdown(adr)));
+    }
+    messages.push(...await domainResources(domain, ['compliance']));
+
+    return {
+        description: adrId ? `Review of ${adrId}` : `Review of ${selected.length} ADRs`,
+        messages
+    };
+}
+
+async function buildSecureCodeReview(args: PromptArgs, context: PromptContext): Promise<PromptResult> {
+    const language = (args.language as string).trim().toLowerCase();
+    const domain = await resolveDomain(args.domain || undefined, context);
+    const guidelines = generateCodingGuidelines(domain, language);
+    const lines: string[] = [];
+
+    lines.push(`You are the Security Engineer performing a secure code review of ${language} code for a ${domain.name} system.`);
+    lines.push('');
+    lines.push('Report each finding with: severity, line, CWE, OWASP category, explanation and a fixed code snippet.');
+    lines.push('Check in particular:');
+    lines.push('- Handling of the sensitive data types listed in the domain profile (encryption, logging, masking)');
+    lines.push('- The security rules below');
+    lines.push('- Whether the code mitigates or introduces the known threats below');
+    lines.push('');
+    lines.push('Security rules:');
+    guidelines.securityRules.forEach(rule => lines.push(`- ${rule.id} ${rule.name}: ${rule.description} (fix: ${rule.fix})`));
+    if (guidelines.bestPractices.length > 0) {
+        lines.push('');
+        lines.push('Best practices:');
+        guidelines.bestPractices.forEach(practice => lines.push(`- ${practice}`));
+    }
+
+    const messages: PromptMessage[] = [userText(lines.join('\n'))];
+    messages.push(...await domainResources(domain, ['profile', 'threats']));
+
+    const pipeline = pipelineFor(context, domain);
+    if (pipeline) {
+        messages.push(userText(pipelineHeader(pipeline, 'Security requirements and top threats') + json({
+            securityRequirements: pipeline.phases.ba.securityRequirements.map(r => `${r.id}: ${r.requirement}`),
+            threats: [...pipeline.phases.security.threats]
+                .sort((a, b) => b.riskScore - a.riskScore)
+                .slice(0, 10)
+                .map(t => ({ id: t.id, name: t.name, category: t.category, targetComponent: t.targetComponent, cwe: t.cwe }))
+        })));
+    }
+
+    messages.push(userText(args.code?.trim()
+        ? `Code to review:\n\n\`\`\`${language}\n${args.code}\n\`\`\``
+        : 'Ask the user to paste the code to review.'));
+
+    return { description: `Secure ${language} code review for a ${domain.name} system`, messages };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Domain precedence: explicit argument, latest pipeline run, detection from the description, generic
+ */
+async function resolveDomain(domainName: string | undefined, context: PromptContext, description?: string): Promise<LoadedDomain> {
+    if (domainName) return loadDomain(domainName);
+    if (context.latestPipeline) return context.latestPipeline.domain;
+    return loadDomain(description ? detectDomain(description) : 'generic');
+}
+
+/**
+ * The latest pipeline run, only when it was for the same domain
+ */
+function pipelineFor(context: PromptContext, domain: LoadedDomain): PipelineOutput | undefined {
+    return context.latestPipeline?.domain.name === domain.name ? context.latestPipeline : undefined;
+}
+
+async function domainResources(domain: LoadedDomain, sections: DomainResourceSection[]): Promise<PromptMessage[]> {
+    const messages: PromptMessage[] = [];
+
+    for (const section of sections) {
+        if (section === 'threats' && !domain.threats) continue;
+        if (section === 'compliance' && !domain.compliance) continue;
+
+        const contents = await readDomainResource(domainResourceUri(domain.name, section));
+        messages.push({ role: 'user', content: { type: 'resource', resource: contents } });
+    }
+
+    return messages;
+}
+
+function pipelineHeader(pipeline: PipelineOutput, title: string): string {
+    return `${title} (pipeline ${pipeline.orchestrationId}, project ${pipeline.projectName}):\n\n`;
+}
+
+function userText(text: string): PromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
+}
+
+function json(data: unknown): string {
+    return '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+}
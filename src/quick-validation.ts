@@ -125,25 +125,25 @@ async function testDomain(domainName: string) {
     try {
         const domain = await loadDomain(domainName);
         const hasExtended = !!(
-            domain.domain.domain_specific_requirements ||
-            domain.domain.technical_constraints ||
-            domain.domain.recommended_tech_stack ||
-            domain.domain.data_flows
+            domain.domain.domainSpecificRequirements ||
+            domain.domain.technicalConstraints ||
+            domain.domain.recommendedTechStack ||
+            domain.domain.dataFlows
         );
         
         if (hasExtended) {
             console.log(`✅ ${domainName}: Extended schema loaded`);
-            if (domain.domain.domain_specific_requirements) {
-                console.log(`   - Domain Requirements: ${domain.domain.domain_specific_requirements.length} items`);
+            if (domain.domain.domainSpecificRequirements) {
+                console.log(`   - Domain Requirements: ${domain.domain.domainSpecificRequirements.length} items`);
             }
-            if (domain.domain.technical_constraints) {
+            if (domain.domain.technicalConstraints) {
                 console.log(`   - Technical Constraints: Defined`);
             }
-            if (domain.domain.recommended_tech_stack) {
+            if (domain.domain.recommendedTechStack) {
                 console.log(`   - Tech Stack: Defined`);
             }
-            if (domain.domain.data_flows) {
-                console.log(`   - Data Flows: ${domain.domain.data_flows.length} flows`);
+            if (domain.domain.dataFlows) {
+                console.log(`   - Data Flows: ${domain.domain.dataFlows.length} flows`);
             }
         } else {
             console.log(`⚠️  ${domainName}: Basic schema only (no extended fields)`);
@@ -0,0 +1,255 @@
+// Domain Resources - expose domain profiles, threat catalogs and compliance catalogs as MCP resources
+import { watch, existsSync, readdirSync, type FSWatcher, type Dirent } from 'fs';
+import { join, dirname } from 'path';
+import { loadDomain, findDomains, getDomainRoots, includesDomain, type DomainRoot } from '../domains/index.js';
+
+export const DOMAIN_RESOURCE_PREFIX = 'ssdlc://domains';
+
+export type DomainResourceSection = 'profile' | 'threats' | 'compliance';
+
+export interface DomainResource {
+    uri: string;
+    name: string;
+    description: string;
+    mimeType: string;
+}
+
+export interface DomainResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+export interface DomainResourceListener {
+    onUpdated: (uri: string) => void;
+    onListChanged: () => void;
+    subscriptions?: () => Iterable<string>;    // URIs checked for domains that extend or compose a changed one
+}
+
+const SECTION_FILES: Record<DomainResourceSection, string> = {
+    profile: 'domain.yaml',
+    threats: 'threats.yaml',
+    compliance: 'compliance.yaml'
+};
+
+const SECTION_DESCRIPTIONS: Record<DomainResourceSection, string> = {
+    profile: 'Keywords, stakeholders, sensitive data and data classification',
+    threats: 'STRIDE threat catalog',
+    compliance: 'Regulations, requirements and audit requirements'
+};
+
+const URI_PATTERN = /^ssdlc:\/\/domains\/([^/]+)\/(profile|threats|compliance)$/;
+
+// Several fs events fire per save; notifications go out once the burst settles
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Resource template covering every domain section
+ */
+export const domainResourceTemplate = {
+    uriTemplate: `${DOMAIN_RESOURCE_PREFIX}/{domain}/{section}`,
+    name: 'Domain knowledge',
+    description: 'Domain profile, threat catalog or compliance catalog. section is one of: profile, threats, compliance',
+    mimeType: 'application/json'
+};
+
+/**
+ * Build the resource URI for a domain section
+ */
+export function domainResourceUri(domainName: string, section: DomainResourceSection): string {
+    return `${DOMAIN_RESOURCE_PREFIX}/${domainName}/${section}`;
+}
+
+/**
+ * Parse a domain resource URI, returns undefined for URIs outside ssdlc://domains
+ */
+export function parseDomainResourceUri(uri: string): { domain: string; section: DomainResourceSection } | undefined {
+    const match = URI_PATTERN.exec(uri);
+    if (!match) return undefined;
+    return { domain: decodeURIComponent(match[1]), section: match[2] as DomainResourceSection };
+}
+
+/**
+ * List the resources available for every installed domain
+ */
+export function listDomainResources(): DomainResource[] {
+    const resources: DomainResource[] = [];
+
+    for (const { name: domainName, path } of findDomains()) {
+        for (const section of Object.keys(SECTION_FILES) as DomainResourceSection[]) {
+            if (!existsSync(join(path, SECTION_FILES[section]))) continue;
+
+            resources.push({
+                uri: domainResourceUri(domainName, section),
+                name: `${domainName} ${section}`,
+                description: `${domainName}: ${SECTION_DESCRIPTIONS[section]}`,
+                mimeType: 'application/json'
+            });
+        }
+    }
+
+    return resources;
+}
+
+/**
+ * Read a domain resource, returned as JSON built from the LoadedDomain structures
+ */
+export async function readDomainResource(uri: string): Promise<DomainResourceContents> {
+    const parsed = parseDomainResourceUri(uri);
+    if (!parsed) {
+        throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    const loaded = await loadDomain(parsed.domain);
+    let data: unknown;
+
+    switch (parsed.section) {
+        case 'profile':
+            data = loaded.domain;
+            break;
+        case 'threats':
+            if (!loaded.threats) {
+                throw new Error(`Domain ${parsed.domain} has no threat catalog`);
+            }
+            data = { domain: loaded.name, threats: loaded.threats };
+            break;
+        case 'compliance':
+            if (!loaded.compliance) {
+                throw new Error(`Domain ${parsed.domain} has no compliance catalog`);
+            }
+            data = { domain: loaded.name, ...loaded.compliance };
+            break;
+    }
+
+    return { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+}
+
+/**
+ * Watch the domain roots. YAML edits map to resource updates, added or removed
+ * domains and section files map to list changes. Roots that do not exist yet are
+ * not watched. Returns a function that stops watching.
+ */
+export function watchDomainResources(listener: DomainResourceListener, roots: DomainRoot[] = getDomainRoots()): () => void {
+    const domainWatchers = new Map<string, FSWatcher>();    // keyed by domain directory
+    const rootWatchers: FSWatcher[] = [];
+    const pendingUpdates = new Set<string>();
+    let listChanged = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const schedule = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = undefined;
+            if (listChanged) {
+                listChanged = false;
+                listener.onListChanged();
+            }
+            const updated = [...pendingUpdates];
+            pendingUpdates.clear();
+            void withDependents(updated, listener.subscriptions?.() ?? []).then(uris => {
+                for (const uri of uris) {
+                    listener.onUpdated(uri);
+                }
+            });
+        }, WATCH_DEBOUNCE_MS);
+        timer.unref();
+    };
+
+    const watchDomain = (domainName: string, path: string) => {
+        const watcher = watch(path, (eventType, filename) => {
+            const section = (Object.keys(SECTION_FILES) as DomainResourceSection[])
+                .find(s => SECTION_FILES[s] === filename);
+            if (!section) return;
+
+            // 'rename' covers files being created or deleted, which changes the resource list
+            if (eventType === 'rename') listChanged = true;
+            pendingUpdates.add(domainResourceUri(domainName, section));
+            schedule();
+        });
+        watcher.on('error', () => {
+            watcher.close();
+            domainWatchers.delete(path);
+        });
+        watcher.unref();
+        domainWatchers.set(path, watcher);
+    };
+
+    // Returns false when the root is gone, e.g. .ssdlc/domains deleted while the server runs
+    const syncDomainWatchers = (root: DomainRoot): boolean => {
+        let entries: Dirent[];
+        try {
+            entries = readdirSync(root.path, { withFileTypes: true });
+        } catch {
+            entries = [];
+        }
+        const current = new Map(entries
+            .filter(entry => entry.isDirectory() && !entry.name.startsWith('_'))
+            .filter(entry => !(root.source === 'builtin' && entry.name === 'custom'))
+            .map(entry => [join(root.path, entry.name), entry.name])
+        );
+
+        for (const [path, watcher] of domainWatchers) {
+            if (dirname(path) === root.path && !current.has(path)) {
+                watcher.close();
+                domainWatchers.delete(path);
+            }
+        }
+        for (const [path, domainName] of current) {
+            if (!domainWatchers.has(path)) watchDomain(domainName, path);
+        }
+        return existsSync(root.path);
+    };
+
+    for (const root of roots) {
+        if (!existsSync(root.path)) continue;
+
+        syncDomainWatchers(root);
+        const rootWatcher = watch(root.path, () => {
+            if (!syncDomainWatchers(root)) closeRoot();
+            listChanged = true;
+            schedule();
+        });
+        const closeRoot = () => {
+            rootWatcher.close();
+            const index = rootWatchers.indexOf(rootWatcher);
+            if (index !== -1) rootWatchers.splice(index, 1);
+        };
+        rootWatcher.on('error', () => {
+            syncDomainWatchers(root);
+            closeRoot();
+        });
+        rootWatcher.unref();
+        rootWatchers.push(rootWatcher);
+    }
+
+    return () => {
+        if (timer) clearTimeout(timer);
+        for (const watcher of rootWatchers) watcher.close();
+        for (const watcher of domainWatchers.values()) watcher.close();
+        domainWatchers.clear();
+    };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Changed resources plus the subscribed ones of domains that extend or compose a changed domain:
+ * those are read merged with their bases, so the same section changes with them
+ */
+async function withDependents(updated: string[], subscriptions: Iterable<string>): Promise<string[]> {
+    const changed = updated.flatMap(uri => parseDomainResourceUri(uri) ?? []);
+    const uris = new Set(updated);
+
+    for (const uri of subscriptions) {
+        const subscribed = parseDomainResourceUri(uri);
+        const bases = changed.filter(change => change.section === subscribed?.section).map(change => change.domain);
+        if (!subscribed || uris.has(uri) || bases.length === 0) continue;
+        try {
+            const loaded = await loadDomain(subscribed.domain);
+            if (bases.some(base => includesDomain(loaded, base))) uris.add(uri);
+        } catch {
+            // A domain that no longer loads reports its own error when read
+        }
+    }
+    return [...uris];
+}
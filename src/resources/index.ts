@@ -0,0 +1,2 @@
+// Resources module barrel export
+export * from './domains.js';
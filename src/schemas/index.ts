@@ -0,0 +1,3 @@
+// Schemas module barrel export
+export * from './tools.js';
+export * from './outputs.js';
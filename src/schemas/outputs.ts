@@ -0,0 +1,305 @@
+// MCP Tool Output Schemas - advertised as outputSchema and matched by structuredContent
+import { z } from 'zod';
+import type { ToolName } from './tools.js';
+
+// Output schemas describe the top-level shape; nested objects stay open (passthrough)
+// so that new fields in generator output do not break clients validating results.
+const open = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+const anyObject = z.object({}).passthrough();
+const stringList = z.array(z.string());
+
+const artifactRefSchema = z.object({
+    uri: z.string(),
+    name: z.string(),
+    mimeType: z.string(),
+});
+const artifactListSchema = z.array(artifactRefSchema).describe('Artifacts returned as embedded resources');
+
+const projectStatusSchema = open({
+    id: z.string(),
+    projectName: z.string(),
+    domain: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    phases: z.array(open({ phase: z.string(), updatedAt: z.string(), stale: z.boolean() })),
+    stalePhases: stringList,
+});
+
+// Present when a phase tool ran against a stored project
+const projectRefSchema = z.object({
+    id: z.string(),
+    stalePhases: stringList,
+}).optional();
+
+const loadedDomainSchema = open({
+    name: z.string(),
+    domain: open({
+        name: z.string(),
+        keywords: stringList,
+        stakeholders: z.array(anyObject),
+        sensitiveData: z.array(anyObject),
+        dataClassification: anyObject,
+    }),
+    compliance: open({ regulations: z.array(anyObject) }).optional(),
+    threats: z.array(anyObject).optional(),
+});
+
+const domainDetectionSchema = open({
+    ambiguous: z.boolean(),
+    matches: z.array(open({
+        domain: z.string(),
+        score: z.number(),
+        confidence: z.number(),
+        matchedKeywords: stringList,
+        negativeKeywords: stringList,
+    })),
+});
+
+const threatSchema = open({
+    id: z.string(),
+    category: z.string(),
+    name: z.string(),
+    likelihood: z.string(),
+    impact: z.string(),
+    riskScore: z.number(),
+    mitigation: stringList,
+});
+
+const controlSchema = open({
+    id: z.string(),
+    name: z.string(),
+    threatIds: stringList,
+    status: z.string(),
+});
+
+const baOutputSchema = open({
+    projectName: z.string(),
+    userStories: z.array(anyObject),
+    securityRequirements: z.array(anyObject),
+    abuseCases: z.array(anyObject),
+    dataClassification: anyObject,
+});
+
+const pseudocodeRefSchema = open({
+    filename: z.string(),
+    module: z.string(),
+    language: z.string(),
+    purpose: z.string(),
+    securityNotes: stringList,
+    resourceUri: z.string(),
+});
+
+const techLeadOutputSchema = open({
+    features: z.array(anyObject),
+    flows: z.array(anyObject),
+    modules: z.array(anyObject),
+    pseudocode: z.array(pseudocodeRefSchema),
+    fileStructure: z.array(anyObject),
+    designPatterns: z.array(anyObject),
+});
+
+const securityOutputSchema = open({
+    threats: z.array(threatSchema),
+    riskMatrix: z.array(anyObject),
+    recommendations: stringList,
+    controls: z.array(controlSchema).optional(),
+});
+
+const qaOutputSchema = open({
+    testCases: z.array(anyObject),
+    penetrationTestPlan: z.array(anyObject),
+    automationCoverage: anyObject,
+});
+
+const devopsOutputSchema = open({
+    pipelineStages: z.array(anyObject),
+    securityGates: z.array(anyObject),
+    deploymentConfig: anyObject,
+    buildConfig: z.string().optional(),
+});
+
+const pipelinePhasesSchema = open({
+    ba: baOutputSchema,
+    techLead: techLeadOutputSchema,
+    security: securityOutputSchema,
+    qa: qaOutputSchema,
+    devops: devopsOutputSchema,
+});
+
+const pipelineOutputSchema = open({
+    orchestrationId: z.string(),
+    projectName: z.string(),
+    domain: loadedDomainSchema,
+    phases: pipelinePhasesSchema,
+    summary: anyObject,
+    artifacts: artifactListSchema,
+});
+
+const enhancedPipelineOutputSchema = pipelineOutputSchema.extend({
+    phases: pipelinePhasesSchema.extend({
+        pm: open({
+            sprints: z.array(anyObject),
+            taskBreakdown: z.array(anyObject),
+            teamAllocation: anyObject,
+            criticalPath: anyObject,
+            riskRegister: z.array(anyObject),
+            costEstimate: anyObject,
+        }),
+        architecture: open({
+            decisions: z.array(anyObject),
+            summary: anyObject,
+        }),
+    }),
+});
+
+export const toolOutputSchemas = {
+    list_domains: z.object({
+        domains: stringList,
+        locations: z.array(open({ name: z.string(), path: z.string(), source: z.string(), shadows: stringList })),
+    }),
+    load_domain: loadedDomainSchema,
+    detect_domain: loadedDomainSchema.extend({ detection: domainDetectionSchema }),
+    scaffold_domain: open({
+        domain: z.string(),
+        path: z.string(),
+        written: z.boolean(),
+        dryRun: z.boolean(),
+        files: z.array(open({ file: z.string(), status: z.string(), content: z.string() })),
+        threatIds: stringList,
+        conflicts: z.array(open({
+            kind: z.string(),
+            value: z.string(),
+            domains: stringList,
+            blocking: z.boolean(),
+            message: z.string(),
+        })),
+    }),
+    domain_coverage_report: open({
+        categories: stringList,
+        domains: z.array(open({
+            domain: z.string(),
+            stride: z.record(z.number()),
+            strideCovered: z.number(),
+            regulations: z.number(),
+            requirements: z.number(),
+            threats: z.number(),
+            warnings: stringList,
+        })),
+        errors: z.array(open({ domain: z.string(), message: z.string() })),
+        diff: open({
+            from: z.string(),
+            to: z.string(),
+            changed: z.boolean(),
+            sections: z.record(z.array(open({ key: z.string(), change: z.string() }))),
+        }).optional(),
+    }),
+    compliance_crosswalk: open({
+        framework: open({ name: z.string(), version: z.string().optional(), aliases: stringList }),
+        mappings: z.array(open({
+            framework: z.string(),
+            control: z.string(),
+            equivalents: z.array(open({ framework: z.string(), control: z.string(), via: stringList })),
+        })),
+        coverage: open({
+            source: z.string(),
+            target: z.string(),
+            covered: z.number(),
+            total: z.number(),
+            percent: z.number(),
+            controls: z.array(open({ framework: z.string(), control: z.string(), coveredBy: stringList })),
+            gaps: stringList,
+        }).optional(),
+    }),
+    get_domain_stats: open({
+        cached: z.number(),
+        hits: z.number(),
+        misses: z.number(),
+        invalidations: z.number(),
+        uncached: z.number(),
+        totalLoadMs: z.number(),
+        domains: z.array(open({ name: z.string(), path: z.string(), source: z.string(), loadMs: z.number(), hits: z.number() })),
+    }),
+    validate_domain: open({
+        domain: z.string(),
+        path: z.string(),
+        valid: z.boolean(),
+        filesChecked: stringList,
+        issues: z.array(open({ file: z.string(), path: z.string(), message: z.string() })),
+    }),
+    ba_analyze_requirements: baOutputSchema.extend({ project: projectRefSchema }),
+    techlead_design: techLeadOutputSchema.extend({ artifacts: artifactListSchema, project: projectRefSchema }),
+    security_threat_model: securityOutputSchema.extend({ project: projectRefSchema }),
+    import_threat_model: open({
+        format: z.string(),
+        title: z.string(),
+        systemModel: open({ elements: z.array(anyObject), dataFlows: z.array(anyObject), trustBoundaries: z.array(anyObject) }),
+        modules: z.array(anyObject),
+        threats: z.array(threatSchema),
+        warnings: stringList,
+    }),
+    export_threat_model: z.object({
+        format: z.string(),
+        title: z.string(),
+        warnings: stringList,
+        artifacts: artifactListSchema,
+    }),
+    security_attack_trees: z.object({
+        trees: z.array(open({
+            threatId: z.string(),
+            goal: z.string(),
+            risk: z.string(),
+            root: anyObject,
+            cheapestPath: open({ cost: z.number(), skill: z.string(), detectability: z.string(), steps: z.array(anyObject) }),
+            resourceUri: z.string(),
+        })),
+        artifacts: artifactListSchema,
+    }),
+    update_mitigation_status: z.object({
+        control: controlSchema,
+        threats: z.array(open({ id: z.string(), name: z.string(), riskScore: z.number(), residualRiskScore: z.number(), residualRisk: z.string() })),
+        progress: z.record(z.number()),
+        project: projectRefSchema,
+    }),
+    qa_design_test_strategy: qaOutputSchema.extend({ project: projectRefSchema }),
+    devops_design_cicd: devopsOutputSchema.extend({ project: projectRefSchema }),
+    orchestrate_ssdlc_pipeline: pipelineOutputSchema,
+    orchestrate_enhanced_pipeline: enhancedPipelineOutputSchema,
+    list_projects: z.object({ projects: z.array(projectStatusSchema) }),
+    get_project: projectStatusSchema,
+    workspace_snapshot: open({
+        root: z.string(),
+        os: z.string(),
+        timestamp: z.string(),
+        files: z.array(anyObject),
+        totalFiles: z.number(),
+        totalDirs: z.number(),
+    }),
+    run_diagnostic_playbook: open({
+        playbook: z.string(),
+        commands: z.array(anyObject),
+        success: z.boolean(),
+        summary: z.string(),
+    }),
+    run_environment_diagnostics: z.object({
+        diagnostics: z.array(open({ name: z.string(), status: z.string(), message: z.string() })),
+    }),
+    parse_error_log: z.object({ errors: stringList, suggestions: stringList }),
+    get_last_known_good: z.object({ lastKnownGood: anyObject.nullable() }),
+    analyze_code_security: open({
+        passed: z.boolean(),
+        issues: z.array(anyObject),
+        score: z.number(),
+    }),
+    get_coding_guidelines: open({
+        domain: z.string(),
+        language: z.string(),
+        patterns: z.array(anyObject),
+        securityRules: z.array(anyObject),
+        bestPractices: stringList,
+    }),
+    get_secure_template: z.object({
+        feature_type: z.string(),
+        language: z.string(),
+        artifacts: artifactListSchema,
+    }),
+} satisfies Record<ToolName, z.ZodTypeAny>;
@@ -0,0 +1,495 @@
+// MCP Tool Schemas - single source of truth for argument validation and advertised inputSchema
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { toolOutputSchemas } from './outputs.js';
+
+// ==================== SHARED SCHEMAS ====================
+
+const targetLanguageSchema = z.enum(['python', 'typescript', 'java', 'go', 'csharp', 'cpp', 'rust']);
+const deploymentTargetSchema = z.enum(['kubernetes', 'aws', 'azure', 'gcp', 'docker']);
+const repositoryPlatformSchema = z.enum(['github', 'gitlab', 'bitbucket']);
+const codeLanguageSchema = z.enum(['typescript', 'javascript', 'python', 'java']);
+const featurePrioritySchema = z.enum(['P0', 'P1', 'P2', 'P3']);
+const strideCategorySchema = z.enum([
+    'Spoofing',
+    'Tampering',
+    'Repudiation',
+    'Information Disclosure',
+    'Denial of Service',
+    'Elevation of Privilege'
+]);
+
+const nonEmptyString = z.string().trim().min(1, 'Must not be empty');
+const stringList = z.array(z.string());
+
+const userStorySchema = z.object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    as_a: z.string().optional(),
+    i_want: z.string().optional(),
+    so_that: z.string().optional(),
+    priority: featurePrioritySchema.optional(),
+});
+
+const moduleSchema = z.object({
+    name: nonEmptyString,
+    type: z.enum(['service', 'repository', 'controller', 'utility', 'model']).default('service'),
+    classes: z.array(z.any()).default([]),
+    interfaces: z.array(z.any()).default([]),
+    dependencies: stringList.default([]),
+}).passthrough();
+
+const featureSchema = z.object({
+    id: nonEmptyString,
+    name: nonEmptyString,
+    priority: featurePrioritySchema.default('P2'),
+    description: z.string().default(''),
+    dependencies: stringList.default([]),
+    subFeatures: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        parentId: z.string(),
+    })).default([]),
+}).passthrough();
+
+const threatSchema = z.object({
+    id: nonEmptyString,
+    category: strideCategorySchema,
+    name: nonEmptyString,
+    description: z.string().default(''),
+    targetComponent: z.string().default('System'),
+    likelihood: z.enum(['low', 'medium', 'high']).default('medium'),
+    impact: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+    riskScore: z.number().default(0),
+    riskVector: z.string().optional().describe('Vector the score was computed from, e.g. CVSS:3.1/AV:N/AC:L/...'),
+    cwe: z.string().optional(),
+    owasp: z.string().optional(),
+    capec: stringList.optional(),
+    attackTechniques: stringList.optional().describe('MITRE ATT&CK technique IDs, e.g. T1078'),
+    preconditions: stringList.optional(),
+    affectedComponents: stringList.optional(),
+    domainThreatId: z.string().optional(),
+    elementId: z.string().optional(),
+    elementType: z.enum(['process', 'data_store', 'external_entity', 'data_flow']).optional(),
+    mitigation: stringList.default([]),
+}).passthrough();
+
+const systemModelSchema = z.object({
+    elements: z.array(z.object({
+        id: nonEmptyString,
+        name: nonEmptyString,
+        type: z.enum(['process', 'data_store', 'external_entity']),
+        boundary: z.string().optional().describe('Trust boundary ID; omit for elements outside every boundary'),
+        sensitiveData: stringList.optional(),
+    })).min(1),
+    dataFlows: z.array(z.object({
+        id: nonEmptyString,
+        name: nonEmptyString,
+        from: nonEmptyString.describe('Source element ID'),
+        to: nonEmptyString.describe('Target element ID'),
+        data: stringList.optional(),
+        protocol: z.string().optional(),
+        encrypted: z.boolean().optional(),
+        authenticated: z.boolean().optional(),
+        crossesBoundary: z.boolean().optional().describe('Override for boundaries drawn as lines rather than zones'),
+    })).default([]),
+    trustBoundaries: z.array(z.object({
+        id: nonEmptyString,
+        name: nonEmptyString,
+    })).default([]),
+});
+
+const projectConstraintSchema = z.object({
+    type: z.enum(['budget', 'timeline', 'technology', 'regulation', 'team_skill']),
+    description: nonEmptyString,
+    hard_constraint: z.boolean().default(false),
+    impact: z.string().default(''),
+});
+
+const projectIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Invalid project ID')
+    .describe('Project ID (orchestrationId of a pipeline run). Upstream phase outputs are read from the project store and the result is saved to it');
+
+const maxDomainsSchema = z.number().int().min(1).max(5)
+    .describe('Compose up to this many detected domains, e.g. healthcare+fintech (default: 1)');
+const minConfidenceSchema = z.number().min(0).max(1)
+    .describe('Ignore detected domains below this confidence (0-1)');
+
+const riskScoringSchema = z.enum(['likelihood-impact', 'cvss-3.1', 'cvss-4.0', 'owasp', 'dread'])
+    .describe('Risk scoring method for threats (default: the project\'s method, or likelihood-impact)');
+
+const pipelineSchema = z.object({
+    project_description: nonEmptyString,
+    business_goals: z.array(nonEmptyString).min(1, 'At least one business goal is required'),
+    tech_stack: stringList,
+    target_language: targetLanguageSchema.optional(),
+    deployment_target: deploymentTargetSchema.optional(),
+    compliance_requirements: stringList.optional(),
+    max_domains: maxDomainsSchema.optional(),
+    min_domain_confidence: minConfidenceSchema.optional(),
+    risk_scoring: riskScoringSchema.optional(),
+});
+
+// ==================== TOOL DEFINITIONS ====================
+
+export interface ToolDefinition {
+    description: string;
+    inputSchema: z.ZodObject<z.ZodRawShape>;
+}
+
+export const toolDefinitions = {
+    // Domain tools
+    list_domains: {
+        description: 'List all available domain plugins with the root each one loads from (project .ssdlc/domains, SSDLC_DOMAINS_PATH, domains/custom, built-in)',
+        inputSchema: z.object({}),
+    },
+    load_domain: {
+        description: 'Load a domain plugin, or merge several into one (stakeholders, data, regulations and threats with their origin domain)',
+        inputSchema: z.object({
+            domain_name: z.union([nonEmptyString, z.array(nonEmptyString).min(1)])
+                .describe('Domain name (healthcare, fintech, generic), a list of names, or names joined with + (healthcare+fintech)'),
+        }),
+    },
+    detect_domain: {
+        description: 'Auto-detect domain from project description, with ranked matches, confidence scores and the keywords that matched',
+        inputSchema: z.object({
+            project_description: nonEmptyString,
+            max_domains: maxDomainsSchema.optional(),
+            min_confidence: minConfidenceSchema.optional(),
+        }),
+    },
+    validate_domain: {
+        description: 'Validate domain.yaml, compliance.yaml and threats.yaml of a domain plugin against domains/_schema, reporting file, line and path for each issue',
+        inputSchema: z.object({
+            domain: nonEmptyString.describe('Domain name, or path to a domain directory being authored inside a domain root'),
+        }),
+    },
+
+    scaffold_domain: {
+        description: 'Write a schema-valid domain.yaml, compliance.yaml and threats.yaml for a new domain into the first SSDLC_DOMAINS_PATH directory or the project .ssdlc/domains, reporting threat IDs, regulations and keywords it shares with installed domains',
+        inputSchema: z.object({
+            name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, digits and underscores')
+                .describe('Domain directory name, e.g. ecommerce'),
+            display_name: nonEmptyString.optional(),
+            description: nonEmptyString.optional(),
+            keywords: z.array(nonEmptyString).min(1, 'At least one keyword is required'),
+            extends: z.array(nonEmptyString).optional().describe('Domains to build on'),
+            regulations: z.array(z.union([nonEmptyString, z.object({
+                name: nonEmptyString,
+                full_name: nonEmptyString.optional(),
+                requirements: z.array(z.object({
+                    id: nonEmptyString.optional(),
+                    name: nonEmptyString,
+                    description: z.string().optional(),
+                })).default([]),
+            })])).default([]).describe('Regulation names, or regulations with requirements'),
+            threats: z.array(z.object({
+                id: nonEmptyString.optional().describe('Generated from the domain name when omitted, e.g. EC-T1'),
+                category: strideCategorySchema,
+                name: nonEmptyString,
+                description: z.string().optional(),
+                likelihood: z.enum(['low', 'medium', 'high']).default('medium'),
+                impact: z.enum(['low', 'medium', 'high', 'critical']).default('high'),
+                mitigation: nonEmptyString,
+            })).default([]).describe('Sample threats'),
+            dry_run: z.boolean().default(false).describe('Return the files and conflicts without writing'),
+            overwrite: z.boolean().default(false).describe('Replace an existing domain of the same name in the target directory'),
+        }),
+    },
+    domain_coverage_report: {
+        description: 'Report threats per STRIDE category for each domain, regulation and requirement counts and thin or missing content; or diff two domains, or two git revisions of one domain',
+        inputSchema: z.object({
+            domains: z.array(nonEmptyString).optional().describe('Domains to report on (default: all installed domains)'),
+            compare: z.array(nonEmptyString).length(2, 'Compare exactly two domains')
+                .optional().describe('Two domains to diff; name@revision reads a domain from git, e.g. ["healthcare@HEAD~5", "healthcare"]'),
+            min_stride_categories: z.number().int().min(1).max(6).default(3)
+                .describe('Warn when a domain\'s threats cover fewer STRIDE categories'),
+        }),
+    },
+    compliance_crosswalk: {
+        description: 'Map compliance controls between frameworks (HIPAA 164.312(b) <-> NIST-800-53 AU-2 <-> ISO-27001 A.8.15 <-> PCI-DSS 10.2) and report how much of a target framework they cover',
+        inputSchema: z.object({
+            framework: nonEmptyString.describe('Framework name or alias, optionally with a version: HIPAA, NIST SP 800-53, PCI-DSS@4.0'),
+            control: nonEmptyString.optional().describe('Only this control and its sub-controls, e.g. 164.312(b) or 10'),
+            target_framework: nonEmptyString.optional().describe('Only map to this framework, and report coverage of its controls'),
+            domain: nonEmptyString.optional().describe('Only use maps_to from this domain (names joined with + allowed); default: all installed domains'),
+        }),
+    },
+    get_domain_stats: {
+        description: 'Show the in-memory domain registry: cached domains, load times, cache hits and invalidations after YAML changes',
+        inputSchema: z.object({
+            warm: z.boolean().default(false).describe('Load every domain first, so load times cover all of them'),
+        }),
+    },
+
+    // BA Tool
+    ba_analyze_requirements: {
+        description: 'Generate user stories, security requirements, and abuse cases',
+        inputSchema: z.object({
+            project_description: nonEmptyString,
+            business_goals: z.array(nonEmptyString).min(1, 'At least one business goal is required'),
+            domain_name: z.string().optional().describe('Optional domain name'),
+            project_id: projectIdSchema.optional(),
+        }),
+    },
+
+    // Tech Lead Tool
+    techlead_design: {
+        description: 'Generate feature checklist, flows, modules, pseudocode, architecture diagram',
+        inputSchema: z.object({
+            user_stories: z.array(userStorySchema).default([]),
+            security_requirements: stringList.optional(),
+            target_language: targetLanguageSchema.optional().describe('Pseudocode language (default: project language, or python)'),
+            project_name: z.string().optional(),
+            export_format: z.enum(['json', 'yaml', 'markdown']).optional(),
+            project_id: projectIdSchema.optional(),
+        }),
+    },
+
+    // Security Tool
+    security_threat_model: {
+        description: 'Generate STRIDE-per-element threat model from a system model, or from modules',
+        inputSchema: z.object({
+            modules: z.array(moduleSchema).default([]),
+            system_model: systemModelSchema.optional()
+                .describe('Processes, data stores, external entities, data flows and trust boundaries; default: derived from modules and domain'),
+            domain_name: z.string().optional(),
+            project_name: z.string().optional(),
+            risk_scoring: riskScoringSchema.optional(),
+            risk_vectors: z.record(nonEmptyString).optional()
+                .describe('Assessed vectors for the risk scoring method, by threat ID (T-003) or domain threat ID (HC-T2); other threats get vectors derived from likelihood and impact'),
+            project_id: projectIdSchema.optional(),
+        }),
+    },
+
+    import_threat_model: {
+        description: 'Import an OWASP Threat Dragon (JSON) or Microsoft Threat Modeling Tool (.tm7) model as a system model, modules and threats',
+        inputSchema: z.object({
+            content: nonEmptyString.describe('Model file content'),
+            format: z.enum(['threat-dragon', 'tm7']).optional().describe('Default: detected from the content'),
+        }),
+    },
+
+    export_threat_model: {
+        description: 'Export a threat model as an OWASP Threat Dragon v2 model with diagram cells and threats',
+        inputSchema: z.object({
+            threats: z.array(threatSchema).default([]),
+            system_model: systemModelSchema.optional(),
+            title: z.string().optional(),
+            owner: z.string().optional(),
+            project_id: projectIdSchema.optional().describe('Stored project whose security phase is exported'),
+        }),
+    },
+
+    security_attack_trees: {
+        description: 'Expand high and critical threats into AND/OR attack trees with cost, skill and detectability, Mermaid diagrams and the cheapest attack path',
+        inputSchema: z.object({
+            threats: z.array(threatSchema).default([]),
+            system_model: systemModelSchema.optional().describe('Default: the project system model; without one, trees are built from CAPEC patterns only'),
+            min_risk: z.enum(['high', 'critical']).optional().describe('Lowest risk level expanded (default: high)'),
+            project_id: projectIdSchema.optional().describe('Stored project whose threats are expanded'),
+        }),
+    },
+
+    update_mitigation_status: {
+        description: 'Track a mitigation control of a stored threat model (status, owner, verifying test case, compliance requirement) and recompute residual risk',
+        inputSchema: z.object({
+            project_id: projectIdSchema.describe('Stored project whose threat model holds the control'),
+            control_id: nonEmptyString.describe('Control ID, e.g. C-004'),
+            status: z.enum(['planned', 'implemented', 'verified']).optional(),
+            owner: z.string().optional(),
+            test_case_id: z.string().optional()
+                .describe('QA test case that verifies the control; verified controls default to the first test case for one of their threats'),
+            compliance_requirement: z.string().optional().describe('Requirement the control satisfies, e.g. "HIPAA 164.312(b)"'),
+        }),
+    },
+
+    // QA Tool
+    qa_design_test_strategy: {
+        description: 'Generate test cases from features and threats',
+        inputSchema: z.object({
+            features: z.array(featureSchema).default([]),
+            threats: z.array(threatSchema).default([]),
+            compliance_requirements: stringList.optional(),
+            project_id: projectIdSchema.optional(),
+        }),
+    },
+
+    // DevOps Tool
+    devops_design_cicd: {
+        description: 'Generate CI/CD pipeline with security gates',
+        inputSchema: z.object({
+            project_name: z.string().optional().describe('Project name (default: project name, or "Project")'),
+            tech_stack: stringList.default([]),
+            deployment_target: deploymentTargetSchema.optional().describe('Deployment target (default: project target, or kubernetes)'),
+            repository_platform: repositoryPlatformSchema.optional().describe('Repository platform (default: project platform, or github)'),
+            project_id: projectIdSchema.optional(),
+        }),
+    },
+
+    // Orchestrator
+    orchestrate_ssdlc_pipeline: {
+        description: 'Run complete SSDLC pipeline from project description',
+        inputSchema: pipelineSchema,
+    },
+    orchestrate_enhanced_pipeline: {
+        description: 'Run complete SSDLC pipeline plus sprint planning, risk register and Architecture Decision Records',
+        inputSchema: pipelineSchema.extend({
+            repository_platform: repositoryPlatformSchema.optional(),
+            team_size: z.number().int().positive().optional().describe('Number of team members (default: 3)'),
+            sprint_duration: z.number().int().positive().optional().describe('Sprint length in weeks (default: 2)'),
+            project_start_date: z.string().date().optional().describe('Project start date, ISO format (default: today)'),
+            constraints: z.array(projectConstraintSchema).default([]).describe('Project constraints considered by the ADR generator'),
+        }),
+    },
+
+    // Project Store
+    list_projects: {
+        description: 'List projects saved by pipeline runs, with stale phases',
+        inputSchema: z.object({}),
+    },
+    get_project: {
+        description: 'Get the phases recorded for a project and which ones are stale',
+        inputSchema: z.object({
+            project_id: projectIdSchema,
+        }),
+    },
+
+    // Dev Diagnostics Tools
+    workspace_snapshot: {
+        description: 'Generate a snapshot of the workspace structure (file tree with .gitignore filtering)',
+        inputSchema: z.object({
+            root_path: nonEmptyString.describe('Root directory to scan'),
+            max_depth: z.number().int().positive().default(5).describe('Maximum depth to scan (default: 5)'),
+        }),
+    },
+    run_diagnostic_playbook: {
+        description: 'Run a diagnostic playbook to check/fix environment issues',
+        inputSchema: z.object({
+            playbook: z.enum(['check_node', 'check_msvc', 'check_cmake', 'check_git', 'check_env', 'fix_node_modules', 'clean_build'])
+                .describe('Playbook to run'),
+            workspace_root: nonEmptyString.describe('Workspace root directory'),
+        }),
+    },
+    run_environment_diagnostics: {
+        description: 'Run diagnostics to check development environment (Node, Git, build tools)',
+        inputSchema: z.object({
+            workspace_root: nonEmptyString.describe('Workspace root directory'),
+        }),
+    },
+    parse_error_log: {
+        description: 'Parse error log to extract issues and suggestions',
+        inputSchema: z.object({
+            log_content: z.string().describe('Error log content to parse'),
+            log_type: z.enum(['build', 'test', 'generic']).default('generic').describe('Type of log'),
+        }),
+    },
+    get_last_known_good: {
+        description: 'Get last known good configuration that worked',
+        inputSchema: z.object({
+            workspace_root: nonEmptyString.describe('Workspace root directory'),
+        }),
+    },
+
+    // Coding Assistant Tools
+    analyze_code_security: {
+        description: 'Analyze code for security issues and vulnerabilities',
+        inputSchema: z.object({
+            code: z.string().describe('Code to analyze'),
+            language: codeLanguageSchema.describe('Programming language'),
+            domain: z.string().optional().describe('Domain context (healthcare, fintech, etc.)'),
+        }),
+    },
+    get_coding_guidelines: {
+        description: 'Get coding guidelines and security rules for a domain',
+        inputSchema: z.object({
+            domain: nonEmptyString.describe('Domain name'),
+            language: codeLanguageSchema.describe('Programming language'),
+        }),
+    },
+    get_secure_template: {
+        description: 'Get a secure code template for a feature type',
+        inputSchema: z.object({
+            feature_type: z.enum(['authentication', 'api_endpoint', 'database', 'generic']),
+            language: codeLanguageSchema,
+            domain: z.string().optional().describe('Domain context'),
+        }),
+    },
+} satisfies Record<string, ToolDefinition>;
+
+export type ToolName = keyof typeof toolDefinitions;
+export type ToolInput<N extends ToolName> = z.infer<typeof toolDefinitions[N]['inputSchema']>;
+
+/**
+ * Tools that read or write caller-chosen host paths or run commands: off on the HTTP transport unless enabled
+ */
+export const HOST_TOOLS: ReadonlySet<ToolName> = new Set<ToolName>([
+    'validate_domain',
+    'scaffold_domain',
+    'workspace_snapshot',
+    'run_diagnostic_playbook',
+    'run_environment_diagnostics',
+    'get_last_known_good'
+]);
+
+export interface ToolValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ToolValidationResult<N extends ToolName> =
+    | { success: true; data: ToolInput<N> }
+    | { success: false; issues: ToolValidationIssue[] };
+
+/**
+ * Check whether a tool name is registered
+ */
+export function isToolName(name: string): name is ToolName {
+    return Object.prototype.hasOwnProperty.call(toolDefinitions, name);
+}
+
+/**
+ * Validate tool arguments against the tool's input schema
+ */
+export function validateToolInput<N extends ToolName>(name: N, args: unknown): ToolValidationResult<N> {
+    const result = toolDefinitions[name].inputSchema.safeParse(args ?? {});
+
+    if (result.success) {
+        return { success: true, data: result.data as ToolInput<N> };
+    }
+
+    return {
+        success: false,
+        issues: result.error.issues.map(issue => ({
+            path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+            message: issue.message
+        }))
+    };
+}
+
+/**
+ * Build the MCP tool list (JSON Schemas generated from the zod input/output schemas)
+ */
+export function listToolDefinitions(): Array<{
+    name: ToolName;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    outputSchema: Record<string, unknown>;
+}> {
+    return (Object.keys(toolDefinitions) as ToolName[]).map(name => ({
+        name,
+        description: toolDefinitions[name].description,
+        inputSchema: toJsonSchema(toolDefinitions[name].inputSchema, 'input'),
+        outputSchema: toJsonSchema(toolOutputSchemas[name], 'output')
+    }));
+}
+
+function toJsonSchema(schema: z.ZodTypeAny, pipeStrategy: 'input' | 'output'): Record<string, unknown> {
+    const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        target: 'jsonSchema7',
+        $refStrategy: 'none',
+        pipeStrategy,
+        // Unknown keys are stripped, not rejected - only .strict() objects advertise additionalProperties: false
+        removeAdditionalStrategy: 'strict'
+    }) as Record<string, unknown>;
+    return jsonSchema;
+}
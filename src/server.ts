@@ -0,0 +1,234 @@
+// MCP SSDLC Toolkit v2.0 - MCP Server (tools, resources and prompts), shared by all transports
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    CallToolRequestSchema,
+    ListToolsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+    ErrorCode,
+    McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { PipelineCancelledError, type PipelineOutput, type PipelineRunOptions } from './orchestrator/index.js';
+import { packageToolResult } from './exporters/artifacts.js';
+import { listToolDefinitions, isToolName, validateToolInput, HOST_TOOLS } from './schemas/index.js';
+import {
+    listDomainResources,
+    readDomainResource,
+    watchDomainResources,
+    domainResourceTemplate
+} from './resources/index.js';
+import { listPromptDefinitions, getPrompt, type PromptContext } from './prompts/index.js';
+import { runTool } from './tool-handlers.js';
+import { DomainValidationError } from './domains/index.js';
+
+export const VERSION = '2.0.0';
+
+export interface ServerOptions {
+    hostTools?: boolean;    // serve HOST_TOOLS (filesystem and diagnostics); default: true
+}
+
+/**
+ * Create an MCP server with all handlers registered. Each transport connection
+ * (stdio, or one HTTP session) gets its own server, subscriptions and prompt context.
+ */
+export function createServer(options: ServerOptions = {}): Server {
+    const hostTools = options.hostTools ?? true;
+
+    const server = new Server(
+        {
+            name: 'mcp-ssdlc-toolkit',
+            version: VERSION,
+        },
+        {
+            capabilities: {
+                tools: {},
+                resources: { subscribe: true, listChanged: true },
+                prompts: {},
+            },
+        }
+    );
+
+    // List available tools (inputSchema generated from the zod schemas in ./schemas)
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        return {
+            tools: listToolDefinitions().filter(tool => hostTools || !HOST_TOOLS.has(tool.name)),
+        };
+    });
+
+    // Domain knowledge as resources: ssdlc://domains/<name>/{profile,threats,compliance}
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+        return {
+            resources: listDomainResources(),
+        };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return {
+            resourceTemplates: [domainResourceTemplate],
+        };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        try {
+            return {
+                contents: [await readDomainResource(request.params.uri)],
+            };
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    // Subscriptions - notify when the YAML behind a subscribed resource changes
+    const subscriptions = new Set<string>();
+    let stopWatching: (() => void) | undefined;
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(request.params.uri);
+        stopWatching ??= watchDomainResources({
+            onUpdated: (uri) => {
+                if (subscriptions.has(uri)) {
+                    server.sendResourceUpdated({ uri }).catch(console.error);
+                }
+            },
+            onListChanged: () => {
+                server.sendResourceListChanged().catch(console.error);
+            },
+            subscriptions: () => subscriptions
+        });
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        if (subscriptions.size === 0 && stopWatching) {
+            stopWatching();
+            stopWatching = undefined;
+        }
+        return {};
+    });
+
+    // Role prompts - grounded in domain data and the latest pipeline run of this session
+    const promptContext: PromptContext = {};
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        return {
+            prompts: listPromptDefinitions(),
+        };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        try {
+            const prompt = await getPrompt(request.params.name, request.params.arguments, promptContext);
+            // Spread into a literal: the SDK result type has an index signature the interface lacks
+            return { ...prompt };
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const { name, arguments: rawArgs } = request.params;
+
+        if (!isToolName(name)) {
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ error: `Unknown tool: ${name}` }) }],
+                isError: true,
+            };
+        }
+        if (!hostTools && HOST_TOOLS.has(name)) {
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ error: `Tool ${name} is disabled on this server (start it with --enable-host-tools)` }) }],
+                isError: true,
+            };
+        }
+
+        const validation = validateToolInput(name, rawArgs);
+        if (!validation.success) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify({ error: `Invalid arguments for ${name}`, issues: validation.issues }, null, 2)
+                }],
+                isError: true,
+            };
+        }
+        const args = validation.data;
+
+        // Pipeline phases become notifications/progress when the client sent a progress token
+        const progressToken = request.params._meta?.progressToken;
+        const runOptions: PipelineRunOptions = {
+            signal: extra.signal,
+            onProgress: progressToken === undefined ? undefined : ({ progress, total, message }) =>
+                extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message },
+                }),
+        };
+
+        try {
+            const result = await runTool(name, args, runOptions);
+            if (name === 'orchestrate_ssdlc_pipeline' || name === 'orchestrate_enhanced_pipeline') {
+                promptContext.latestPipeline = result as PipelineOutput;
+            }
+
+            // Large documents (pseudocode, diagrams, SRS, ADRs) travel as embedded resources;
+            // the text block mirrors structuredContent for clients without structured output support
+            const { structured, artifacts } = packageToolResult(name, result);
+            return {
+                content: [
+                    { type: 'text', text: JSON.stringify(structured, null, 2) },
+                    ...artifacts.map(artifact => ({
+                        type: 'resource' as const,
+                        resource: { uri: artifact.uri, mimeType: artifact.mimeType, text: artifact.text },
+                    })),
+                ],
+                structuredContent: structured,
+            };
+        } catch (error) {
+            if (error instanceof PipelineCancelledError) {
+                // The SDK does not send responses to cancelled requests: the finished phases
+                // reach the client through the project store (get_project with project_id)
+                const { partial } = error;
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            error: error.message,
+                            project_id: error.projectId,
+                            completedPhases: partial.completedPhases,
+                            phases: partial.phases,
+                        }, null, 2)
+                    }],
+                    isError: true,
+                };
+            }
+            if (error instanceof DomainValidationError) {
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({ error: `Domain "${error.domain}" failed schema validation`, issues: error.issues }, null, 2)
+                    }],
+                    isError: true,
+                };
+            }
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ error: String(error) }) }],
+                isError: true,
+            };
+        }
+    });
+
+    server.onclose = () => {
+        stopWatching?.();
+        stopWatching = undefined;
+    };
+
+    return server;
+}
@@ -0,0 +1,2 @@
+// Store module barrel export
+export * from './project-store.js';
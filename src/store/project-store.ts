@@ -0,0 +1,260 @@
+// Project Store - persists pipeline phase outputs under .ssdlc/ so phases can be re-run incrementally
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { join } from 'path';
+import type { LoadedDomain } from '../domains/loader.js';
+import type { PipelineInput } from '../orchestrator/index.js';
+import type { BAOutput, SecurityOutput, QAOutput } from '../types/tools.js';
+import type { TechLeadOutput } from '../types/tech-lead.js';
+import type { DevOpsOutput } from '../tools/devops/index.js';
+import type { PMOutput } from '../tools/bm/index.js';
+import type { ADROutput } from '../tools/architecture/adr-generator.js';
+
+export interface ProjectPhases {
+    ba: BAOutput;
+    techLead: TechLeadOutput;
+    security: SecurityOutput;
+    qa: QAOutput;
+    devops: DevOpsOutput;
+    pm: PMOutput;
+    architecture: ADROutput;
+}
+
+export type ProjectPhase = keyof ProjectPhases;
+
+export interface PhaseRecord<T = unknown> {
+    output: T;
+    updatedAt: string;
+    stale: boolean;
+    staleReason?: string;   // e.g. "ba regenerated at 2025-01-01T10:00:00.000Z"
+}
+
+export interface ProjectRecord {
+    id: string;             // orchestrationId of the pipeline run that created the project
+    projectName: string;
+    domain: string;
+    input: PipelineInput;
+    createdAt: string;
+    updatedAt: string;
+    phases: { [P in ProjectPhase]?: PhaseRecord<ProjectPhases[P]> };
+}
+
+/**
+ * A pipeline run, or the finished phases of a cancelled run past business analysis
+ */
+export interface StorablePipelineRun {
+    orchestrationId: string;
+    projectName: string;
+    domain: LoadedDomain;
+    phases: Partial<ProjectPhases>;
+}
+
+export interface ProjectStatus {
+    id: string;
+    projectName: string;
+    domain: string;
+    createdAt: string;
+    updatedAt: string;
+    phases: Array<{ phase: ProjectPhase; updatedAt: string; stale: boolean; staleReason?: string }>;
+    stalePhases: ProjectPhase[];
+}
+
+/**
+ * Upstream phases each phase reads its input from
+ */
+export const PHASE_DEPENDENCIES: Record<ProjectPhase, ProjectPhase[]> = {
+    ba: [],
+    techLead: ['ba'],
+    security: ['techLead'],
+    qa: ['techLead', 'security'],
+    devops: [],
+    pm: ['techLead', 'security'],
+    architecture: ['techLead', 'pm']
+};
+
+const PHASE_ORDER: ProjectPhase[] = ['ba', 'techLead', 'security', 'qa', 'devops', 'pm', 'architecture'];
+
+// Project IDs become file names
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Store directory: $SSDLC_DIR, or .ssdlc/ in the working directory
+ */
+export function getStoreDir(): string {
+    return process.env.SSDLC_DIR || join(process.cwd(), '.ssdlc');
+}
+
+/**
+ * All phases that directly or transitively depend on a phase, in pipeline order
+ */
+export function downstreamPhases(phase: ProjectPhase): ProjectPhase[] {
+    const downstream = new Set<ProjectPhase>();
+    let changed = true;
+
+    while (changed) {
+        changed = false;
+        for (const candidate of PHASE_ORDER) {
+            if (downstream.has(candidate)) continue;
+            if (PHASE_DEPENDENCIES[candidate].some(dep => dep === phase || downstream.has(dep))) {
+                downstream.add(candidate);
+                changed = true;
+            }
+        }
+    }
+
+    return PHASE_ORDER.filter(p => downstream.has(p));
+}
+
+/**
+ * Create a project from a pipeline run, keyed by its orchestrationId. A cancelled
+ * run stores the phases it finished.
+ */
+export function saveProject(
+    output: StorablePipelineRun,
+    input: PipelineInput,
+    storeDir: string = getStoreDir()
+): ProjectRecord {
+    const now = new Date().toISOString();
+    const record: ProjectRecord = {
+        id: output.orchestrationId,
+        projectName: output.projectName,
+        domain: output.domain.name,
+        input,
+        createdAt: now,
+        updatedAt: now,
+        phases: {}
+    };
+
+    for (const [phase, phaseOutput] of Object.entries(output.phases)) {
+        (record.phases as Record<string, PhaseRecord>)[phase] = { output: phaseOutput, updatedAt: now, stale: false };
+    }
+
+    writeProject(record, storeDir);
+    return record;
+}
+
+/**
+ * Load a project by ID
+ */
+export function loadProject(projectId: string, storeDir: string = getStoreDir()): ProjectRecord {
+    const file = projectFile(projectId, storeDir);
+    if (!existsSync(file)) {
+        throw new Error(`Project not found: ${projectId}`);
+    }
+    return JSON.parse(readFileSync(file, 'utf-8')) as ProjectRecord;
+}
+
+/**
+ * List stored projects, most recently updated first
+ */
+export function listProjects(storeDir: string = getStoreDir()): ProjectStatus[] {
+    const projectsDir = join(storeDir, 'projects');
+    if (!existsSync(projectsDir)) return [];
+
+    return readdirSync(projectsDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => getProjectStatus(loadProject(file.slice(0, -'.json'.length), storeDir)))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get a phase output, throws when the project has not run that phase yet
+ */
+export function getProjectPhase<P extends ProjectPhase>(record: ProjectRecord, phase: P): ProjectPhases[P] {
+    const phaseRecord = record.phases[phase] as PhaseRecord<ProjectPhases[P]> | undefined;
+    if (!phaseRecord) {
+        throw new Error(`Project ${record.id} has no ${phase} output`);
+    }
+    return phaseRecord.output;
+}
+
+/**
+ * Record a regenerated phase. Downstream phases are marked stale.
+ */
+export function saveProjectPhase<P extends ProjectPhase>(
+    projectId: string,
+    phase: P,
+    output: ProjectPhases[P],
+    storeDir: string = getStoreDir()
+): ProjectRecord {
+    const record = loadProject(projectId, storeDir);
+    const now = new Date().toISOString();
+
+    (record.phases as Record<string, PhaseRecord>)[phase] = { output, updatedAt: now, stale: false };
+    for (const downstream of downstreamPhases(phase)) {
+        const downstreamRecord = record.phases[downstream];
+        if (downstreamRecord) {
+            downstreamRecord.stale = true;
+            downstreamRecord.staleReason = `${phase} regenerated at ${now}`;
+        }
+    }
+    record.updatedAt = now;
+
+    writeProject(record, storeDir);
+    return record;
+}
+
+/**
+ * Record a phase output edited in place, e.g. control status on the threat model. Downstream phases
+ * were not derived from the edit and stay current.
+ */
+export function updateProjectPhase<P extends ProjectPhase>(
+    projectId: string,
+    phase: P,
+    output: ProjectPhases[P],
+    storeDir: string = getStoreDir()
+): ProjectRecord {
+    const record = loadProject(projectId, storeDir);
+    const phaseRecord = record.phases[phase] as PhaseRecord<ProjectPhases[P]> | undefined;
+    if (!phaseRecord) {
+        throw new Error(`Project ${record.id} has no ${phase} output`);
+    }
+    const now = new Date().toISOString();
+
+    phaseRecord.output = output;
+    phaseRecord.updatedAt = now;
+    record.updatedAt = now;
+
+    writeProject(record, storeDir);
+    return record;
+}
+
+/**
+ * Project summary without phase outputs
+ */
+export function getProjectStatus(record: ProjectRecord): ProjectStatus {
+    const phases = PHASE_ORDER
+        .filter(phase => record.phases[phase])
+        .map(phase => {
+            const { updatedAt, stale, staleReason } = record.phases[phase] as PhaseRecord;
+            return { phase, updatedAt, stale, ...(staleReason ? { staleReason } : {}) };
+        });
+
+    return {
+        id: record.id,
+        projectName: record.projectName,
+        domain: record.domain,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        phases,
+        stalePhases: phases.filter(p => p.stale).map(p => p.phase)
+    };
+}
+
+// ==================== HELPERS ====================
+
+function projectFile(projectId: string, storeDir: string): string {
+    if (!PROJECT_ID_PATTERN.test(projectId)) {
+        throw new Error(`Invalid project ID: ${projectId}`);
+    }
+    return join(storeDir, 'projects', `${projectId}.json`);
+}
+
+function writeProject(record: ProjectRecord, storeDir: string): void {
+    const file = projectFile(record.id, storeDir);
+    mkdirSync(join(storeDir, 'projects'), { recursive: true });
+
+    // Write then rename so a crash never leaves a truncated project file
+    const tmpFile = `${file}.tmp`;
+    writeFileSync(tmpFile, JSON.stringify(record, null, 2));
+    renameSync(tmpFile, file);
+}
@@ -322,9 +322,9 @@ async function testDomain(domainName: string) {
     try {
         const domain = await loadDomain(domainName);
         const hasExtendedFields = 
-            domain.domain.domain_specific_requirements !== undefined ||
-            domain.domain.technical_constraints !== undefined ||
-            domain.domain.recommended_tech_stack !== undefined;
+            domain.domain.domainSpecificRequirements !== undefined ||
+            domain.domain.technicalConstraints !== undefined ||
+            domain.domain.recommendedTechStack !== undefined;
         
         console.log(`✅ ${domainName} domain loads with extended schema: ${hasExtendedFields}`);
         return hasExtendedFields;
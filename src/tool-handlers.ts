@@ -0,0 +1,495 @@
+// Tool Handlers - run a validated MCP tool call; shared by the MCP server and the CLI
+import {
+    loadDomain,
+    loadDomainAuto,
+    findDomains,
+    validateDomain,
+    rankDomains,
+    selectDomains,
+    warmDomainRegistry,
+    scaffoldDomain,
+    getDomainRegistryStats,
+    loadCrosswalkCatalog,
+    queryCrosswalk,
+    buildDomainCoverageReport,
+    DOMAIN_SEPARATOR
+} from './domains/index.js';
+import { techLeadDesign, type UserStory } from './tools/tech-lead/index.js';
+import { analyzeRequirements } from './tools/ba/index.js';
+import { generateThreatModel, generateAttackTrees, updateControl, CONTROL_STATUSES } from './tools/security/index.js';
+import { importThreatModel, toThreatDragon } from './exporters/threat-model/index.js';
+import { designTestStrategy } from './tools/qa/index.js';
+import { designCICD } from './tools/devops/index.js';
+import {
+    orchestratePipeline,
+    PipelineCancelledError,
+    type PipelineInput,
+    type PipelineRunOptions
+} from './orchestrator/index.js';
+import { orchestrateEnhancedPipeline, type EnhancedPipelineInput } from './orchestrator/enhanced-pipeline.js';
+import type { ToolName, ToolInput } from './schemas/index.js';
+import type { Module } from './types/tech-lead.js';
+import {
+    saveProject,
+    loadProject,
+    listProjects,
+    saveProjectPhase,
+    updateProjectPhase,
+    getProjectPhase,
+    getProjectStatus,
+    type ProjectPhase,
+    type ProjectPhases,
+    type StorablePipelineRun
+} from './store/index.js';
+import {
+    generateWorkspaceSnapshot,
+    runPlaybook,
+    runDiagnostics,
+    parseErrorLog,
+    getLastKnownGood
+} from './tools/diagnostics/index.js';
+import {
+    analyzeCodeSecurity,
+    generateCodingGuidelines,
+    getSecureTemplate
+} from './tools/coding/index.js';
+
+export interface RunToolOptions extends PipelineRunOptions {
+    localPaths?: boolean;   // validate domain directories anywhere on the host, for the CLI
+}
+
+/**
+ * Run a tool with arguments already validated by validateToolInput. Pipeline tools
+ * report per-phase progress and honour options.signal between phases.
+ */
+export async function runTool(
+    name: ToolName,
+    args: ToolInput<ToolName>,
+    options: RunToolOptions = {}
+): Promise<unknown> {
+    let result: unknown;
+
+    switch (name) {
+        case 'list_domains': {
+            const locations = findDomains();
+            result = { domains: locations.map(location => location.name), locations };
+            break;
+        }
+
+        case 'load_domain': {
+            const { domain_name: domainName } = args as ToolInput<'load_domain'>;
+            result = await loadDomain(Array.isArray(domainName) ? domainName.join(DOMAIN_SEPARATOR) : domainName);
+            break;
+        }
+
+        case 'detect_domain': {
+            const typedArgs = args as ToolInput<'detect_domain'>;
+            const detection = rankDomains(typedArgs.project_description);
+            const selected = selectDomains(detection, {
+                maxDomains: typedArgs.max_domains,
+                minConfidence: typedArgs.min_confidence
+            });
+            result = {
+                ...await loadDomain(selected.join(DOMAIN_SEPARATOR)),
+                detection: { ambiguous: detection.ambiguous, matches: detection.matches }
+            };
+            break;
+        }
+
+        case 'validate_domain':
+            result = validateDomain((args as ToolInput<'validate_domain'>).domain, options.localPaths);
+            break;
+
+        case 'scaffold_domain': {
+            const typedArgs = args as ToolInput<'scaffold_domain'>;
+            result = scaffoldDomain({
+                name: typedArgs.name,
+                displayName: typedArgs.display_name,
+                description: typedArgs.description,
+                keywords: typedArgs.keywords,
+                extends: typedArgs.extends,
+                regulations: typedArgs.regulations.map(regulation => typeof regulation === 'string'
+                    ? regulation
+                    : { name: regulation.name, fullName: regulation.full_name, requirements: regulation.requirements }),
+                threats: typedArgs.threats,
+                dryRun: typedArgs.dry_run,
+                overwrite: typedArgs.overwrite
+            });
+            break;
+        }
+
+        case 'domain_coverage_report': {
+            const typedArgs = args as ToolInput<'domain_coverage_report'>;
+            result = await buildDomainCoverageReport({
+                domains: typedArgs.domains,
+                compare: typedArgs.compare as [string, string] | undefined,
+                minStrideCategories: typedArgs.min_stride_categories
+            });
+            break;
+        }
+
+        case 'compliance_crosswalk': {
+            const typedArgs = args as ToolInput<'compliance_crosswalk'>;
+            const domains = typedArgs.domain
+                ? [await loadDomain(typedArgs.domain)]
+                : await Promise.all(findDomains().map(location => loadDomain(location.name)));
+            result = queryCrosswalk(loadCrosswalkCatalog(domains), {
+                framework: typedArgs.framework,
+                control: typedArgs.control,
+                targetFramework: typedArgs.target_framework
+            });
+            break;
+        }
+
+        case 'get_domain_stats':
+            if ((args as ToolInput<'get_domain_stats'>).warm) warmDomainRegistry();
+            result = getDomainRegistryStats();
+            break;
+
+        case 'ba_analyze_requirements': {
+            const typedArgs = args as ToolInput<'ba_analyze_requirements'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            const domainName = typedArgs.domain_name || project?.domain;
+            const domain = domainName
+                ? await loadDomain(domainName)
+                : await loadDomainAuto(typedArgs.project_description);
+            result = recordProjectPhase(typedArgs.project_id, 'ba', analyzeRequirements({
+                projectDescription: typedArgs.project_description,
+                businessGoals: typedArgs.business_goals,
+                domain
+            }));
+            break;
+        }
+
+        case 'techlead_design': {
+            const typedArgs = args as ToolInput<'techlead_design'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            const ba = project && typedArgs.user_stories.length === 0 ? getProjectPhase(project, 'ba') : undefined;
+            const userStories: UserStory[] = ba
+                ? ba.userStories
+                : typedArgs.user_stories.map(s => ({
+                    id: s.id || 'US-001',
+                    title: s.title || '',
+                    asA: s.as_a || '',
+                    iWant: s.i_want || '',
+                    soThat: s.so_that || '',
+                    priority: s.priority,
+                }));
+            result = recordProjectPhase(typedArgs.project_id, 'techLead', await techLeadDesign({
+                userStories,
+                securityRequirements: typedArgs.security_requirements ?? ba?.securityRequirements.map(r => r.requirement),
+                targetLanguage: typedArgs.target_language
+                    ?? (project?.input.targetLanguage as ToolInput<'techlead_design'>['target_language'])
+                    ?? 'python',
+                projectName: typedArgs.project_name ?? project?.projectName,
+                domainName: project?.domain,
+            }));
+            break;
+        }
+
+        case 'security_threat_model': {
+            const typedArgs = args as ToolInput<'security_threat_model'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            const domainName = typedArgs.domain_name || project?.domain;
+            const domain = domainName
+                ? await loadDomain(domainName)
+                : undefined;
+            const techLead = project && typedArgs.modules.length === 0 ? getProjectPhase(project, 'techLead') : undefined;
+            result = recordProjectPhase(typedArgs.project_id, 'security', generateThreatModel({
+                modules: techLead ? techLead.modules : typedArgs.modules as Module[],
+                domain,
+                projectName: typedArgs.project_name ?? project?.projectName,
+                systemModel: typedArgs.system_model ?? techLead?.dataFlowDiagrams?.model,
+                riskScoring: typedArgs.risk_scoring ?? project?.phases.security?.output.riskScoring ?? project?.input.riskScoring,
+                riskVectors: typedArgs.risk_vectors,
+                controls: project?.phases.security?.output.controls,
+                previousThreats: project?.phases.security?.output.threats
+            }));
+            break;
+        }
+
+        case 'import_threat_model': {
+            const typedArgs = args as ToolInput<'import_threat_model'>;
+            result = importThreatModel(typedArgs.content, typedArgs.format);
+            break;
+        }
+
+        case 'export_threat_model': {
+            const typedArgs = args as ToolInput<'export_threat_model'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            const security = project ? getProjectPhase(project, 'security') : undefined;
+            const title = typedArgs.title ?? project?.projectName ?? 'Threat Model';
+            const exported = toThreatDragon({
+                threats: typedArgs.threats.length > 0 ? typedArgs.threats : security?.threats ?? [],
+                riskMatrix: [],
+                recommendations: [],
+                systemModel: typedArgs.system_model ?? security?.systemModel
+            }, { title, owner: typedArgs.owner });
+            result = { format: 'threat-dragon', title, model: exported.model, warnings: exported.warnings };
+            break;
+        }
+
+        case 'security_attack_trees': {
+            const typedArgs = args as ToolInput<'security_attack_trees'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            const security = project ? getProjectPhase(project, 'security') : undefined;
+            result = {
+                trees: generateAttackTrees({
+                    threats: typedArgs.threats.length > 0 ? typedArgs.threats : security?.threats ?? [],
+                    systemModel: typedArgs.system_model ?? security?.systemModel,
+                    minRisk: typedArgs.min_risk
+                })
+            };
+            break;
+        }
+
+        case 'update_mitigation_status': {
+            const typedArgs = args as ToolInput<'update_mitigation_status'>;
+            const project = loadProject(typedArgs.project_id);
+            const { security, control } = updateControl(getProjectPhase(project, 'security'), typedArgs.control_id, {
+                ...(typedArgs.status ? { status: typedArgs.status } : {}),
+                ...(typedArgs.owner !== undefined ? { owner: typedArgs.owner } : {}),
+                ...(typedArgs.test_case_id ? { testCaseId: typedArgs.test_case_id } : {}),
+                ...(typedArgs.compliance_requirement ? { complianceRequirement: typedArgs.compliance_requirement } : {})
+            }, project.phases.qa?.output.testCases);
+            const record = updateProjectPhase(project.id, 'security', security);
+            result = {
+                control,
+                threats: security.threats
+                    .filter(threat => control.threatIds.includes(threat.id))
+                    .map(({ id, name, riskScore, residualRiskScore, residualRisk }) => ({ id, name, riskScore, residualRiskScore, residualRisk })),
+                progress: Object.fromEntries(CONTROL_STATUSES.map(status =>
+                    [status, security.controls?.filter(candidate => candidate.status === status).length ?? 0])),
+                project: { id: record.id, stalePhases: getProjectStatus(record).stalePhases }
+            };
+            break;
+        }
+
+        case 'qa_design_test_strategy': {
+            const typedArgs = args as ToolInput<'qa_design_test_strategy'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            let complianceRequirements = typedArgs.compliance_requirements;
+            if (project && !complianceRequirements) {
+                const domain = await loadDomain(project.domain);
+                complianceRequirements = [
+                    ...(project.input.complianceRequirements || []),
+                    ...(domain.compliance?.regulations.map(r => r.name) || [])
+                ];
+            }
+            result = recordProjectPhase(typedArgs.project_id, 'qa', designTestStrategy({
+                features: project && typedArgs.features.length === 0
+                    ? getProjectPhase(project, 'techLead').features
+                    : typedArgs.features,
+                threats: project && typedArgs.threats.length === 0
+                    ? getProjectPhase(project, 'security').threats
+                    : typedArgs.threats,
+                complianceRequirements
+            }));
+            break;
+        }
+
+        case 'devops_design_cicd': {
+            const typedArgs = args as ToolInput<'devops_design_cicd'>;
+            const project = typedArgs.project_id ? loadProject(typedArgs.project_id) : undefined;
+            result = recordProjectPhase(typedArgs.project_id, 'devops', designCICD({
+                projectName: typedArgs.project_name ?? project?.projectName ?? 'Project',
+                techStack: typedArgs.tech_stack.length > 0 ? typedArgs.tech_stack : project?.input.techStack ?? [],
+                deploymentTarget: typedArgs.deployment_target ?? project?.input.deploymentTarget ?? 'kubernetes',
+                repositoryPlatform: typedArgs.repository_platform ?? project?.input.repositoryPlatform ?? 'github'
+            }));
+            break;
+        }
+
+        case 'orchestrate_ssdlc_pipeline': {
+            const typedArgs = args as ToolInput<'orchestrate_ssdlc_pipeline'>;
+            const pipelineInput: PipelineInput = {
+                projectDescription: typedArgs.project_description,
+                businessGoals: typedArgs.business_goals,
+                techStack: typedArgs.tech_stack,
+                targetLanguage: typedArgs.target_language,
+                deploymentTarget: typedArgs.deployment_target,
+                complianceRequirements: typedArgs.compliance_requirements,
+                maxDomains: typedArgs.max_domains,
+                minDomainConfidence: typedArgs.min_domain_confidence,
+                riskScoring: typedArgs.risk_scoring
+            };
+            result = await runPipeline(orchestratePipeline(pipelineInput, options), pipelineInput);
+            break;
+        }
+
+        case 'orchestrate_enhanced_pipeline': {
+            const typedArgs = args as ToolInput<'orchestrate_enhanced_pipeline'>;
+            const pipelineInput: EnhancedPipelineInput = {
+                projectDescription: typedArgs.project_description,
+                businessGoals: typedArgs.business_goals,
+                techStack: typedArgs.tech_stack,
+                targetLanguage: typedArgs.target_language,
+                deploymentTarget: typedArgs.deployment_target,
+                repositoryPlatform: typedArgs.repository_platform,
+                complianceRequirements: typedArgs.compliance_requirements,
+                maxDomains: typedArgs.max_domains,
+                minDomainConfidence: typedArgs.min_domain_confidence,
+                riskScoring: typedArgs.risk_scoring,
+                teamSize: typedArgs.team_size,
+                sprintDuration: typedArgs.sprint_duration,
+                projectStartDate: typedArgs.project_start_date,
+                constraints: typedArgs.constraints.map(c => ({
+                    type: c.type,
+                    description: c.description,
+                    hardConstraint: c.hard_constraint,
+                    impact: c.impact
+                }))
+            };
+            result = await runPipeline(orchestrateEnhancedPipeline(pipelineInput, options), pipelineInput);
+            break;
+        }
+
+        // Project Store
+        case 'list_projects':
+            result = { projects: listProjects() };
+            break;
+
+        case 'get_project':
+            result = getProjectStatus(loadProject((args as ToolInput<'get_project'>).project_id));
+            break;
+
+        // Dev Diagnostics Tools
+        case 'workspace_snapshot': {
+            const typedArgs = args as ToolInput<'workspace_snapshot'>;
+            result = generateWorkspaceSnapshot(
+                typedArgs.root_path,
+                typedArgs.max_depth
+            );
+            break;
+        }
+
+        case 'run_diagnostic_playbook': {
+            const typedArgs = args as ToolInput<'run_diagnostic_playbook'>;
+            result = runPlaybook(
+                typedArgs.playbook,
+                typedArgs.workspace_root
+            );
+            break;
+        }
+
+        case 'run_environment_diagnostics': {
+            const typedArgs = args as ToolInput<'run_environment_diagnostics'>;
+            result = { diagnostics: runDiagnostics(typedArgs.workspace_root) };
+            break;
+        }
+
+        case 'parse_error_log': {
+            const typedArgs = args as ToolInput<'parse_error_log'>;
+            result = parseErrorLog(
+                typedArgs.log_content,
+                typedArgs.log_type
+            );
+            break;
+        }
+
+        case 'get_last_known_good': {
+            const typedArgs = args as ToolInput<'get_last_known_good'>;
+            result = { lastKnownGood: getLastKnownGood(typedArgs.workspace_root) };
+            break;
+        }
+
+        // Coding Assistant Tools
+        case 'analyze_code_security': {
+            const typedArgs = args as ToolInput<'analyze_code_security'>;
+            let domain;
+            if (typedArgs.domain) {
+                domain = await loadDomain(typedArgs.domain);
+            }
+            result = analyzeCodeSecurity(
+                typedArgs.code,
+                typedArgs.language,
+                domain
+            );
+            break;
+        }
+
+        case 'get_coding_guidelines': {
+            const typedArgs = args as ToolInput<'get_coding_guidelines'>;
+            const domain = await loadDomain(typedArgs.domain);
+            result = generateCodingGuidelines(domain, typedArgs.language);
+            break;
+        }
+
+        case 'get_secure_template': {
+            const typedArgs = args as ToolInput<'get_secure_template'>;
+            const feature = {
+                id: 'F-001',
+                name: typedArgs.feature_type,
+                priority: 'P0' as const,
+                description: `${typedArgs.feature_type} feature`,
+                dependencies: [],
+                subFeatures: [],
+                acceptanceCriteria: [],
+                technicalNotes: '',
+                securityConsiderations: []
+            };
+            let domain;
+            if (typedArgs.domain) {
+                domain = await loadDomain(typedArgs.domain);
+            }
+            result = {
+                feature_type: typedArgs.feature_type,
+                language: typedArgs.language,
+                template: getSecureTemplate(feature, typedArgs.language, domain)
+            };
+            break;
+        }
+
+    }
+
+    return result;
+}
+
+/**
+ * Save a phase output to the project store, reporting which downstream phases went stale
+ */
+function recordProjectPhase<P extends ProjectPhase>(
+    projectId: string | undefined,
+    phase: P,
+    output: ProjectPhases[P]
+): ProjectPhases[P] | (ProjectPhases[P] & { project: { id: string; stalePhases: ProjectPhase[] } }) {
+    if (!projectId) return output;
+    const record = saveProjectPhase(projectId, phase, output);
+    return { ...output, project: { id: record.id, stalePhases: getProjectStatus(record).stalePhases } };
+}
+
+/**
+ * Store a pipeline run, or the phases a cancelled run finished so they can be
+ * continued with project_id
+ */
+async function runPipeline<T extends StorablePipelineRun>(run: Promise<T>, input: PipelineInput): Promise<T> {
+    try {
+        const output = await run;
+        persistPipeline(output, input);
+        return output;
+    } catch (error) {
+        // Name the saved project in the error so that callers can continue it
+        if (error instanceof PipelineCancelledError) {
+            const { partial } = error;
+            if (partial.domain && partial.projectName
+                && persistPipeline({ ...partial, domain: partial.domain, projectName: partial.projectName }, input)) {
+                throw new PipelineCancelledError(partial, partial.orchestrationId);
+            }
+        }
+        throw error;
+    }
+}
+
+/**
+ * Pipeline runs create a project keyed by orchestrationId. The store is a convenience:
+ * an unwritable working directory must not fail the run.
+ */
+function persistPipeline(output: StorablePipelineRun, input: PipelineInput): boolean {
+    try {
+        saveProject(output, input);
+        return true;
+    } catch (error) {
+        console.error(`Could not save project ${output.orchestrationId}: ${String(error)}`);
+        return false;
+    }
+}
@@ -4,6 +4,7 @@
 
 import type { Module } from '../../types/tech-lead.js';
 import type { LoadedDomain } from '../../domains/loader.js';
+import { includesDomain } from '../../domains/compose.js';
 
 export interface ADRInput {
     modules: Module[];
@@ -102,7 +103,12 @@ export function generateADRs(input: ADRInput): ADROutput {
     // STEP 1: Identify key architectural decisions needed
     const decisionAreas = identifyDecisionAreas(input.modules, input.domain);
 
-    // STEP 2: Generate ADR for each decision area
+    // STEP 2: Generate ADR for each decision area; the domain's recommended stack
+    // weighs in as soft technology constraints next to the caller's constraints
+    const constraints = [
+        ...input.constraints,
+        ...recommendedStackConstraints(input.techStack, input.domain)
+    ];
     const decisions: ArchitectureDecision[] = [];
     let adrId = 1;
 
@@ -112,8 +118,9 @@ export function generateADRs(input: ADRInput): ADROutput {
             area,
             input.techStack,
             input.domain,
-            input.constraints
+            constraints
         );
+        adr.decisionDrivers.push(...constraints.map(formatConstraintDriver));
         decisions.push(adr);
         adrId++;
     }
@@ -179,38 +186,38 @@ function identifyDecisionAreas(modules: Module[], domain?: LoadedDomain): string
     areas.push('Error Handling & Resilience Patterns');
 
     // Domain-specific decisions
-    if (domain?.name === 'secure_comm') {
+    if (includesDomain(domain, 'secure_comm')) {
         areas.push('End-to-End Encryption Protocol');
         areas.push('Key Exchange Mechanism');
     }
 
-    if (domain?.name === 'malware_analysis') {
+    if (includesDomain(domain, 'malware_analysis')) {
         areas.push('Sandbox Isolation Technology');
         areas.push('Static Analysis Engine');
     }
 
-    if (domain?.name === 'blockchain') {
+    if (includesDomain(domain, 'blockchain')) {
         areas.push('Consensus Algorithm');
         areas.push('Smart Contract Language');
     }
 
-    if (domain?.name === 'ml_ai') {
+    if (includesDomain(domain, 'ml_ai')) {
         areas.push('Model Serving Architecture');
         areas.push('Feature Store Selection');
         areas.push('Adversarial Defense Strategy');
     }
 
-    if (domain?.name === 'networksec') {
+    if (includesDomain(domain, 'networksec')) {
         areas.push('IDS/IPS Deployment Mode');
         areas.push('Packet Capture Strategy');
     }
 
-    if (domain?.name === 'websec') {
+    if (includesDomain(domain, 'websec')) {
         areas.push('WAF Architecture');
         areas.push('Bot Detection Strategy');
     }
 
-    if (domain?.name === 'appsec') {
+    if (includesDomain(domain, 'appsec')) {
         areas.push('SAST Tool Selection');
         areas.push('Security Testing Pipeline');
     }
@@ -218,6 +225,55 @@ function identifyDecisionAreas(modules: Module[], domain?: LoadedDomain): string
     return areas;
 }
 
+/**
+ * Render a project constraint as an ADR decision driver
+ */
+function formatConstraintDriver(constraint: ProjectConstraint): string {
+    const kind = constraint.hardConstraint ? 'Hard constraint' : 'Soft constraint';
+    const impact = constraint.impact ? ` (${constraint.impact})` : '';
+    return `${kind} [${constraint.type}]: ${constraint.description}${impact}`;
+}
+
+/**
+ * One soft constraint per recommended_tech_stack category, noting whether the project stack follows it
+ */
+function recommendedStackConstraints(techStack: string[], domain: LoadedDomain | undefined): ProjectConstraint[] {
+    if (!domain?.domain.recommendedTechStack) return [];
+    const stack = domain.domain.recommendedTechStack;
+
+    const categories: Array<[string, string[]]> = [
+        ['languages', stack.languages],
+        ['frameworks', stack.frameworks],
+        ['libraries', stack.libraries],
+        ['deployment', stack.deployment]
+    ];
+
+    return categories
+        .filter(([, recommended]) => recommended.length > 0)
+        .map(([category, recommended]) => {
+            const used = recommended.filter(item => techStack.some(tech => sameTechnology(tech, item)));
+            return {
+                type: 'technology' as const,
+                description: `${domain.name} domain recommends ${category}: ${recommended.join(', ')}`,
+                hardConstraint: false,
+                impact: used.length > 0
+                    ? `Project stack follows it with ${used.join(', ')}`
+                    : `Project stack uses none of them; record why the chosen ${category} fit the domain`
+            };
+        });
+}
+
+/**
+ * "Spring" matches "Spring Boot" and "go" matches "Go", but "Go" does not match "Django"
+ */
+function sameTechnology(a: string, b: string): boolean {
+    const [x, y] = [a.toLowerCase().trim(), b.toLowerCase().trim()];
+    if (x === y) return true;
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escape(x)}($|[^a-z0-9])`).test(y)
+        || new RegExp(`(^|[^a-z0-9])${escape(y)}($|[^a-z0-9])`).test(x);
+}
+
 /**
  * Generate individual ADR document
  */
@@ -6,6 +6,7 @@ import type {
     BAOutput,
 } from '../../types/tools.js';
 import type { LoadedDomain } from '../../domains/loader.js';
+import { loadCrosswalkCatalog, resolveFramework, topicControls, type CrosswalkCatalog } from '../../domains/crosswalk.js';
 
 export interface BAInput {
     projectDescription: string;
@@ -103,6 +104,7 @@ function generateUserStories(goals: string[], domain?: LoadedDomain): UserStory[
 
 function generateSecurityRequirements(description: string, domain?: LoadedDomain): SecurityRequirement[] {
     const requirements: SecurityRequirement[] = [];
+    const crosswalks = domain ? loadCrosswalkCatalog([domain]) : undefined;
     let id = 1;
 
     const standardReqs: Array<{ category: string; req: string; priority: 'critical' | 'high' | 'medium' | 'low' }> = [
@@ -121,7 +123,7 @@ function generateSecurityRequirements(description: string, domain?: LoadedDomain
             category: req.category,
             requirement: req.req,
             priority: req.priority,
-            complianceMapping: getComplianceMapping(req.category, domain)
+            complianceMapping: getComplianceMapping(req.category, domain, crosswalks)
         });
         id++;
     }
@@ -141,9 +143,41 @@ function generateSecurityRequirements(description: string, domain?: LoadedDomain
         }
     }
 
+    for (const req of domain?.domain.domainSpecificRequirements || []) {
+        requirements.push({
+            id: `SR-${String(id).padStart(3, '0')}`,
+            category: 'Domain',
+            requirement: req,
+            priority: requirementLevelPriority(req),
+            complianceMapping: mentionedRegulations(req, domain)
+        });
+        id++;
+    }
+
     return requirements;
 }
 
+/**
+ * Priority from the RFC 2119 keyword of a domain requirement
+ */
+function requirementLevelPriority(requirement: string): SecurityRequirement['priority'] {
+    if (/\b(MUST|SHALL|REQUIRED)\b/.test(requirement)) return 'critical';
+    if (/\b(SHOULD|RECOMMENDED)\b/.test(requirement)) return 'high';
+    if (/\b(MAY|OPTIONAL)\b/.test(requirement)) return 'medium';
+    return 'high';
+}
+
+/**
+ * Domain regulations named in a requirement, e.g. "PCI DSS 4.0" maps to PCI-DSS
+ */
+function mentionedRegulations(requirement: string, domain?: LoadedDomain): string[] {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const text = normalize(requirement);
+    return (domain?.compliance?.regulations || [])
+        .filter(reg => text.includes(normalize(reg.name)))
+        .map(reg => reg.name);
+}
+
 function generateAbuseCases(stories: UserStory[], domain?: LoadedDomain): AbuseCase[] {
     const abuseCases: AbuseCase[] = [];
     let id = 1;
@@ -206,7 +240,7 @@ function generateAbuseCases(stories: UserStory[], domain?: LoadedDomain): AbuseC
                 soThat: threat.description,
                 likelihood: threat.likelihood as AbuseCase['likelihood'],
                 impact: threat.impact as AbuseCase['impact'],
-                mitigation: threat.mitigation
+                mitigation: threat.mitigations.map(mitigation => mitigation.name).join(', ')
             });
             id++;
         }
@@ -261,11 +295,21 @@ function getSecurityConsiderations(goal: string): string[] {
     return considerations;
 }
 
-function getComplianceMapping(category: string, domain?: LoadedDomain): string[] {
+/**
+ * Controls of each domain regulation that crosswalks file under the category
+ * (Logging -> HIPAA 164.312(b)), or the regulation name when none do
+ */
+function getComplianceMapping(category: string, domain?: LoadedDomain, crosswalks?: CrosswalkCatalog): string[] {
     const mappings: string[] = [];
     if (domain?.compliance?.regulations) {
         for (const reg of domain.compliance.regulations) {
-            mappings.push(reg.name);
+            const framework = crosswalks ? resolveFramework(crosswalks, reg.name, reg.fullName) : undefined;
+            const controls = crosswalks && framework ? topicControls(crosswalks, category, framework.name) : [];
+            if (controls.length === 0) {
+                mappings.push(reg.name);
+            } else {
+                mappings.push(...controls.map(control => `${reg.name} ${control.control}`));
+            }
         }
     }
     if (category === 'Authentication' || category === 'Authorization') mappings.push('OWASP-A07');
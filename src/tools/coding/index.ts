@@ -2,6 +2,7 @@
 // Provides context-aware coding assistance following SSDLC principles
 
 import type { LoadedDomain } from '../../domains/loader.js';
+import { includesDomain } from '../../domains/compose.js';
 import type { Module, Feature, ClassDefinition } from '../../types/tech-lead.js';
 import type { Threat } from '../../types/tools.js';
 
@@ -81,13 +82,13 @@ export function generateCodingGuidelines(
     };
 
     // Add domain-specific patterns
-    guidelines.patterns = getDomainPatterns(domain.name, language);
+    guidelines.patterns = getDomainPatterns(domain, language);
 
     // Add security rules based on domain
     guidelines.securityRules = getSecurityRules(domain, language);
 
     // Add best practices
-    guidelines.bestPractices = getBestPractices(domain.name, language);
+    guidelines.bestPractices = getBestPractices(domain, language);
 
     return guidelines;
 }
@@ -364,31 +365,29 @@ export class DatabaseService {
 
 // ==================== HELPERS ====================
 
-function getDomainPatterns(domain: string, language: string): DesignPattern[] {
+function getDomainPatterns(domain: LoadedDomain, language: string): DesignPattern[] {
     const patterns: DesignPattern[] = [];
 
-    switch (domain) {
-        case 'secure_comm':
-            patterns.push({
-                name: 'Double Ratchet',
-                when: 'Implementing end-to-end encrypted messaging',
-                example: 'Use Signal Protocol for session key rotation'
-            });
-            break;
-        case 'fintech':
-            patterns.push({
-                name: 'Event Sourcing',
-                when: 'Handling financial transactions',
-                example: 'Store all state changes as immutable events'
-            });
-            break;
-        case 'healthcare':
-            patterns.push({
-                name: 'RBAC with Consent',
-                when: 'Accessing patient data',
-                example: 'Verify consent before data access'
-            });
-            break;
+    if (includesDomain(domain, 'secure_comm')) {
+        patterns.push({
+            name: 'Double Ratchet',
+            when: 'Implementing end-to-end encrypted messaging',
+            example: 'Use Signal Protocol for session key rotation'
+        });
+    }
+    if (includesDomain(domain, 'fintech')) {
+        patterns.push({
+            name: 'Event Sourcing',
+            when: 'Handling financial transactions',
+            example: 'Store all state changes as immutable events'
+        });
+    }
+    if (includesDomain(domain, 'healthcare')) {
+        patterns.push({
+            name: 'RBAC with Consent',
+            when: 'Accessing patient data',
+            example: 'Verify consent before data access'
+        });
     }
 
     return patterns;
@@ -428,7 +427,7 @@ function getSecurityRules(domain: LoadedDomain, language: string): SecurityRule[
     return rules;
 }
 
-function getBestPractices(domain: string, language: string): string[] {
+function getBestPractices(domain: LoadedDomain, language: string): string[] {
     const common = [
         'Use parameterized queries for all database operations',
         'Implement rate limiting on all API endpoints',
@@ -455,7 +454,10 @@ function getBestPractices(domain: string, language: string): string[] {
         ]
     };
 
-    return [...common, ...(domainSpecific[domain] || [])];
+    const specific = Object.entries(domainSpecific)
+        .filter(([name]) => includesDomain(domain, name))
+        .flatMap(([, practices]) => practices);
+    return [...common, ...specific];
 }
 
 function checkDomainSpecific(
@@ -466,7 +468,7 @@ function checkDomainSpecific(
 ): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
 
-    if (domain.name === 'healthcare') {
+    if (includesDomain(domain, 'healthcare')) {
         // Check for PHI exposure
         if (/console\.log.*patient|console\.log.*medical/i.test(line)) {
             issues.push({
@@ -481,7 +483,7 @@ function checkDomainSpecific(
         }
     }
 
-    if (domain.name === 'fintech') {
+    if (includesDomain(domain, 'fintech')) {
         // Check for PAN exposure
         if (/console\.log.*card|console\.log.*account/i.test(line)) {
             issues.push({
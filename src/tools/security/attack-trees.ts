@@ -0,0 +1,402 @@
+// Attack Trees - AND/OR goal trees for high-risk threats, with the cheapest attack path
+import type { Threat, AttackTree, AttackTreeNode, AttackPath, AttackLevel, RiskLevel } from '../../types/tools.js';
+import type { SystemModel, SystemElement, DataFlow } from '../../types/tech-lead.js';
+import { affectedElements } from './stride.js';
+import { scoreThreat, scoreVector } from './scoring.js';
+
+export interface AttackTreeInput {
+    threats: Threat[];
+    systemModel?: SystemModel;
+    minRisk?: 'high' | 'critical';      // default: high
+}
+
+interface Pattern {
+    name: string;
+    cost: AttackLevel;
+    skill: AttackLevel;
+    detectability: AttackLevel;
+}
+
+type Category = Threat['category'];
+type Annotations = Pick<Pattern, 'cost' | 'skill' | 'detectability'>;
+
+/**
+ * CAPEC attack patterns used by the domains and the STRIDE defaults, annotated from the
+ * pattern's typical cost, required skill and how noisy it is
+ */
+const CAPEC_PATTERNS: Record<string, Pattern> = {
+    'CAPEC-16': { name: 'Dictionary-based password attack', cost: 'low', skill: 'low', detectability: 'high' },
+    'CAPEC-26': { name: 'Leveraging race conditions', cost: 'medium', skill: 'high', detectability: 'low' },
+    'CAPEC-29': { name: 'TOCTOU race condition', cost: 'medium', skill: 'high', detectability: 'low' },
+    'CAPEC-37': { name: 'Retrieve embedded sensitive data', cost: 'low', skill: 'medium', detectability: 'low' },
+    'CAPEC-39': { name: 'Manipulate opaque client-side tokens', cost: 'low', skill: 'medium', detectability: 'low' },
+    'CAPEC-49': { name: 'Password brute forcing', cost: 'low', skill: 'low', detectability: 'high' },
+    'CAPEC-63': { name: 'Cross-site scripting', cost: 'low', skill: 'low', detectability: 'medium' },
+    'CAPEC-66': { name: 'SQL injection', cost: 'low', skill: 'medium', detectability: 'medium' },
+    'CAPEC-88': { name: 'OS command injection', cost: 'low', skill: 'medium', detectability: 'medium' },
+    'CAPEC-93': { name: 'Log injection, tampering or forging', cost: 'low', skill: 'low', detectability: 'low' },
+    'CAPEC-94': { name: 'Adversary in the middle', cost: 'medium', skill: 'medium', detectability: 'low' },
+    'CAPEC-116': { name: 'Excavation of exposed data', cost: 'low', skill: 'low', detectability: 'medium' },
+    'CAPEC-122': { name: 'Privilege abuse', cost: 'low', skill: 'low', detectability: 'low' },
+    'CAPEC-125': { name: 'Flooding', cost: 'low', skill: 'low', detectability: 'high' },
+    'CAPEC-130': { name: 'Excessive allocation', cost: 'low', skill: 'low', detectability: 'high' },
+    'CAPEC-151': { name: 'Identity spoofing', cost: 'medium', skill: 'medium', detectability: 'medium' },
+    'CAPEC-157': { name: 'Sniffing network traffic', cost: 'medium', skill: 'medium', detectability: 'low' },
+    'CAPEC-162': { name: 'Manipulate hidden fields', cost: 'low', skill: 'low', detectability: 'low' },
+    'CAPEC-191': { name: 'Read sensitive constants in an executable', cost: 'medium', skill: 'medium', detectability: 'low' },
+    'CAPEC-194': { name: 'Fake the source of data', cost: 'medium', skill: 'medium', detectability: 'medium' },
+    'CAPEC-233': { name: 'Privilege escalation', cost: 'medium', skill: 'high', detectability: 'medium' },
+    'CAPEC-268': { name: 'Audit log manipulation', cost: 'low', skill: 'medium', detectability: 'low' },
+    'CAPEC-439': { name: 'Manipulation during distribution', cost: 'high', skill: 'high', detectability: 'low' },
+    'CAPEC-538': { name: 'Open-source library manipulation', cost: 'high', skill: 'high', detectability: 'low' },
+    'CAPEC-552': { name: 'Install rootkit', cost: 'high', skill: 'high', detectability: 'low' },
+    'CAPEC-560': { name: 'Use of known domain credentials', cost: 'low', skill: 'low', detectability: 'medium' },
+    'CAPEC-588': { name: 'DOM-based XSS', cost: 'low', skill: 'medium', detectability: 'low' },
+    'CAPEC-593': { name: 'Session hijacking', cost: 'medium', skill: 'medium', detectability: 'low' },
+    'CAPEC-600': { name: 'Credential stuffing', cost: 'low', skill: 'low', detectability: 'high' }
+};
+
+const UNKNOWN_PATTERN: Annotations = { cost: 'medium', skill: 'medium', detectability: 'medium' };
+
+/**
+ * Techniques for threats that name no CAPEC patterns
+ */
+const CATEGORY_PATTERNS: Record<Category, string[]> = {
+    'Spoofing': ['CAPEC-151', 'CAPEC-593'],
+    'Tampering': ['CAPEC-66', 'CAPEC-162'],
+    'Repudiation': ['CAPEC-268', 'CAPEC-93'],
+    'Information Disclosure': ['CAPEC-116', 'CAPEC-37'],
+    'Denial of Service': ['CAPEC-125', 'CAPEC-130'],
+    'Elevation of Privilege': ['CAPEC-122', 'CAPEC-233']
+};
+
+const FLOW_PATTERNS: Partial<Record<Category, string[]>> = {
+    'Tampering': ['CAPEC-94'],
+    'Information Disclosure': ['CAPEC-157', 'CAPEC-94'],
+    'Denial of Service': ['CAPEC-125']
+};
+
+// Ways into an entry point that requires authentication
+const CREDENTIAL_PATTERNS = ['CAPEC-600', 'CAPEC-560', 'CAPEC-593'];
+
+const LEVELS: AttackLevel[] = ['low', 'medium', 'high'];
+const MAX_PATHS = 3;
+const MAX_PATH_LENGTH = 6;
+
+/**
+ * Expand each threat rated high or critical into an attack tree. The goal is an OR over the
+ * ways to reach the threatened element through the system model; each way is an AND of
+ * getting in, moving along the data flows, the domain threat's preconditions and one of the
+ * threat's CAPEC techniques.
+ */
+export function generateAttackTrees(input: AttackTreeInput): AttackTree[] {
+    const minRisk = input.minRisk ?? 'high';
+    const threshold: RiskLevel[] = minRisk === 'critical' ? ['critical'] : ['high', 'critical'];
+
+    return input.threats
+        .map(threat => ({ threat, risk: riskOf(threat) }))
+        .filter(({ risk }) => threshold.includes(risk))
+        .map(({ threat, risk }) => buildTree(threat, risk, input.systemModel));
+}
+
+function riskOf(threat: Threat): RiskLevel {
+    return threat.riskVector ? scoreVector(threat.riskVector).risk : scoreThreat(threat, 'likelihood-impact').risk;
+}
+
+function buildTree(threat: Threat, risk: RiskLevel, model?: SystemModel): AttackTree {
+    const ways = model ? attackWays(threat, model) : [];
+    const root: AttackTreeNode = {
+        id: threat.id,
+        label: threat.name,
+        gate: 'OR',
+        children: ways.length > 0 ? ways : [{
+            id: '',
+            label: `Attack ${threat.targetComponent}`,
+            gate: 'AND',
+            children: [...preconditions(threat), techniques(threat, threat.targetComponent, false)]
+        }]
+    };
+    assignIds(root);
+
+    const cheapestPath = cheapest(root);
+    return {
+        threatId: threat.id,
+        goal: threat.name,
+        risk,
+        root,
+        cheapestPath,
+        attackTechniques: threat.attackTechniques,
+        mermaid: toMermaid(root, cheapestPath)
+    };
+}
+
+// ==================== TREE ====================
+
+/**
+ * One AND node per way to the threatened elements: a flow is attacked from the network between
+ * its ends, an external entity is impersonated or its flows attacked, processes and data stores
+ * are reached from external entities along the data flows
+ */
+function attackWays(threat: Threat, model: SystemModel): AttackTreeNode[] {
+    const flow = model.dataFlows.find(candidate => candidate.id === threat.elementId);
+    if (flow) return [flowWay(threat, flow, model)];
+
+    const direct = model.elements.find(candidate => candidate.id === threat.elementId);
+    const targets = direct ? [direct] : affectedElements(threat, model.elements);
+    const ways: AttackTreeNode[] = [];
+
+    for (const target of targets) {
+        if (target.type === 'external_entity' && threat.category !== 'Spoofing' && threat.category !== 'Repudiation') {
+            ways.push(...model.dataFlows
+                .filter(candidate => candidate.from === target.id || candidate.to === target.id)
+                .slice(0, MAX_PATHS)
+                .map(candidate => flowWay(threat, candidate, model)));
+            continue;
+        }
+        if (target.type === 'external_entity') {
+            ways.push({
+                id: '',
+                label: `Impersonate ${target.name}`,
+                gate: 'AND',
+                elementId: target.id,
+                children: [...preconditions(threat), techniques(threat, target.name, false)]
+            });
+            continue;
+        }
+        for (const path of entryPaths(target, model)) {
+            const names = path.elements.map(element => element.name);
+            ways.push({
+                id: '',
+                label: `Via ${names.join(' → ')}`,
+                gate: 'AND',
+                elementId: target.id,
+                children: [
+                    entryAccess(path.flows[0] as DataFlow, path.elements[0] as SystemElement, path.elements[1] as SystemElement),
+                    ...path.flows.slice(1).map((hop, index) => pivot(hop, path.elements[index + 1] as SystemElement, path.elements[index + 2] as SystemElement)),
+                    ...preconditions(threat),
+                    techniques(threat, target.name, false)
+                ]
+            });
+        }
+    }
+    return ways;
+}
+
+function flowWay(threat: Threat, flow: DataFlow, model: SystemModel): AttackTreeNode {
+    const element = (id: string) => model.elements.find(candidate => candidate.id === id);
+    const from = element(flow.from);
+    const to = element(flow.to);
+    return {
+        id: '',
+        label: `Attack ${flow.name} (${from?.name} → ${to?.name})`,
+        gate: 'AND',
+        elementId: flow.id,
+        children: [networkPosition(flow, from, to), ...preconditions(threat), techniques(threat, flow.name, true)]
+    };
+}
+
+/**
+ * Shortest simple paths from external entities to a target along the data flows, searched breadth-first
+ * so that the walk stops as soon as MAX_PATHS of them are found. Elements that cannot reach the target
+ * within MAX_PATH_LENGTH flows are never walked, so an unreachable target costs one pass over the flows.
+ */
+function entryPaths(target: SystemElement, model: SystemModel): Array<{ elements: SystemElement[]; flows: DataFlow[] }> {
+    const byId = new Map(model.elements.map(element => [element.id, element]));
+    const outgoing = new Map<string, DataFlow[]>();
+    const incoming = new Map<string, DataFlow[]>();
+    for (const flow of model.dataFlows) {
+        if (!byId.has(flow.from) || !byId.has(flow.to)) continue;
+        outgoing.set(flow.from, [...outgoing.get(flow.from) ?? [], flow]);
+        incoming.set(flow.to, [...incoming.get(flow.to) ?? [], flow]);
+    }
+
+    // Flows from each element to the target, walking backwards; paths do not pass through external entities
+    const hops = new Map<string, number>([[target.id, 0]]);
+    const reached = [target.id];
+    for (let head = 0; head < reached.length; head++) {
+        const id = reached[head] as string;
+        const distance = hops.get(id) as number;
+        if (distance === MAX_PATH_LENGTH) continue;
+        for (const flow of incoming.get(id) ?? []) {
+            if (hops.has(flow.from)) continue;
+            hops.set(flow.from, distance + 1);
+            if (byId.get(flow.from)?.type !== 'external_entity') reached.push(flow.from);
+        }
+    }
+
+    const paths: Array<{ elements: SystemElement[]; flows: DataFlow[] }> = [];
+    const queue = model.elements
+        .filter(element => element.type === 'external_entity' && hops.has(element.id))
+        .map(entity => ({ elements: [entity], flows: [] as DataFlow[] }));
+
+    for (let head = 0; head < queue.length; head++) {
+        const { elements, flows } = queue[head] as { elements: SystemElement[]; flows: DataFlow[] };
+        const current = elements[elements.length - 1] as SystemElement;
+        for (const flow of outgoing.get(current.id) ?? []) {
+            const next = byId.get(flow.to) as SystemElement;
+            if (elements.includes(next) || next.type === 'external_entity') continue;
+            if (next.id === target.id) {
+                paths.push({ elements: [...elements, next], flows: [...flows, flow] });
+                if (paths.length === MAX_PATHS) return paths;
+                continue;
+            }
+            const remaining = hops.get(next.id);
+            if (remaining !== undefined && flows.length + 1 + remaining <= MAX_PATH_LENGTH) {
+                queue.push({ elements: [...elements, next], flows: [...flows, flow] });
+            }
+        }
+    }
+
+    return paths;
+}
+
+/**
+ * Getting in: anonymous callers outside every boundary just send requests; authenticated
+ * entry points need credentials first
+ */
+function entryAccess(flow: DataFlow, entity: SystemElement, entry: SystemElement): AttackTreeNode {
+    if (flow.authenticated) {
+        return {
+            id: '',
+            label: `Authenticate to ${entry.name} as ${entity.name}`,
+            gate: 'OR',
+            elementId: flow.id,
+            children: CREDENTIAL_PATTERNS.map(capec => patternLeaf(capec))
+        };
+    }
+    return entity.boundary
+        ? leaf(`Act as an internal ${entity.name} towards ${entry.name}`, { cost: 'medium', skill: 'medium', detectability: 'medium' }, flow.id)
+        : leaf(`Send requests to ${entry.name} as ${entity.name}`, { cost: 'low', skill: 'low', detectability: 'low' }, flow.id);
+}
+
+function pivot(flow: DataFlow, from: SystemElement, to: SystemElement): AttackTreeNode {
+    const crossing = flow.crossesBoundary ?? from.boundary !== to.boundary;
+    return leaf(
+        `Pivot from ${from.name} to ${to.name}`,
+        crossing ? { cost: 'medium', skill: 'high', detectability: 'medium' } : { cost: 'low', skill: 'medium', detectability: 'medium' },
+        flow.id
+    );
+}
+
+function networkPosition(flow: DataFlow, from?: SystemElement, to?: SystemElement): AttackTreeNode {
+    const label = `Intercept traffic between ${from?.name} and ${to?.name}`;
+    if (flow.encrypted) return leaf(label, { cost: 'high', skill: 'high', detectability: 'low' }, flow.id);
+    const untrusted = [from, to].some(end => end?.type === 'external_entity' && !end.boundary);
+    return leaf(label, untrusted ? { cost: 'low', skill: 'medium', detectability: 'low' } : { cost: 'medium', skill: 'medium', detectability: 'medium' }, flow.id);
+}
+
+function preconditions(threat: Threat): AttackTreeNode[] {
+    return (threat.preconditions ?? []).map(condition => ({
+        ...leaf(condition, { cost: 'low', skill: 'low', detectability: 'low' }),
+        precondition: true
+    }));
+}
+
+function techniques(threat: Threat, subject: string, onFlow: boolean): AttackTreeNode {
+    const capec = threat.capec?.length ? threat.capec
+        : (onFlow ? FLOW_PATTERNS[threat.category] : undefined) ?? CATEGORY_PATTERNS[threat.category];
+    return {
+        id: '',
+        label: `Exploit ${subject}`,
+        gate: 'OR',
+        children: capec.map(id => patternLeaf(id))
+    };
+}
+
+function patternLeaf(capec: string): AttackTreeNode {
+    const pattern = CAPEC_PATTERNS[capec];
+    const { cost, skill, detectability } = pattern ?? UNKNOWN_PATTERN;
+    return { ...leaf(pattern ? `${pattern.name} (${capec})` : capec, { cost, skill, detectability }), capec };
+}
+
+function leaf(label: string, annotations: Annotations, elementId?: string): AttackTreeNode {
+    return { id: '', label, ...annotations, elementId };
+}
+
+/**
+ * Hierarchical IDs under the threat ID: T-012.1, T-012.1.2 ...
+ */
+function assignIds(node: AttackTreeNode): void {
+    node.children?.forEach((child, index) => {
+        child.id = `${node.id}.${index + 1}`;
+        assignIds(child);
+    });
+}
+
+// ==================== CHEAPEST PATH ====================
+
+/**
+ * Cheapest way to the goal: AND nodes need all children, OR nodes the cheapest one, with ties
+ * going to the path needing less skill and then the stealthier one. Preconditions cost nothing.
+ */
+function cheapest(node: AttackTreeNode): AttackPath {
+    if (!node.children?.length) {
+        return {
+            cost: node.precondition ? 0 : LEVELS.indexOf(node.cost ?? 'medium') + 1,
+            skill: node.skill ?? 'medium',
+            detectability: node.detectability ?? 'medium',
+            steps: [{ id: node.id, label: node.label }]
+        };
+    }
+
+    const paths = node.children.map(cheapest);
+    if (node.gate === 'AND') {
+        return {
+            cost: paths.reduce((total, path) => total + path.cost, 0),
+            skill: highest(paths.map(path => path.skill)),
+            detectability: highest(paths.map(path => path.detectability)),
+            steps: paths.flatMap(path => path.steps)
+        };
+    }
+    return paths.reduce((best, path) => compare(path, best) < 0 ? path : best);
+}
+
+function compare(a: AttackPath, b: AttackPath): number {
+    return a.cost - b.cost
+        || LEVELS.indexOf(a.skill) - LEVELS.indexOf(b.skill)
+        || LEVELS.indexOf(a.detectability) - LEVELS.indexOf(b.detectability);
+}
+
+function highest(levels: AttackLevel[]): AttackLevel {
+    return levels.reduce((max, level) => LEVELS.indexOf(level) > LEVELS.indexOf(max) ? level : max, 'low');
+}
+
+// ==================== MERMAID ====================
+
+/**
+ * Mermaid graph: gates under their node's label, leaves with their annotations, preconditions as
+ * parallelograms and the cheapest path highlighted
+ */
+function toMermaid(root: AttackTreeNode, cheapestPath: AttackPath): string {
+    const lines: string[] = ['```mermaid', 'flowchart TD'];
+    const nodeId = (id: string) => id.replace(/[^A-Za-z0-9]/g, '_');
+
+    const visit = (node: AttackTreeNode) => {
+        const label = escapeLabel(node.label);
+        if (node.children?.length) {
+            const prefix = node === root ? '🎯 ' : '';
+            lines.push(`    ${nodeId(node.id)}["${prefix}${label}<br/><b>${node.gate}</b>"]`);
+        } else if (node.precondition) {
+            lines.push(`    ${nodeId(node.id)}[/"${label}"/]`);
+        } else {
+            lines.push(`    ${nodeId(node.id)}(["${label}<br/>cost: ${node.cost} · skill: ${node.skill} · detectability: ${node.detectability}"])`);
+        }
+        for (const child of node.children ?? []) {
+            lines.push(`    ${nodeId(node.id)} --> ${nodeId(child.id)}`);
+            visit(child);
+        }
+    };
+    visit(root);
+
+    lines.push('    classDef cheapest stroke:#d32f2f,stroke-width:3px');
+    lines.push(`    class ${cheapestPath.steps.map(step => nodeId(step.id)).join(',')} cheapest`);
+    lines.push('```');
+    return lines.join('\n');
+}
+
+/**
+ * Quotes would end a Mermaid label early
+ */
+function escapeLabel(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
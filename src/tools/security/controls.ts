@@ -0,0 +1,140 @@
+// Mitigation Controls - threat mitigations tracked as controls with status, owner, test and compliance links
+import type { Threat, SecurityOutput, MitigationControl, ControlStatus, RiskLevel, TestCase } from '../../types/tools.js';
+import type { LoadedDomain } from '../../domains/loader.js';
+import { scoreThreat, scoreVector, RISK_SCORERS } from './scoring.js';
+
+export const CONTROL_STATUSES: ControlStatus[] = ['planned', 'implemented', 'verified'];
+
+/**
+ * Fields of a control that teams update as work progresses
+ */
+export type ControlUpdate = Partial<Pick<MitigationControl, 'status' | 'owner' | 'testCaseId' | 'complianceRequirement'>>;
+
+// Share of a threat's score removed once all of its controls are in place: controls lower risk, they do not remove it
+const CONTROL_EFFECT = 0.8;
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * One control per distinct mitigation (compared case-insensitively) across the threats. Tracked controls
+ * of an earlier threat model keep their ID, status, owner and links; new ones start planned.
+ */
+export function deriveControls(threats: Threat[], domain?: LoadedDomain, tracked: MitigationControl[] = []): MitigationControl[] {
+    const trackedByName = new Map(tracked.map(control => [control.name.toLowerCase(), control]));
+    const controls = new Map<string, MitigationControl>();
+    let next = tracked.reduce((max, control) => Math.max(max, Number(control.id.replace(/^C-/, '')) || 0), 0) + 1;
+
+    for (const threat of threats) {
+        for (const mitigation of threat.mitigation) {
+            const key = mitigation.toLowerCase();
+            let control = controls.get(key);
+            if (!control) {
+                const previous = trackedByName.get(key);
+                const requirement = complianceRequirement(`${mitigation} ${mitigationDescription(mitigation, domain)}`, domain);
+                control = previous ? { ...previous, threatIds: [] } : {
+                    id: `C-${String(next++).padStart(3, '0')}`,
+                    name: mitigation,
+                    threatIds: [],
+                    status: 'planned',
+                    ...(requirement ? { complianceRequirement: requirement } : {})
+                };
+                controls.set(key, control);
+            }
+            if (!control.threatIds.includes(threat.id)) {
+                control.threatIds.push(threat.id);
+            }
+        }
+    }
+
+    return [...controls.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Link threats to their controls and compute residual risk: each implemented or verified control removes
+ * its share of the score, and the residual rating never exceeds the threat's own rating
+ */
+export function applyControls(threats: Threat[], controls: MitigationControl[]): Threat[] {
+    return threats.map(threat => {
+        const own = controls.filter(control => control.threatIds.includes(threat.id));
+        const applied = own.filter(control => control.status !== 'planned').length;
+        const { method, risk } = threat.riskVector
+            ? scoreVector(threat.riskVector)
+            : { method: 'likelihood-impact' as const, risk: scoreThreat(threat, 'likelihood-impact').risk };
+
+        if (applied === 0) {
+            return { ...threat, controls: own.map(control => control.id), residualRiskScore: threat.riskScore, residualRisk: risk };
+        }
+        const residualRiskScore = Math.round(threat.riskScore * (1 - CONTROL_EFFECT * applied / own.length) * 10) / 10;
+        const rated = RISK_SCORERS[method].rate(residualRiskScore);
+        return {
+            ...threat,
+            controls: own.map(control => control.id),
+            residualRiskScore,
+            residualRisk: RISK_ORDER.indexOf(rated) < RISK_ORDER.indexOf(risk) ? rated : risk
+        };
+    });
+}
+
+/**
+ * Update a tracked control and recompute residual risk. A verified control needs a test case: the given
+ * one, the one already linked, or the first test case of the strategy written for one of its threats.
+ */
+export function updateControl(
+    security: SecurityOutput,
+    controlId: string,
+    update: ControlUpdate,
+    testCases?: TestCase[]
+): { security: SecurityOutput; control: MitigationControl } {
+    const current = security.controls?.find(control => control.id === controlId);
+    if (!current) {
+        throw new Error(`Control not found: ${controlId}`);
+    }
+    if (update.testCaseId && testCases && !testCases.some(testCase => testCase.id === update.testCaseId)) {
+        throw new Error(`Test case ${update.testCaseId} is not in the project's test strategy`);
+    }
+
+    const control: MitigationControl = { ...current, ...update };
+    if (control.status === 'verified' && !control.testCaseId) {
+        const testCase = testCases?.find(candidate => control.threatIds.includes(candidate.relatedTo));
+        if (!testCase) {
+            throw new Error(`Control ${controlId} cannot be verified without a test case: pass a test case ID or design the test strategy first`);
+        }
+        control.testCaseId = testCase.id;
+    }
+
+    const controls = (security.controls ?? []).map(candidate => candidate.id === controlId ? control : candidate);
+    const threats = applyControls(security.threats, controls);
+    const residual = new Map(threats.map(threat => [threat.id, threat]));
+    const riskMatrix = security.riskMatrix.map(item => ({
+        ...item,
+        residualScore: residual.get(item.threatId)?.residualRiskScore,
+        residualRisk: residual.get(item.threatId)?.residualRisk
+    }));
+
+    return { security: { ...security, threats, riskMatrix, controls }, control };
+}
+
+// ==================== HELPERS ====================
+
+function mitigationDescription(name: string, domain?: LoadedDomain): string {
+    for (const threat of domain?.threats ?? []) {
+        const mitigation = threat.mitigations.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+        if (mitigation?.description) return mitigation.description;
+    }
+    return '';
+}
+
+/**
+ * The domain requirement a mitigation refers to, e.g. "(HIPAA 164.312(b))", or else the requirement
+ * whose name starts with a word of the mitigation, e.g. "Access controls" for Access Control
+ */
+function complianceRequirement(text: string, domain?: LoadedDomain): string | undefined {
+    const requirements = (domain?.compliance?.regulations ?? []).flatMap(regulation =>
+        regulation.requirements.map(requirement => ({ ref: `${regulation.name} ${requirement.id}`, name: requirement.name })));
+
+    const referenced = requirements.find(requirement => text.includes(requirement.ref));
+    if (referenced) return referenced.ref;
+
+    const words = new Set(text.toLowerCase().match(/[a-z]{4,}/g) ?? []);
+    return requirements.find(requirement => words.has(requirement.name.toLowerCase().match(/[a-z]+/)?.[0] ?? ''))?.ref;
+}
@@ -1,53 +1,100 @@
-// Security Engineer Tool - Module-connected threat modeling
-import type { Threat, SecurityOutput, RiskMatrixItem } from '../../types/tools.js';
-import type { Module } from '../../types/tech-lead.js';
+// Security Engineer Tool - STRIDE threat modeling over the system model
+import type { Threat, SecurityOutput, RiskMatrixItem, MitigationControl } from '../../types/tools.js';
+import type { Module, SystemModel } from '../../types/tech-lead.js';
 import type { LoadedDomain } from '../../domains/loader.js';
+import { buildSystemModel } from '../tech-lead/diagram-generators.js';
+import { analyzeSystemModel } from './stride.js';
+import { scoreThreat, RISK_SCORERS, type RiskScoringMethod } from './scoring.js';
+import { deriveControls, applyControls } from './controls.js';
+
+export { analyzeSystemModel, validateSystemModel, affectedElements, type ModelThreat } from './stride.js';
+export { generateAttackTrees, type AttackTreeInput } from './attack-trees.js';
+export { deriveControls, applyControls, updateControl, CONTROL_STATUSES, type ControlUpdate } from './controls.js';
+export {
+    calculateRisk,
+    scoreThreat,
+    scoreVector,
+    RISK_SCORERS,
+    RISK_SCORING_METHODS,
+    type RiskScorer,
+    type RiskScoringMethod,
+    type RiskLevel,
+    type ScoredThreat
+} from './scoring.js';
 
 export interface SecurityInput {
     modules: Module[];
     domain?: LoadedDomain;
     projectName?: string;
+    systemModel?: SystemModel;      // default: derived from the modules and domain like the DFDs
+    riskScoring?: RiskScoringMethod;        // default: likelihood-impact
+    riskVectors?: Record<string, string>;   // assessed vectors by threat ID or domain threat ID
+    controls?: MitigationControl[];         // controls tracked on an earlier threat model, matched by name
+    previousThreats?: Threat[];             // threats of an earlier threat model whose assessed vectors carry over
 }
 
 /**
- * Generate STRIDE threat model connected to modules
+ * Generate STRIDE threat model for the elements and data flows of the system
  */
 export function generateThreatModel(input: SecurityInput): SecurityOutput {
     const { modules, domain } = input;
+    const systemModel = input.systemModel ?? buildSystemModel({ modules, features: [], domain });
 
-    const threats = generateThreats(modules, domain);
-    const riskMatrix = generateRiskMatrix(threats);
-    const recommendations = generateRecommendations(threats, domain);
+    const riskScoring = input.riskScoring ?? 'likelihood-impact';
 
-    return { threats, riskMatrix, recommendations };
+    const vectors = { ...assessedVectors(input.previousThreats ?? [], riskScoring), ...input.riskVectors };
+    const scored = generateThreats(systemModel, riskScoring, vectors, domain);
+    const controls = deriveControls(scored, domain, input.controls);
+    const threats = applyControls(scored, controls);
+    const riskMatrix = generateRiskMatrix(threats, riskScoring);
+    const recommendations = generateRecommendations(threats, systemModel, domain);
+
+    return { threats, riskMatrix, recommendations, systemModel, riskScoring, controls };
 }
 
-function generateThreats(modules: Module[], domain?: LoadedDomain): Threat[] {
+function generateThreats(
+    systemModel: SystemModel,
+    method: RiskScoringMethod,
+    vectors: Record<string, string>,
+    domain?: LoadedDomain
+): Threat[] {
     const threats: Threat[] = [];
     let id = 1;
 
-    for (const module of modules) {
-        const moduleThreats = analyzeModuleThreats(module, id);
-        threats.push(...moduleThreats);
-        id += moduleThreats.length;
+    const score = (threat: Omit<Threat, 'riskScore'>): Threat => {
+        const { riskScore, riskVector } = scoreThreat(threat, method,
+            vectors[threat.id] ?? vectors[threatKey(threat)]);
+        return { ...threat, riskScore, riskVector };
+    };
+
+    for (const threat of analyzeSystemModel(systemModel, domain?.domain.sensitiveData)) {
+        threats.push(score({
+            id: `T-${String(id).padStart(3, '0')}`,
+            ...threat
+        }));
+        id++;
     }
 
     // Add domain-specific threats - convert to lowercase
     if (domain?.threats) {
         for (const domainThreat of domain.threats) {
-            threats.push({
+            threats.push(score({
                 id: `T-${String(id).padStart(3, '0')}`,
                 category: domainThreat.category as Threat['category'],
                 name: domainThreat.name,
                 description: domainThreat.description,
-                targetComponent: 'System',
+                targetComponent: domainThreat.affectedComponents?.join(', ') || 'System',
                 likelihood: domainThreat.likelihood as Threat['likelihood'],
                 impact: domainThreat.impact as Threat['impact'],
-                riskScore: calculateRisk(domainThreat.likelihood, domainThreat.impact),
-                cwe: getCWE(domainThreat.category),
+                cwe: domainThreat.cwe ?? getCWE(domainThreat.category),
                 owasp: getOWASP(domainThreat.category),
-                mitigation: [domainThreat.mitigation]
-            });
+                capec: domainThreat.capec,
+                attackTechniques: domainThreat.attackTechniques,
+                preconditions: domainThreat.preconditions,
+                affectedComponents: domainThreat.affectedComponents,
+                domainThreatId: domainThreat.id,
+                mitigation: domainThreat.mitigations.map(mitigation => mitigation.name)
+            }));
             id++;
         }
     }
@@ -55,117 +102,53 @@ function generateThreats(modules: Module[], domain?: LoadedDomain): Threat[] {
     return threats;
 }
 
-function analyzeModuleThreats(module: Module, startId: number): Threat[] {
-    const threats: Threat[] = [];
-    const moduleName = module.name;
-    let id = startId;
-
-    const isAuth = moduleName.toLowerCase().includes('auth') || moduleName.toLowerCase().includes('security');
-    const isData = moduleName.toLowerCase().includes('data') || moduleName.toLowerCase().includes('repository');
-    const isController = moduleName.toLowerCase().includes('controller');
-
-    if (isAuth || isController) {
-        threats.push({
-            id: `T-${String(id).padStart(3, '0')}`,
-            category: 'Spoofing',
-            name: `Identity Spoofing on ${moduleName}`,
-            description: `Attacker impersonates legitimate user to access ${moduleName}`,
-            targetComponent: moduleName,
-            likelihood: 'high',
-            impact: 'critical',
-            riskScore: 9.0,
-            cwe: 'CWE-287',
-            owasp: 'A07:2021',
-            mitigation: ['Implement multi-factor authentication', 'Use secure session management', 'Monitor for suspicious login patterns']
-        });
-        id++;
-    }
-
-    if (isData) {
-        threats.push({
-            id: `T-${String(id).padStart(3, '0')}`,
-            category: 'Tampering',
-            name: `Data Tampering in ${moduleName}`,
-            description: `Unauthorized modification of data in ${moduleName}`,
-            targetComponent: moduleName,
-            likelihood: 'medium',
-            impact: 'high',
-            riskScore: 7.0,
-            cwe: 'CWE-284',
-            owasp: 'A01:2021',
-            mitigation: ['Implement integrity checks (HMAC)', 'Enable audit logging', 'Use role-based access control']
-        });
-        id++;
-    }
-
-    threats.push({
-        id: `T-${String(id).padStart(3, '0')}`,
-        category: 'Information Disclosure',
-        name: `Data Leakage from ${moduleName}`,
-        description: `Sensitive information exposed from ${moduleName}`,
-        targetComponent: moduleName,
-        likelihood: 'medium',
-        impact: isData ? 'critical' : 'high',
-        riskScore: isData ? 8.0 : 6.5,
-        cwe: 'CWE-200',
-        owasp: 'A01:2021',
-        mitigation: ['Encrypt sensitive data at rest', 'Use TLS for data in transit', 'Implement data masking in logs']
-    });
-    id++;
-
-    if (isController) {
-        threats.push({
-            id: `T-${String(id).padStart(3, '0')}`,
-            category: 'Denial of Service',
-            name: `DoS Attack on ${moduleName}`,
-            description: `Resource exhaustion attack targeting ${moduleName}`,
-            targetComponent: moduleName,
-            likelihood: 'medium',
-            impact: 'medium',
-            riskScore: 5.5,
-            cwe: 'CWE-770',
-            owasp: 'A04:2021',
-            mitigation: ['Implement rate limiting', 'Use resource quotas', 'Enable auto-scaling']
-        });
-        id++;
-    }
-
-    if (isAuth) {
-        threats.push({
-            id: `T-${String(id).padStart(3, '0')}`,
-            category: 'Elevation of Privilege',
-            name: `Privilege Escalation via ${moduleName}`,
-            description: `Attacker gains unauthorized elevated access through ${moduleName}`,
-            targetComponent: moduleName,
-            likelihood: 'medium',
-            impact: 'critical',
-            riskScore: 8.5,
-            cwe: 'CWE-269',
-            owasp: 'A01:2021',
-            mitigation: ['Implement strict RBAC', 'Apply principle of least privilege', 'Regular permission audits']
-        });
-        id++;
+/**
+ * Vectors teams assessed on an earlier threat model, i.e. those that differ from the derived one, keyed
+ * like the regenerated threats they apply to. Vectors of another scoring method are dropped.
+ */
+function assessedVectors(threats: Threat[], method: RiskScoringMethod): Record<string, string> {
+    const scorer = RISK_SCORERS[method];
+    const vectors: Record<string, string> = {};
+    for (const threat of threats) {
+        if (threat.riskVector && scorer.matches(threat.riskVector) && threat.riskVector !== scorer.derive(threat)) {
+            vectors[threatKey(threat)] = threat.riskVector;
+        }
     }
+    return vectors;
+}
 
-    return threats;
+/**
+ * Identity of a threat across regenerations: its domain threat ID, or the element and STRIDE category
+ */
+function threatKey(threat: Pick<Threat, 'domainThreatId' | 'elementId' | 'category'>): string {
+    return threat.domainThreatId ?? `${threat.elementId}:${threat.category}`;
 }
 
-function generateRiskMatrix(threats: Threat[]): RiskMatrixItem[] {
+function generateRiskMatrix(threats: Threat[], method: RiskScoringMethod): RiskMatrixItem[] {
     return threats.map(threat => ({
         threatId: threat.id,
         likelihood: threat.likelihood,
         impact: threat.impact,
-        risk: categorizeRisk(threat.riskScore)
+        score: threat.riskScore,
+        vector: threat.riskVector,
+        risk: RISK_SCORERS[method].score(threat.riskVector as string).risk,
+        residualScore: threat.residualRiskScore,
+        residualRisk: threat.residualRisk
     }));
 }
 
-function generateRecommendations(threats: Threat[], domain?: LoadedDomain): string[] {
+function generateRecommendations(threats: Threat[], systemModel: SystemModel, domain?: LoadedDomain): string[] {
     const recommendations: string[] = [];
     const criticalThreats = threats.filter(t => t.impact === 'critical').length;
     const highThreats = threats.filter(t => t.impact === 'high').length;
+    const boundaryFlows = new Set(threats.filter(t => t.elementType === 'data_flow').map(t => t.elementId)).size;
 
     recommendations.push(`🔴 ${criticalThreats} critical threats require immediate attention`);
     recommendations.push(`🟠 ${highThreats} high-priority threats need mitigation planning`);
+    if (boundaryFlows > 0) {
+        const boundaries = systemModel.trustBoundaries.map(boundary => boundary.name).join(', ');
+        recommendations.push(`🔀 ${boundaryFlows} data flows cross trust boundaries (${boundaries}) - authenticate and encrypt each one`);
+    }
     recommendations.push('🛡️ Implement defense-in-depth: multiple layers of security');
     recommendations.push('📊 Use this threat model as input for security testing');
 
@@ -178,19 +161,6 @@ function generateRecommendations(threats: Threat[], domain?: LoadedDomain): stri
     return recommendations;
 }
 
-function calculateRisk(likelihood: string, impact: string): number {
-    const likelihoodScore: Record<string, number> = { low: 1, medium: 2, high: 3 };
-    const impactScore: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
-    return (likelihoodScore[likelihood] || 2) * (impactScore[impact] || 2) * 1.1;
-}
-
-function categorizeRisk(score: number): 'low' | 'medium' | 'high' | 'critical' {
-    if (score >= 8) return 'critical';
-    if (score >= 6) return 'high';
-    if (score >= 4) return 'medium';
-    return 'low';
-}
-
 function getCWE(category: string): string {
     const cweMap: Record<string, string> = {
         'Spoofing': 'CWE-287',
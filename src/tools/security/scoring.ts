@@ -0,0 +1,606 @@
+// Risk Scoring - likelihood x impact, CVSS v3.1/v4.0, OWASP Risk Rating and DREAD scores for threats
+import type { Threat, RiskScoringMethod, RiskLevel } from '../../types/tools.js';
+
+export type { RiskScoringMethod, RiskLevel } from '../../types/tools.js';
+
+export const RISK_SCORING_METHODS: RiskScoringMethod[] = ['likelihood-impact', 'cvss-3.1', 'cvss-4.0', 'owasp', 'dread'];
+
+/**
+ * The parts of a threat a vector is derived from
+ */
+export type ThreatRating = Pick<Threat, 'category' | 'likelihood' | 'impact'>;
+
+export interface RiskScorer {
+    method: RiskScoringMethod;
+    /** Whether a vector is written for this method */
+    matches(vector: string): boolean;
+    /** Vector for a threat that was not assessed by hand, from its STRIDE category, likelihood and impact */
+    derive(threat: ThreatRating): string;
+    /** Score (0-10, or 0-13.2 for likelihood x impact) and rating; throws on malformed vectors */
+    score(vector: string): { score: number; risk: RiskLevel };
+    /** Rating of a score that was not computed from a vector, e.g. a residual score */
+    rate(score: number): RiskLevel;
+}
+
+export interface ScoredThreat {
+    riskScore: number;
+    riskVector: string;
+    risk: RiskLevel;
+}
+
+// ==================== SCORING ====================
+
+/**
+ * Score a threat with a method: the given vector when the threat was assessed, otherwise one derived from the threat
+ */
+export function scoreThreat(threat: ThreatRating, method: RiskScoringMethod, vector?: string): ScoredThreat {
+    const scorer = RISK_SCORERS[method];
+    if (vector !== undefined && !scorer.matches(vector)) {
+        throw new Error(`Risk vector "${vector}" is not a ${method} vector`);
+    }
+    const riskVector = vector ?? scorer.derive(threat);
+    return { riskVector, ...rename(scorer.score(riskVector)) };
+}
+
+/**
+ * Score a vector of any method, e.g. one read back from an exported model
+ */
+export function scoreVector(vector: string): ScoredThreat & { method: RiskScoringMethod } {
+    const scorer = Object.values(RISK_SCORERS).find(candidate => candidate.matches(vector));
+    if (!scorer) {
+        throw new Error(`Unrecognized risk vector "${vector}": expected ${RISK_SCORING_METHODS.join(', ')}`);
+    }
+    return { method: scorer.method, riskVector: vector, ...rename(scorer.score(vector)) };
+}
+
+/**
+ * Risk score: likelihood (1-3) x impact (1-4) x 1.1
+ */
+export function calculateRisk(likelihood: string, impact: string): number {
+    return (LIKELIHOOD_LEVELS[likelihood] || 2) * (IMPACT_LEVELS[impact] || 2) * 1.1;
+}
+
+function rename({ score, risk }: { score: number; risk: RiskLevel }): { riskScore: number; risk: RiskLevel } {
+    return { riskScore: score, risk };
+}
+
+// ==================== VECTORS ====================
+
+const LIKELIHOOD_LEVELS: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const IMPACT_LEVELS: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+type Category = Threat['category'];
+
+/**
+ * Security properties each STRIDE category harms
+ */
+const HARMED: Record<Category, Array<'C' | 'I' | 'A'>> = {
+    'Spoofing': ['C', 'I'],
+    'Tampering': ['I'],
+    'Repudiation': ['I'],
+    'Information Disclosure': ['C'],
+    'Denial of Service': ['A'],
+    'Elevation of Privilege': ['C', 'I', 'A']
+};
+
+/**
+ * Parse "KEY:VALUE/KEY:VALUE" metrics, checking every metric against its allowed values
+ */
+function parseMetrics(
+    vector: string,
+    allowed: Record<string, readonly string[]>,
+    required: string[],
+    label: string
+): Record<string, string> {
+    const metrics: Record<string, string> = {};
+    for (const part of vector.split('/').filter(Boolean)) {
+        const [key, value, ...rest] = part.split(':');
+        if (!key || value === undefined || rest.length > 0) {
+            throw new Error(`Invalid ${label} vector "${vector}": "${part}" is not KEY:VALUE`);
+        }
+        if (!allowed[key]?.includes(value)) {
+            throw new Error(`Invalid ${label} vector "${vector}": ${key}:${value} is not a ${label} metric`);
+        }
+        if (key in metrics) {
+            throw new Error(`Invalid ${label} vector "${vector}": ${key} is given twice`);
+        }
+        metrics[key] = value;
+    }
+    const missing = required.filter(key => !(key in metrics));
+    if (missing.length > 0) {
+        throw new Error(`Invalid ${label} vector "${vector}": missing ${missing.join(', ')}`);
+    }
+    return metrics;
+}
+
+function format(metrics: Record<string, string | number>): string {
+    return Object.entries(metrics).map(([key, value]) => `${key}:${value}`).join('/');
+}
+
+function bandRisk(score: number): RiskLevel {
+    if (score >= 9) return 'critical';
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'medium';
+    return 'low';
+}
+
+// ==================== LIKELIHOOD X IMPACT ====================
+
+const LEVEL_CODES: Record<string, string> = { low: 'L', medium: 'M', high: 'H', critical: 'C' };
+
+const likelihoodImpact: RiskScorer = {
+    method: 'likelihood-impact',
+    matches: vector => /^L:[LMH]\/I:/.test(vector),
+    derive: threat => format({ L: LEVEL_CODES[threat.likelihood] as string, I: LEVEL_CODES[threat.impact] as string }),
+    score(vector) {
+        const metrics = parseMetrics(vector, { L: ['L', 'M', 'H'], I: ['L', 'M', 'H', 'C'] }, ['L', 'I'], 'likelihood-impact');
+        const level = (code: string) => Object.keys(LEVEL_CODES).find(name => LEVEL_CODES[name] === code) as string;
+        const score = calculateRisk(level(metrics.L as string), level(metrics.I as string));
+        return { score, risk: likelihoodImpact.rate(score) };
+    },
+    rate(score) {
+        if (score >= 8) return 'critical';
+        if (score >= 6) return 'high';
+        if (score >= 4) return 'medium';
+        return 'low';
+    }
+};
+
+// ==================== CVSS 3.1 ====================
+
+const CVSS31_METRICS = {
+    AV: ['N', 'A', 'L', 'P'],
+    AC: ['L', 'H'],
+    PR: ['N', 'L', 'H'],
+    UI: ['N', 'R'],
+    S: ['U', 'C'],
+    C: ['H', 'L', 'N'],
+    I: ['H', 'L', 'N'],
+    A: ['H', 'L', 'N']
+} as const;
+
+const CVSS31_WEIGHTS = {
+    AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+    AC: { L: 0.77, H: 0.44 },
+    UI: { N: 0.85, R: 0.62 },
+    CIA: { H: 0.56, L: 0.22, N: 0 }
+} as Record<string, Record<string, number>>;
+
+/**
+ * Base metrics shared by the CVSS versions: attack vector and complexity follow likelihood, privileges the category
+ */
+function exploitability(threat: ThreatRating): { AV: string; AC: string; PR: string } {
+    return {
+        AV: { high: 'N', medium: 'A', low: 'L' }[threat.likelihood],
+        AC: threat.likelihood === 'low' ? 'H' : 'L',
+        PR: threat.category === 'Spoofing' ? 'N'
+            : threat.category === 'Elevation of Privilege' ? 'L'
+                : { high: 'N', medium: 'L', low: 'H' }[threat.likelihood]
+    };
+}
+
+function harm(threat: ThreatRating, property: 'C' | 'I' | 'A'): string {
+    if (!HARMED[threat.category].includes(property)) return 'N';
+    if (threat.category === 'Repudiation') return 'L';
+    return threat.impact === 'high' || threat.impact === 'critical' ? 'H' : 'L';
+}
+
+const cvss31: RiskScorer = {
+    method: 'cvss-3.1',
+    matches: vector => vector.startsWith('CVSS:3.1/'),
+    derive: threat => 'CVSS:3.1/' + format({
+        ...exploitability(threat),
+        UI: 'N',
+        S: threat.category === 'Elevation of Privilege' ? 'C' : 'U',
+        C: harm(threat, 'C'),
+        I: harm(threat, 'I'),
+        A: harm(threat, 'A')
+    }),
+    score(vector) {
+        const metrics = parseMetrics(vector.slice('CVSS:3.1/'.length), CVSS31_METRICS, Object.keys(CVSS31_METRICS), 'CVSS:3.1');
+        const weight = (group: string, key: string) => CVSS31_WEIGHTS[group]?.[metrics[key] as string] as number;
+        const changed = metrics.S === 'C';
+        const privileges = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR as 'N' | 'L' | 'H'];
+
+        const iss = 1 - (1 - weight('CIA', 'C')) * (1 - weight('CIA', 'I')) * (1 - weight('CIA', 'A'));
+        const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+        const exploit = 8.22 * weight('AV', 'AV') * weight('AC', 'AC') * privileges * weight('UI', 'UI');
+        const score = impact <= 0 ? 0 : roundUp(Math.min(changed ? 1.08 * (impact + exploit) : impact + exploit, 10));
+        return { score, risk: bandRisk(score) };
+    },
+    rate: bandRisk
+};
+
+/**
+ * CVSS 3.1 Roundup: smallest one-decimal number >= the input, avoiding floating point drift
+ */
+function roundUp(value: number): number {
+    const scaled = Math.round(value * 100000);
+    return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+// ==================== CVSS 4.0 ====================
+
+const CVSS40_BASE = {
+    AV: ['N', 'A', 'L', 'P'],
+    AC: ['L', 'H'],
+    AT: ['N', 'P'],
+    PR: ['N', 'L', 'H'],
+    UI: ['N', 'P', 'A'],
+    VC: ['H', 'L', 'N'],
+    VI: ['H', 'L', 'N'],
+    VA: ['H', 'L', 'N'],
+    SC: ['H', 'L', 'N'],
+    SI: ['H', 'L', 'N'],
+    SA: ['H', 'L', 'N']
+} as const;
+
+const CVSS40_METRICS: Record<string, readonly string[]> = {
+    ...CVSS40_BASE,
+    // Threat and environmental metrics; supplemental metrics are accepted but do not change the score
+    E: ['X', 'A', 'P', 'U'],
+    CR: ['X', 'H', 'M', 'L'],
+    IR: ['X', 'H', 'M', 'L'],
+    AR: ['X', 'H', 'M', 'L'],
+    MAV: ['X', 'N', 'A', 'L', 'P'],
+    MAC: ['X', 'L', 'H'],
+    MAT: ['X', 'N', 'P'],
+    MPR: ['X', 'N', 'L', 'H'],
+    MUI: ['X', 'N', 'P', 'A'],
+    MVC: ['X', 'H', 'L', 'N'],
+    MVI: ['X', 'H', 'L', 'N'],
+    MVA: ['X', 'H', 'L', 'N'],
+    MSC: ['X', 'H', 'L', 'N'],
+    MSI: ['X', 'S', 'H', 'L', 'N'],
+    MSA: ['X', 'S', 'H', 'L', 'N'],
+    S: ['X', 'N', 'P'],
+    AU: ['X', 'N', 'Y'],
+    R: ['X', 'A', 'U', 'I'],
+    V: ['X', 'D', 'C'],
+    RE: ['X', 'L', 'M', 'H'],
+    U: ['X', 'Clear', 'Green', 'Amber', 'Red']
+};
+
+/**
+ * Macrovector scores of the CVSS v4.0 specification, keyed by the six equivalence classes EQ1-EQ6
+ */
+const CVSS40_MACROVECTORS: Record<string, number> = {
+    '000000': 10, '000001': 9.9, '000010': 9.8, '000011': 9.5, '000020': 9.5, '000021': 9.2,
+    '000100': 10, '000101': 9.6, '000110': 9.3, '000111': 8.7, '000120': 9.1, '000121': 8.1,
+    '000200': 9.3, '000201': 9, '000210': 8.9, '000211': 8, '000220': 8.1, '000221': 6.8,
+    '001000': 9.8, '001001': 9.5, '001010': 9.5, '001011': 9.2, '001020': 9, '001021': 8.4,
+    '001100': 9.3, '001101': 9.2, '001110': 8.9, '001111': 8.1, '001120': 8.1, '001121': 6.5,
+    '001200': 8.8, '001201': 8, '001210': 7.8, '001211': 7, '001220': 6.9, '001221': 4.8,
+    '002001': 9.2, '002011': 8.2, '002021': 7.2, '002101': 7.9, '002111': 6.9, '002121': 5,
+    '002201': 6.9, '002211': 5.5, '002221': 2.7,
+    '010000': 9.9, '010001': 9.7, '010010': 9.5, '010011': 9.2, '010020': 9.2, '010021': 8.5,
+    '010100': 9.5, '010101': 9.1, '010110': 9, '010111': 8.3, '010120': 8.4, '010121': 7.1,
+    '010200': 9.2, '010201': 8.1, '010210': 8.2, '010211': 7.1, '010220': 7.2, '010221': 5.3,
+    '011000': 9.5, '011001': 9.3, '011010': 9.2, '011011': 8.5, '011020': 8.5, '011021': 7.3,
+    '011100': 9.2, '011101': 8.2, '011110': 8, '011111': 7.2, '011120': 7, '011121': 5.9,
+    '011200': 8.4, '011201': 7, '011210': 7.1, '011211': 5.2, '011220': 5, '011221': 3,
+    '012001': 8.6, '012011': 7.5, '012021': 5.2, '012101': 7.1, '012111': 5.2, '012121': 2.9,
+    '012201': 6.3, '012211': 2.9, '012221': 1.7,
+    '100000': 9.8, '100001': 9.5, '100010': 9.4, '100011': 8.7, '100020': 9.1, '100021': 8.1,
+    '100100': 9.4, '100101': 8.9, '100110': 8.6, '100111': 7.4, '100120': 7.7, '100121': 6.4,
+    '100200': 8.7, '100201': 7.5, '100210': 7.4, '100211': 6.3, '100220': 6.3, '100221': 4.9,
+    '101000': 9.4, '101001': 8.9, '101010': 8.8, '101011': 7.7, '101020': 7.6, '101021': 6.7,
+    '101100': 8.6, '101101': 7.6, '101110': 7.4, '101111': 5.8, '101120': 5.9, '101121': 5,
+    '101200': 7.2, '101201': 5.7, '101210': 5.7, '101211': 5.2, '101220': 5.2, '101221': 2.5,
+    '102001': 8.3, '102011': 7, '102021': 5.4, '102101': 6.5, '102111': 5.8, '102121': 2.6,
+    '102201': 5.3, '102211': 2.1, '102221': 1.3,
+    '110000': 9.5, '110001': 9, '110010': 8.8, '110011': 7.6, '110020': 7.6, '110021': 7,
+    '110100': 9, '110101': 7.7, '110110': 7.5, '110111': 6.2, '110120': 6.1, '110121': 5.3,
+    '110200': 7.7, '110201': 6.6, '110210': 6.8, '110211': 5.9, '110220': 5.2, '110221': 3,
+    '111000': 8.9, '111001': 7.8, '111010': 7.6, '111011': 6.7, '111020': 6.2, '111021': 5.8,
+    '111100': 7.4, '111101': 5.9, '111110': 5.7, '111111': 5.7, '111120': 4.7, '111121': 2.3,
+    '111200': 6.1, '111201': 5.2, '111210': 5.7, '111211': 2.9, '111220': 2.4, '111221': 1.6,
+    '112001': 7.1, '112011': 5.9, '112021': 3, '112101': 5.8, '112111': 2.6, '112121': 1.5,
+    '112201': 2.3, '112211': 1.3, '112221': 0.6,
+    '200000': 9.3, '200001': 8.7, '200010': 8.6, '200011': 7.2, '200020': 7.5, '200021': 5.8,
+    '200100': 8.6, '200101': 7.4, '200110': 7.4, '200111': 6.1, '200120': 5.6, '200121': 3.4,
+    '200200': 7, '200201': 5.4, '200210': 5.2, '200211': 4, '200220': 4, '200221': 2.2,
+    '201000': 8.5, '201001': 7.5, '201010': 7.4, '201011': 5.5, '201020': 6.2, '201021': 5.1,
+    '201100': 7.2, '201101': 5.7, '201110': 5.5, '201111': 4.1, '201120': 4.6, '201121': 1.9,
+    '201200': 5.3, '201201': 3.6, '201210': 3.4, '201211': 1.9, '201220': 1.9, '201221': 0.8,
+    '202001': 6.4, '202011': 5.1, '202021': 2, '202101': 4.7, '202111': 2.1, '202121': 1.1,
+    '202201': 2.4, '202211': 0.9, '202221': 0.4,
+    '210000': 8.8, '210001': 7.5, '210010': 7.3, '210011': 5.3, '210020': 6, '210021': 5,
+    '210100': 7.3, '210101': 5.5, '210110': 5.9, '210111': 4, '210120': 4.1, '210121': 2,
+    '210200': 5.4, '210201': 4.3, '210210': 4.5, '210211': 2.2, '210220': 2, '210221': 1.1,
+    '211000': 7.5, '211001': 5.5, '211010': 5.8, '211011': 4.5, '211020': 4, '211021': 2.1,
+    '211100': 6.1, '211101': 5.1, '211110': 4.8, '211111': 1.8, '211120': 2, '211121': 0.9,
+    '211200': 4.6, '211201': 1.8, '211210': 1.7, '211211': 0.7, '211220': 0.8, '211221': 0.2,
+    '212001': 5.3, '212011': 2.4, '212021': 1.4, '212101': 2.4, '212111': 1.2, '212121': 0.5,
+    '212201': 1, '212211': 0.3, '212221': 0.1
+};
+
+/**
+ * Highest-severity vectors of each equivalence class, as metric fragments
+ */
+const CVSS40_MAX_COMPOSED = {
+    eq1: [['AV:N/PR:N/UI:N'], ['AV:A/PR:N/UI:N', 'AV:N/PR:L/UI:N', 'AV:N/PR:N/UI:P'], ['AV:P/PR:N/UI:N', 'AV:A/PR:L/UI:P']],
+    eq2: [['AC:L/AT:N'], ['AC:H/AT:N', 'AC:L/AT:P']],
+    // indexed by EQ3 then EQ6
+    eq3: [
+        [['VC:H/VI:H/VA:H/CR:H/IR:H/AR:H'], ['VC:H/VI:H/VA:L/CR:M/IR:M/AR:H', 'VC:H/VI:H/VA:H/CR:M/IR:M/AR:M']],
+        [
+            ['VC:L/VI:H/VA:H/CR:H/IR:H/AR:H', 'VC:H/VI:L/VA:H/CR:H/IR:H/AR:H'],
+            ['VC:L/VI:H/VA:L/CR:H/IR:M/AR:H', 'VC:L/VI:H/VA:H/CR:H/IR:M/AR:M', 'VC:H/VI:L/VA:H/CR:M/IR:H/AR:M', 'VC:H/VI:L/VA:L/CR:M/IR:H/AR:H', 'VC:L/VI:L/VA:H/CR:H/IR:H/AR:M']
+        ],
+        [[], ['VC:L/VI:L/VA:L/CR:H/IR:H/AR:H']]
+    ],
+    eq4: [['SC:H/SI:S/SA:S'], ['SC:H/SI:H/SA:H'], ['SC:L/SI:L/SA:L']],
+    eq5: [['E:A'], ['E:P'], ['E:U']]
+};
+
+/**
+ * Depth of each equivalence class in severity steps of 0.1, used to interpolate inside a macrovector
+ */
+const CVSS40_MAX_SEVERITY = {
+    eq1: [1, 4, 5],
+    eq2: [1, 2],
+    eq3eq6: [[7, 6], [8, 8], [NaN, 10]],
+    eq4: [6, 5, 4]
+};
+
+const CVSS40_LEVELS: Record<string, Record<string, number>> = {
+    AV: { N: 0, A: 0.1, L: 0.2, P: 0.3 },
+    PR: { N: 0, L: 0.1, H: 0.2 },
+    UI: { N: 0, P: 0.1, A: 0.2 },
+    AC: { L: 0, H: 0.1 },
+    AT: { N: 0, P: 0.1 },
+    VC: { H: 0, L: 0.1, N: 0.2 },
+    VI: { H: 0, L: 0.1, N: 0.2 },
+    VA: { H: 0, L: 0.1, N: 0.2 },
+    SC: { H: 0.1, L: 0.2, N: 0.3 },
+    SI: { S: 0, H: 0.1, L: 0.2, N: 0.3 },
+    SA: { S: 0, H: 0.1, L: 0.2, N: 0.3 },
+    CR: { H: 0, M: 0.1, L: 0.2 },
+    IR: { H: 0, M: 0.1, L: 0.2 },
+    AR: { H: 0, M: 0.1, L: 0.2 },
+    E: { A: 0, P: 0.1, U: 0.2 }
+};
+
+const cvss40: RiskScorer = {
+    method: 'cvss-4.0',
+    matches: vector => vector.startsWith('CVSS:4.0/'),
+    derive(threat) {
+        const { AV, AC, PR } = exploitability(threat);
+        const subsequent = threat.category !== 'Elevation of Privilege' ? 'N' : threat.impact === 'critical' ? 'H' : 'L';
+        return 'CVSS:4.0/' + format({
+            AV, AC, AT: 'N', PR, UI: 'N',
+            VC: harm(threat, 'C'), VI: harm(threat, 'I'), VA: harm(threat, 'A'),
+            SC: subsequent, SI: subsequent, SA: subsequent
+        });
+    },
+    score(vector) {
+        const metrics = parseMetrics(vector.slice('CVSS:4.0/'.length), CVSS40_METRICS, Object.keys(CVSS40_BASE), 'CVSS:4.0');
+        const score = cvss40Score(metrics);
+        return { score, risk: bandRisk(score) };
+    },
+    rate: bandRisk
+};
+
+/**
+ * CVSS v4.0 score: the macrovector's score, lowered by how far the vector sits from the
+ * macrovector's highest-severity vectors towards the next lower macrovectors
+ */
+function cvss40Score(metrics: Record<string, string>): number {
+    // Effective values: modified metrics override base ones; unset threat and requirement metrics are worst case
+    const m = (key: string): string => {
+        const modified = metrics[`M${key}`];
+        if (modified && modified !== 'X') return modified;
+        const value = metrics[key];
+        if (key === 'E' && (!value || value === 'X')) return 'A';
+        if (['CR', 'IR', 'AR'].includes(key) && (!value || value === 'X')) return 'H';
+        return value as string;
+    };
+
+    if (['VC', 'VI', 'VA', 'SC', 'SI', 'SA'].every(key => m(key) === 'N')) return 0;
+
+    const eq1 = m('AV') === 'N' && m('PR') === 'N' && m('UI') === 'N' ? 0
+        : (m('AV') === 'N' || m('PR') === 'N' || m('UI') === 'N') && m('AV') !== 'P' ? 1 : 2;
+    const eq2 = m('AC') === 'L' && m('AT') === 'N' ? 0 : 1;
+    const eq3 = m('VC') === 'H' && m('VI') === 'H' ? 0 : m('VC') === 'H' || m('VI') === 'H' || m('VA') === 'H' ? 1 : 2;
+    const eq4 = m('SI') === 'S' || m('SA') === 'S' ? 0 : m('SC') === 'H' || m('SI') === 'H' || m('SA') === 'H' ? 1 : 2;
+    const eq5 = { A: 0, P: 1, U: 2 }[m('E')] as number;
+    const eq6 = (m('CR') === 'H' && m('VC') === 'H') || (m('IR') === 'H' && m('VI') === 'H') || (m('AR') === 'H' && m('VA') === 'H') ? 0 : 1;
+
+    const lookup = (e1: number, e2: number, e3: number, e4: number, e5: number, e6: number) =>
+        CVSS40_MACROVECTORS[`${e1}${e2}${e3}${e4}${e5}${e6}`] ?? NaN;
+    const value = lookup(eq1, eq2, eq3, eq4, eq5, eq6);
+
+    const lowerEq3Eq6 = eq3 === 0 && eq6 === 0
+        ? Math.max(lookup(eq1, eq2, 0, eq4, eq5, 1), lookup(eq1, eq2, 1, eq4, eq5, 0))
+        : eq6 === 0 ? lookup(eq1, eq2, eq3, eq4, eq5, 1) : lookup(eq1, eq2, eq3 + 1, eq4, eq5, eq6);
+    const nextLower = [
+        lookup(eq1 + 1, eq2, eq3, eq4, eq5, eq6),
+        lookup(eq1, eq2 + 1, eq3, eq4, eq5, eq6),
+        lowerEq3Eq6,
+        lookup(eq1, eq2, eq3, eq4 + 1, eq5, eq6),
+        lookup(eq1, eq2, eq3, eq4, eq5 + 1, eq6)
+    ];
+
+    // Distances from the first highest-severity vector the vector does not exceed
+    const level = (key: string, code: string) => CVSS40_LEVELS[key]?.[code] ?? 0;
+    let distance: Record<string, number> = {};
+    for (const maxVector of maxVectors(eq1, eq2, eq3, eq4, eq5, eq6)) {
+        const maxMetrics = Object.fromEntries(maxVector.split('/').map(part => part.split(':') as [string, string]));
+        distance = Object.fromEntries(Object.keys(CVSS40_LEVELS)
+            .map(key => [key, level(key, m(key)) - level(key, maxMetrics[key] as string)]));
+        if (Object.values(distance).every(value => value >= 0)) break;
+    }
+    const sum = (...keys: string[]) => keys.reduce((total, key) => total + (distance[key] ?? 0), 0);
+    const currentDistance = [
+        sum('AV', 'PR', 'UI'),
+        sum('AC', 'AT'),
+        sum('VC', 'VI', 'VA', 'CR', 'IR', 'AR'),
+        sum('SC', 'SI', 'SA'),
+        0
+    ];
+    const maxSeverity = [
+        CVSS40_MAX_SEVERITY.eq1[eq1] as number,
+        CVSS40_MAX_SEVERITY.eq2[eq2] as number,
+        CVSS40_MAX_SEVERITY.eq3eq6[eq3]?.[eq6] as number,
+        CVSS40_MAX_SEVERITY.eq4[eq4] as number,
+        1
+    ].map(depth => depth * 0.1);
+
+    let lowered = 0;
+    let existing = 0;
+    nextLower.forEach((lower, index) => {
+        const available = value - lower;
+        if (Number.isNaN(available)) return;
+        existing++;
+        lowered += available * ((currentDistance[index] as number) / (maxSeverity[index] as number));
+    });
+
+    const score = value - (existing > 0 ? lowered / existing : 0);
+    return Math.round(Math.min(Math.max(score, 0), 10) * 10) / 10;
+}
+
+function maxVectors(eq1: number, eq2: number, eq3: number, eq4: number, eq5: number, eq6: number): string[] {
+    const vectors: string[] = [];
+    for (const a of CVSS40_MAX_COMPOSED.eq1[eq1] ?? []) {
+        for (const b of CVSS40_MAX_COMPOSED.eq2[eq2] ?? []) {
+            for (const c of CVSS40_MAX_COMPOSED.eq3[eq3]?.[eq6] ?? []) {
+                for (const d of CVSS40_MAX_COMPOSED.eq4[eq4] ?? []) {
+                    for (const e of CVSS40_MAX_COMPOSED.eq5[eq5] ?? []) {
+                        vectors.push([a, b, c, d, e].join('/'));
+                    }
+                }
+            }
+        }
+    }
+    return vectors;
+}
+
+// ==================== OWASP RISK RATING ====================
+
+const OWASP_LIKELIHOOD_FACTORS = {
+    SL: [1, 3, 5, 6, 9],    // skill level
+    M: [1, 4, 9],           // motive
+    O: [0, 4, 7, 9],        // opportunity
+    S: [2, 4, 5, 6, 9],     // size
+    ED: [1, 3, 7, 9],       // ease of discovery
+    EE: [1, 3, 5, 9],       // ease of exploit
+    A: [1, 4, 6, 9],        // awareness
+    ID: [1, 3, 8, 9]        // intrusion detection
+};
+
+const OWASP_TECHNICAL_FACTORS = {
+    LC: [2, 6, 7, 9],       // loss of confidentiality
+    LI: [1, 3, 5, 7, 9],    // loss of integrity
+    LAV: [1, 5, 7, 9],      // loss of availability
+    LAC: [1, 7, 9]          // loss of accountability
+};
+
+const OWASP_BUSINESS_FACTORS = {
+    FD: [1, 3, 7, 9],       // financial damage
+    RD: [1, 4, 5, 9],       // reputation damage
+    NC: [2, 5, 7],          // non-compliance
+    PV: [3, 5, 7, 9]        // privacy violation
+};
+
+const OWASP_FACTORS: Record<string, readonly string[]> = Object.fromEntries(
+    Object.entries({ ...OWASP_LIKELIHOOD_FACTORS, ...OWASP_TECHNICAL_FACTORS, ...OWASP_BUSINESS_FACTORS })
+        .map(([key, values]) => [key, values.map(String)])
+);
+
+/**
+ * Factor values picked for each likelihood, and for each impact of the harmed properties
+ */
+const OWASP_BY_LIKELIHOOD: Record<Threat['likelihood'], Record<keyof typeof OWASP_LIKELIHOOD_FACTORS, number>> = {
+    low: { SL: 3, M: 1, O: 4, S: 2, ED: 3, EE: 3, A: 4, ID: 3 },
+    medium: { SL: 5, M: 4, O: 7, S: 5, ED: 7, EE: 5, A: 6, ID: 8 },
+    high: { SL: 6, M: 9, O: 9, S: 9, ED: 9, EE: 9, A: 9, ID: 9 }
+};
+
+const OWASP_BY_IMPACT: Record<Threat['impact'], { LC: number; LI: number; LAV: number; FD: number; RD: number; NC: number; PV: number }> = {
+    low: { LC: 2, LI: 3, LAV: 1, FD: 1, RD: 1, NC: 2, PV: 3 },
+    medium: { LC: 6, LI: 5, LAV: 5, FD: 3, RD: 4, NC: 5, PV: 5 },
+    high: { LC: 7, LI: 7, LAV: 7, FD: 7, RD: 5, NC: 7, PV: 7 },
+    critical: { LC: 9, LI: 9, LAV: 9, FD: 9, RD: 9, NC: 7, PV: 9 }
+};
+
+const OWASP_SEVERITY: Record<string, RiskLevel> = {
+    // likelihood level, impact level -> overall severity; "note" is reported as low
+    'low/low': 'low', 'medium/low': 'low', 'high/low': 'medium',
+    'low/medium': 'low', 'medium/medium': 'medium', 'high/medium': 'high',
+    'low/high': 'medium', 'medium/high': 'high', 'high/high': 'critical'
+};
+
+const owasp: RiskScorer = {
+    method: 'owasp',
+    matches: vector => /^\(?SL:/.test(vector),
+    derive(threat) {
+        const byImpact = OWASP_BY_IMPACT[threat.impact];
+        const harmed = HARMED[threat.category];
+        const exposesPeople = harmed.includes('C');
+        return format({
+            ...OWASP_BY_LIKELIHOOD[threat.likelihood],
+            LC: harmed.includes('C') ? byImpact.LC : 2,
+            LI: harmed.includes('I') && threat.category !== 'Repudiation' ? byImpact.LI : 1,
+            LAV: harmed.includes('A') ? byImpact.LAV : 1,
+            LAC: threat.category === 'Repudiation' ? 9 : threat.category === 'Spoofing' ? 7 : 1,
+            FD: byImpact.FD,
+            RD: byImpact.RD,
+            NC: byImpact.NC,
+            PV: exposesPeople ? byImpact.PV : 3
+        });
+    },
+    score(vector) {
+        const metrics = parseMetrics(vector.replace(/^\((.*)\)$/, '$1'), OWASP_FACTORS, Object.keys(OWASP_FACTORS), 'OWASP Risk Rating');
+        const average = (factors: object) => {
+            const keys = Object.keys(factors);
+            return keys.reduce((total, key) => total + Number(metrics[key]), 0) / keys.length;
+        };
+        const likelihood = average(OWASP_LIKELIHOOD_FACTORS);
+        // The worse of technical and business impact
+        const impact = Math.max(average(OWASP_TECHNICAL_FACTORS), average(OWASP_BUSINESS_FACTORS));
+        const level = (value: number) => value < 3 ? 'low' : value < 6 ? 'medium' : 'high';
+        return {
+            score: Math.round(likelihood * impact / 8.1 * 10) / 10,
+            risk: OWASP_SEVERITY[`${level(likelihood)}/${level(impact)}`] as RiskLevel
+        };
+    },
+    // The matrix rates likelihood and impact levels, so a bare score is rated by the products of their lower bounds
+    rate(score) {
+        if (score >= 6 * 6 / 8.1) return 'critical';
+        if (score >= 6 * 3 / 8.1) return 'high';
+        if (score >= 3 * 3 / 8.1) return 'medium';
+        return 'low';
+    }
+};
+
+// ==================== DREAD ====================
+
+const DREAD_METRICS = ['DA', 'R', 'E', 'A', 'DI'];
+
+const dread: RiskScorer = {
+    method: 'dread',
+    matches: vector => vector.startsWith('DA:'),
+    derive: threat => format({
+        DA: { low: 3, medium: 5, high: 8, critical: 10 }[threat.impact],
+        R: { low: 3, medium: 6, high: 9 }[threat.likelihood],
+        E: { low: 2, medium: 5, high: 8 }[threat.likelihood],
+        A: { low: 2, medium: 5, high: 7, critical: 10 }[threat.impact],
+        DI: { low: 3, medium: 6, high: 9 }[threat.likelihood]
+    }),
+    score(vector) {
+        const values = Array.from({ length: 11 }, (_, value) => String(value));
+        const metrics = parseMetrics(vector, Object.fromEntries(DREAD_METRICS.map(key => [key, values])), DREAD_METRICS, 'DREAD');
+        const score = Math.round(DREAD_METRICS.reduce((total, key) => total + Number(metrics[key]), 0) / DREAD_METRICS.length * 10) / 10;
+        return { score, risk: bandRisk(score) };
+    },
+    rate: bandRisk
+};
+
+export const RISK_SCORERS: Record<RiskScoringMethod, RiskScorer> = {
+    'likelihood-impact': likelihoodImpact,
+    'cvss-3.1': cvss31,
+    'cvss-4.0': cvss40,
+    'owasp': owasp,
+    'dread': dread
+};
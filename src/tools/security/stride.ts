@@ -0,0 +1,307 @@
+// STRIDE per element and per interaction - threats tied to the elements and data flows of a system model
+import type { Threat } from '../../types/tools.js';
+import type { SystemModel, SystemElement, SystemElementType, DataFlow } from '../../types/tech-lead.js';
+import type { SensitiveData } from '../../types/domain.js';
+
+export type ModelThreat = Omit<Threat, 'id' | 'riskScore'>;
+
+type Category = Threat['category'];
+type Likelihood = Threat['likelihood'];
+type Impact = Threat['impact'];
+type Target = SystemElementType | 'data_flow';
+
+interface Rule {
+    name: (subject: string) => string;
+    description: (subject: string) => string;
+    impact: Impact;
+    cwe: string;
+    owasp: string;
+    mitigation: string[];
+}
+
+/**
+ * Which STRIDE categories apply to which kind of element (Microsoft STRIDE-per-element),
+ * with the threat each combination describes
+ */
+const RULES: Record<Target, Partial<Record<Category, Rule>>> = {
+    external_entity: {
+        'Spoofing': {
+            name: subject => `${subject} impersonated`,
+            description: subject => `An attacker poses as ${subject} to send requests into the system`,
+            impact: 'high',
+            cwe: 'CWE-290',
+            owasp: 'A07:2021',
+            mitigation: ['Authenticate every caller (MFA for people, mTLS or signed tokens for systems)', 'Bind sessions to the authenticated identity']
+        },
+        'Repudiation': {
+            name: subject => `${subject} denies its actions`,
+            description: subject => `${subject} denies having sent a request and the system cannot prove otherwise`,
+            impact: 'medium',
+            cwe: 'CWE-778',
+            owasp: 'A09:2021',
+            mitigation: ['Log who did what and when for every request', 'Sign or timestamp requests that carry legal weight']
+        }
+    },
+    process: {
+        'Spoofing': {
+            name: subject => `Authentication bypass on ${subject}`,
+            description: subject => `A caller reaches ${subject} without proving who they are, or with a stolen identity`,
+            impact: 'high',
+            cwe: 'CWE-287',
+            owasp: 'A07:2021',
+            mitigation: ['Require authentication on every entry point', 'Use secure session management', 'Monitor for suspicious login patterns']
+        },
+        'Tampering': {
+            name: subject => `Malicious input to ${subject}`,
+            description: subject => `Crafted input changes the behavior of ${subject} (injection, parameter tampering)`,
+            impact: 'high',
+            cwe: 'CWE-20',
+            owasp: 'A03:2021',
+            mitigation: ['Validate input against an allow-list schema', 'Use parameterized queries and output encoding']
+        },
+        'Repudiation': {
+            name: subject => `Unaudited actions in ${subject}`,
+            description: subject => `Actions performed through ${subject} leave no trustworthy record of who performed them`,
+            impact: 'medium',
+            cwe: 'CWE-778',
+            owasp: 'A09:2021',
+            mitigation: ['Write audit events with actor, action and outcome', 'Ship logs to an append-only store']
+        },
+        'Information Disclosure': {
+            name: subject => `Data leakage from ${subject}`,
+            description: subject => `${subject} exposes sensitive data through responses, errors or logs`,
+            impact: 'high',
+            cwe: 'CWE-200',
+            owasp: 'A01:2021',
+            mitigation: ['Return only the fields a caller is allowed to see', 'Keep stack traces and secrets out of responses', 'Mask sensitive data in logs']
+        },
+        'Denial of Service': {
+            name: subject => `Resource exhaustion of ${subject}`,
+            description: subject => `Floods or expensive requests make ${subject} unavailable`,
+            impact: 'medium',
+            cwe: 'CWE-770',
+            owasp: 'A04:2021',
+            mitigation: ['Rate limit per caller', 'Bound request sizes and timeouts', 'Enable auto-scaling']
+        },
+        'Elevation of Privilege': {
+            name: subject => `Privilege escalation via ${subject}`,
+            description: subject => `A caller of ${subject} performs operations beyond their role`,
+            impact: 'critical',
+            cwe: 'CWE-269',
+            owasp: 'A01:2021',
+            mitigation: ['Enforce authorization on every operation', 'Apply principle of least privilege', 'Regular permission audits']
+        }
+    },
+    data_store: {
+        'Tampering': {
+            name: subject => `Unauthorized modification of ${subject}`,
+            description: subject => `Records in ${subject} are changed outside the application's rules`,
+            impact: 'high',
+            cwe: 'CWE-284',
+            owasp: 'A01:2021',
+            mitigation: ['Restrict write access to the owning service account', 'Implement integrity checks (HMAC)', 'Enable audit logging']
+        },
+        'Repudiation': {
+            name: subject => `Log tampering in ${subject}`,
+            description: subject => `Entries in ${subject} are forged or deleted, erasing evidence of actions`,
+            impact: 'medium',
+            cwe: 'CWE-117',
+            owasp: 'A09:2021',
+            mitigation: ['Make the log append-only (WORM storage)', 'Neutralize user input written to logs', 'Hash-chain or sign log entries']
+        },
+        'Information Disclosure': {
+            name: subject => `Data exposure from ${subject}`,
+            description: subject => `Data in ${subject} is read by someone who should not see it, directly or from backups`,
+            impact: 'high',
+            cwe: 'CWE-311',
+            owasp: 'A02:2021',
+            mitigation: ['Encrypt sensitive data at rest', 'Restrict read access by role', 'Encrypt backups']
+        },
+        'Denial of Service': {
+            name: subject => `Unavailability of ${subject}`,
+            description: subject => `${subject} is exhausted or corrupted so dependent processes fail`,
+            impact: 'medium',
+            cwe: 'CWE-400',
+            owasp: 'A04:2021',
+            mitigation: ['Set connection and storage quotas', 'Replicate and back up the store']
+        }
+    },
+    data_flow: {
+        'Tampering': {
+            name: subject => `Tampering with ${subject}`,
+            description: subject => `Data on ${subject} is modified in transit`,
+            impact: 'high',
+            cwe: 'CWE-345',
+            owasp: 'A08:2021',
+            mitigation: ['Use TLS with certificate validation', 'Sign messages that cross the boundary']
+        },
+        'Information Disclosure': {
+            name: subject => `Eavesdropping on ${subject}`,
+            description: subject => `Data on ${subject} is read in transit`,
+            impact: 'high',
+            cwe: 'CWE-319',
+            owasp: 'A02:2021',
+            mitigation: ['Encrypt the channel with TLS 1.2+', 'Avoid sensitive data in URLs and headers']
+        },
+        'Denial of Service': {
+            name: subject => `Flooding of ${subject}`,
+            description: subject => `${subject} is flooded or interrupted so requests cannot get through`,
+            impact: 'medium',
+            cwe: 'CWE-400',
+            owasp: 'A04:2021',
+            mitigation: ['Rate limit at the edge (API gateway, WAF)', 'Use DDoS protection']
+        }
+    }
+};
+
+const LIKELIHOODS: Likelihood[] = ['low', 'medium', 'high'];
+const IMPACTS: Impact[] = ['low', 'medium', 'high', 'critical'];
+const LOG_STORE = /\b(log|logs|audit)\b/i;
+
+/**
+ * Threats for every element and data flow of a model. Every process gets all six categories, rated
+ * by the flows it receives: an entry point facing untrusted callers is likelier to be attacked than an
+ * internal process. Flows get threats where they cross a trust boundary.
+ */
+export function analyzeSystemModel(model: SystemModel, sensitiveData: SensitiveData[] = []): ModelThreat[] {
+    validateSystemModel(model);
+
+    const elements = new Map(model.elements.map(element => [element.id, element]));
+    const element = (id: string) => elements.get(id) as SystemElement;
+    const crosses = (flow: DataFlow) => flow.crossesBoundary ?? element(flow.from).boundary !== element(flow.to).boundary;
+    const impactOf = dataImpact(sensitiveData);
+    const threats: ModelThreat[] = [];
+
+    const add = (target: Target, category: Category, subject: string, elementId: string, likelihood: Likelihood, data: string[] = []) => {
+        const rule = RULES[target][category] as Rule;
+        threats.push({
+            category,
+            name: rule.name(subject),
+            description: rule.description(subject),
+            targetComponent: subject,
+            likelihood,
+            impact: category === 'Tampering' || category === 'Information Disclosure'
+                ? maxImpact(rule.impact, impactOf(data))
+                : rule.impact,
+            cwe: rule.cwe,
+            owasp: rule.owasp,
+            elementId,
+            elementType: target,
+            mitigation: rule.mitigation
+        });
+    };
+
+    for (const item of model.elements) {
+        const inbound = model.dataFlows.filter(flow => flow.to === item.id);
+        const outbound = model.dataFlows.filter(flow => flow.from === item.id);
+        const touched = [...inbound, ...outbound];
+        const data = [...(item.sensitiveData ?? []), ...touched.flatMap(flow => flow.data ?? [])];
+
+        if (item.type === 'external_entity') {
+            if (touched.length === 0) continue;
+            const likelihood = item.boundary ? 'medium' : 'high';
+            add('external_entity', 'Spoofing', item.name, item.id, likelihood);
+            if (outbound.length > 0) add('external_entity', 'Repudiation', item.name, item.id, likelihood);
+            continue;
+        }
+
+        if (item.type === 'data_store') {
+            add('data_store', 'Tampering', item.name, item.id, 'medium', data);
+            if (LOG_STORE.test(item.name)) add('data_store', 'Repudiation', item.name, item.id, 'medium');
+            add('data_store', 'Information Disclosure', item.name, item.id, 'medium', data);
+            add('data_store', 'Denial of Service', item.name, item.id, 'low');
+            continue;
+        }
+
+        // Processes: exposure is set by the least trusted caller crossing into them; internal ones are reached
+        // only through another component, so they are rated one step below a boundary-facing process
+        const external = inbound.filter(flow => crosses(flow) && element(flow.from).type === 'external_entity');
+        const exposure: Likelihood = external.length === 0
+            ? lower('medium')
+            : external.some(flow => !element(flow.from).boundary) ? 'high' : 'medium';
+
+        const spoofing = external.length > 0 && external.every(flow => flow.authenticated) ? lower(exposure) : exposure;
+        add('process', 'Spoofing', item.name, item.id, spoofing);
+        add('process', 'Tampering', item.name, item.id, exposure, data);
+        add('process', 'Repudiation', item.name, item.id, exposure);
+        add('process', 'Information Disclosure', item.name, item.id, exposure, data);
+        add('process', 'Denial of Service', item.name, item.id, exposure);
+        add('process', 'Elevation of Privilege', item.name, item.id, lower(exposure));
+    }
+
+    // STRIDE per interaction: flows are attacked where they leave one trust zone for another
+    for (const flow of model.dataFlows) {
+        const from = element(flow.from);
+        const to = element(flow.to);
+        const subject = `${flow.name} (${from.name} → ${to.name})`;
+        const untrusted = [from, to].some(end => end.type === 'external_entity' && !end.boundary);
+
+        if (crosses(flow)) {
+            const likelihood: Likelihood = untrusted ? 'high' : 'medium';
+            const inTransit = flow.encrypted ? lower(likelihood) : likelihood;
+            add('data_flow', 'Tampering', subject, flow.id, inTransit, flow.data);
+            add('data_flow', 'Information Disclosure', subject, flow.id, inTransit, flow.data);
+            if (from.type === 'external_entity') add('data_flow', 'Denial of Service', subject, flow.id, likelihood);
+        } else if (flow.encrypted === false && (flow.data ?? []).length > 0) {
+            add('data_flow', 'Information Disclosure', subject, flow.id, 'low', flow.data);
+        }
+    }
+
+    return threats;
+}
+
+/**
+ * Reject models whose flows or elements point at IDs that do not exist
+ */
+export function validateSystemModel(model: SystemModel): void {
+    const ids = new Set<string>();
+    for (const id of [...model.elements.map(element => element.id), ...model.dataFlows.map(flow => flow.id)]) {
+        if (ids.has(id)) throw new Error(`System model: duplicate ID ${id}`);
+        ids.add(id);
+    }
+
+    const elementIds = new Set(model.elements.map(element => element.id));
+    const boundaryIds = new Set(model.trustBoundaries.map(boundary => boundary.id));
+    for (const element of model.elements) {
+        if (element.boundary && !boundaryIds.has(element.boundary)) {
+            throw new Error(`System model: element ${element.id} is in unknown trust boundary ${element.boundary}`);
+        }
+    }
+    for (const flow of model.dataFlows) {
+        for (const end of [flow.from, flow.to]) {
+            if (!elementIds.has(end)) throw new Error(`System model: data flow ${flow.id} references unknown element ${end}`);
+        }
+    }
+}
+
+/**
+ * Elements named by a threat's affected components, in the order listed: the first element
+ * whose name contains each component
+ */
+export function affectedElements(threat: Pick<Threat, 'affectedComponents'>, elements: SystemElement[]): SystemElement[] {
+    const matches: SystemElement[] = [];
+    for (const component of threat.affectedComponents ?? []) {
+        const match = elements.find(element => element.name.toLowerCase().includes(component.toLowerCase()));
+        if (match && !matches.includes(match)) matches.push(match);
+    }
+    return matches;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Impact of exposing a set of data types, from the domain's sensitivity levels. Types the
+ * domain does not list count as high so that user-supplied models are not under-rated.
+ */
+function dataImpact(sensitiveData: SensitiveData[]): (data: string[]) => Impact {
+    const levels = new Map(sensitiveData.map(data => [data.type.toLowerCase(), data.level]));
+    return data => data.reduce<Impact>((impact, type) => maxImpact(impact, levels.get(type.toLowerCase()) ?? 'high'), 'low');
+}
+
+function maxImpact(a: Impact, b: Impact): Impact {
+    return IMPACTS.indexOf(a) >= IMPACTS.indexOf(b) ? a : b;
+}
+
+function lower(likelihood: Likelihood): Likelihood {
+    return LIKELIHOODS[Math.max(0, LIKELIHOODS.indexOf(likelihood) - 1)] as Likelihood;
+}
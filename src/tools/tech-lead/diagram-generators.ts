@@ -3,8 +3,9 @@
  * Generate Mermaid diagrams for system architecture visualization
  */
 
-import type { Module, Feature } from '../../types/tech-lead.js';
+import type { Module, Feature, SystemModel, SystemElement, DataFlow, TrustBoundary } from '../../types/tech-lead.js';
 import type { LoadedDomain } from '../../domains/loader.js';
+import type { DomainDataFlow } from '../../types/domain.js';
 
 // ==================== DATA FLOW DIAGRAMS ====================
 
@@ -18,16 +19,28 @@ export interface DFDOutput {
     level0: string; // Context diagram - system boundaries
     level1: string; // High-level processes
     level2: string; // Detailed process decomposition
+    domainFlows: DomainFlowDiagram[]; // One per data flow in domain.yaml
+    model: SystemModel; // Elements, flows and trust boundaries behind the diagrams
+}
+
+export interface DomainFlowDiagram {
+    name: string;
+    diagram: string;
 }
 
 /**
- * Generate all DFD levels (0, 1, 2)
+ * Generate all DFD levels (0, 1, 2) plus the domain's critical data flows
  */
 export function generateDataFlowDiagrams(input: DFDInput): DFDOutput {
     return {
         level0: generateDFDLevel0(input),
         level1: generateDFDLevel1(input),
-        level2: generateDFDLevel2(input)
+        level2: generateDFDLevel2(input),
+        domainFlows: (input.domain?.domain.dataFlows || []).map(flow => ({
+            name: flow.name,
+            diagram: generateDomainFlowDiagram(flow)
+        })),
+        model: buildSystemModel(input)
     };
 }
 
@@ -54,9 +67,23 @@ function generateDFDLevel0(input: DFDInput): string {
         lines.push(`    ${entityId}["👤 ${stakeholder.name}"]`);
     });
     
-    // Add common external entities
-    lines.push('    DB[("💾 Database")]');
-    lines.push('    API["🌐 External APIs"]');
+    // External systems: the domain's integration points, or generic placeholders
+    const integrations = input.domain?.domain.integrationPoints;
+    const apis = integrations?.externalApis.length
+        ? integrations.externalApis.map((api, idx) => ({
+            id: `API${idx + 1}`,
+            label: api.name,
+            flow: [api.protocol, api.auth].filter(Boolean).join(', ') || 'API calls'
+        }))
+        : [{ id: 'API', label: 'External APIs', flow: 'API calls' }];
+    const databases = integrations?.databases.length
+        ? integrations.databases.map((db, idx) => ({ id: `DB${idx + 1}`, label: db.name }))
+        : [{ id: 'DB', label: 'Database' }];
+    const queues = (integrations?.messageQueues || []).map((queue, idx) => ({ id: `MQ${idx + 1}`, label: queue.name }));
+
+    databases.forEach(db => lines.push(`    ${db.id}[("💾 ${escapeLabel(db.label)}")]`));
+    apis.forEach(api => lines.push(`    ${api.id}["🌐 ${escapeLabel(api.label)}"]`));
+    queues.forEach(queue => lines.push(`    ${queue.id}[["📨 ${escapeLabel(queue.label)}"]]`));
     lines.push('    Auth["🔐 Auth Service"]');
     lines.push('');
     
@@ -69,15 +96,16 @@ function generateDFDLevel0(input: DFDInput): string {
         lines.push(`    System -->|"Return ${accessType}"| ${entityId}`);
     });
     
-    lines.push('    System <-->|"CRUD operations"| DB');
-    lines.push('    System -->|"API calls"| API');
+    databases.forEach(db => lines.push(`    System <-->|"CRUD operations"| ${db.id}`));
+    apis.forEach(api => lines.push(`    System -->|"${escapeLabel(api.flow)}"| ${api.id}`));
+    queues.forEach(queue => lines.push(`    System <-->|"Messages"| ${queue.id}`));
     lines.push('    System <-->|"Auth tokens"| Auth');
     lines.push('');
     
     // Styling
     lines.push('    style System fill:#4A90E2,color:#fff,stroke:#2E5C8A');
-    lines.push('    style DB fill:#50C878,color:#fff');
-    lines.push('    style API fill:#FF6B6B,color:#fff');
+    databases.forEach(db => lines.push(`    style ${db.id} fill:#50C878,color:#fff`));
+    apis.forEach(api => lines.push(`    style ${api.id} fill:#FF6B6B,color:#fff`));
     lines.push('    style Auth fill:#FFD93D,color:#333');
     lines.push('```');
     
@@ -216,6 +244,177 @@ function generateDFDLevel2(input: DFDInput): string {
     return lines.join('\n');
 }
 
+/**
+ * Domain data flow - the steps from domain.yaml in order, with their security controls
+ */
+function generateDomainFlowDiagram(flow: DomainDataFlow): string {
+    const lines: string[] = [];
+
+    lines.push('```mermaid');
+    lines.push('flowchart TB');
+    lines.push(`    %% Domain Data Flow - ${flow.name}`);
+    lines.push('');
+
+    flow.steps.forEach((step, idx) => {
+        lines.push(`    S${idx + 1}["${idx + 1}. ${escapeLabel(step)}"]`);
+    });
+    if (flow.securityControls.length > 0) {
+        lines.push(`    Controls["🔒 Security Controls<br/>${flow.securityControls.map(escapeLabel).join('<br/>')}"]`);
+    }
+    lines.push('');
+
+    lines.push('    %% Data Flows');
+    for (let idx = 1; idx < flow.steps.length; idx++) {
+        lines.push(`    S${idx} --> S${idx + 1}`);
+    }
+    if (flow.securityControls.length > 0 && flow.steps.length > 0) {
+        lines.push('    Controls -.- S1');
+    }
+    lines.push('');
+
+    if (flow.securityControls.length > 0) {
+        lines.push('    style Controls fill:#FFD93D,color:#333');
+    }
+    lines.push('```');
+
+    return lines.join('\n');
+}
+
+// ==================== SYSTEM MODEL ====================
+
+const ENCRYPTED_TRANSPORT = /https|tls|ssl|sftp|mtls|wss/i;
+
+/**
+ * Structured DFD for threat modeling: stakeholders and external APIs as external entities,
+ * modules as processes, databases and queues as data stores, and the trust boundaries between them.
+ * End users, partners and third-party APIs sit outside every boundary.
+ */
+export function buildSystemModel(input: DFDInput): SystemModel {
+    const domain = input.domain?.domain;
+    const integrations = domain?.integrationPoints;
+    const sensitiveTypes = (domain?.sensitiveData || []).map(data => data.type);
+
+    const boundaries = {
+        application: { id: 'TB1', name: 'Application' },
+        data: { id: 'TB2', name: 'Data Tier' },
+        corporate: { id: 'TB3', name: 'Corporate Network' }
+    } satisfies Record<string, TrustBoundary>;
+
+    const elements: SystemElement[] = [];
+    const dataFlows: DataFlow[] = [];
+    const addFlow = (flow: Omit<DataFlow, 'id'>) => dataFlows.push({ id: `F${dataFlows.length + 1}`, ...flow });
+
+    // External entities: people first, then third-party systems
+    const stakeholders = domain?.stakeholders.length
+        ? domain.stakeholders
+        : [{ name: 'User', type: 'end_user' as const, dataAccess: 'data' }];
+    const actors = stakeholders.map((stakeholder, idx) => {
+        const element: SystemElement = {
+            id: `EE${idx + 1}`,
+            name: stakeholder.name,
+            type: 'external_entity',
+            boundary: stakeholder.type === 'internal' || stakeholder.type === 'governance'
+                ? boundaries.corporate.id
+                : undefined
+        };
+        elements.push(element);
+        return { element, dataAccess: stakeholder.dataAccess };
+    });
+    const apis = (integrations?.externalApis || []).map((api, idx) => {
+        const element: SystemElement = { id: `EE${actors.length + idx + 1}`, name: api.name, type: 'external_entity' };
+        elements.push(element);
+        return { element, api };
+    });
+
+    // Processes: every module except plain data models
+    const modules = input.modules.filter(module => module.type !== 'model');
+    const processes = (modules.length > 0 ? modules : [{ name: 'Application', type: 'service' as const, dependencies: [] }])
+        .map((module, idx) => {
+            const element: SystemElement = {
+                id: `P${idx + 1}`,
+                name: module.name,
+                type: 'process',
+                boundary: boundaries.application.id
+            };
+            elements.push(element);
+            return { element, module };
+        });
+
+    // Data stores: the domain's databases (or a generic one) and message queues
+    const databases = (integrations?.databases.length ? integrations.databases.map(db => db.name) : ['Database'])
+        .map(name => ({ name, sensitiveData: sensitiveTypes }));
+    const queues = (integrations?.messageQueues || []).map(queue => ({ name: queue.name, sensitiveData: [] as string[] }));
+    const stores = [...databases, ...queues].map((store, idx) => {
+        const element: SystemElement = {
+            id: `DS${idx + 1}`,
+            name: store.name,
+            type: 'data_store',
+            boundary: boundaries.data.id,
+            sensitiveData: store.sensitiveData.length > 0 ? store.sensitiveData : undefined
+        };
+        elements.push(element);
+        return element;
+    });
+    const databaseStores = stores.slice(0, databases.length);
+    const queueStores = stores.slice(databases.length);
+
+    // Requests enter through controllers, or the first process when there are none
+    const controllers = processes.filter(({ module }) => module.type === 'controller');
+    const entryPoints = controllers.length > 0 ? controllers : processes.slice(0, 1);
+    for (const actor of actors) {
+        for (const entry of entryPoints) {
+            addFlow({
+                name: `Request ${(actor.dataAccess || 'data').replace(/_/g, ' ')}`,
+                from: actor.element.id,
+                to: entry.element.id,
+                data: actor.dataAccess ? [actor.dataAccess] : undefined
+            });
+        }
+    }
+
+    // Calls between modules follow their dependencies
+    for (const { element, module } of processes) {
+        for (const dependency of module.dependencies) {
+            const target = processes.find(process => process.module.name === dependency);
+            if (target && target.element.id !== element.id) {
+                addFlow({ name: `Call ${dependency}`, from: element.id, to: target.element.id });
+            }
+        }
+    }
+
+    // Repositories own persistence; without them services (or every process) talk to the databases
+    const byType = (type: Module['type']) => processes.filter(({ module }) => module.type === type);
+    const persisters = [byType('repository'), byType('service'), processes].find(group => group.length > 0) ?? [];
+    for (const { element } of persisters) {
+        for (const store of databaseStores) {
+            addFlow({ name: 'Data persistence', from: element.id, to: store.id, data: store.sensitiveData });
+        }
+    }
+
+    const integrator = (byType('service')[0] ?? processes[0]).element;
+    for (const store of queueStores) {
+        addFlow({ name: 'Messages', from: integrator.id, to: store.id });
+    }
+    for (const { element, api } of apis) {
+        const transport = [api.protocol, api.auth].filter(Boolean).join(' ');
+        addFlow({
+            name: api.purpose || 'API calls',
+            from: integrator.id,
+            to: element.id,
+            protocol: api.protocol,
+            encrypted: transport ? ENCRYPTED_TRANSPORT.test(transport) : undefined,
+            authenticated: api.auth ? true : undefined
+        });
+    }
+
+    const used = new Set(elements.map(element => element.boundary));
+    return {
+        elements,
+        dataFlows,
+        trustBoundaries: Object.values(boundaries).filter(boundary => used.has(boundary.id))
+    };
+}
+
 // ==================== ENTITY RELATIONSHIP DIAGRAMS ====================
 
 export interface ERDInput {
@@ -467,6 +666,13 @@ function getRelationshipSymbol(type: 'one-to-one' | 'one-to-many' | 'many-to-man
     }
 }
 
+/**
+ * Quotes would end a Mermaid label early
+ */
+function escapeLabel(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
+
 function capitalize(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1);
 }
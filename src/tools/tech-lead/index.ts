@@ -7,11 +7,13 @@ import { generateArchitectureDiagram, generateComponentDiagram } from './archite
 import { generateProjectStructure } from './scaffold-structure.js';
 import { generateDesignPatterns } from './design-patterns.js';
 import { generateDataFlowDiagrams, generateEntityRelationshipDiagram } from './diagram-generators.js';
+import { loadDomain, type LoadedDomain } from '../../domains/loader.js';
+import { includesDomain } from '../../domains/compose.js';
 import type { TechLeadOutput, FileStructure } from '../../types/tech-lead.js';
 
 // Export diagram generators for external use
-export { generateDataFlowDiagrams, generateEntityRelationshipDiagram } from './diagram-generators.js';
-export type { DFDInput, DFDOutput, ERDInput, ERDOutput } from './diagram-generators.js';
+export { generateDataFlowDiagrams, generateEntityRelationshipDiagram, buildSystemModel } from './diagram-generators.js';
+export type { DFDInput, DFDOutput, DomainFlowDiagram, ERDInput, ERDOutput } from './diagram-generators.js';
 
 export interface TechLeadInput {
     userStories: UserStory[];
@@ -19,6 +21,7 @@ export interface TechLeadInput {
     targetLanguage?: PseudocodeLanguage;
     projectName?: string;
     domainName?: string;
+    domain?: LoadedDomain;      // already loaded domain; otherwise loaded from domainName
 }
 
 /**
@@ -30,8 +33,11 @@ export async function techLeadDesign(input: TechLeadInput): Promise<TechLeadOutp
         securityRequirements = [],
         targetLanguage = 'python',
         projectName = 'System',
-        domainName
+        domainName = input.domain?.name
     } = input;
+    const domain = input.domain ?? (domainName ? await loadDomain(domainName) : undefined);
+    // Module and layout templates exist for single domains; a composed domain uses secure_comm's when it includes it
+    const templateDomain = includesDomain(domain, 'secure_comm') ? 'secure_comm' : domainName;
 
     // Step 1: Generate feature checklist
     const features = generateFeatureChecklist(userStories, securityRequirements);
@@ -40,7 +46,7 @@ export async function techLeadDesign(input: TechLeadInput): Promise<TechLeadOutp
     const flows = generateFeatureFlows(features);
 
     // Step 3: Generate module breakdown
-    const modules = generateModuleBreakdown(features, domainName);
+    const modules = generateModuleBreakdown(features, templateDomain);
 
     // Step 4: Generate pseudocode (QUAN TRỌNG)
     const pseudocode = generatePseudocode(modules, targetLanguage);
@@ -49,15 +55,16 @@ export async function techLeadDesign(input: TechLeadInput): Promise<TechLeadOutp
     const architectureDiagram = generateArchitectureDiagram(modules, features, projectName);
 
     // Step 6: Generate project structure
-    const fileStructure = generateProjectStructure(domainName);
+    const fileStructure = generateProjectStructure(templateDomain);
 
     // Step 7: Generate design patterns
-    const designPatterns = generateDesignPatterns(domainName);
+    const designPatterns = generateDesignPatterns(templateDomain);
 
-    // Step 8: Generate data flow diagrams (DFD Level 0, 1, 2)
+    // Step 8: Generate data flow diagrams (DFD Level 0, 1, 2 and domain data flows)
     const dataFlowDiagrams = generateDataFlowDiagrams({
         modules,
-        features
+        features,
+        domain
     });
 
     // Step 9: Generate entity relationship diagram (ERD)
@@ -1,7 +1,6 @@
 import { Feature, FileStructure } from '../../types/tech-lead.js';
 
 export function generateProjectStructure(domainName?: string): FileStructure[] {
-    console.log(`[DEBUG] generateProjectStructure called with domainName: '${domainName}'`);
     if (domainName === 'secure_comm') {
         return generateSecureCommStructure();
     }
@@ -0,0 +1,238 @@
+// Streamable HTTP Transport - serve MCP sessions over HTTP (SSE streaming) for shared deployments
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const HEALTH_ENDPOINT = '/health';
+
+export const DEFAULT_HOST = '127.0.0.1';
+
+// Request bodies are JSON-RPC messages; anything larger is rejected
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+export interface HttpTransportOptions {
+    port: number;
+    host?: string;              // default: 127.0.0.1; any other address needs authToken
+    authToken?: string;         // when set, requests to /mcp need "Authorization: Bearer <token>"
+    allowedHosts?: string[];    // Host headers accepted besides localhost and the bind address, e.g. ssdlc.internal:8080
+    sessionIdleMs?: number;     // sessions without open requests are closed after this long; default: 30 minutes
+    maxSessions?: number;       // new sessions are refused beyond this; default: 100
+    createServer: () => Server; // called once per session
+}
+
+export interface HttpTransportHandle {
+    httpServer: HttpServer;
+    port: number;
+    sessionCount: () => number;
+    close: () => Promise<void>;
+}
+
+interface Session {
+    transport: StreamableHTTPServerTransport;
+    server: Server;
+    lastSeen: number;
+    openRequests: number;       // including SSE streams, which stay open while the client listens
+}
+
+/**
+ * Start the HTTP server. Each client session (mcp-session-id header) gets its own MCP server.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+    const host = options.host ?? DEFAULT_HOST;
+    if (!isLoopback(host) && !options.authToken) {
+        throw new Error(`Refusing to listen on ${host} without a bearer token: set SSDLC_AUTH_TOKEN or bind to ${DEFAULT_HOST}`);
+    }
+
+    const sessions = new Map<string, Session>();
+    const allowedHosts: string[] = [];
+
+    // Clients that vanish without DELETE would otherwise keep their server and domain watchers forever
+    const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+    const sweep = setInterval(() => {
+        const now = Date.now();
+        for (const [id, session] of sessions) {
+            if (session.openRequests === 0 && now - session.lastSeen > idleMs) {
+                closeSession(sessions, id).catch(error => console.error('Closing idle session failed:', error));
+            }
+        }
+    }, Math.max(Math.min(idleMs / 2, 60_000), 10));
+    sweep.unref();
+
+    const httpServer = createHttpServer((req, res) => {
+        handleRequest(req, res, sessions, allowedHosts, options).catch(error => {
+            console.error('HTTP request failed:', error);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, -32603, 'Internal server error');
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', (error) => {
+            clearInterval(sweep);
+            reject(error);
+        });
+        httpServer.listen(options.port, host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+
+    const address = httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+
+    // DNS rebinding protection: browsers send the attacker's name as Host, so only known names are served
+    const boundNames = isLoopback(host) || host === '0.0.0.0' || host === '::' ? [] : [host.includes(':') ? `[${host}]` : host];
+    allowedHosts.push(...new Set([
+        ...['localhost', '127.0.0.1', '[::1]', ...boundNames].map(name => `${name}:${port}`),
+        ...options.allowedHosts ?? []
+    ]));
+
+    return {
+        httpServer,
+        port,
+        sessionCount: () => sessions.size,
+        close: async () => {
+            clearInterval(sweep);
+            await Promise.all([...sessions.keys()].map(id => closeSession(sessions, id)));
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
+        }
+    };
+}
+
+// ==================== REQUEST HANDLING ====================
+
+async function handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessions: Map<string, Session>,
+    allowedHosts: string[],
+    options: HttpTransportOptions
+): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_ENDPOINT && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+    }
+
+    if (path !== MCP_ENDPOINT) {
+        sendJson(res, 404, { error: `Not found: ${path}` });
+        return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+        return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+        try {
+            body = await readJsonBody(req);
+        } catch (error) {
+            sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+        const session = sessions.get(sessionId);
+        if (!session) {
+            sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+            return;
+        }
+        session.openRequests++;
+        session.lastSeen = Date.now();
+        res.once('close', () => {
+            session.openRequests--;
+            session.lastSeen = Date.now();
+        });
+        await session.transport.handleRequest(req, res, body);
+        return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad request: mcp-session-id header is required after initialization');
+        return;
+    }
+
+    if (sessions.size >= (options.maxSessions ?? DEFAULT_MAX_SESSIONS)) {
+        sendJsonRpcError(res, 503, -32000, 'Too many sessions: close an existing session or try again later');
+        return;
+    }
+
+    // New session: the transport assigns the ID while handling the initialize request
+    const server = options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+            sessions.set(id, { transport, server, lastSeen: Date.now(), openRequests: 0 });
+        }
+    });
+    transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+}
+
+// ==================== HELPERS ====================
+
+async function closeSession(sessions: Map<string, Session>, id: string): Promise<void> {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    // Closing the server closes its transport and stops the session's domain watchers
+    await session.server.close();
+}
+
+function isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) return false;
+
+    const expected = Buffer.from(token);
+    const provided = Buffer.from(match[1].trim());
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new Error(`body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    return text ? JSON.parse(text) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
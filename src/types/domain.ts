@@ -2,6 +2,7 @@
 export interface Domain {
     name: string;
     keywords: string[];
+    negativeKeywords?: string[];    // detection: matches count against the domain
     knowledgeBase?: string[];
     architecturePatterns?: string[];
     securityStandards?: string[];
@@ -9,23 +10,66 @@ export interface Domain {
     sensitiveData: SensitiveData[];
     dataClassification: DataClassification;
     // Extended schema (optional)
-    domain_specific_requirements?: any[];
-    technical_constraints?: any;
-    recommended_tech_stack?: any;
-    data_flows?: any[];
-    integration_points?: any[];
+    domainSpecificRequirements?: string[];     // RFC 2119 style, e.g. "MUST implement HL7 FHIR R4"
+    technicalConstraints?: TechnicalConstraint[];
+    recommendedTechStack?: RecommendedTechStack;
+    dataFlows?: DomainDataFlow[];
+    integrationPoints?: IntegrationPoints;
+}
+
+export interface TechnicalConstraint {
+    type: string;           // latency, availability, throughput, scale, ...
+    description: string;
+    threshold?: string;     // e.g. "<500ms p95"
+}
+
+export interface RecommendedTechStack {
+    languages: string[];
+    frameworks: string[];
+    libraries: string[];
+    deployment: string[];
+}
+
+export interface DomainDataFlow {
+    name: string;
+    description?: string;
+    steps: string[];
+    securityControls: string[];
+}
+
+export interface IntegrationPoints {
+    externalApis: ExternalApi[];
+    messageQueues: IntegrationComponent[];
+    databases: IntegrationComponent[];
+}
+
+export interface ExternalApi {
+    name: string;
+    protocol?: string;
+    auth?: string;
+    purpose?: string;
+    standard?: string;
+    rateLimit?: string;
+}
+
+export interface IntegrationComponent {
+    name: string;
+    technology?: string;    // queue technology or database type
+    details: string[];      // remaining YAML attributes, e.g. "encryption: TDE + column-level (PHI)"
 }
 
 export interface Stakeholder {
     name: string;
     type: 'end_user' | 'professional' | 'internal' | 'governance' | 'business_partner';
     dataAccess: string;
+    origin?: string;        // contributing domain, set when domains are composed
 }
 
 export interface SensitiveData {
     type: string;
     level: 'critical' | 'high' | 'medium' | 'low';
     encryption: 'required' | 'recommended' | 'optional';
+    origin?: string;
 }
 
 export interface DataClassification {
@@ -40,12 +84,23 @@ export interface ComplianceRequirement {
     id: string;
     name: string;
     description: string;
+    family?: string;        // ControlFamily id
+    mapsTo?: string[];      // equivalent controls elsewhere: "NIST-800-53:AU-2"
+}
+
+export interface ControlFamily {
+    id: string;
+    name: string;
+    description?: string;
 }
 
 export interface Regulation {
     name: string;
     fullName: string;
+    version?: string;       // framework version the requirement IDs refer to
+    controlFamilies?: ControlFamily[];
     requirements: ComplianceRequirement[];
+    origin?: string;
 }
 
 // Threat Types
@@ -56,6 +111,17 @@ export interface DomainThreat {
     description: string;
     likelihood: 'low' | 'medium' | 'high';
     impact: 'low' | 'medium' | 'high' | 'critical';
-    mitigation: string;
+    mitigations: DomainMitigation[];
     complianceImpact?: string;
+    cwe?: string;                   // CWE-287
+    capec?: string[];               // CAPEC-151
+    attackTechniques?: string[];    // MITRE ATT&CK: T1078, T1110.004
+    preconditions?: string[];
+    affectedComponents?: string[];
+    origin?: string;
+}
+
+export interface DomainMitigation {
+    name: string;
+    description?: string;
 }
@@ -93,6 +93,40 @@ export interface DesignPattern {
     tradeoffs?: string[];
 }
 
+// System Model - DFD elements, data flows and trust boundaries for threat modeling
+export type SystemElementType = 'process' | 'data_store' | 'external_entity';
+
+export interface SystemElement {
+    id: string;                 // P1, DS1, EE1
+    name: string;
+    type: SystemElementType;
+    boundary?: string;          // trust boundary ID; elements outside every boundary leave it unset
+    sensitiveData?: string[];   // data types the element processes or stores
+}
+
+export interface DataFlow {
+    id: string;                 // F1
+    name: string;
+    from: string;               // element ID
+    to: string;
+    data?: string[];
+    protocol?: string;
+    encrypted?: boolean;
+    authenticated?: boolean;
+    crossesBoundary?: boolean;  // set when boundaries are drawn as lines, not as zones holding elements
+}
+
+export interface TrustBoundary {
+    id: string;                 // TB1
+    name: string;
+}
+
+export interface SystemModel {
+    elements: SystemElement[];
+    dataFlows: DataFlow[];
+    trustBoundaries: TrustBoundary[];
+}
+
 // Complete Tech Lead Output
 export interface TechLeadOutput {
     features: Feature[];
@@ -106,6 +140,8 @@ export interface TechLeadOutput {
         level0: string;
         level1: string;
         level2: string;
+        domainFlows?: Array<{ name: string; diagram: string }>;
+        model?: SystemModel;
     };
     entityRelationshipDiagram?: string;
 }
@@ -1,3 +1,5 @@
+import type { SystemModel, SystemElementType } from './tech-lead.js';
+
 // BA Types
 export interface UserStory {
     id: string;
@@ -55,22 +57,89 @@ export interface Threat {
     likelihood: 'low' | 'medium' | 'high';
     impact: 'low' | 'medium' | 'high' | 'critical';
     riskScore: number;
+    riskVector?: string;            // vector the score was computed from, e.g. CVSS:3.1/AV:N/...
     cwe?: string;
     owasp?: string;
+    capec?: string[];
+    attackTechniques?: string[];    // MITRE ATT&CK technique IDs
+    preconditions?: string[];
+    affectedComponents?: string[];
+    domainThreatId?: string;        // threats.yaml ID the threat came from, e.g. HC-T2
+    elementId?: string;             // system model element or data flow the threat applies to, e.g. P1, F3
+    elementType?: SystemElementType | 'data_flow';
     mitigation: string[];
+    controls?: string[];            // IDs of the controls tracking the mitigations, e.g. C-004
+    residualRiskScore?: number;     // score left once implemented and verified controls are applied
+    residualRisk?: RiskLevel;
+}
+
+export type ControlStatus = 'planned' | 'implemented' | 'verified';
+
+export interface MitigationControl {
+    id: string;                     // C-001
+    name: string;                   // the mitigation, e.g. "Encryption at rest and in transit"
+    threatIds: string[];
+    status: ControlStatus;
+    owner?: string;
+    testCaseId?: string;            // QA test case that verifies the control, e.g. TC-012
+    complianceRequirement?: string; // requirement the control satisfies, e.g. "HIPAA 164.312(b)"
 }
 
 export interface SecurityOutput {
     threats: Threat[];
     riskMatrix: RiskMatrixItem[];
     recommendations: string[];
+    systemModel?: SystemModel;      // the model the element threats were derived from
+    riskScoring?: RiskScoringMethod;
+    controls?: MitigationControl[];
+}
+
+export type AttackLevel = 'low' | 'medium' | 'high';
+
+export interface AttackTreeNode {
+    id: string;                     // T-012, T-012.1, T-012.1.2 ...
+    label: string;
+    gate?: 'AND' | 'OR';            // how the children combine; leaves have none
+    children?: AttackTreeNode[];
+    // Leaves: what the step costs the attacker, the skill it needs and how likely defenders notice it
+    cost?: AttackLevel;
+    skill?: AttackLevel;
+    detectability?: AttackLevel;
+    capec?: string;
+    elementId?: string;
+    precondition?: boolean;         // a condition that must already hold rather than an attacker action
 }
 
+export interface AttackPath {
+    cost: number;                   // sum of leaf costs: low 1, medium 2, high 3
+    skill: AttackLevel;             // highest skill needed along the path
+    detectability: AttackLevel;     // most detectable step
+    steps: Array<{ id: string; label: string }>;
+}
+
+export interface AttackTree {
+    threatId: string;
+    goal: string;
+    risk: RiskLevel;
+    root: AttackTreeNode;
+    cheapestPath: AttackPath;
+    attackTechniques?: string[];    // MITRE ATT&CK technique IDs of the threat
+    mermaid: string;
+}
+
+export type RiskScoringMethod = 'likelihood-impact' | 'cvss-3.1' | 'cvss-4.0' | 'owasp' | 'dread';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
 export interface RiskMatrixItem {
     threatId: string;
     likelihood: string;
     impact: string;
-    risk: 'low' | 'medium' | 'high' | 'critical';
+    score?: number;
+    vector?: string;
+    risk: RiskLevel;                // rating of the scoring method, e.g. CVSS severity
+    residualScore?: number;
+    residualRisk?: RiskLevel;
 }
 
 // QA Types
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { orchestrateEnhancedPipeline } from '../../src/orchestrator/enhanced-pipeline.js';
+
+describe('Enhanced Pipeline Orchestrator', () => {
+    describe('orchestrateEnhancedPipeline', () => {
+        it('should include PM and ADR phases', async () => {
+            const result = await orchestrateEnhancedPipeline({
+                projectDescription: 'Patient health records management with HIPAA compliance',
+                businessGoals: ['Secure PHI storage'],
+                techStack: ['Python', 'PostgreSQL'],
+                targetLanguage: 'python'
+            });
+
+            expect(result.phases.pm.sprints.length).toBeGreaterThan(0);
+            expect(result.phases.architecture.decisions.length).toBeGreaterThan(0);
+            expect(result.deliverables.adrDocuments.length).toBe(result.phases.architecture.decisions.length);
+        });
+
+        it('should generate an SRS consistent with the PM phase', async () => {
+            const result = await orchestrateEnhancedPipeline({
+                projectDescription: 'Patient health records management with HIPAA compliance',
+                businessGoals: ['Secure PHI storage'],
+                techStack: ['Python', 'PostgreSQL'],
+                targetLanguage: 'python'
+            });
+            const { srs } = result.deliverables;
+            const lastSprint = result.phases.pm.sprints[result.phases.pm.sprints.length - 1];
+
+            expect(srs).toContain('SOFTWARE REQUIREMENTS SPECIFICATION');
+            expect(srs).toContain(`**Estimated Completion**: ${lastSprint.endDate}`);
+            result.phases.pm.riskRegister.forEach(risk => {
+                expect(srs).toContain(`| ${risk.id} |`);
+            });
+            result.phases.architecture.decisions.forEach(adr => {
+                expect(srs).toContain(`| ${adr.id} | ${adr.title} |`);
+            });
+        });
+
+        it('should use the provided start date and sprint duration', async () => {
+            const result = await orchestrateEnhancedPipeline({
+                projectDescription: 'Payment gateway system',
+                businessGoals: ['Process payments'],
+                techStack: ['Node.js'],
+                targetLanguage: 'typescript',
+                teamSize: 5,
+                sprintDuration: 3,
+                projectStartDate: '2026-01-05'
+            });
+
+            expect(result.phases.pm.sprints[0].startDate).toBe('2026-01-05');
+            expect(result.deliverables.projectPlan).toContain(`(${result.phases.pm.sprints.length * 3} weeks)`);
+        });
+
+        it('should record caller constraints as ADR decision drivers', async () => {
+            const result = await orchestrateEnhancedPipeline({
+                projectDescription: 'Payment gateway system',
+                businessGoals: ['Process payments'],
+                techStack: ['Node.js'],
+                constraints: [
+                    {
+                        type: 'budget',
+                        description: 'Infrastructure budget capped at $500/month',
+                        hardConstraint: true,
+                        impact: 'Prefer managed open-source services'
+                    }
+                ]
+            });
+
+            const drivers = result.phases.architecture.decisions.flatMap(d => d.decisionDrivers);
+            expect(drivers).toContain('Hard constraint [budget]: Infrastructure budget capped at $500/month (Prefer managed open-source services)');
+            expect(drivers.some(d => d.includes('strong background in SQL'))).toBe(false);
+        });
+
+        it('should report progress for all nine phases', async () => {
+            const phases: string[] = [];
+
+            await orchestrateEnhancedPipeline({
+                projectDescription: 'API Gateway',
+                businessGoals: ['Route API requests'],
+                techStack: ['Go'],
+                targetLanguage: 'go'
+            }, {
+                onProgress: ({ phase, total }) => {
+                    expect(total).toBe(9);
+                    phases.push(phase);
+                }
+            });
+
+            expect(phases.slice(-4)).toEqual(['pm', 'architecture', 'deliverables', 'done']);
+        });
+
+        it('should not write to stdout', async () => {
+            const logSpy = vi.spyOn(console, 'log');
+
+            await orchestrateEnhancedPipeline({
+                projectDescription: 'API Gateway',
+                businessGoals: ['Route API requests'],
+                techStack: ['Go'],
+                targetLanguage: 'go'
+            });
+
+            expect(logSpy).not.toHaveBeenCalled();
+            logSpy.mockRestore();
+        });
+    });
+});
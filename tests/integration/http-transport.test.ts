@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request as httpRequest } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createServer } from '../../src/server.js';
+import { startHttpTransport, type HttpTransportHandle } from '../../src/transports/http.js';
+
+describe('Streamable HTTP Transport', () => {
+    let http: HttpTransportHandle | undefined;
+    const clients: Client[] = [];
+
+    const connect = async (token?: string) => {
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${http!.port}/mcp`), {
+            requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+        }));
+        clients.push(client);
+        return client;
+    };
+
+    afterEach(async () => {
+        await Promise.all(clients.splice(0).map(client => client.close()));
+        await http?.close();
+        http = undefined;
+    });
+
+    it('should serve tools over HTTP', async () => {
+        http = await startHttpTransport({ port: 0, host: '127.0.0.1', createServer });
+        const client = await connect();
+
+        const { tools } = await client.listTools();
+        const result = await client.callTool({ name: 'list_domains', arguments: {} });
+
+        expect(tools.map(t => t.name)).toContain('orchestrate_ssdlc_pipeline');
+        expect((result.structuredContent as { domains: string[] }).domains).toContain('healthcare');
+    });
+
+    it('should keep one session per client', async () => {
+        http = await startHttpTransport({ port: 0, host: '127.0.0.1', createServer });
+        await connect();
+        await connect();
+
+        expect(http.sessionCount()).toBe(2);
+    });
+
+    it('should reject unknown sessions and requests without a session', async () => {
+        http = await startHttpTransport({ port: 0, host: '127.0.0.1', createServer });
+        const url = `http://127.0.0.1:${http.port}/mcp`;
+        const request = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
+        const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+        const unknown = await fetch(url, {
+            method: 'POST',
+            headers: { ...headers, 'mcp-session-id': 'does-not-exist' },
+            body: JSON.stringify(request)
+        });
+        const missing = await fetch(url, { method: 'POST', headers, body: JSON.stringify(request) });
+
+        expect(unknown.status).toBe(404);
+        expect(missing.status).toBe(400);
+    });
+
+    it('should require the bearer token when configured', async () => {
+        http = await startHttpTransport({ port: 0, host: '127.0.0.1', authToken: 's3cret', createServer });
+
+        const anonymous = await fetch(`http://127.0.0.1:${http.port}/mcp`, { method: 'POST', body: '{}' });
+        expect(anonymous.status).toBe(401);
+        expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+
+        await expect(connect('wrong')).rejects.toThrow();
+        const client = await connect('s3cret');
+        expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+    });
+
+    const initialize = (port: number) => fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+        body: JSON.stringify({
+            jsonrpc: '2.0', id: 1, method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } }
+        })
+    });
+
+    it('should close sessions left idle', async () => {
+        http = await startHttpTransport({ port: 0, sessionIdleMs: 50, createServer });
+
+        expect((await initialize(http.port)).status).toBe(200);
+        expect(http.sessionCount()).toBe(1);
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        expect(http.sessionCount()).toBe(0);
+    });
+
+    it('should refuse new sessions beyond the cap', async () => {
+        http = await startHttpTransport({ port: 0, maxSessions: 1, createServer });
+
+        expect((await initialize(http.port)).status).toBe(200);
+        const refused = await initialize(http.port);
+
+        expect(refused.status).toBe(503);
+        expect(http.sessionCount()).toBe(1);
+    });
+
+    it('should refuse to listen off loopback without a bearer token', async () => {
+        await expect(startHttpTransport({ port: 0, host: '0.0.0.0', createServer })).rejects.toThrow('without a bearer token');
+    });
+
+    it('should reject Host headers it does not serve', async () => {
+        http = await startHttpTransport({ port: 0, createServer });
+        const initialize = JSON.stringify({
+            jsonrpc: '2.0', id: 1, method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'rebind', version: '1.0.0' } }
+        });
+
+        // fetch does not let the caller set Host, a rebound browser request does
+        const status = await new Promise<number>((resolve, reject) => {
+            const req = httpRequest({
+                host: '127.0.0.1',
+                port: http!.port,
+                path: '/mcp',
+                method: 'POST',
+                headers: { Host: `attacker.example:${http!.port}`, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }
+            }, res => { res.resume(); resolve(res.statusCode ?? 0); });
+            req.on('error', reject);
+            req.end(initialize);
+        });
+
+        expect(status).toBe(403);
+        expect(http.sessionCount()).toBe(0);
+    });
+
+    it('should leave out host tools unless enabled', async () => {
+        http = await startHttpTransport({ port: 0, createServer: () => createServer({ hostTools: false }) });
+        const client = await connect();
+
+        const names = (await client.listTools()).tools.map(t => t.name);
+        const result = await client.callTool({ name: 'run_diagnostic_playbook', arguments: { playbook: 'check_node', workspace_root: '/' } });
+
+        expect(names).not.toContain('run_diagnostic_playbook');
+        expect(names).not.toContain('scaffold_domain');
+        expect(names).toContain('list_domains');
+        expect(result.isError).toBe(true);
+        expect(JSON.stringify(result.content)).toContain('is disabled on this server');
+    });
+
+    it('should expose an unauthenticated health check', async () => {
+        http = await startHttpTransport({ port: 0, host: '127.0.0.1', authToken: 's3cret', createServer });
+
+        const response = await fetch(`http://127.0.0.1:${http.port}/health`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+    });
+});
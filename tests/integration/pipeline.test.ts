@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { orchestratePipeline } from '../../src/orchestrator/index.js';
+import { describe, it, expect, vi } from 'vitest';
+import { orchestratePipeline, PipelineCancelledError, type PipelineProgress } from '../../src/orchestrator/index.js';
 
 describe('Pipeline Orchestrator', () => {
     describe('orchestratePipeline', () => {
@@ -18,6 +18,20 @@ describe('Pipeline Orchestrator', () => {
             expect(result.phases).toBeDefined();
         });
 
+        it('should give runs started in the same millisecond distinct IDs', async () => {
+            const input = { projectDescription: 'Payment gateway system', businessGoals: ['Process payments'], techStack: ['Node.js'] };
+            const now = Date.now();
+            const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+            try {
+                const [first, second] = await Promise.all([orchestratePipeline(input), orchestratePipeline(input)]);
+                expect(first.orchestrationId).toMatch(new RegExp(`^ssdlc-${now}-[0-9a-f]{8}$`));
+                expect(second.orchestrationId).not.toBe(first.orchestrationId);
+            } finally {
+                clock.mockRestore();
+            }
+        });
+
         it('should detect domain automatically', async () => {
             const result = await orchestratePipeline({
                 projectDescription: 'Patient health records management with HIPAA compliance',
@@ -105,4 +119,53 @@ describe('Pipeline Orchestrator', () => {
             expect(result.summary.totalThreats).toBeDefined();
         });
     });
+
+    describe('progress and cancellation', () => {
+        const input = {
+            projectDescription: 'Payment gateway system',
+            businessGoals: ['Process payments'],
+            techStack: ['Node.js'],
+            targetLanguage: 'typescript'
+        };
+
+        it('should report progress once per phase', async () => {
+            const events: PipelineProgress[] = [];
+
+            await orchestratePipeline(input, { onProgress: event => { events.push(event); } });
+
+            expect(events.map(e => e.phase)).toEqual(['domain', 'ba', 'techLead', 'security', 'qa', 'devops', 'done']);
+            expect(events.map(e => e.progress)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+            expect(events.every(e => e.total === 6)).toBe(true);
+            expect(events[2].message).toBe('Phase 3/6: Tech lead design');
+        });
+
+        it('should stop between phases and carry the finished phases', async () => {
+            const controller = new AbortController();
+
+            const run = orchestratePipeline(input, {
+                signal: controller.signal,
+                onProgress: ({ phase }) => {
+                    if (phase === 'security') controller.abort();
+                }
+            });
+            const error = await run.catch(e => e);
+
+            expect(error).toBeInstanceOf(PipelineCancelledError);
+            expect(error.partial.completedPhases).toEqual(['domain', 'ba', 'techLead', 'security']);
+            expect(error.partial.domain.name).toBe('fintech');
+            expect(error.partial.phases.techLead.modules.length).toBeGreaterThan(0);
+            expect(error.partial.phases.qa).toBeUndefined();
+        });
+
+        it('should not start when already cancelled', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            const error = await orchestratePipeline(input, { signal: controller.signal }).catch(e => e);
+
+            expect(error).toBeInstanceOf(PipelineCancelledError);
+            expect(error.partial.completedPhases).toEqual([]);
+            expect(error.message).toBe('Pipeline cancelled after no phases');
+        });
+    });
 });
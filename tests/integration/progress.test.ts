@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResultSchema, type Progress } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../../src/server.js';
+import { listProjects } from '../../src/store/index.js';
+
+describe('Pipeline progress over MCP', () => {
+    const args = {
+        project_description: 'Patient portal for viewing medical records',
+        business_goals: ['Give patients access to their records'],
+        tech_stack: ['Node.js', 'PostgreSQL']
+    };
+    let storeDir: string;
+    let client: Client;
+
+    beforeEach(async () => {
+        storeDir = mkdtempSync(join(tmpdir(), 'ssdlc-progress-'));
+        process.env.SSDLC_DIR = storeDir;
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer().connect(serverTransport);
+        client = new Client({ name: 'test-client', version: '1.0.0' });
+        await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+        await client.close();
+        delete process.env.SSDLC_DIR;
+        rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    it('should send a progress notification per phase', async () => {
+        const updates: Progress[] = [];
+
+        const result = await client.callTool(
+            { name: 'orchestrate_enhanced_pipeline', arguments: args },
+            CallToolResultSchema,
+            { onprogress: progress => { updates.push(progress); } }
+        );
+
+        expect(result.isError).toBeFalsy();
+        expect(updates.map(u => u.progress)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(updates[0]).toMatchObject({ total: 9, message: 'Phase 1/9: Domain detection' });
+    });
+
+    it('should stop a cancelled run and store the finished phases', async () => {
+        const controller = new AbortController();
+
+        const call = client.callTool(
+            { name: 'orchestrate_ssdlc_pipeline', arguments: args },
+            CallToolResultSchema,
+            {
+                signal: controller.signal,
+                onprogress: progress => {
+                    if (progress.progress === 3) controller.abort();
+                }
+            }
+        );
+
+        await expect(call).rejects.toThrow();
+        await vi.waitFor(() => expect(listProjects(storeDir)).toHaveLength(1));
+
+        const [project] = listProjects(storeDir);
+        const phases = project.phases.map(p => p.phase);
+        expect(phases).toContain('techLead');
+        expect(phases).not.toContain('devops');
+    });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, EXIT_OK, EXIT_ERROR, EXIT_USAGE, EXIT_FINDINGS, EXIT_CANCELLED } from '../../../src/cli/run.js';
+import { parseList, findCommand } from '../../../src/cli/commands.js';
+
+describe('CLI', () => {
+    let dir: string;
+    let stdout: string;
+    let stderr: string;
+    const io = {
+        stdout: (text: string) => { stdout += text; },
+        stderr: (text: string) => { stderr += text; }
+    };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-cli-'));
+        process.env.SSDLC_DIR = join(dir, '.ssdlc');
+        stdout = '';
+        stderr = '';
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DIR;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should print usage and exit 2 without a command', async () => {
+        const code = await runCli([], io);
+
+        expect(code).toBe(EXIT_USAGE);
+        expect(stderr).toContain('threat-model');
+    });
+
+    it('should match two-word subcommands first', () => {
+        expect(findCommand(['domains', 'list'])?.command.tool).toBe('list_domains');
+        expect(findCommand(['threat-model', '--modules', 'x'])?.rest).toEqual(['--modules', 'x']);
+        expect(findCommand(['unknown'])).toBeUndefined();
+    });
+
+    it('should run a tool and print JSON', async () => {
+        const code = await runCli(['domains', 'list'], io);
+
+        expect(code).toBe(EXIT_OK);
+        expect(JSON.parse(stdout).domains).toContain('healthcare');
+    });
+
+    it('should report invalid arguments by flag name with exit 2', async () => {
+        const code = await runCli(['requirements', '--goals', 'Secure payments'], io);
+
+        expect(code).toBe(EXIT_USAGE);
+        expect(stderr).toContain('--description');
+    });
+
+    it('should exit 2 on unknown commands and options', async () => {
+        expect(await runCli(['frobnicate'], io)).toBe(EXIT_USAGE);
+        expect(await runCli(['domains', 'list', '--bogus'], io)).toBe(EXIT_USAGE);
+    });
+
+    it('should exit 1 when the tool fails', async () => {
+        const code = await runCli(['projects', 'show', 'missing-project'], io);
+
+        expect(code).toBe(EXIT_ERROR);
+        expect(stderr).toContain('Project not found');
+    });
+
+    it('should read list flags from files', () => {
+        const goals = join(dir, 'goals.txt');
+        writeFileSync(goals, '# goals\nProcess payments\n\nDetect fraud\n');
+
+        expect(parseList(goals)).toEqual(['Process payments', 'Detect fraud']);
+        expect(parseList('a, b,c')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should write exports and generated documents with --out', async () => {
+        const out = join(dir, 'docs');
+        const code = await runCli([
+            'pipeline',
+            '--description', 'Patient portal for viewing medical records',
+            '--goals', 'Give patients access to their records',
+            '--tech-stack', 'Node.js,PostgreSQL',
+            '--out', out
+        ], io);
+
+        expect(code).toBe(EXIT_OK);
+        for (const file of ['pipeline.json', 'pipeline.yaml', 'pipeline.md']) {
+            expect(existsSync(join(out, file))).toBe(true);
+        }
+        expect(readFileSync(join(out, 'pipeline.md'), 'utf-8').length).toBeGreaterThan(0);
+        expect(stderr).toContain('pipeline.json');
+    });
+
+    it('should exit 130 when the pipeline is interrupted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const code = await runCli([
+            'pipeline',
+            '--description', 'Patient portal for viewing medical records',
+            '--goals', 'Give patients access to their records',
+            '--tech-stack', 'Node.js'
+        ], { ...io, signal: controller.signal });
+
+        expect(code).toBe(EXIT_CANCELLED);
+        expect(stderr).toContain('Pipeline cancelled');
+    });
+
+    it('should name the project holding the phases finished before an interrupt', async () => {
+        const controller = new AbortController();
+        const interrupting = {
+            ...io,
+            signal: controller.signal,
+            stderr: (text: string) => {
+                stderr += text;
+                if (text.startsWith('Phase 3/')) controller.abort();
+            }
+        };
+
+        const code = await runCli([
+            'pipeline',
+            '--description', 'Patient portal for viewing medical records',
+            '--goals', 'Give patients access to their records',
+            '--tech-stack', 'Node.js'
+        ], interrupting);
+
+        expect(code).toBe(EXIT_CANCELLED);
+        const projectId = stderr.match(/stored as project (\S+) \(continue with --project\)/)?.[1];
+        expect(projectId).toMatch(/^ssdlc-/);
+        expect(await runCli(['projects', 'show', projectId!], io)).toBe(EXIT_OK);
+    });
+
+    it('should exit 3 when a domain fails schema validation', async () => {
+        writeFileSync(join(dir, 'domain.yaml'), 'keywords: [shop]\nstakeholders: []\n');
+
+        expect(await runCli(['domains', 'validate', 'fintech'], io)).toBe(EXIT_OK);
+        expect(await runCli(['domains', 'validate', dir], io)).toBe(EXIT_FINDINGS);
+        expect(stderr).toContain('domain.yaml:1:1 sensitive_data: is required');
+    });
+
+    it('should preview a scaffold and ask before writing', async () => {
+        const questions: string[] = [];
+        const interactive = { ...io, confirm: async (question: string) => { questions.push(question); return false; } };
+
+        expect(await runCli(['domains', 'scaffold', 'kiosk', '--keywords', 'kiosk,patient'], interactive)).toBe(EXIT_OK);
+        expect(questions).toEqual(['Write these files?']);
+        expect(stderr).toContain('new       domain.yaml');
+        expect(stderr).toContain('note: Keyword "patient" also detects healthcare');
+        expect(stderr).toContain('Cancelled, nothing written');
+
+        const threats = JSON.stringify([{ id: 'FT-T1', category: 'Spoofing', name: 'Card skimming', mitigation: 'EMV' }]);
+        expect(await runCli(['domains', 'scaffold', 'kiosk', '--keywords', 'kiosk', '--threats', threats], interactive)).toBe(EXIT_FINDINGS);
+        expect(questions).toHaveLength(1);
+        expect(stderr).toContain('Blocked: Threat ID FT-T1 is already used by fintech');
+    });
+
+    it('should pass boolean flags to the tool', async () => {
+        expect(await runCli(['domains', 'stats', '--warm'], io)).toBe(EXIT_OK);
+
+        const stats = JSON.parse(stdout);
+        expect(stats.domains.map((domain: { name: string }) => domain.name)).toContain('healthcare');
+    });
+
+    it('should keep the risk scoring method of a project when the threat model is regenerated', async () => {
+        expect(await runCli([
+            'pipeline',
+            '--description', 'Patient portal for viewing medical records',
+            '--goals', 'Give patients access to their records',
+            '--tech-stack', 'Node.js,PostgreSQL',
+            '--risk-scoring', 'cvss-4.0'
+        ], io)).toBe(EXIT_OK);
+        const projectId = JSON.parse(stdout).orchestrationId as string;
+
+        stdout = '';
+        expect(await runCli(['threat-model', '--project', projectId], io)).toBe(EXIT_OK);
+
+        const result = JSON.parse(stdout);
+        expect(result.riskScoring).toBe('cvss-4.0');
+        expect(result.threats[0].riskVector).toMatch(/^CVSS:4\.0\//);
+    });
+
+    it('should track mitigation controls of a stored threat model', async () => {
+        expect(await runCli([
+            'pipeline',
+            '--description', 'Patient portal for viewing medical records',
+            '--goals', 'Give patients access to their records',
+            '--tech-stack', 'Node.js,PostgreSQL'
+        ], io)).toBe(EXIT_OK);
+        const pipeline = JSON.parse(stdout);
+        const threat = pipeline.phases.security.threats[0];
+
+        stdout = '';
+        expect(await runCli(['threat-model', 'control', threat.controls[0], '--project', pipeline.orchestrationId, '--status', 'verified', '--owner', 'sec-team'], io)).toBe(EXIT_OK);
+
+        const result = JSON.parse(stdout);
+        expect(result.control).toMatchObject({ status: 'verified', owner: 'sec-team', testCaseId: expect.stringMatching(/^TC-/) });
+        expect(result.threats[0].residualRiskScore).toBeLessThan(threat.riskScore);
+        expect(result.progress.verified).toBe(1);
+        expect(result.project.stalePhases).toEqual([]);
+
+        expect(await runCli(['threat-model', 'control', 'C-999', '--project', pipeline.orchestrationId, '--status', 'implemented'], io)).toBe(EXIT_ERROR);
+        expect(stderr).toContain('Control not found: C-999');
+    });
+
+    it('should map compliance controls between frameworks', async () => {
+        expect(await runCli(['compliance', 'crosswalk', 'HIPAA', '--control', '164.312(b)', '--target', 'PCI-DSS'], io)).toBe(EXIT_OK);
+
+        const result = JSON.parse(stdout);
+        expect(result.mappings[0].equivalents).toEqual([expect.objectContaining({ framework: 'PCI-DSS', control: '10.2' })]);
+        expect(result.coverage.target).toBe('PCI-DSS');
+    });
+
+    describe('scan', () => {
+        beforeEach(() => {
+            writeFileSync(join(dir, 'db.js'), 'const q = db.query("SELECT * FROM users WHERE id=" + id);\n');
+            writeFileSync(join(dir, 'notes.txt'), 'eval(input)\n');
+        });
+
+        it('should exit 3 when findings reach --fail-on', async () => {
+            const code = await runCli(['scan', dir], io);
+            const result = JSON.parse(stdout);
+
+            expect(code).toBe(EXIT_FINDINGS);
+            expect(result.filesScanned).toBe(1);
+            expect(result.issues[0]).toMatchObject({ file: 'db.js', severity: 'critical' });
+        });
+
+        it('should exit 0 with --fail-on none', async () => {
+            const code = await runCli(['scan', dir, '--fail-on', 'none'], io);
+
+            expect(code).toBe(EXIT_OK);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadDomain, includesDomain } from '../../../src/domains/index.js';
+import { generateCodingGuidelines } from '../../../src/tools/coding/index.js';
+
+function writeDomain(root: string, name: string, files: Record<string, string[]>): void {
+    mkdirSync(join(root, name), { recursive: true });
+    for (const [file, lines] of Object.entries(files)) {
+        writeFileSync(join(root, name, file), lines.join('\n'));
+    }
+}
+
+const baseDomainYaml = (extra: string[] = []) => [
+    ...extra,
+    'keywords: [example]',
+    'stakeholders:',
+    '  - name: Customer',
+    '    type: end_user',
+    'sensitive_data:',
+    '  - type: Email',
+    '    level: medium',
+    '    encryption: recommended'
+];
+
+const threatYaml = (id: string, name: string) => [
+    'threats:',
+    `  - id: ${id}`,
+    '    category: Spoofing',
+    `    name: ${name}`,
+    '    likelihood: high',
+    '    impact: high',
+    '    mitigation: MFA'
+];
+
+describe('Domain Composition', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-compose-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should merge domains joined with + and track where entries came from', async () => {
+        const loaded = await loadDomain('healthcare+fintech');
+
+        expect(loaded.name).toBe('healthcare+fintech');
+        expect(loaded.composedFrom).toEqual(['healthcare', 'fintech']);
+        expect(loaded.compliance?.regulations.map(r => r.name)).toEqual(expect.arrayContaining(['HIPAA', 'PCI-DSS']));
+        expect(loaded.compliance?.regulations.find(r => r.name === 'PCI-DSS')?.origin).toBe('fintech');
+        expect(loaded.threats?.find(t => t.id === 'HC-T1')?.origin).toBe('healthcare');
+        expect(loaded.domain.sensitiveData.find(s => s.type === 'Card Data')?.origin).toBe('fintech');
+        expect(includesDomain(loaded, 'fintech')).toBe(true);
+    });
+
+    it('should let a domain extend others and override entries by key', async () => {
+        writeDomain(dir, 'telepay', {
+            'domain.yaml': [
+                ...baseDomainYaml(['extends: [healthcare, fintech]']),
+                'data_classification:',
+                '  low: [Diagnosis]'
+            ],
+            'threats.yaml': threatYaml('FT-T1', 'Clinic Account Takeover')
+        });
+
+        const loaded = await loadDomain('telepay');
+
+        expect(loaded.name).toBe('telepay');
+        expect(loaded.composedFrom).toEqual(['healthcare', 'fintech', 'telepay']);
+        expect(loaded.domain.stakeholders.find(s => s.name === 'Customer')?.origin).toBe('telepay');
+        expect(loaded.threats?.find(t => t.id === 'FT-T1')).toMatchObject({ name: 'Clinic Account Takeover', origin: 'telepay' });
+        expect(loaded.threats?.some(t => t.id === 'HC-T1')).toBe(true);
+        // Classification never drops below the highest level a domain assigned
+        expect(loaded.domain.dataClassification.critical).toContain('Diagnosis');
+        expect(loaded.domain.dataClassification.low).not.toContain('Diagnosis');
+    });
+
+    it('should keep the stricter entry and rename conflicting threat IDs between peers', async () => {
+        writeDomain(dir, 'shop', { 'domain.yaml': baseDomainYaml(), 'threats.yaml': threatYaml('T-1', 'Card testing') });
+        writeDomain(dir, 'mail', {
+            'domain.yaml': [...baseDomainYaml(), '  - type: email', '    level: high', '    encryption: required'],
+            'threats.yaml': threatYaml('T-1', 'Phishing')
+        });
+
+        const loaded = await loadDomain('shop+mail');
+
+        expect(loaded.threats?.map(t => t.id)).toEqual(['T-1', 'mail:T-1']);
+        expect(loaded.domain.sensitiveData).toHaveLength(1);
+        expect(loaded.domain.sensitiveData[0]).toMatchObject({ level: 'high', encryption: 'required' });
+    });
+
+    it('should reject inheritance cycles', async () => {
+        writeDomain(dir, 'left', { 'domain.yaml': baseDomainYaml(['extends: right']) });
+        writeDomain(dir, 'right', { 'domain.yaml': baseDomainYaml(['extends: left']) });
+
+        await expect(loadDomain('left')).rejects.toThrow('Domain inheritance cycle: left -> right -> left');
+    });
+
+    it('should give downstream tools the knowledge of every composed domain', async () => {
+        const guidelines = generateCodingGuidelines(await loadDomain('healthcare+fintech'), 'typescript');
+
+        expect(guidelines.bestPractices).toContain('Encrypt all PHI at rest and in transit');
+        expect(guidelines.bestPractices).toContain('Use tokenization for sensitive payment data');
+        expect(guidelines.securityRules.map(r => r.id)).toEqual(expect.arrayContaining(['COMP-HIPAA', 'COMP-PCI-DSS']));
+    });
+});
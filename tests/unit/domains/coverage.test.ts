@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildDomainCoverageReport } from '../../../src/domains/index.js';
+
+const domainYaml = (keywords: string[]) => [
+    `keywords: [${keywords.join(', ')}]`,
+    'stakeholders:',
+    '  - { name: Cashier, type: end_user }',
+    'sensitive_data:',
+    '  - { type: Receipts, level: medium }',
+    'data_classification: { critical: [], high: [Receipts], medium: [], low: [] }'
+].join('\n');
+
+const threatsYaml = (threats: string[]) => ['threats:', ...threats].join('\n');
+
+const threat = (id: string, category: string, extra = '') =>
+    `  - { id: ${id}, category: ${category}, name: ${id} threat, likelihood: low, impact: low, mitigation: Fix${extra} }`;
+
+describe('Domain Coverage', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-coverage-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function writeDomain(name: string, files: Record<string, string>): void {
+        mkdirSync(join(dir, name), { recursive: true });
+        for (const [file, content] of Object.entries(files)) {
+            writeFileSync(join(dir, name, file), content);
+        }
+    }
+
+    it('should count threats per STRIDE category and warn about thin domains', async () => {
+        writeDomain('till', {
+            'domain.yaml': domainYaml(['till']),
+            'threats.yaml': threatsYaml([threat('TL-T1', 'Spoofing', ', cwe: CWE-287'), threat('TL-T2', 'Spoofing')])
+        });
+        writeDomain('broken', { 'domain.yaml': 'keywords: [broken]\n' });
+
+        const report = await buildDomainCoverageReport({ domains: ['healthcare', 'till', 'broken'] });
+
+        expect(report.categories).toHaveLength(6);
+        expect(report.domains[0]).toMatchObject({ domain: 'healthcare', strideCovered: 4, regulations: 2, warnings: [] });
+        expect(report.domains[0].stride).toMatchObject({ 'Information Disclosure': 2, 'Denial of Service': 0 });
+        expect(report.domains[1].warnings).toEqual([
+            'No regulations in compliance.yaml',
+            'Threats cover 1 of 6 STRIDE categories; missing Tampering, Repudiation, Information Disclosure, Denial of Service, Elevation of Privilege',
+            'Threat TL-T2 has no CWE, CAPEC or ATT&CK reference',
+            'data_classification.critical is empty',
+            'data_classification.medium is empty',
+            'data_classification.low is empty'
+        ]);
+        expect(report.errors).toEqual([expect.objectContaining({ domain: 'broken' })]);
+    });
+
+    it('should diff two domains by stakeholder, data, requirement and threat keys', async () => {
+        writeDomain('till', {
+            'domain.yaml': domainYaml(['till', 'receipt']),
+            'threats.yaml': threatsYaml([threat('TL-T1', 'Spoofing'), threat('TL-T2', 'Tampering')])
+        });
+        writeDomain('kiosk', {
+            'domain.yaml': domainYaml(['kiosk', 'receipt']),
+            'threats.yaml': threatsYaml([threat('TL-T1', 'Repudiation'), threat('TL-T3', 'Tampering')])
+        });
+
+        const { diff, domains } = await buildDomainCoverageReport({ compare: ['till', 'kiosk'] });
+
+        expect(domains.map(domain => domain.domain)).toEqual(['till', 'kiosk']);
+        expect(diff?.changed).toBe(true);
+        expect(diff?.sections.keywords).toEqual([
+            { key: 'kiosk', change: 'added' },
+            { key: 'till', change: 'removed' }
+        ]);
+        expect(diff?.sections.threats).toEqual([
+            { key: 'TL-T1', change: 'changed', fields: ['category'] },
+            { key: 'TL-T3', change: 'added' },
+            { key: 'TL-T2', change: 'removed' }
+        ]);
+        expect(diff?.sections.stakeholders).toEqual([]);
+    });
+
+    it('should diff a domain against a git revision', async () => {
+        writeDomain('till', {
+            'domain.yaml': domainYaml(['till']),
+            'threats.yaml': threatsYaml([threat('TL-T1', 'Spoofing')])
+        });
+        const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'pipe' });
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-qm', 'till');
+
+        writeFileSync(join(dir, 'till', 'threats.yaml'), threatsYaml([threat('TL-T1', 'Spoofing'), threat('TL-T2', 'Repudiation')]));
+
+        const { diff, domains } = await buildDomainCoverageReport({ compare: ['till@HEAD', 'till'] });
+
+        expect(domains.map(domain => [domain.domain, domain.strideCovered])).toEqual([['till@HEAD', 1], ['till', 2]]);
+        expect(diff?.sections.threats).toEqual([{ key: 'TL-T2', change: 'added' }]);
+        await expect(buildDomainCoverageReport({ compare: ['till@no-such-rev', 'till'] })).rejects.toThrow('Unknown git revision: no-such-rev');
+        await expect(buildDomainCoverageReport({ compare: [`till@--output=${join(dir, 'leak')}`, 'till'] })).rejects.toThrow('Invalid git revision');
+        expect(existsSync(join(dir, 'leak'))).toBe(false);
+    });
+});
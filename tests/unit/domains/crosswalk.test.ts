@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    loadCrosswalkCatalog,
+    queryCrosswalk,
+    loadDomain,
+    DomainValidationError
+} from '../../../src/domains/index.js';
+
+describe('Compliance Crosswalk', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-crosswalk-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should map a HIPAA control to NIST, ISO and PCI-DSS equivalents', async () => {
+        const catalog = loadCrosswalkCatalog([await loadDomain('healthcare')]);
+        const result = queryCrosswalk(catalog, { framework: 'HIPAA', control: '164.312(b)' });
+
+        expect(result.framework.version).toBe('2013');
+        expect(result.mappings).toHaveLength(1);
+        expect(result.mappings[0].name).toBe('Audit Controls');
+        expect(result.mappings[0].equivalents.map(ref => `${ref.framework}:${ref.control}`)).toEqual(
+            ['NIST-800-53:AU-2', 'NIST-800-53:AU-12', 'ISO-27001:A.8.15', 'PCI-DSS:10.2']
+        );
+    });
+
+    it('should resolve aliases and add maps_to pairs from domains', async () => {
+        const catalog = loadCrosswalkCatalog([await loadDomain('appsec')]);
+        const result = queryCrosswalk(catalog, { framework: 'NIST SP 800-53', control: 'RA-5', targetFramework: 'ISO 27001' });
+
+        expect(result.framework.name).toBe('NIST-800-53');
+        expect(result.mappings[0].equivalents).toEqual([
+            expect.objectContaining({ framework: 'ISO-27001', control: 'A.8.8', via: ['appsec:NIST-800-53:RA-5'] })
+        ]);
+    });
+
+    it('should include sub-controls and report coverage gaps of a target framework', async () => {
+        const catalog = loadCrosswalkCatalog([await loadDomain('fintech')]);
+
+        const controls = queryCrosswalk(catalog, { framework: 'PCI-DSS@4.0', control: '10' }).mappings.map(mapping => mapping.control);
+        expect(controls).toEqual(['10', '10.2', '10.4']);
+
+        const { coverage } = queryCrosswalk(catalog, { framework: 'HIPAA', targetFramework: 'PCI-DSS' });
+        expect(coverage?.controls.map(control => control.control)).not.toContain('10');
+        expect(coverage?.controls.find(control => control.control === '10.2')?.coveredBy).toEqual(['HIPAA:164.312(b)']);
+        expect(coverage?.gaps).toContain('PCI-DSS:10.4');
+        expect(coverage?.percent).toBe(Math.round(coverage!.covered / coverage!.total * 100));
+    });
+
+    it('should merge catalogs from other roots and reject invalid ones', () => {
+        mkdirSync(join(dir, '_compliance'));
+        const catalogPath = join(dir, '_compliance', 'crosswalks.yaml');
+        writeFileSync(catalogPath, [
+            'crosswalks:',
+            '  - id: backup',
+            '    name: Back up data',
+            '    controls: ["HIPAA:164.308(a)(7)", "ISO 27001:A.8.13"]'
+        ].join('\n'));
+
+        const result = queryCrosswalk(loadCrosswalkCatalog(), { framework: 'HIPAA', control: '164.308(a)(7)' });
+        expect(result.mappings[0].equivalents).toEqual([
+            expect.objectContaining({ framework: 'ISO-27001', control: 'A.8.13', via: ['backup'] })
+        ]);
+
+        writeFileSync(catalogPath, 'crosswalks:\n  - id: lonely\n    name: One control\n    controls: ["HIPAA:164.312(b)"]\n');
+        expect(() => loadCrosswalkCatalog()).toThrow(DomainValidationError);
+    });
+});
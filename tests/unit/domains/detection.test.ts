@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rankDomains, selectDomains, loadDomainAuto } from '../../../src/domains/index.js';
+
+function writeDomain(root: string, name: string, keywordLines: string[]): void {
+    mkdirSync(join(root, name), { recursive: true });
+    writeFileSync(join(root, name, 'domain.yaml'), [
+        ...keywordLines,
+        'stakeholders:',
+        '  - name: Customer',
+        '    type: end_user',
+        'sensitive_data:',
+        '  - type: Order history',
+        '    level: medium'
+    ].join('\n'));
+}
+
+describe('Domain Detection', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-detect-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should match whole words after stemming', () => {
+        writeDomain(dir, 'identity', ['keywords: [sso, passkey]']);
+
+        expect(rankDomains('An online lesson planner').matches.map(m => m.domain)).not.toContain('identity');
+
+        const match = rankDomains('Login with passkeys and SSO').matches.find(m => m.domain === 'identity');
+        expect(match?.matchedKeywords).toEqual(['sso', 'passkey']);
+        expect(rankDomains('Recurring payments for a gym').detected).toBe('fintech');
+    });
+
+    it('should weigh keywords and subtract negative keywords', () => {
+        writeDomain(dir, 'clinical', [
+            'keywords:',
+            '  - { term: clinical trial, weight: 4 }',
+            '  - patient',
+            'negative_keywords: [veterinary]'
+        ]);
+
+        const detection = rankDomains('Clinical trial enrollment for each patient');
+        expect(detection.detected).toBe('clinical');
+        expect(detection.matches[0]).toMatchObject({ score: 5, confidence: 0.63 });
+
+        const vet = rankDomains('Veterinary clinical trial for a patient').matches.find(m => m.domain === 'clinical');
+        expect(vet).toMatchObject({ score: 4, negativeKeywords: ['veterinary'] });
+    });
+
+    it('should flag close scores as ambiguous and break ties by keyword count, then name', () => {
+        writeDomain(dir, 'alpha', ['keywords: [{ term: ledger, weight: 2 }]']);
+        writeDomain(dir, 'beta', ['keywords: [ledger, audit]']);
+
+        const detection = rankDomains('An audit ledger');
+
+        expect(detection.ambiguous).toBe(true);
+        expect(detection.matches.map(m => m.domain)).toEqual(['beta', 'alpha']);
+    });
+
+    it('should select the top domains above the confidence threshold', async () => {
+        const detection = rankDomains('Telemedicine clinic app where a patient pays the doctor by credit card payment');
+
+        expect(selectDomains(detection)).toEqual(['healthcare']);
+        expect(selectDomains(detection, { maxDomains: 2 })).toEqual(['healthcare', 'fintech']);
+        expect(selectDomains(detection, { minConfidence: 0.99 })).toEqual(['generic']);
+
+        const loaded = await loadDomainAuto('Telemedicine clinic app where a patient pays the doctor by credit card payment', { maxDomains: 2 });
+        expect(loaded.name).toBe('healthcare+fintech');
+    });
+});
@@ -60,6 +60,66 @@ describe('Domain Loader', () => {
             expect(domain.threats).toBeDefined();
         });
 
+        it('should load threat references and mitigation lists', async () => {
+            const { threats } = await loadDomain('healthcare');
+            const impersonation = threats?.find(threat => threat.id === 'HC-T1');
+
+            expect(impersonation).toMatchObject({
+                cwe: 'CWE-287',
+                attackTechniques: ['T1078', 'T1110'],
+                preconditions: expect.arrayContaining(['Patient portal is reachable from the internet'])
+            });
+            expect(impersonation?.mitigations).toEqual([
+                { name: 'MFA' },
+                { name: 'Identity verification', description: expect.stringContaining('enrollment') }
+            ]);
+        });
+
+        it('should load the extended schema fields', async () => {
+            const { domain } = await loadDomain('healthcare');
+
+            expect(domain.domainSpecificRequirements).toContain('MUST implement HL7 FHIR R4 for interoperability');
+            expect(domain.technicalConstraints?.[0]).toEqual({
+                type: 'latency',
+                description: 'EHR query response time',
+                threshold: '<500ms p95'
+            });
+            expect(domain.recommendedTechStack?.frameworks).toContain('HAPI FHIR');
+            expect(domain.dataFlows?.[0].securityControls).toContain('AES-256 at rest');
+            expect(domain.integrationPoints?.externalApis[0]).toMatchObject({
+                name: 'Insurance Eligibility API',
+                auth: 'OAuth 2.0',
+                standard: 'X12 270/271 EDI'
+            });
+            expect(domain.integrationPoints?.databases[0]).toMatchObject({ name: 'EHR Database', technology: 'PostgreSQL' });
+        });
+
+        it('should load knowledge base, patterns and standards', async () => {
+            const { domain } = await loadDomain('secure_comm');
+
+            expect(domain.knowledgeBase).toContain('Signal Protocol Documentation');
+            expect(domain.architecturePatterns).toContain('Double Ratchet');
+            expect(domain.securityStandards).toContain('FIPS 140-3');
+        });
+
+        it('should accept plain string integration components and drop duplicate requirements', async () => {
+            const { domain } = await loadDomain('secure_comm');
+            const requirements = domain.domainSpecificRequirements || [];
+
+            expect(domain.integrationPoints?.databases[0]).toEqual({
+                name: 'PostgreSQL for user accounts and PreKey storage',
+                details: []
+            });
+            expect(new Set(requirements).size).toBe(requirements.length);
+        });
+
+        it('should leave extended fields undefined when the YAML has none', async () => {
+            const { domain } = await loadDomain('generic');
+
+            expect(domain.dataFlows).toBeUndefined();
+            expect(domain.recommendedTechStack).toBeUndefined();
+        });
+
         it('should throw error for invalid domain', async () => {
             await expect(loadDomain('nonexistent')).rejects.toThrow();
         });
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    loadDomain,
+    detectDomain,
+    clearDomainRegistry,
+    getDomainRegistryStats,
+    warmDomainRegistry
+} from '../../../src/domains/index.js';
+
+function writeDomainYaml(root: string, keyword: string, stakeholder: string): void {
+    mkdirSync(join(root, 'retail'), { recursive: true });
+    writeFileSync(join(root, 'retail', 'domain.yaml'), [
+        `keywords: [${keyword}]`,
+        'stakeholders:',
+        `  - name: ${stakeholder}`,
+        '    type: end_user',
+        'sensitive_data:',
+        '  - type: Order history',
+        '    level: medium'
+    ].join('\n'));
+}
+
+describe('Domain Registry', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-registry-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+        clearDomainRegistry();
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        clearDomainRegistry();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should parse a domain once and serve later loads from memory', async () => {
+        writeDomainYaml(dir, 'storefront', 'Shopper');
+
+        await loadDomain('retail');
+        const loaded = await loadDomain('retail');
+        loaded.domain.dataClassification.critical.push('Mutated');
+
+        const stats = getDomainRegistryStats();
+        expect(stats).toMatchObject({ cached: 1, hits: 1, misses: 1 });
+        expect(stats.domains[0]).toMatchObject({ name: 'retail', source: 'env', hits: 1 });
+        expect(stats.domains[0].loadMs).toBeGreaterThanOrEqual(0);
+        // Callers get their own copy of the cached data
+        expect((await loadDomain('retail')).domain.dataClassification.critical).toEqual([]);
+    });
+
+    it('should reload a domain after its YAML changes', async () => {
+        writeDomainYaml(dir, 'storefront', 'Shopper');
+        expect(detectDomain('A storefront')).toBe('retail');
+
+        writeDomainYaml(dir, 'marketplace', 'Seller');
+        await vi.waitFor(() => expect(getDomainRegistryStats().invalidations).toBeGreaterThan(0));
+
+        expect(detectDomain('A storefront')).toBe('generic');
+        expect((await loadDomain('retail')).domain.stakeholders[0].name).toBe('Seller');
+    });
+
+    it('should warm every valid domain', () => {
+        writeDomainYaml(dir, 'storefront', 'Shopper');
+        mkdirSync(join(dir, 'broken'));
+        writeFileSync(join(dir, 'broken', 'domain.yaml'), 'keywords: [x]\nstakeholders: nope\n');
+
+        warmDomainRegistry();
+
+        const names = getDomainRegistryStats().domains.map(domain => domain.name);
+        expect(names).toEqual(expect.arrayContaining(['retail', 'healthcare', 'fintech']));
+        expect(names).not.toContain('broken');
+    });
+});
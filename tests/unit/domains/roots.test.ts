@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, delimiter } from 'path';
+import {
+    getDomainRoots,
+    getScaffoldRoot,
+    findDomains,
+    listDomains,
+    loadDomain,
+    detectDomain,
+    DOMAINS_PATH
+} from '../../../src/domains/index.js';
+
+function writeDomain(root: string, name: string, keywords: string[]): void {
+    mkdirSync(join(root, name), { recursive: true });
+    writeFileSync(join(root, name, 'domain.yaml'), [
+        `keywords: [${keywords.join(', ')}]`,
+        'stakeholders:',
+        '  - name: Customer',
+        '    type: end_user',
+        'sensitive_data:',
+        '  - type: Order history',
+        '    level: medium'
+    ].join('\n'));
+}
+
+describe('Domain Roots', () => {
+    let dir: string;
+    let projectRoot: string;
+    let teamRoot: string;
+    let sharedRoot: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-roots-'));
+        process.env.SSDLC_DIR = join(dir, '.ssdlc');
+        projectRoot = join(dir, '.ssdlc', 'domains');
+        teamRoot = join(dir, 'team');
+        sharedRoot = join(dir, 'shared');
+        process.env.SSDLC_DOMAINS_PATH = [teamRoot, sharedRoot].join(delimiter);
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DIR;
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should order roots project, env, custom, builtin', () => {
+        const roots = getDomainRoots();
+
+        expect(roots.map(root => root.source)).toEqual(['project', 'env', 'env', 'custom', 'builtin']);
+        expect(roots[0].path).toBe(projectRoot);
+        expect(roots[1].path).toBe(teamRoot);
+        expect(roots[4].path).toBe(DOMAINS_PATH);
+    });
+
+    it('should scaffold into the first SSDLC_DOMAINS_PATH entry, else the project root', () => {
+        expect(getScaffoldRoot()).toBe(teamRoot);
+
+        delete process.env.SSDLC_DOMAINS_PATH;
+        expect(getScaffoldRoot()).toBe(projectRoot);
+    });
+
+    it('should find domains outside the built-in folder', async () => {
+        writeDomain(sharedRoot, 'retail', ['storefront', 'checkout cart']);
+
+        expect(listDomains()).toContain('retail');
+        expect(detectDomain('A storefront with a checkout cart')).toBe('retail');
+
+        const loaded = await loadDomain('retail');
+        expect(loaded.source).toBe('env');
+        expect(loaded.domain.stakeholders[0].name).toBe('Customer');
+    });
+
+    it('should let higher-precedence roots shadow lower ones', async () => {
+        writeDomain(sharedRoot, 'retail', ['shared']);
+        writeDomain(teamRoot, 'retail', ['team']);
+        writeDomain(projectRoot, 'fintech', ['ledger']);
+
+        const retail = findDomains().find(location => location.name === 'retail');
+        expect(retail).toMatchObject({ source: 'env', path: join(teamRoot, 'retail'), shadows: [join(sharedRoot, 'retail')] });
+
+        const fintech = await loadDomain('fintech');
+        expect(fintech.source).toBe('project');
+        expect(fintech.domain.keywords).toEqual(['ledger']);
+        expect(listDomains().filter(name => name === 'fintech')).toHaveLength(1);
+    });
+
+    it('should skip folders without a domain.yaml', () => {
+        mkdirSync(join(teamRoot, 'drafts'), { recursive: true });
+
+        expect(listDomains()).not.toContain('drafts');
+        expect(listDomains()).not.toContain('custom');
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { scaffoldDomain, validateDomain, loadDomain } from '../../../src/domains/index.js';
+
+describe('Domain Scaffold', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-scaffold-'));
+        process.env.SSDLC_DOMAINS_PATH = dir;
+    });
+
+    afterEach(() => {
+        delete process.env.SSDLC_DOMAINS_PATH;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write a schema-valid domain with generated threat IDs', async () => {
+        const result = scaffoldDomain({
+            name: 'ecommerce',
+            keywords: ['storefront', 'checkout'],
+            regulations: ['PCI-DSS', { name: 'CCPA', requirements: [{ name: 'Right to delete' }] }],
+            threats: [
+                { category: 'Spoofing', name: 'Account takeover', mitigation: 'MFA' },
+                { category: 'Tampering', name: 'Price manipulation', mitigation: 'Server-side pricing' }
+            ]
+        }, dir);
+
+        expect(result.written).toBe(true);
+        expect(result.threatIds).toEqual(['EC-T1', 'EC-T2']);
+        expect(result.files.map(file => file.status)).toEqual(['new', 'new', 'new']);
+        expect(validateDomain(join(dir, 'ecommerce')).issues).toEqual([]);
+
+        const loaded = await loadDomain('ecommerce');
+        expect(loaded.compliance?.regulations[1].requirements[0].id).toBe('CCPA-1');
+        expect(loaded.threats?.[1]).toMatchObject({ id: 'EC-T2', likelihood: 'medium', impact: 'high' });
+    });
+
+    it('should refuse threat IDs that another domain already uses', () => {
+        const result = scaffoldDomain({
+            name: 'clinic',
+            keywords: ['clinic'],
+            regulations: ['HIPAA'],
+            threats: [{ id: 'HC-T1', category: 'Spoofing', name: 'Impersonation', mitigation: 'MFA' }]
+        }, dir);
+
+        expect(result.written).toBe(false);
+        expect(existsSync(join(dir, 'clinic'))).toBe(false);
+        expect(result.conflicts).toEqual(expect.arrayContaining([
+            expect.objectContaining({ kind: 'threat_id', value: 'HC-T1', domains: ['healthcare'], blocking: true }),
+            expect.objectContaining({ kind: 'regulation', value: 'HIPAA', blocking: false }),
+            expect.objectContaining({ kind: 'keyword', value: 'clinic', domains: ['healthcare'], blocking: false })
+        ]));
+    });
+
+    it('should write to the scaffold root by default', () => {
+        const result = scaffoldDomain({ name: 'retail', keywords: ['storefront'] });
+
+        expect(result.path).toBe(join(dir, 'retail'));
+        expect(existsSync(join(dir, 'retail', 'domain.yaml'))).toBe(true);
+    });
+
+    it('should preview without writing and only replace a domain with overwrite', () => {
+        const input = { name: 'retail', keywords: ['storefront'] };
+
+        expect(scaffoldDomain({ ...input, dryRun: true }, dir).written).toBe(false);
+        expect(existsSync(join(dir, 'retail'))).toBe(false);
+
+        scaffoldDomain(input, dir);
+        const again = scaffoldDomain({ ...input, keywords: ['shop'] }, dir);
+        expect(again.written).toBe(false);
+        expect(again.conflicts[0]).toMatchObject({ kind: 'domain', blocking: true });
+
+        const replaced = scaffoldDomain({ ...input, keywords: ['shop'], overwrite: true }, dir);
+        expect(replaced.written).toBe(true);
+        expect(replaced.files.find(file => file.file === 'domain.yaml')?.status).toBe('changed');
+        expect(readFileSync(join(dir, 'retail', 'domain.yaml'), 'utf-8')).toContain('- shop');
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    listDomains,
+    validateDomain,
+    readValidatedDomainFiles,
+    DomainValidationError
+} from '../../../src/domains/index.js';
+
+describe('Domain Validator', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ssdlc-domain-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should accept every shipped domain', () => {
+        for (const domain of listDomains()) {
+            const result = validateDomain(domain);
+            expect(result.issues, domain).toEqual([]);
+        }
+    });
+
+    it('should report file, line and path of schema violations', () => {
+        writeFileSync(join(dir, 'domain.yaml'), [
+            'keywords: [shop]',
+            'stakeholders:',
+            '  - name: Buyer',
+            '    type: customer',
+            'sensitiveData:',
+            '  - type: Card'
+        ].join('\n'));
+        writeFileSync(join(dir, 'threats.yaml'), [
+            'threats:',
+            '  - id: S-1',
+            '    category: Injection',
+            '    name: SQL injection',
+            '    likelihood: high',
+            '    impact: critical',
+            '    attack_techniques: [T1190, SQLi]',
+            '    mitigation: Parameterized queries'
+        ].join('\n'));
+
+        const result = validateDomain(dir, true);
+
+        expect(result.valid).toBe(false);
+        expect(result.filesChecked).toEqual(['domain.yaml', 'threats.yaml']);
+        expect(result.issues).toContainEqual(expect.objectContaining({
+            file: 'domain.yaml', line: 4, column: 11, path: 'stakeholders[0].type'
+        }));
+        expect(result.issues).toContainEqual(expect.objectContaining({
+            file: 'domain.yaml', path: 'sensitive_data', message: 'is required'
+        }));
+        expect(result.issues).toContainEqual(expect.objectContaining({
+            file: 'threats.yaml', line: 3, path: 'threats[0].category'
+        }));
+        expect(result.issues).toContainEqual(expect.objectContaining({
+            file: 'threats.yaml', line: 7, path: 'threats[0].attack_techniques[1]'
+        }));
+    });
+
+    it('should report YAML syntax errors with their line', () => {
+        writeFileSync(join(dir, 'domain.yaml'), 'keywords: [shop\nstakeholders: []\n');
+
+        const [issue] = validateDomain(dir, true).issues;
+
+        expect(issue.file).toBe('domain.yaml');
+        expect(issue.line).toBeGreaterThan(0);
+    });
+
+    it('should only validate directories outside the domain roots when asked to', () => {
+        writeFileSync(join(dir, 'domain.yaml'), 'keywords: [shop]\n');
+        mkdirSync(join(dir, 'roots', 'shop'), { recursive: true });
+        writeFileSync(join(dir, 'roots', 'shop', 'domain.yaml'), 'keywords: [shop]\n');
+        process.env.SSDLC_DOMAINS_PATH = join(dir, 'roots');
+
+        try {
+            expect(() => validateDomain(dir)).toThrow('is outside the domain roots');
+            expect(() => validateDomain(join(dir, 'roots', 'shop', '..', '..'))).toThrow('is outside the domain roots');
+            expect(validateDomain(join(dir, 'roots', 'shop')).valid).toBe(false);
+        } finally {
+            delete process.env.SSDLC_DOMAINS_PATH;
+        }
+    });
+
+    it('should throw DomainValidationError listing the issues', () => {
+        writeFileSync(join(dir, 'domain.yaml'), 'keywords: [shop]\nstakeholders: []\n');
+
+        expect(() => readValidatedDomainFiles(dir, 'shop')).toThrow(DomainValidationError);
+        expect(() => readValidatedDomainFiles(dir, 'shop')).toThrow(/domain\.yaml:1:1 sensitive_data: is required/);
+    });
+});
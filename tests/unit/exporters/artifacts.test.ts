@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { packageToolResult, mimeTypeForLanguage } from '../../../src/exporters/artifacts.js';
+import { toolOutputSchemas } from '../../../src/schemas/index.js';
+import { techLeadDesign } from '../../../src/tools/tech-lead/index.js';
+import { orchestrateEnhancedPipeline } from '../../../src/orchestrator/enhanced-pipeline.js';
+import { generateThreatModel, generateAttackTrees } from '../../../src/tools/security/index.js';
+
+describe('Artifact Packaging', () => {
+    describe('mimeTypeForLanguage', () => {
+        it('should map pseudocode languages to MIME types', () => {
+            expect(mimeTypeForLanguage('python')).toBe('text/x-python');
+            expect(mimeTypeForLanguage('rust')).toBe('text/x-rust');
+            expect(mimeTypeForLanguage('cobol')).toBe('text/plain');
+        });
+    });
+
+    describe('packageToolResult', () => {
+        it('should move pseudocode and diagrams out of techlead_design results', async () => {
+            const output = await techLeadDesign({
+                userStories: [
+                    { id: 'US-001', title: 'User Login', asA: 'user', iWant: 'to login securely', soThat: 'I can access my account' }
+                ],
+                targetLanguage: 'python',
+                projectName: 'TestProject'
+            });
+
+            const { structured, artifacts } = packageToolResult('techlead_design', output);
+
+            expect(toolOutputSchemas.techlead_design.safeParse(structured).success).toBe(true);
+            expect(structured).not.toHaveProperty('architectureDiagram');
+            expect(JSON.stringify(structured)).not.toContain(output.pseudocode[0].content);
+
+            const pseudocode = artifacts.filter(a => a.mimeType === 'text/x-python');
+            expect(pseudocode.length).toBe(output.pseudocode.length);
+
+            const architecture = artifacts.find(a => a.uri.endsWith('/diagrams/architecture.mmd'));
+            expect(architecture?.mimeType).toBe('text/x-mermaid');
+            expect(architecture?.text.startsWith('```')).toBe(false);
+        });
+
+        it('should return enhanced pipeline deliverables as markdown artifacts', async () => {
+            const output = await orchestrateEnhancedPipeline({
+                projectDescription: 'Patient health records management with HIPAA compliance',
+                businessGoals: ['Secure PHI storage'],
+                techStack: ['Python', 'PostgreSQL']
+            });
+
+            const { structured, artifacts } = packageToolResult('orchestrate_enhanced_pipeline', output);
+
+            expect(toolOutputSchemas.orchestrate_enhanced_pipeline.safeParse(structured).success).toBe(true);
+            expect(structured).not.toHaveProperty('deliverables');
+
+            const srs = artifacts.find(a => a.uri === `ssdlc://artifacts/${output.orchestrationId}/deliverables/srs.md`);
+            expect(srs?.mimeType).toBe('text/markdown');
+            expect(srs?.text).toBe(output.deliverables.srs);
+
+            const adrs = artifacts.filter(a => a.uri.includes('/deliverables/adr/'));
+            expect(adrs.length).toBe(output.phases.architecture.decisions.length);
+        });
+
+        it('should return secure templates as source artifacts', () => {
+            const { structured, artifacts } = packageToolResult('get_secure_template', {
+                feature_type: 'authentication',
+                language: 'typescript',
+                template: '\nexport class AuthService {}\n'
+            });
+
+            expect(toolOutputSchemas.get_secure_template.safeParse(structured).success).toBe(true);
+            expect(artifacts).toEqual([{
+                uri: 'ssdlc://artifacts/templates/typescript/authentication.ts',
+                name: 'authentication.ts',
+                mimeType: 'text/x-typescript',
+                text: 'export class AuthService {}'
+            }]);
+        });
+
+        it('should return exported threat models as JSON artifacts', () => {
+            const model = { version: '2.2.0', summary: { title: 'Patient Portal' }, detail: { diagrams: [] } };
+            const { structured, artifacts } = packageToolResult('export_threat_model', {
+                format: 'threat-dragon',
+                title: 'Patient Portal',
+                model,
+                warnings: []
+            });
+
+            expect(toolOutputSchemas.export_threat_model.safeParse(structured).success).toBe(true);
+            expect(artifacts).toEqual([{
+                uri: 'ssdlc://artifacts/threat-models/patient-portal.json',
+                name: 'patient-portal.json',
+                mimeType: 'application/json',
+                text: JSON.stringify(model, null, 2)
+            }]);
+        });
+
+        it('should return attack tree diagrams as mermaid artifacts', () => {
+            const trees = generateAttackTrees({ threats: generateThreatModel({ modules: [] }).threats, minRisk: 'critical' });
+            const { structured, artifacts } = packageToolResult('security_attack_trees', { trees });
+
+            expect(toolOutputSchemas.security_attack_trees.safeParse(structured).success).toBe(true);
+            expect(artifacts).toHaveLength(trees.length);
+            expect(structured.trees).toEqual(trees.map(({ mermaid: _mermaid, ...tree }, index) => ({ ...tree, resourceUri: artifacts[index]?.uri })));
+            expect(artifacts[0]?.uri).toMatch(new RegExp(`/diagrams/attack-tree-${trees[0]?.threatId.toLowerCase()}\\.mmd$`));
+            expect(artifacts[0]?.text.startsWith('flowchart TD')).toBe(true);
+        });
+
+        it('should pass other results through unchanged', () => {
+            const result = { errors: [], suggestions: [] };
+            const packaged = packageToolResult('parse_error_log', result);
+
+            expect(packaged).toEqual({ structured: result, artifacts: [] });
+        });
+    });
+});
@@ -137,6 +137,69 @@ describe('SRS Exporter', () => {
             expect(srs).toContain('TRACEABILITY MATRIX');
         });
 
+        it('should render PM sprints and risk register when available', () => {
+            const srs = generateSRS({
+                ...mockPipelineOutput,
+                phases: {
+                    ...mockPipelineOutput.phases,
+                    pm: {
+                        sprints: [
+                            {
+                                sprintNumber: 1,
+                                startDate: '2026-01-05',
+                                endDate: '2026-01-25',
+                                goal: 'Sprint 1 - Complete 1 tasks',
+                                tasks: ['TASK-001'],
+                                storyPoints: 5,
+                                milestones: []
+                            }
+                        ],
+                        taskBreakdown: [
+                            {
+                                id: 'TASK-001',
+                                title: 'Design login flow',
+                                description: 'Design login flow',
+                                type: 'design',
+                                assignedRole: 'Tech Lead',
+                                estimatedHours: 8,
+                                storyPoints: 5,
+                                dependencies: [],
+                                priority: 'P0',
+                                status: 'not_started',
+                                acceptanceCriteria: [],
+                                relatedFeature: 'F-001',
+                                sprint: 1
+                            }
+                        ],
+                        teamAllocation: { roles: [], workloadChart: [] },
+                        criticalPath: { criticalTasks: ['TASK-001'], totalDuration: 21, bufferDays: 3, parallelizableGroups: [] },
+                        riskRegister: [
+                            {
+                                id: 'RISK-001',
+                                category: 'schedule',
+                                description: 'Critical path has minimal buffer',
+                                probability: 'high',
+                                impact: 'high',
+                                riskScore: 9,
+                                mitigation: 'Parallelize work',
+                                contingencyPlan: 'Prioritize P0 features only',
+                                owner: 'Tech Lead',
+                                status: 'mitigating'
+                            }
+                        ],
+                        costEstimate: {} as any,
+                        ganttChart: '```mermaid\ngantt\n```'
+                    }
+                }
+            } as any);
+
+            expect(srs).toContain('Sprint Planning (3 Weeks/Sprint)');
+            expect(srs).toContain('| TASK-001 | Design login flow |');
+            expect(srs).toContain('**Estimated Completion**: 2026-01-25');
+            expect(srs).toContain('| RISK-001 | schedule |');
+            expect(srs).not.toContain('Budget Overrun');
+        });
+
         it('should be valid markdown', () => {
             const srs = generateSRS(mockPipelineOutput as PipelineOutput);
 
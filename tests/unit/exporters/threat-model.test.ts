@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { toThreatDragon, importThreatModel, fromTm7 } from '../../../src/exporters/threat-model/index.js';
+import { generateThreatModel } from '../../../src/tools/security/index.js';
+import { loadDomain } from '../../../src/domains/index.js';
+
+const TM7 = `<?xml version="1.0" encoding="utf-8"?>
+<ThreatModel xmlns="http://schemas.datacontract.org/2004/07/ThreatModeling.Model" xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <DrawingSurfaceList>
+    <DrawingSurfaceModel xmlns:a="http://schemas.microsoft.com/2003/10/Serialization/Arrays" xmlns:b="http://schemas.datacontract.org/2004/07/ThreatModeling.KnowledgeBase">
+      <Borders>
+        <a:KeyValueOfguidanyType>
+          <a:Key>b1</a:Key>
+          <a:Value i:type="BorderBoundary">
+            <GenericTypeId>GE.TB.B</GenericTypeId><Guid>b1</Guid>
+            <Properties><a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>Azure Trust Boundary</b:Value></a:anyType></Properties>
+            <Height>300</Height><Left>400</Left><Top>0</Top><Width>400</Width>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+        <a:KeyValueOfguidanyType>
+          <a:Key>e1</a:Key>
+          <a:Value i:type="StencilRectangle">
+            <GenericTypeId>GE.EI</GenericTypeId><Guid>e1</Guid>
+            <Properties>
+              <a:anyType i:type="b:HeaderDisplayAttribute"><b:DisplayName>Browser</b:DisplayName><b:Value i:nil="true"/></a:anyType>
+              <a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>Browser</b:Value></a:anyType>
+            </Properties>
+            <Height>100</Height><Left>50</Left><Top>100</Top><Width>100</Width>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+        <a:KeyValueOfguidanyType>
+          <a:Key>p1</a:Key>
+          <a:Value i:type="StencilEllipse">
+            <GenericTypeId>GE.P</GenericTypeId><Guid>p1</Guid>
+            <Properties><a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>Web API</b:Value></a:anyType></Properties>
+            <Height>100</Height><Left>450</Left><Top>100</Top><Width>100</Width>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+        <a:KeyValueOfguidanyType>
+          <a:Key>d1</a:Key>
+          <a:Value i:type="StencilParallelLines">
+            <GenericTypeId>GE.DS</GenericTypeId><Guid>d1</Guid>
+            <Properties><a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>Orders &amp; Payments DB</b:Value></a:anyType></Properties>
+            <Height>100</Height><Left>650</Left><Top>100</Top><Width>100</Width>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+      </Borders>
+      <Lines>
+        <a:KeyValueOfguidanyType>
+          <a:Key>f1</a:Key>
+          <a:Value i:type="Connector">
+            <GenericTypeId>GE.DF</GenericTypeId><Guid>f1</Guid>
+            <Properties><a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>HTTPS request</b:Value></a:anyType></Properties>
+            <SourceGuid>e1</SourceGuid><TargetGuid>p1</TargetGuid>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+        <a:KeyValueOfguidanyType>
+          <a:Key>f2</a:Key>
+          <a:Value i:type="Connector">
+            <GenericTypeId>GE.DF</GenericTypeId><Guid>f2</Guid>
+            <Properties><a:anyType i:type="b:StringDisplayAttribute"><b:DisplayName>Name</b:DisplayName><b:Value>SQL</b:Value></a:anyType></Properties>
+            <SourceGuid>p1</SourceGuid><TargetGuid>d1</TargetGuid>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+        <a:KeyValueOfguidanyType>
+          <a:Key>l1</a:Key>
+          <a:Value i:type="LineBoundary">
+            <GenericTypeId>GE.TB.L</GenericTypeId><Guid>l1</Guid>
+            <HandleX>620</HandleX><HandleY>200</HandleY><SourceX>600</SourceX><SourceY>0</SourceY><TargetX>600</TargetX><TargetY>300</TargetY>
+          </a:Value>
+        </a:KeyValueOfguidanyType>
+      </Lines>
+    </DrawingSurfaceModel>
+  </DrawingSurfaceList>
+  <MetaInformation><ThreatModelName>Web Shop</ThreatModelName></MetaInformation>
+  <ThreatInstances xmlns:a="http://schemas.microsoft.com/2003/10/Serialization/Arrays" xmlns:b="http://schemas.datacontract.org/2004/07/ThreatModeling.KnowledgeBase">
+    <a:KeyValueOfstringThreatpc_P0_PhOB>
+      <a:Key>TH1e1f1p1</a:Key>
+      <a:Value>
+        <b:FlowGuid>f1</b:FlowGuid><b:Id>1</b:Id><b:Priority>High</b:Priority>
+        <b:Properties>
+          <a:KeyValueOfstringstring><a:Key>Title</a:Key><a:Value>Spoofing of the Browser External Entity</a:Value></a:KeyValueOfstringstring>
+          <a:KeyValueOfstringstring><a:Key>UserThreatCategory</a:Key><a:Value>Spoofing</a:Value></a:KeyValueOfstringstring>
+          <a:KeyValueOfstringstring><a:Key>UserThreatDescription</a:Key><a:Value>Browser may be spoofed by an attacker.</a:Value></a:KeyValueOfstringstring>
+        </b:Properties>
+        <b:SourceGuid>e1</b:SourceGuid><b:State>NeedsInvestigation</b:State><b:TargetGuid>p1</b:TargetGuid><b:TypeId>TH1</b:TypeId>
+      </a:Value>
+    </a:KeyValueOfstringThreatpc_P0_PhOB>
+    <a:KeyValueOfstringThreatpc_P0_PhOB>
+      <a:Key>TH2p1f2d1</a:Key>
+      <a:Value>
+        <b:FlowGuid>f2</b:FlowGuid><b:Id>2</b:Id><b:Priority>Medium</b:Priority>
+        <b:Properties>
+          <a:KeyValueOfstringstring><a:Key>Title</a:Key><a:Value>Weak access control for a resource</a:Value></a:KeyValueOfstringstring>
+          <a:KeyValueOfstringstring><a:Key>UserThreatCategory</a:Key><a:Value>Information Disclosure</a:Value></a:KeyValueOfstringstring>
+        </b:Properties>
+        <b:State>NotApplicable</b:State><b:TypeId>TH2</b:TypeId>
+      </a:Value>
+    </a:KeyValueOfstringThreatpc_P0_PhOB>
+  </ThreatInstances>
+</ThreatModel>`;
+
+describe('Threat Model Interchange', () => {
+    it('should round-trip a generated threat model through Threat Dragon', async () => {
+        const output = generateThreatModel({
+            modules: [
+                { name: 'PatientController', type: 'controller', classes: [], interfaces: [], dependencies: ['PatientService'] },
+                { name: 'PatientService', type: 'service', classes: [], interfaces: [], dependencies: [] }
+            ],
+            domain: await loadDomain('healthcare')
+        });
+
+        const { model } = toThreatDragon(output, { title: 'Patient Portal' });
+        expect(model.version).toBe('2.2.0');
+        expect(model.detail.threatTop).toBe(output.threats.length);
+
+        const imported = importThreatModel(JSON.stringify(model));
+        expect(imported.format).toBe('threat-dragon');
+        expect(imported.title).toBe('Patient Portal');
+        expect(imported.systemModel.elements).toEqual(output.systemModel!.elements);
+        expect(imported.systemModel.dataFlows.map(({ id, from, to, data }) => ({ id, from, to, data })))
+            .toEqual(output.systemModel!.dataFlows.map(({ id, from, to, data }) => ({ id, from, to, data })));
+        expect(imported.modules.map(module => [module.name, module.type, module.dependencies])).toEqual([
+            ['PatientController', 'controller', ['PatientService']],
+            ['PatientService', 'service', []]
+        ]);
+
+        const original = output.threats.find(threat => threat.elementId === 'P1' && threat.category === 'Repudiation');
+        const { id: _id, ...roundTripped } = imported.threats.find(threat => threat.name === original?.name)!;
+        // Controls are tracked in the project store, Threat Dragon only keeps the mitigation text
+        const { id: _originalId, controls: _controls, residualRiskScore: _residualScore, residualRisk: _residualRisk, ...expected } = original!;
+        expect(roundTripped).toEqual(expected);
+
+        // Domain threats land on the first element named in their affected components
+        expect(imported.threats.find(threat => threat.domainThreatId === 'HC-T2'))
+            .toMatchObject({ elementId: 'DS1', cwe: 'CWE-359', capec: ['CAPEC-122', 'CAPEC-116'] });
+    });
+
+    it('should keep domain threat IDs of any shape through Threat Dragon', async () => {
+        const output = generateThreatModel({
+            modules: [{ name: 'WebController', type: 'controller', classes: [], interfaces: [], dependencies: [] }],
+            domain: await loadDomain('websec')
+        });
+        const domainThreats = output.threats.filter(threat => threat.domainThreatId);
+
+        const imported = importThreatModel(JSON.stringify(toThreatDragon(output, { title: 'Storefront' }).model));
+
+        expect(domainThreats.map(threat => threat.domainThreatId)).toContain('web-001');
+        expect(imported.threats.filter(threat => threat.domainThreatId).map(({ name, domainThreatId, cwe, description }) => ({ name, domainThreatId, cwe, description })))
+            .toEqual(domainThreats.map(({ name, domainThreatId, cwe, description }) => ({ name, domainThreatId, cwe, description })));
+        expect(imported.warnings).toEqual([]);
+    });
+
+    it('should read Threat Dragon boundary curves and skip threats marked not applicable', () => {
+        const cell = (id: string, type: string, name: string, x: number, threats: unknown[] = []) => ({
+            id, shape: type, position: { x, y: 100 }, size: { width: 100, height: 100 },
+            data: { type, name, description: '', threats }
+        });
+        const model = {
+            summary: { title: 'Demo' },
+            detail: {
+                diagrams: [{
+                    id: 0,
+                    cells: [
+                        cell('a', 'tm.Actor', 'Customer', 0),
+                        cell('p', 'tm.Process', 'Order Service', 300, [
+                            { title: 'Forged order', type: 'Tampering', severity: 'High', status: 'Open', mitigation: 'Sign orders\nValidate totals' },
+                            { title: 'Not relevant', type: 'Spoofing', severity: 'Low', status: 'NA' }
+                        ]),
+                        { id: 'b', shape: 'trust-boundary-curve', source: { x: 200, y: 0 }, target: { x: 200, y: 400 }, data: { type: 'tm.Boundary', name: 'Internet' } },
+                        { id: 'f', shape: 'flow', source: { cell: 'a' }, target: { cell: 'p' }, labels: ['Place order'], data: { type: 'tm.Flow', name: 'Place order', threats: [] } }
+                    ]
+                }]
+            }
+        };
+
+        const imported = importThreatModel(JSON.stringify(model));
+
+        expect(imported.systemModel.dataFlows).toEqual([
+            { id: 'F1', name: 'Place order', from: 'EE1', to: 'P1', data: undefined, protocol: undefined, encrypted: undefined, crossesBoundary: true }
+        ]);
+        expect(imported.threats).toEqual([expect.objectContaining({
+            category: 'Tampering',
+            impact: 'high',
+            elementId: 'P1',
+            mitigation: ['Sign orders', 'Validate totals']
+        })]);
+        expect(imported.warnings).toEqual(['Threat "Not relevant" skipped: marked not applicable']);
+    });
+
+    it('should import Threat Modeling Tool models', () => {
+        const imported = fromTm7(TM7);
+
+        expect(imported.title).toBe('Web Shop');
+        expect(imported.systemModel.elements).toEqual([
+            { id: 'EE1', name: 'Browser', type: 'external_entity', boundary: undefined },
+            { id: 'P1', name: 'Web API', type: 'process', boundary: 'TB1' },
+            { id: 'DS1', name: 'Orders & Payments DB', type: 'data_store', boundary: 'TB1' }
+        ]);
+        expect(imported.systemModel.trustBoundaries).toEqual([{ id: 'TB1', name: 'Azure Trust Boundary' }]);
+        // The line boundary separates Web API from the database inside the same border
+        expect(imported.systemModel.dataFlows.map(flow => [flow.id, flow.from, flow.to, flow.crossesBoundary]))
+            .toEqual([['F1', 'EE1', 'P1', undefined], ['F2', 'P1', 'DS1', true]]);
+        expect(imported.threats).toEqual([expect.objectContaining({
+            id: 'T-001',
+            category: 'Spoofing',
+            impact: 'high',
+            elementId: 'F1',
+            elementType: 'data_flow',
+            targetComponent: 'HTTPS request (Browser → Web API)'
+        })]);
+        expect(imported.warnings).toEqual(['Threat "Weak access control for a resource" skipped: marked not applicable']);
+    });
+
+    it('should detect the format and reject other files', () => {
+        expect(importThreatModel(TM7).format).toBe('tm7');
+        expect(() => importThreatModel('threats: []')).toThrow('Unrecognized threat model');
+        expect(() => importThreatModel('{"summary": {}}')).toThrow('Not a Threat Dragon model');
+    });
+});
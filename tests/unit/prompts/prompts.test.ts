@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getPrompt, listPromptDefinitions, type PromptContext } from '../../../src/prompts/index.js';
+import { orchestrateEnhancedPipeline } from '../../../src/orchestrator/enhanced-pipeline.js';
+
+const textOf = (result: Awaited<ReturnType<typeof getPrompt>>) =>
+    result.messages.map(m => m.content.type === 'text' ? m.content.text : m.content.resource.text).join('\n');
+
+describe('MCP Prompts', () => {
+    let context: PromptContext;
+
+    beforeAll(async () => {
+        context = {
+            latestPipeline: await orchestrateEnhancedPipeline({
+                projectDescription: 'Patient health records management with HIPAA compliance',
+                businessGoals: ['Secure PHI storage'],
+                techStack: ['Python', 'PostgreSQL'],
+                targetLanguage: 'python'
+            })
+        };
+    });
+
+    describe('listPromptDefinitions', () => {
+        it('should list the role prompts with their arguments', () => {
+            const prompts = listPromptDefinitions();
+            expect(prompts.map(p => p.name)).toEqual(
+                expect.arrayContaining(['threat-model-review', 'write-user-stories', 'review-adr', 'secure-code-review'])
+            );
+            const codeReview = prompts.find(p => p.name === 'secure-code-review');
+            expect(codeReview?.arguments.find(a => a.name === 'language')?.required).toBe(true);
+        });
+    });
+
+    describe('getPrompt', () => {
+        it('should embed the domain threat catalog as a resource', async () => {
+            const result = await getPrompt('threat-model-review', { domain: 'fintech' });
+            const resources = result.messages.filter(m => m.content.type === 'resource');
+
+            expect(resources.map(m => m.content.type === 'resource' && m.content.resource.uri))
+                .toContain('ssdlc://domains/fintech/threats');
+        });
+
+        it('should include the latest pipeline threats for the same domain', async () => {
+            const result = await getPrompt('threat-model-review', {}, context);
+            const topThreat = context.latestPipeline!.phases.security.threats[0];
+
+            expect(result.description).toContain('healthcare');
+            expect(textOf(result)).toContain(context.latestPipeline!.orchestrationId);
+            expect(textOf(result)).toContain(topThreat.id);
+        });
+
+        it('should not mix in pipeline output from another domain', async () => {
+            const result = await getPrompt('threat-model-review', { domain: 'fintech' }, context);
+            expect(textOf(result)).not.toContain(context.latestPipeline!.orchestrationId);
+        });
+
+        it('should detect the domain from the project description for user stories', async () => {
+            const result = await getPrompt('write-user-stories', { project_description: 'Payment card processing and banking' });
+            expect(result.description).toContain('fintech');
+        });
+
+        it('should render the requested ADR', async () => {
+            const result = await getPrompt('review-adr', { adr_id: 'adr-001' }, context);
+            expect(textOf(result)).toContain('# ADR-001:');
+        });
+
+        it('should require an enhanced pipeline run for ADR review', async () => {
+            await expect(getPrompt('review-adr', {})).rejects.toThrow('orchestrate_enhanced_pipeline');
+        });
+
+        it('should include security rules and the code under review', async () => {
+            const result = await getPrompt('secure-code-review', { language: 'python', code: 'eval(user_input)' }, context);
+            const text = textOf(result);
+            expect(text).toContain('Security rules:');
+            expect(text).toContain('eval(user_input)');
+        });
+
+        it('should reject unknown prompts and missing arguments', async () => {
+            await expect(getPrompt('nope')).rejects.toThrow('Unknown prompt');
+            await expect(getPrompt('secure-code-review', {})).rejects.toThrow('language');
+        });
+    });
+});
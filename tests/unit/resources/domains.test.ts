@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    listDomainResources,
+    readDomainResource,
+    parseDomainResourceUri,
+    watchDomainResources,
+    domainResourceTemplate
+} from '../../../src/resources/index.js';
+
+describe('Domain Resources', () => {
+    describe('listDomainResources', () => {
+        it('should list threat and compliance catalogs per domain', () => {
+            const uris = listDomainResources().map(r => r.uri);
+            expect(uris).toContain('ssdlc://domains/healthcare/threats');
+            expect(uris).toContain('ssdlc://domains/fintech/compliance');
+            expect(uris).toContain('ssdlc://domains/generic/profile');
+        });
+
+        it('should skip sections without a YAML file', () => {
+            const uris = listDomainResources().map(r => r.uri);
+            expect(uris).not.toContain('ssdlc://domains/generic/threats');
+        });
+    });
+
+    describe('parseDomainResourceUri', () => {
+        it('should parse domain and section', () => {
+            expect(parseDomainResourceUri('ssdlc://domains/fintech/threats'))
+                .toEqual({ domain: 'fintech', section: 'threats' });
+        });
+
+        it('should reject unknown sections and schemes', () => {
+            expect(parseDomainResourceUri('ssdlc://domains/fintech/secrets')).toBeUndefined();
+            expect(parseDomainResourceUri('file:///etc/passwd')).toBeUndefined();
+        });
+
+        it('should match the advertised template', () => {
+            expect(domainResourceTemplate.uriTemplate).toBe('ssdlc://domains/{domain}/{section}');
+        });
+    });
+
+    describe('readDomainResource', () => {
+        it('should return the threat catalog as JSON', async () => {
+            const contents = await readDomainResource('ssdlc://domains/healthcare/threats');
+            expect(contents.mimeType).toBe('application/json');
+            const data = JSON.parse(contents.text);
+            expect(data.domain).toBe('healthcare');
+            expect(data.threats.length).toBeGreaterThan(0);
+            expect(data.threats[0]).toHaveProperty('category');
+        });
+
+        it('should return the compliance catalog as JSON', async () => {
+            const data = JSON.parse((await readDomainResource('ssdlc://domains/fintech/compliance')).text);
+            expect(data.regulations.length).toBeGreaterThan(0);
+        });
+
+        it('should fail for missing sections and domains', async () => {
+            await expect(readDomainResource('ssdlc://domains/generic/threats')).rejects.toThrow('no threat catalog');
+            await expect(readDomainResource('ssdlc://domains/nope/profile')).rejects.toThrow('Domain not found');
+        });
+    });
+
+    describe('watchDomainResources', () => {
+        let root: string;
+        let stop: (() => void) | undefined;
+
+        beforeEach(() => {
+            root = mkdtempSync(join(tmpdir(), 'ssdlc-domains-'));
+            mkdirSync(join(root, 'acme'));
+            writeFileSync(join(root, 'acme', 'threats.yaml'), 'threats: []\n');
+        });
+
+        afterEach(() => {
+            stop?.();
+            rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should report the resource URI when a YAML file changes', async () => {
+            const updated = new Promise<string>(resolve => {
+                stop = watchDomainResources({ onUpdated: resolve, onListChanged: () => {} }, [{ source: 'env', path: root }]);
+            });
+
+            writeFileSync(join(root, 'acme', 'threats.yaml'), 'threats:\n  - id: T-1\n');
+
+            await expect(updated).resolves.toBe('ssdlc://domains/acme/threats');
+        });
+
+        it('should report list changes when a domain is added', async () => {
+            const changed = new Promise<void>(resolve => {
+                stop = watchDomainResources({ onUpdated: () => {}, onListChanged: resolve }, [{ source: 'env', path: root }]);
+            });
+
+            mkdirSync(join(root, 'newdomain'));
+
+            await expect(changed).resolves.toBeUndefined();
+        });
+
+        it('should report a list change and keep running when the root is deleted', async () => {
+            const changed = new Promise<void>(resolve => {
+                stop = watchDomainResources({ onUpdated: () => {}, onListChanged: resolve }, [{ source: 'env', path: root }]);
+            });
+
+            rmSync(root, { recursive: true, force: true });
+
+            await expect(changed).resolves.toBeUndefined();
+        });
+
+        it('should report subscribed domains that extend the changed domain', async () => {
+            const profile = (extra: string[]) => [
+                ...extra,
+                'stakeholders:',
+                '  - name: Customer',
+                '    type: end_user',
+                'sensitive_data:',
+                '  - type: Order history',
+                '    level: medium'
+            ].join('\n');
+            writeFileSync(join(root, 'acme', 'domain.yaml'), profile(['keywords: [acme]']));
+            mkdirSync(join(root, 'acmeshop'));
+            writeFileSync(join(root, 'acmeshop', 'domain.yaml'), profile(['keywords: [acme shop]', 'extends: acme']));
+            process.env.SSDLC_DOMAINS_PATH = root;
+
+            const updated: string[] = [];
+            const subscriptions = ['ssdlc://domains/acmeshop/threats', 'ssdlc://domains/acmeshop/compliance', 'ssdlc://domains/healthcare/threats'];
+            try {
+                await new Promise<void>(resolve => {
+                    stop = watchDomainResources({
+                        onUpdated: uri => {
+                            updated.push(uri);
+                            if (uri === subscriptions[0]) resolve();
+                        },
+                        onListChanged: () => {},
+                        subscriptions: () => subscriptions
+                    }, [{ source: 'env', path: root }]);
+                    writeFileSync(join(root, 'acme', 'threats.yaml'), 'threats:\n  - id: AC-T1\n    category: Spoofing\n    name: Fake supplier\n    likelihood: low\n    impact: low\n    mitigation: [Verify suppliers]\n');
+                });
+            } finally {
+                delete process.env.SSDLC_DOMAINS_PATH;
+            }
+
+            expect(updated).toEqual(['ssdlc://domains/acme/threats', 'ssdlc://domains/acmeshop/threats']);
+        });
+    });
+});
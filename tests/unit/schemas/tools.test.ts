@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { listToolDefinitions, validateToolInput, isToolName } from '../../../src/schemas/index.js';
+
+describe('Tool Schemas', () => {
+    describe('listToolDefinitions', () => {
+        it('should advertise an object inputSchema for every tool', () => {
+            const tools = listToolDefinitions();
+
+            expect(tools.length).toBeGreaterThan(0);
+            tools.forEach(tool => {
+                expect(tool.inputSchema.type).toBe('object');
+                expect(tool.inputSchema).not.toHaveProperty('$schema');
+            });
+        });
+
+        it('should advertise an object outputSchema for every tool', () => {
+            listToolDefinitions().forEach(tool => {
+                expect(tool.outputSchema.type).toBe('object');
+            });
+        });
+
+        it('should mark required fields from the zod schema', () => {
+            const tool = listToolDefinitions().find(t => t.name === 'ba_analyze_requirements');
+
+            expect(tool?.inputSchema.required).toEqual(['project_description', 'business_goals']);
+        });
+
+        it('should keep parameter descriptions', () => {
+            const tool = listToolDefinitions().find(t => t.name === 'workspace_snapshot');
+            const properties = tool?.inputSchema.properties as Record<string, any>;
+
+            expect(properties.max_depth.description).toBe('Maximum depth to scan (default: 5)');
+        });
+    });
+
+    describe('isToolName', () => {
+        it('should recognise registered tools only', () => {
+            expect(isToolName('load_domain')).toBe(true);
+            expect(isToolName('drop_tables')).toBe(false);
+            expect(isToolName('toString')).toBe(false);
+        });
+    });
+
+    describe('validateToolInput', () => {
+        it('should report missing required fields by path', () => {
+            const result = validateToolInput('detect_domain', {});
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.issues).toEqual([{ path: 'project_description', message: 'Required' }]);
+            }
+        });
+
+        it('should treat missing arguments as an empty object', () => {
+            const result = validateToolInput('list_domains', undefined);
+
+            expect(result.success).toBe(true);
+        });
+
+        it('should report nested field errors', () => {
+            const result = validateToolInput('qa_design_test_strategy', {
+                threats: [{ id: 'T-001', name: 'Credential Stuffing', category: 'Phishing' }]
+            });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.issues[0].path).toBe('threats.0.category');
+            }
+        });
+
+        it('should reject invalid enum values', () => {
+            const result = validateToolInput('analyze_code_security', { code: 'eval(x)', language: 'cobol' });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.issues[0].path).toBe('language');
+            }
+        });
+
+        it('should apply defaults', () => {
+            const result = validateToolInput('workspace_snapshot', { root_path: '.' });
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data).toEqual({ root_path: '.', max_depth: 5 });
+            }
+        });
+
+        it('should accept a project ID and reject unsafe ones', () => {
+            expect(validateToolInput('qa_design_test_strategy', { project_id: 'ssdlc-1700000000000' }).success).toBe(true);
+            expect(validateToolInput('get_project', { project_id: '../secrets' }).success).toBe(false);
+        });
+
+        it('should keep extra module fields for the threat model', () => {
+            const result = validateToolInput('security_threat_model', {
+                modules: [{ name: 'AuthService', responsibilities: ['Login'] }]
+            });
+
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.modules[0]).toMatchObject({
+                    name: 'AuthService',
+                    type: 'service',
+                    responsibilities: ['Login']
+                });
+            }
+        });
+
+        it('should validate enhanced pipeline start dates', () => {
+            const result = validateToolInput('orchestrate_enhanced_pipeline', {
+                project_description: 'Payment gateway',
+                business_goals: ['Process payments'],
+                tech_stack: ['Node.js'],
+                project_start_date: 'next monday'
+            });
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.issues[0].path).toBe('project_start_date');
+            }
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    saveProject,
+    loadProject,
+    listProjects,
+    saveProjectPhase,
+    updateProjectPhase,
+    getProjectPhase,
+    getProjectStatus,
+    downstreamPhases
+} from '../../../src/store/index.js';
+import { orchestratePipeline, type PipelineInput, type PipelineOutput } from '../../../src/orchestrator/index.js';
+
+describe('Project Store', () => {
+    const input: PipelineInput = {
+        projectDescription: 'Payment processing platform for card transactions',
+        businessGoals: ['Process payments securely'],
+        techStack: ['Node.js', 'PostgreSQL'],
+        targetLanguage: 'typescript'
+    };
+    let pipeline: PipelineOutput;
+    let storeDir: string;
+
+    beforeAll(async () => {
+        pipeline = await orchestratePipeline(input);
+    });
+
+    beforeEach(() => {
+        storeDir = mkdtempSync(join(tmpdir(), 'ssdlc-store-'));
+    });
+
+    afterEach(() => {
+        rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    describe('downstreamPhases', () => {
+        it('should include transitive dependents in pipeline order', () => {
+            expect(downstreamPhases('ba')).toEqual(['techLead', 'security', 'qa', 'pm', 'architecture']);
+            expect(downstreamPhases('security')).toEqual(['qa', 'pm', 'architecture']);
+            expect(downstreamPhases('devops')).toEqual([]);
+        });
+    });
+
+    describe('saveProject', () => {
+        it('should persist every phase keyed by orchestrationId', () => {
+            saveProject(pipeline, input, storeDir);
+
+            expect(existsSync(join(storeDir, 'projects', `${pipeline.orchestrationId}.json`))).toBe(true);
+            const project = loadProject(pipeline.orchestrationId, storeDir);
+            expect(project.domain).toBe(pipeline.domain.name);
+            expect(project.input.techStack).toEqual(input.techStack);
+            expect(getProjectPhase(project, 'techLead').modules.length).toBe(pipeline.phases.techLead.modules.length);
+            expect(getProjectStatus(project).stalePhases).toEqual([]);
+        });
+    });
+
+    describe('saveProjectPhase', () => {
+        it('should mark downstream phases stale', () => {
+            saveProject(pipeline, input, storeDir);
+
+            const record = saveProjectPhase(pipeline.orchestrationId, 'techLead', pipeline.phases.techLead, storeDir);
+            const status = getProjectStatus(record);
+
+            expect(status.stalePhases).toEqual(['security', 'qa']);
+            expect(record.phases.security?.staleReason).toContain('techLead regenerated');
+            expect(record.phases.techLead?.stale).toBe(false);
+            expect(record.phases.devops?.stale).toBe(false);
+        });
+
+        it('should clear staleness when the stale phase is regenerated', () => {
+            saveProject(pipeline, input, storeDir);
+            saveProjectPhase(pipeline.orchestrationId, 'techLead', pipeline.phases.techLead, storeDir);
+
+            const record = saveProjectPhase(pipeline.orchestrationId, 'security', pipeline.phases.security, storeDir);
+
+            expect(getProjectStatus(record).stalePhases).toEqual(['qa']);
+        });
+    });
+
+    describe('updateProjectPhase', () => {
+        it('should replace the output without marking downstream phases stale', () => {
+            saveProject(pipeline, input, storeDir);
+            const security = { ...pipeline.phases.security, recommendations: ['Rotate keys'] };
+
+            const record = updateProjectPhase(pipeline.orchestrationId, 'security', security, storeDir);
+
+            expect(getProjectPhase(loadProject(pipeline.orchestrationId, storeDir), 'security').recommendations).toEqual(['Rotate keys']);
+            expect(getProjectStatus(record).stalePhases).toEqual([]);
+            expect(() => updateProjectPhase(pipeline.orchestrationId, 'pm', {} as never, storeDir)).toThrow('has no pm output');
+        });
+    });
+
+    describe('errors', () => {
+        it('should reject unknown projects and unsafe IDs', () => {
+            expect(() => loadProject('ssdlc-missing', storeDir)).toThrow('Project not found');
+            expect(() => loadProject('../etc/passwd', storeDir)).toThrow('Invalid project ID');
+        });
+
+        it('should report phases a project has not run', () => {
+            const record = saveProject(pipeline, input, storeDir);
+            expect(() => getProjectPhase(record, 'pm')).toThrow('has no pm output');
+        });
+    });
+
+    describe('listProjects', () => {
+        it('should return an empty list without a store', () => {
+            expect(listProjects(join(storeDir, 'missing'))).toEqual([]);
+        });
+
+        it('should list saved projects', () => {
+            saveProject(pipeline, input, storeDir);
+            expect(listProjects(storeDir).map(p => p.id)).toEqual([pipeline.orchestrationId]);
+        });
+    });
+});
@@ -127,6 +127,38 @@ describe('Architecture Tool - ADR Generator', () => {
         });
     });
 
+    describe('recommended tech stack', () => {
+        it('should weigh the domain stack as soft technology drivers', async () => {
+            const domain = await loadDomain('fintech');
+            const result = generateADRs({
+                modules: sampleModules,
+                techStack: ['Go', 'Django'],
+                projectName: 'Payments',
+                domain,
+                constraints: []
+            });
+
+            const drivers = result.decisions[0].decisionDrivers;
+            expect(drivers).toContain(
+                'Soft constraint [technology]: fintech domain recommends languages: Java, Go, Python (Project stack follows it with Go)'
+            );
+            expect(drivers.some(d => d.includes('recommends frameworks') && d.includes('uses none of them'))).toBe(true);
+        });
+
+        it('should add no stack drivers for domains without a recommendation', async () => {
+            const domain = await loadDomain('generic');
+            const result = generateADRs({
+                modules: sampleModules,
+                techStack: ['Go'],
+                projectName: 'Todo',
+                domain,
+                constraints: []
+            });
+
+            expect(result.decisions.flatMap(d => d.decisionDrivers).some(d => d.includes('recommends'))).toBe(false);
+        });
+    });
+
     describe('exportADRAsMarkdown', () => {
         it('should export ADR as markdown', () => {
             const result = generateADRs({
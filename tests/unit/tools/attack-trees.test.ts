@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { generateThreatModel, generateAttackTrees } from '../../../src/tools/security/index.js';
+import { loadDomain } from '../../../src/domains/index.js';
+import type { AttackTreeNode } from '../../../src/types/tools.js';
+import type { SystemModel } from '../../../src/types/tech-lead.js';
+
+function leaves(node: AttackTreeNode): AttackTreeNode[] {
+    return node.children ? node.children.flatMap(leaves) : [node];
+}
+
+describe('Security Tool - Attack Trees', () => {
+    const modules = [{ name: 'PatientController', type: 'controller' as const, classes: [], interfaces: [], dependencies: [] }];
+
+    it('should expand a domain threat along the data flows with its preconditions and CAPEC patterns', async () => {
+        const model = generateThreatModel({ modules, domain: await loadDomain('healthcare') });
+        const breach = model.threats.find(threat => threat.domainThreatId === 'HC-T2');
+        const tree = generateAttackTrees({ threats: model.threats, systemModel: model.systemModel })
+            .find(candidate => candidate.threatId === breach?.id);
+
+        expect(tree).toMatchObject({ goal: breach?.name, risk: 'critical', root: { gate: 'OR' } });
+        expect(tree?.attackTechniques).toEqual(breach?.attackTechniques);
+
+        const way = tree?.root.children?.find(child => child.label === 'Via Patient → PatientController → EHR Database');
+        expect(way).toMatchObject({ id: `${breach?.id}.1`, gate: 'AND', elementId: 'DS1' });
+
+        const steps = leaves(way!);
+        expect(steps.filter(step => step.precondition).map(step => step.label)).toEqual(breach?.preconditions);
+        expect(steps.filter(step => step.capec).map(step => step.capec)).toEqual(breach?.capec);
+        for (const step of steps) {
+            expect(Object.keys(step)).not.toContain('name');
+            expect(step).toMatchObject({ cost: expect.any(String), skill: expect.any(String), detectability: expect.any(String) });
+        }
+    });
+
+    it('should pick the cheapest path through AND and OR nodes', async () => {
+        const model = generateThreatModel({ modules, domain: await loadDomain('healthcare') });
+        const tree = generateAttackTrees({ threats: model.threats, systemModel: model.systemModel })
+            .find(candidate => candidate.threatId === model.threats.find(threat => threat.domainThreatId === 'HC-T2')?.id);
+
+        expect(tree?.cheapestPath).toMatchObject({ cost: 4, skill: 'high', detectability: 'low' });
+        expect(tree?.cheapestPath.steps.map(step => step.label)).toEqual([
+            'Intercept traffic between PatientController and FHIR API (interoperability)',
+            'Over-broad database or API permissions',
+            'PHI stored or exported unencrypted',
+            'Privilege abuse (CAPEC-122)'
+        ]);
+        for (const step of tree!.cheapestPath.steps) {
+            expect(tree?.mermaid).toContain(step.id.replace(/[^A-Za-z0-9]/g, '_'));
+        }
+        expect(tree?.mermaid).toMatch(/^```mermaid\nflowchart TD\n/);
+        expect(tree?.mermaid).toContain('classDef cheapest');
+    });
+
+    it('should follow only the three shortest paths to the target', () => {
+        const processes = ['A', 'B', 'C', 'D'];
+        const systemModel: SystemModel = {
+            elements: [
+                { id: 'EE1', name: 'Client', type: 'external_entity' },
+                ...processes.map(name => ({ id: `P${name}`, name, type: 'process' as const, boundary: 'TB1' })),
+                { id: 'DS1', name: 'Store', type: 'data_store', boundary: 'TB1' }
+            ],
+            dataFlows: [
+                { id: 'F0', name: 'Forward', from: 'PA', to: 'PB' },
+                ...processes.flatMap(name => [
+                    { id: `FI${name}`, name: `Call ${name}`, from: 'EE1', to: `P${name}` },
+                    { id: `FO${name}`, name: `Write ${name}`, from: `P${name}`, to: 'DS1' }
+                ])
+            ],
+            trustBoundaries: [{ id: 'TB1', name: 'Application' }]
+        };
+        const { threats } = generateThreatModel({ modules: [], systemModel });
+        const store = threats.find(threat => threat.elementId === 'DS1');
+        const tree = generateAttackTrees({ threats: [{ ...store!, riskVector: 'L:H/I:C' }], systemModel })[0];
+
+        expect(tree?.root.children?.map(child => child.label)).toEqual(['Via Client → A → Store', 'Via Client → B → Store', 'Via Client → C → Store']);
+    });
+
+    it('should not walk the model when no external entity reaches the target', () => {
+        const processes = Array.from({ length: 20 }, (_, index) => `P${index + 1}`);
+        const systemModel: SystemModel = {
+            elements: [
+                { id: 'EE1', name: 'Client', type: 'external_entity' },
+                ...processes.map(id => ({ id, name: `Service ${id}`, type: 'process' as const })),
+                { id: 'PX', name: 'Batch Job', type: 'process' }
+            ],
+            dataFlows: [
+                { id: 'FX', name: 'Report', from: 'PX', to: 'P1' },
+                ...processes.map(to => ({ id: `F-EE1-${to}`, name: 'Request', from: 'EE1', to })),
+                ...processes.flatMap(from => processes.filter(to => to !== from).map(to => ({ id: `F-${from}-${to}`, name: 'Call', from, to })))
+            ],
+            trustBoundaries: []
+        };
+        const threat = generateThreatModel({ modules: [], systemModel }).threats.find(candidate => candidate.elementId === 'PX');
+
+        // Walking every simple path of this model takes seconds; without a path the tree falls back to the threat's techniques
+        const started = Date.now();
+        const [tree] = generateAttackTrees({ threats: [{ ...threat!, riskVector: 'L:H/I:C' }], systemModel });
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(tree?.root.children?.some(child => child.label.startsWith('Via '))).toBe(false);
+    });
+
+    it('should only expand threats at or above the minimum risk', () => {
+        const model = generateThreatModel({ modules });
+        const threats = model.threats.map((threat, index) => ({ ...threat, riskVector: index === 0 ? 'L:H/I:C' : 'L:L/I:L' }));
+
+        expect(generateAttackTrees({ threats, minRisk: 'critical' }).map(tree => tree.threatId)).toEqual([threats[0].id]);
+        expect(generateAttackTrees({ threats: threats.slice(1) })).toEqual([]);
+    });
+
+    it('should build trees from CAPEC patterns without a system model', () => {
+        const [tree] = generateAttackTrees({
+            threats: [{
+                id: 'T-001',
+                category: 'Tampering',
+                name: 'SQL injection',
+                description: '',
+                targetComponent: 'OrderRepository',
+                likelihood: 'high',
+                impact: 'critical',
+                riskScore: 9,
+                capec: ['CAPEC-66'],
+                mitigation: []
+            }]
+        });
+
+        expect(tree.root.children).toHaveLength(1);
+        expect(leaves(tree.root).map(leaf => leaf.capec)).toEqual(['CAPEC-66']);
+        expect(tree.cheapestPath.steps).toEqual([{ id: 'T-001.1.1.1', label: 'SQL injection (CAPEC-66)' }]);
+    });
+});
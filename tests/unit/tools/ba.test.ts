@@ -67,5 +67,35 @@ describe('BA Tool - Requirements Analyzer', () => {
             expect(result.securityRequirements).toBeDefined();
             expect(result.securityRequirements.length).toBeGreaterThan(0);
         });
+
+        it('should map standard requirements to crosswalked controls of the domain regulations', async () => {
+            const domain = await loadDomain('healthcare');
+            const result = analyzeRequirements({
+                projectDescription: 'Patient portal',
+                businessGoals: ['View medical records'],
+                domain
+            });
+
+            const logging = result.securityRequirements.find(req => req.category === 'Logging');
+            expect(logging?.complianceMapping).toEqual(['HIPAA 164.312(b)', 'HITECH']);
+        });
+
+        it('should turn domain-specific requirements into security requirements', async () => {
+            const domain = await loadDomain('fintech');
+            const result = analyzeRequirements({
+                projectDescription: 'PCI-DSS compliant payment gateway',
+                businessGoals: ['Process credit card payments'],
+                domain
+            });
+
+            const domainReqs = result.securityRequirements.filter(req => req.category === 'Domain');
+            expect(domainReqs.map(req => req.requirement)).toEqual(domain.domain.domainSpecificRequirements);
+            expect(domainReqs[0]).toMatchObject({
+                requirement: 'MUST comply with PCI DSS 4.0 for card processing',
+                priority: 'critical',
+                complianceMapping: ['PCI-DSS']
+            });
+            expect(domainReqs.find(req => req.requirement.startsWith('SHOULD'))?.priority).toBe('high');
+        });
     });
 });
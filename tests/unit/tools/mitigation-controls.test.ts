@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { generateThreatModel, updateControl } from '../../../src/tools/security/index.js';
+import { loadDomain } from '../../../src/domains/index.js';
+import type { TestCase } from '../../../src/types/tools.js';
+
+describe('Security Tool - Mitigation Controls', () => {
+    const modules = [{ name: 'PatientController', type: 'controller' as const, classes: [], interfaces: [], dependencies: [] }];
+
+    async function healthcareModel() {
+        return generateThreatModel({ modules, domain: await loadDomain('healthcare') });
+    }
+
+    function testCase(id: string, relatedTo: string): TestCase {
+        return { id, category: 'Security', title: 'Verify', relatedTo, priority: 'high', testSteps: [], expectedResult: '', automated: true, toolsRequired: [] };
+    }
+
+    describe('generateThreatModel', () => {
+        it('should track each distinct mitigation as a planned control', async () => {
+            const result = await healthcareModel();
+            const breach = result.threats.find(threat => threat.domainThreatId === 'HC-T2');
+            const controls = result.controls?.filter(control => breach?.controls?.includes(control.id));
+
+            expect(controls?.map(control => control.name)).toEqual(breach?.mitigation);
+            for (const control of controls ?? []) {
+                expect(control).toMatchObject({ id: expect.stringMatching(/^C-\d{3}$/), status: 'planned', threatIds: [breach?.id] });
+            }
+            expect(new Set(result.controls?.map(control => control.name.toLowerCase())).size).toBe(result.controls?.length);
+            expect(breach).toMatchObject({ residualRiskScore: breach?.riskScore, residualRisk: 'critical' });
+        });
+
+        it('should link controls to the compliance requirements of the domain', async () => {
+            const result = await healthcareModel();
+            const byName = (name: string) => result.controls?.find(control => control.name === name);
+
+            // Named in the mitigation description, then matched on the requirement name
+            expect(byName('Audit logging')?.complianceRequirement).toBe('HIPAA 164.312(b)');
+            expect(byName('Access controls')?.complianceRequirement).toBe('HIPAA 164.312(a)');
+            expect(byName('MFA')).not.toHaveProperty('complianceRequirement');
+        });
+
+        it('should keep tracked controls when the threat model is regenerated', async () => {
+            const first = await healthcareModel();
+            const tracked = first.controls!.map(control => control.name === 'MFA' ? { ...control, status: 'implemented' as const, owner: 'iam-team' } : control);
+
+            const result = generateThreatModel({ modules, domain: await loadDomain('healthcare'), controls: tracked });
+            const mfa = result.controls?.find(control => control.name === 'MFA');
+            const impersonation = result.threats.find(threat => threat.domainThreatId === 'HC-T1');
+
+            expect(mfa).toMatchObject({ id: first.controls?.find(control => control.name === 'MFA')?.id, status: 'implemented', owner: 'iam-team' });
+            expect(impersonation?.residualRiskScore).toBeLessThan(impersonation!.riskScore);
+        });
+    });
+
+    describe('updateControl', () => {
+        it('should recompute residual risk from implemented and verified controls', async () => {
+            const security = await healthcareModel();
+            const breach = security.threats.find(threat => threat.domainThreatId === 'HC-T2')!;
+            const [first, second, third] = breach.controls!;
+
+            let updated = updateControl(security, first!, { status: 'implemented' }).security;
+            let threat = updated.threats.find(candidate => candidate.id === breach.id);
+            expect(threat?.residualRiskScore).toBeCloseTo(breach.riskScore * (1 - 0.8 / 3), 1);
+
+            updated = updateControl(updated, second!, { status: 'implemented' }).security;
+            updated = updateControl(updated, third!, { status: 'implemented', owner: 'sec-team' }).security;
+            threat = updated.threats.find(candidate => candidate.id === breach.id);
+            expect(threat).toMatchObject({ residualRiskScore: 1.8, residualRisk: 'low' });
+            expect(updated.riskMatrix.find(item => item.threatId === breach.id)).toMatchObject({ residualScore: 1.8, residualRisk: 'low' });
+            expect(updated.controls?.find(control => control.id === third)?.owner).toBe('sec-team');
+            expect(security.controls?.every(control => control.status === 'planned')).toBe(true);
+        });
+
+        it('should link a verified control to a test case of one of its threats', async () => {
+            const security = await healthcareModel();
+            const breach = security.threats.find(threat => threat.domainThreatId === 'HC-T2')!;
+            const controlId = breach.controls![0]!;
+            const testCases = [testCase('TC-001', 'T-001'), testCase('TC-002', breach.id)];
+
+            expect(updateControl(security, controlId, { status: 'verified' }, testCases).control.testCaseId).toBe('TC-002');
+            expect(updateControl(security, controlId, { status: 'verified', testCaseId: 'TC-001' }, testCases).control.testCaseId).toBe('TC-001');
+            expect(() => updateControl(security, controlId, { status: 'verified' })).toThrow('cannot be verified without a test case');
+            expect(() => updateControl(security, controlId, { testCaseId: 'TC-404' }, testCases)).toThrow('TC-404 is not in the project');
+            expect(() => updateControl(security, 'C-999', { status: 'implemented' })).toThrow('Control not found: C-999');
+        });
+    });
+});
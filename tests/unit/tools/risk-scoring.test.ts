@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { generateThreatModel, scoreThreat, scoreVector, RISK_SCORING_METHODS } from '../../../src/tools/security/index.js';
+import { loadDomain } from '../../../src/domains/index.js';
+
+describe('Security Tool - Risk Scoring', () => {
+    describe('scoreVector', () => {
+        it('should score CVSS v3.1 vectors', () => {
+            expect(scoreVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toMatchObject({ method: 'cvss-3.1', riskScore: 9.8, risk: 'critical' });
+            expect(scoreVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toMatchObject({ riskScore: 6.1, risk: 'medium' });
+            expect(scoreVector('CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H')).toMatchObject({ riskScore: 7.8, risk: 'high' });
+        });
+
+        it('should score CVSS v4.0 vectors', () => {
+            expect(scoreVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toMatchObject({ method: 'cvss-4.0', riskScore: 9.3, risk: 'critical' });
+            expect(scoreVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:L/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toMatchObject({ riskScore: 8.7, risk: 'high' });
+            expect(scoreVector('CVSS:4.0/AV:L/AC:L/AT:N/PR:L/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toMatchObject({ riskScore: 8.5 });
+            expect(scoreVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:L/VI:N/VA:N/SC:N/SI:N/SA:N')).toMatchObject({ riskScore: 6.9, risk: 'medium' });
+            expect(scoreVector('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N/VC:N/VI:N/VA:N/SC:N/SI:N/SA:N').riskScore).toBe(0);
+        });
+
+        it('should rate OWASP Risk Rating factors with the likelihood and impact matrix', () => {
+            // likelihood 5.875 (medium), business impact 6.5 (high)
+            expect(scoreVector('SL:5/M:4/O:7/S:5/ED:7/EE:5/A:6/ID:8/LC:2/LI:1/LAV:1/LAC:1/FD:7/RD:5/NC:7/PV:7'))
+                .toMatchObject({ method: 'owasp', riskScore: 4.7, risk: 'high' });
+            expect(scoreVector('(SL:1/M:1/O:0/S:2/ED:3/EE:3/A:4/ID:9/LC:2/LI:1/LAV:1/LAC:1/FD:1/RD:1/NC:2/PV:3)'))
+                .toMatchObject({ risk: 'low' });
+        });
+
+        it('should average DREAD ratings', () => {
+            expect(scoreVector('DA:8/R:10/E:7/A:10/DI:10')).toMatchObject({ method: 'dread', riskScore: 9, risk: 'critical' });
+        });
+
+        it('should reject malformed vectors', () => {
+            expect(() => scoreVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H')).toThrow('missing A');
+            expect(() => scoreVector('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toThrow('AV:X is not a CVSS:3.1 metric');
+            expect(() => scoreVector('DA:11/R:1/E:1/A:1/DI:1')).toThrow('DA:11');
+            expect(() => scoreVector('9.8')).toThrow('Unrecognized risk vector');
+        });
+    });
+
+    describe('scoreThreat', () => {
+        const threat = { category: 'Elevation of Privilege' as const, likelihood: 'medium' as const, impact: 'high' as const };
+
+        it('should derive a vector for every method', () => {
+            expect(scoreThreat(threat, 'cvss-3.1')).toEqual({
+                riskVector: 'CVSS:3.1/AV:A/AC:L/PR:L/UI:N/S:C/C:H/I:H/A:H',
+                riskScore: 9,
+                risk: 'critical'
+            });
+            for (const method of RISK_SCORING_METHODS) {
+                const scored = scoreThreat(threat, method);
+                expect(scoreVector(scored.riskVector)).toMatchObject({ method, riskScore: scored.riskScore });
+            }
+        });
+
+        it('should keep the legacy likelihood x impact score', () => {
+            expect(scoreThreat(threat, 'likelihood-impact')).toMatchObject({ riskVector: 'L:M/I:H', risk: 'high' });
+            expect(scoreThreat(threat, 'likelihood-impact').riskScore).toBeCloseTo(6.6);
+        });
+
+        it('should reject a vector of another method', () => {
+            expect(() => scoreThreat(threat, 'cvss-4.0', 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'))
+                .toThrow('is not a cvss-4.0 vector');
+        });
+    });
+
+    describe('generateThreatModel', () => {
+        const modules = [{ name: 'PatientController', type: 'controller' as const, classes: [], interfaces: [], dependencies: [] }];
+
+        it('should score threats and build the risk matrix with the chosen method', async () => {
+            const result = generateThreatModel({
+                modules,
+                domain: await loadDomain('healthcare'),
+                riskScoring: 'cvss-3.1',
+                riskVectors: { 'HC-T2': 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N' }
+            });
+
+            expect(result.riskScoring).toBe('cvss-3.1');
+            for (const threat of result.threats) {
+                expect(threat.riskVector).toMatch(/^CVSS:3\.1\//);
+            }
+            const assessed = result.threats.find(threat => threat.domainThreatId === 'HC-T2');
+            expect(assessed).toMatchObject({ riskVector: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N', riskScore: 6.5 });
+            expect(result.riskMatrix.find(item => item.threatId === assessed?.id))
+                .toMatchObject({ score: 6.5, vector: assessed?.riskVector, risk: 'medium' });
+        });
+
+        it('should default to likelihood x impact', () => {
+            const result = generateThreatModel({ modules });
+
+            expect(result.riskScoring).toBe('likelihood-impact');
+            expect(result.threats[0]?.riskVector).toMatch(/^L:[LMH]\/I:[LMHC]$/);
+        });
+
+        it('should carry assessed vectors over to a regenerated threat model', async () => {
+            const domain = await loadDomain('healthcare');
+            const vector = 'CVSS:3.1/AV:N/AC:H/PR:H/UI:R/S:U/C:L/I:N/A:N';
+            const first = generateThreatModel({ modules, domain, riskScoring: 'cvss-3.1', riskVectors: { 'T-001': vector, 'HC-T2': vector } });
+            const derived = generateThreatModel({ modules, domain, riskScoring: 'cvss-3.1' });
+
+            const result = generateThreatModel({ modules, domain, riskScoring: 'cvss-3.1', previousThreats: first.threats });
+            const vectorOf = (domainThreatId?: string) => result.threats.find(threat => threat.domainThreatId === domainThreatId)?.riskVector;
+
+            expect(result.threats[0]?.riskVector).toBe(vector);
+            expect(vectorOf('HC-T2')).toBe(vector);
+            expect(vectorOf('HC-T1')).toBe(derived.threats.find(threat => threat.domainThreatId === 'HC-T1')?.riskVector);
+
+            // Vectors passed with the request win, and vectors of another method are dropped
+            const overridden = generateThreatModel({ modules, domain, riskScoring: 'cvss-3.1', previousThreats: first.threats, riskVectors: { 'HC-T2': 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' } });
+            expect(overridden.threats.find(threat => threat.domainThreatId === 'HC-T2')?.riskScore).toBe(9.8);
+            expect(generateThreatModel({ modules, domain, riskScoring: 'dread', previousThreats: first.threats }).threats[0]?.riskVector).toMatch(/^DA:/);
+        });
+    });
+});
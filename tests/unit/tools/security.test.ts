@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { generateThreatModel } from '../../../src/tools/security/index.js';
+import { generateThreatModel, validateSystemModel } from '../../../src/tools/security/index.js';
+import type { SystemModel } from '../../../src/types/tech-lead.js';
 import { loadDomain } from '../../../src/domains/index.js';
 
 describe('Security Tool - Threat Model Generator', () => {
@@ -70,6 +71,69 @@ describe('Security Tool - Threat Model Generator', () => {
             expect(result.threats.length).toBeGreaterThan(0);
         });
 
+        it('should carry CWE, CAPEC and ATT&CK references from threats.yaml', async () => {
+            const domain = await loadDomain('healthcare');
+            const result = generateThreatModel({ modules: sampleModules, domain });
+
+            const breach = result.threats.find(threat => threat.domainThreatId === 'HC-T2');
+            expect(breach).toMatchObject({
+                cwe: 'CWE-359',
+                capec: ['CAPEC-122', 'CAPEC-116'],
+                attackTechniques: ['T1213', 'T1530', 'T1567'],
+                targetComponent: 'EHR Database, FHIR API',
+                mitigation: ['Encryption at rest and in transit', 'Access controls', 'Audit logging']
+            });
+        });
+
+        it('should tie each threat to an element or data flow of the system model', () => {
+            const result = generateThreatModel({ modules: sampleModules });
+
+            const ids = new Set([
+                ...result.systemModel!.elements.map(element => element.id),
+                ...result.systemModel!.dataFlows.map(flow => flow.id)
+            ]);
+            expect(result.threats.every(threat => threat.elementId && ids.has(threat.elementId))).toBe(true);
+
+            // The entry process faces users across a boundary: every STRIDE category, Repudiation included
+            const entry = result.threats.filter(threat => threat.elementId === 'P1').map(threat => threat.category);
+            expect(entry).toEqual(['Spoofing', 'Tampering', 'Repudiation', 'Information Disclosure', 'Denial of Service', 'Elevation of Privilege']);
+        });
+
+        it('should apply STRIDE per interaction where flows cross trust boundaries', () => {
+            const systemModel: SystemModel = {
+                elements: [
+                    { id: 'EE1', name: 'Merchant', type: 'external_entity' },
+                    { id: 'P1', name: 'Gateway', type: 'process', boundary: 'TB1' },
+                    { id: 'P2', name: 'Ledger', type: 'process', boundary: 'TB1' },
+                    { id: 'DS1', name: 'Audit Log', type: 'data_store', boundary: 'TB2' }
+                ],
+                dataFlows: [
+                    { id: 'F1', name: 'Payment request', from: 'EE1', to: 'P1', data: ['Card Number'], encrypted: true },
+                    { id: 'F2', name: 'Post entry', from: 'P1', to: 'P2' },
+                    { id: 'F3', name: 'Audit events', from: 'P2', to: 'DS1' }
+                ],
+                trustBoundaries: [{ id: 'TB1', name: 'Application' }, { id: 'TB2', name: 'Data Tier' }]
+            };
+
+            const { threats } = generateThreatModel({ modules: [], systemModel });
+            const on = (id: string) => threats.filter(threat => threat.elementId === id);
+
+            expect(on('F1').map(threat => threat.category)).toEqual(['Tampering', 'Information Disclosure', 'Denial of Service']);
+            expect(on('F1')[0]).toMatchObject({ elementType: 'data_flow', likelihood: 'medium', targetComponent: 'Payment request (Merchant → Gateway)' });
+            expect(on('F2')).toEqual([]);
+            expect(on('P2').map(threat => threat.category)).toEqual(['Spoofing', 'Tampering', 'Repudiation', 'Information Disclosure', 'Denial of Service', 'Elevation of Privilege']);
+            expect(on('P2').every(threat => threat.likelihood === 'low')).toBe(true);
+            expect(on('DS1').map(threat => threat.category)).toContain('Repudiation');
+        });
+
+        it('should reject data flows to unknown elements', () => {
+            expect(() => validateSystemModel({
+                elements: [{ id: 'P1', name: 'API', type: 'process' }],
+                dataFlows: [{ id: 'F1', name: 'Query', from: 'P1', to: 'DS9' }],
+                trustBoundaries: []
+            })).toThrow('data flow F1 references unknown element DS9');
+        });
+
         it('should include risk scores', () => {
             const result = generateThreatModel({
                 modules: sampleModules,
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { techLeadDesign } from '../../../src/tools/tech-lead/index.js';
 import type { UserStory } from '../../../src/tools/tech-lead/index.js';
+import { loadDomain } from '../../../src/domains/index.js';
 
 describe('Tech Lead Tool', () => {
     const sampleUserStories: UserStory[] = [
@@ -98,5 +99,49 @@ describe('Tech Lead Tool', () => {
             expect(result.flows).toBeDefined();
             expect(Array.isArray(result.flows)).toBe(true);
         });
+
+        it('should draw the domain data flows and integration points', async () => {
+            const result = await techLeadDesign({
+                userStories: sampleUserStories,
+                targetLanguage: 'typescript',
+                domain: await loadDomain('healthcare')
+            });
+
+            const dfd = result.dataFlowDiagrams!;
+            expect(dfd.domainFlows?.map(flow => flow.name)).toEqual([
+                'Patient Registration & Consent',
+                'Provider Orders Lab Test'
+            ]);
+            expect(dfd.domainFlows?.[0].diagram).toContain('S1["1. Patient provides personal info + insurance"]');
+            expect(dfd.domainFlows?.[0].diagram).toContain('Role-based access control (RBAC)');
+            expect(dfd.level0).toContain('Insurance Eligibility API');
+            expect(dfd.level0).toContain('EHR Database');
+        });
+
+        it('should derive a system model with trust boundaries from the domain', async () => {
+            const result = await techLeadDesign({
+                userStories: sampleUserStories,
+                targetLanguage: 'typescript',
+                domain: await loadDomain('healthcare')
+            });
+
+            const model = result.dataFlowDiagrams!.model!;
+            const byName = (name: string) => model.elements.find(element => element.name === name);
+            expect(byName('Patient')).toMatchObject({ type: 'external_entity', boundary: undefined });
+            expect(byName('Compliance Officer')?.boundary).toBe('TB3');
+            expect(byName('EHR Database')).toMatchObject({ type: 'data_store', boundary: 'TB2', sensitiveData: expect.arrayContaining(['PHI']) });
+            expect(model.dataFlows.find(flow => flow.to === byName('Insurance Eligibility API')?.id))
+                .toMatchObject({ protocol: 'REST/HTTPS', encrypted: true, authenticated: true });
+            expect(model.trustBoundaries.map(boundary => boundary.name)).toEqual(['Application', 'Data Tier', 'Corporate Network']);
+        });
+
+        it('should load the domain from its name', async () => {
+            const result = await techLeadDesign({
+                userStories: sampleUserStories,
+                domainName: 'fintech'
+            });
+
+            expect(result.dataFlowDiagrams?.domainFlows?.[0].name).toBe('Card Payment Flow');
+        });
     });
 });